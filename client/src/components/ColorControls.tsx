@@ -1,17 +1,35 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Box, Typography, Paper } from '@mui/material';
+import React, { useState } from 'react';
+import { Box, Typography, Paper, ToggleButton, Tooltip } from '@mui/material';
 import Grid from "@mui/material/Grid";
-import { ColorLens, Palette, Thermostat } from '@mui/icons-material';
+import { ColorLens, Colorize, Thermostat } from '@mui/icons-material';
 import Slider from 'rc-slider';
 import { SketchPicker, ColorResult } from 'react-color';
-import { ImageAdjustments } from '../types';
+import { MAX_KELVIN, MIN_KELVIN, NEUTRAL_KELVIN, toKelvin } from 'lightroom-clone-shared';
+import { HslProperty, ImageAdjustments } from '../types';
+import ColorMixer from './ColorMixer';
+import ColorGradingControls from './ColorGradingControls';
 import 'rc-slider/assets/index.css';
 
 interface ColorControlsProps {
   adjustments: ImageAdjustments;
   onAdjustmentsChange: (adjustments: Partial<ImageAdjustments>) => void;
+  targetHslProperty: HslProperty | null;
+  onTargetHslPropertyChange: (property: HslProperty | null) => void;
+  // The white balance eyedropper samples the next click on the photo
+  pickingWhiteBalance: boolean;
+  onPickingWhiteBalanceChange: (picking: boolean) => void;
 }
 
+// Temperature slider positions; Kelvin is spread logarithmically so the
+// range around daylight isn't squeezed into a sliver
+const KELVIN_STEPS = 1000;
+
+const kelvinToPosition = (kelvin: number) =>
+  Math.round((Math.log(kelvin / MIN_KELVIN) / Math.log(MAX_KELVIN / MIN_KELVIN)) * KELVIN_STEPS);
+
+const positionToKelvin = (position: number) =>
+  Math.round(MIN_KELVIN * Math.pow(MAX_KELVIN / MIN_KELVIN, position / KELVIN_STEPS) / 10) * 10;
+
 interface HSVColor {
   h: number;
   s: number;
@@ -20,87 +38,15 @@ interface HSVColor {
 
 const ColorControls: React.FC<ColorControlsProps> = ({
   adjustments,
-  onAdjustmentsChange
+  onAdjustmentsChange,
+  targetHslProperty,
+  onTargetHslPropertyChange,
+  pickingWhiteBalance,
+  onPickingWhiteBalanceChange
 }) => {
-  const colorWheelRef = useRef<HTMLCanvasElement>(null);
+  const kelvin = toKelvin(adjustments.temperature);
   const [selectedColor, setSelectedColor] = useState('#ffffff');
   const [showColorPicker, setShowColorPicker] = useState(false);
-  const [colorWheelCenter, setColorWheelCenter] = useState({ x: 150, y: 150 });
-  const [colorWheelRadius, setColorWheelRadius] = useState(100);
-
-  // Draw color wheel
-  useEffect(() => {
-    if (!colorWheelRef.current) return;
-
-    const canvas = colorWheelRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2;
-    const radius = Math.min(centerX, centerY) - 20;
-
-    setColorWheelCenter({ x: centerX, y: centerY });
-    setColorWheelRadius(radius);
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Draw color wheel
-    for (let angle = 0; angle < 360; angle += 1) {
-      const startAngle = (angle - 1) * Math.PI / 180;
-      const endAngle = angle * Math.PI / 180;
-
-      for (let r = 0; r < radius; r += 1) {
-        const saturation = r / radius;
-        const hue = angle;
-        const lightness = 0.5;
-
-        ctx.beginPath();
-        ctx.arc(centerX, centerY, r, startAngle, endAngle);
-        ctx.strokeStyle = `hsl(${hue}, ${saturation * 100}%, ${lightness * 100}%)`;
-        ctx.stroke();
-      }
-    }
-
-    // Draw center circle (white point)
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, 8, 0, 2 * Math.PI);
-    ctx.fillStyle = '#ffffff';
-    ctx.fill();
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = 2;
-    ctx.stroke();
-
-  }, []);
-
-  const handleColorWheelClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = colorWheelRef.current;
-    if (!canvas) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
-
-    const dx = x - colorWheelCenter.x;
-    const dy = y - colorWheelCenter.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    if (distance <= colorWheelRadius) {
-      const angle = Math.atan2(dy, dx) * 180 / Math.PI;
-      const hue = (angle + 360) % 360;
-      const saturation = Math.min(distance / colorWheelRadius, 1);
-
-      // Update temperature and tint based on color wheel position
-      const temperature = Math.cos(hue * Math.PI / 180) * saturation * 100;
-      const tint = Math.sin(hue * Math.PI / 180) * saturation * 100;
-
-      onAdjustmentsChange({
-        temperature: adjustments.temperature + temperature * 0.1,
-        tint: adjustments.tint + tint * 0.1
-      });
-    }
-  };
 
   const handleSliderChange = (key: keyof ImageAdjustments, value: number) => {
     onAdjustmentsChange({ [key]: value });
@@ -113,7 +59,7 @@ const ColorControls: React.FC<ColorControlsProps> = ({
     const { h, s, v } = (color as ColorResult & { hsv: HSVColor }).hsv;
 
     onAdjustmentsChange({
-      temperature: adjustments.temperature + (h - 180) * 0.1,
+      temperature: Math.round(kelvin * Math.pow(2, (h - 180) / 1000)),
       tint: adjustments.tint + (s - 0.5) * 50,
       saturation: adjustments.saturation + (s - 0.5) * 100,
       vibrance: adjustments.vibrance + (v - 0.5) * 100
@@ -122,7 +68,7 @@ const ColorControls: React.FC<ColorControlsProps> = ({
 
   const resetColorAdjustments = () => {
     onAdjustmentsChange({
-      temperature: 0,
+      temperature: NEUTRAL_KELVIN,
       tint: 0,
       vibrance: 0,
       saturation: 0
@@ -140,21 +86,33 @@ const ColorControls: React.FC<ColorControlsProps> = ({
         {/* Basic Color Adjustments */}
         <Grid container spacing={3}>
           <Paper sx={{ p: 2, bgcolor: 'background.paper' }}>
-            <Typography variant="subtitle1" gutterBottom>
-              <Thermostat sx={{ mr: 1, verticalAlign: 'middle' }} />
-              Basic
-            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+              <Typography variant="subtitle1">
+                <Thermostat sx={{ mr: 1, verticalAlign: 'middle' }} />
+                Basic
+              </Typography>
+              <Tooltip title="White balance selector: click something neutral in the photo">
+                <ToggleButton
+                  value="eyedropper"
+                  size="small"
+                  selected={pickingWhiteBalance}
+                  onChange={() => onPickingWhiteBalanceChange(!pickingWhiteBalance)}
+                >
+                  <Colorize fontSize="small" />
+                </ToggleButton>
+              </Tooltip>
+            </Box>
 
             <Box sx={{ mb: 3 }}>
               <Typography variant="body2" gutterBottom>
-                Temperature: {adjustments.temperature.toFixed(0)}K
+                Temperature: {kelvin.toFixed(0)}K
               </Typography>
               <Box sx={{ position: 'relative' }}>
                 <Slider
-                  value={adjustments.temperature}
-                  min={-1000}
-                  max={1000}
-                  onChange={(value) => handleSliderChange('temperature', value as number)}
+                  value={kelvinToPosition(kelvin)}
+                  min={0}
+                  max={KELVIN_STEPS}
+                  onChange={(value) => handleSliderChange('temperature', positionToKelvin(value as number))}
                   trackStyle={{
                     background: 'linear-gradient(to right, #0066cc, #ffffff, #ffaa00)',
                     height: 8
@@ -230,99 +188,20 @@ const ColorControls: React.FC<ColorControlsProps> = ({
             </Box>
           </Paper>
 
-          {/* HSL Fine Controls */}
-          <Paper sx={{ p: 2, mt: 2, bgcolor: 'background.paper' }}>
-            <Typography variant="subtitle1" gutterBottom>
-              HSL Fine Tuning
-            </Typography>
-
-            <Box sx={{ mb: 2 }}>
-              <Typography variant="body2" gutterBottom color="error">
-                Red Hue: {(adjustments.hslAdjustments?.red?.hue || 0).toFixed(0)}
-              </Typography>
-              <Slider
-                value={adjustments.hslAdjustments?.red?.hue || 0}
-                min={-180}
-                max={180}
-                onChange={(value) => onAdjustmentsChange({
-                  hslAdjustments: {
-                    ...adjustments.hslAdjustments,
-                    red: { ...adjustments.hslAdjustments?.red, hue: value as number }
-                  }
-                })}
-                trackStyle={{ backgroundColor: '#f44336' }}
-                handleStyle={{ borderColor: '#f44336' }}
-                railStyle={{ backgroundColor: '#555' }}
-              />
-            </Box>
-
-            <Box sx={{ mb: 2 }}>
-              <Typography variant="body2" gutterBottom color="success.main">
-                Green Hue: {(adjustments.hslAdjustments?.green?.hue || 0).toFixed(0)}
-              </Typography>
-              <Slider
-                value={adjustments.hslAdjustments?.green?.hue || 0}
-                min={-180}
-                max={180}
-                onChange={(value) => onAdjustmentsChange({
-                  hslAdjustments: {
-                    ...adjustments.hslAdjustments,
-                    green: { ...adjustments.hslAdjustments?.green, hue: value as number }
-                  }
-                })}
-                trackStyle={{ backgroundColor: '#4caf50' }}
-                handleStyle={{ borderColor: '#4caf50' }}
-                railStyle={{ backgroundColor: '#555' }}
-              />
-            </Box>
-
-            <Box sx={{ mb: 2 }}>
-              <Typography variant="body2" gutterBottom color="primary">
-                Blue Hue: {(adjustments.hslAdjustments?.blue?.hue || 0).toFixed(0)}
-              </Typography>
-              <Slider
-                value={adjustments.hslAdjustments?.blue?.hue || 0}
-                min={-180}
-                max={180}
-                onChange={(value) => onAdjustmentsChange({
-                  hslAdjustments: {
-                    ...adjustments.hslAdjustments,
-                    blue: { ...adjustments.hslAdjustments?.blue, hue: value as number }
-                  }
-                })}
-                trackStyle={{ backgroundColor: '#2196f3' }}
-                handleStyle={{ borderColor: '#2196f3' }}
-                railStyle={{ backgroundColor: '#555' }}
-              />
-            </Box>
-          </Paper>
+          <ColorMixer
+            adjustments={adjustments.hslAdjustments || {}}
+            onChange={(hslAdjustments) => onAdjustmentsChange({ hslAdjustments })}
+            targetProperty={targetHslProperty}
+            onTargetPropertyChange={onTargetHslPropertyChange}
+          />
         </Grid>
 
         {/* Color Tools */}
         <Grid container spacing={3}>
-          {/* Color Wheel */}
-          <Paper sx={{ p: 2, bgcolor: 'background.paper' }}>
-            <Typography variant="subtitle1" gutterBottom>
-              <Palette sx={{ mr: 1, verticalAlign: 'middle' }} />
-              Color Wheel
-            </Typography>
-            <Box sx={{ display: 'flex', justifyContent: 'center', mb: 2 }}>
-              <canvas
-                ref={colorWheelRef}
-                width={300}
-                height={300}
-                onClick={handleColorWheelClick}
-                style={{
-                  cursor: 'crosshair',
-                  border: '1px solid #555',
-                  borderRadius: '50%'
-                }}
-              />
-            </Box>
-            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', textAlign: 'center' }}>
-              Click on the color wheel to adjust temperature and tint
-            </Typography>
-          </Paper>
+          <ColorGradingControls
+            grading={adjustments.colorGrading || {}}
+            onChange={(colorGrading) => onAdjustmentsChange({ colorGrading })}
+          />
 
           {/* Color Picker */}
           <Paper sx={{ p: 2, mt: 2, bgcolor: 'background.paper' }}>
@@ -373,12 +252,12 @@ const ColorControls: React.FC<ColorControlsProps> = ({
             </Typography>
             <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
               {[
-                { name: 'Warm', temp: 200, tint: 10, color: '#ffaa00' },
-                { name: 'Cool', temp: -200, tint: -10, color: '#00aaff' },
-                { name: 'Sunset', temp: 400, tint: 20, color: '#ff6600' },
-                { name: 'Daylight', temp: 0, tint: 0, color: '#ffffff' },
-                { name: 'Tungsten', temp: -300, tint: 0, color: '#ffcc66' },
-                { name: 'Fluorescent', temp: -100, tint: -50, color: '#ccffcc' }
+                { name: 'Warm', temp: 8000, tint: 5, color: '#ffaa00' },
+                { name: 'Cool', temp: 5300, tint: -5, color: '#00aaff' },
+                { name: 'Sunset', temp: 9800, tint: 15, color: '#ff6600' },
+                { name: 'Daylight', temp: NEUTRAL_KELVIN, tint: 0, color: '#ffffff' },
+                { name: 'Tungsten', temp: 2850, tint: 0, color: '#ffcc66' },
+                { name: 'Fluorescent', temp: 3800, tint: -25, color: '#ccffcc' }
               ].map((preset) => (
                 <Box
                   key={preset.name}
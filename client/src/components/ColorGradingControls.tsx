@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Typography, Paper, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { Palette } from '@mui/icons-material';
+import Slider from 'rc-slider';
+import { ColorGrading, ColorGradingRange, ColorGradingWheel } from '../types';
+import 'rc-slider/assets/index.css';
+
+interface ColorGradingControlsProps {
+  grading: ColorGrading;
+  onChange: (grading: ColorGrading) => void;
+}
+
+type GradingView = 'three-way' | ColorGradingRange;
+
+const RANGES: Array<{ value: ColorGradingRange; label: string }> = [
+  { value: 'shadows', label: 'Shadows' },
+  { value: 'midtones', label: 'Midtones' },
+  { value: 'highlights', label: 'Highlights' },
+  { value: 'global', label: 'Global' }
+];
+
+const NEUTRAL_WHEEL: ColorGradingWheel = { hue: 0, saturation: 0, luminance: 0 };
+
+const wheelOf = (grading: ColorGrading, range: ColorGradingRange): ColorGradingWheel => ({
+  ...NEUTRAL_WHEEL,
+  ...grading[range]
+});
+
+interface GradingWheelProps {
+  wheel: ColorGradingWheel;
+  size: number;
+  onChange: (wheel: ColorGradingWheel) => void;
+}
+
+// Hue runs anticlockwise from red on the right; distance from the centre is saturation
+const GradingWheel: React.FC<GradingWheelProps> = ({ wheel, size, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragging = useRef(false);
+  const radius = size / 2;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, size, size);
+    for (let hue = 0; hue < 360; hue++) {
+      const gradient = ctx.createRadialGradient(radius, radius, 0, radius, radius, radius);
+      gradient.addColorStop(0, 'hsl(0, 0%, 50%)');
+      gradient.addColorStop(1, `hsl(${hue}, 100%, 50%)`);
+
+      ctx.beginPath();
+      ctx.moveTo(radius, radius);
+      // Canvas angles run clockwise, so hues are drawn at negative angles
+      ctx.arc(radius, radius, radius, ((-hue - 1) * Math.PI) / 180, ((-hue + 0.5) * Math.PI) / 180);
+      ctx.closePath();
+      ctx.fillStyle = gradient;
+      ctx.fill();
+    }
+  }, [size, radius]);
+
+  const pick = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const dx = event.clientX - rect.left - radius;
+    const dy = radius - (event.clientY - rect.top);
+    const hue = ((Math.atan2(dy, dx) * 180) / Math.PI + 360) % 360;
+    const saturation = Math.min(Math.sqrt(dx * dx + dy * dy) / radius, 1) * 100;
+
+    onChange({ ...wheel, hue: Math.round(hue), saturation: Math.round(saturation) });
+  };
+
+  const angle = (wheel.hue * Math.PI) / 180;
+  const distance = (wheel.saturation / 100) * radius;
+
+  return (
+    <Box sx={{ position: 'relative', width: size, height: size, mx: 'auto' }}>
+      <canvas
+        ref={canvasRef}
+        width={size}
+        height={size}
+        style={{ borderRadius: '50%', cursor: 'crosshair', touchAction: 'none' }}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          dragging.current = true;
+          pick(event);
+        }}
+        onPointerMove={(event) => dragging.current && pick(event)}
+        onPointerUp={() => { dragging.current = false; }}
+        onDoubleClick={() => onChange({ ...wheel, hue: 0, saturation: 0 })}
+      />
+      <Box
+        sx={{
+          position: 'absolute',
+          left: radius + Math.cos(angle) * distance - 6,
+          top: radius - Math.sin(angle) * distance - 6,
+          width: 12,
+          height: 12,
+          borderRadius: '50%',
+          border: '2px solid #ffffff',
+          boxShadow: '0 0 2px #000000',
+          pointerEvents: 'none'
+        }}
+      />
+    </Box>
+  );
+};
+
+interface GradingSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+const GradingSlider: React.FC<GradingSliderProps> = ({ label, value, min, max, onChange }) => (
+  <Box sx={{ mb: 2 }}>
+    <Typography variant="body2" gutterBottom>
+      {label}: {value.toFixed(0)}
+    </Typography>
+    <Slider
+      value={value}
+      min={min}
+      max={max}
+      onChange={(next) => onChange(next as number)}
+      trackStyle={{ backgroundColor: '#9c27b0' }}
+      handleStyle={{ borderColor: '#9c27b0' }}
+      railStyle={{ backgroundColor: '#555' }}
+    />
+  </Box>
+);
+
+const ColorGradingControls: React.FC<ColorGradingControlsProps> = ({ grading, onChange }) => {
+  const [view, setView] = useState<GradingView>('three-way');
+
+  const updateWheel = (range: ColorGradingRange, wheel: ColorGradingWheel) => {
+    onChange({ ...grading, [range]: wheel });
+  };
+
+  const resetGrading = () => {
+    onChange({
+      shadows: NEUTRAL_WHEEL,
+      midtones: NEUTRAL_WHEEL,
+      highlights: NEUTRAL_WHEEL,
+      global: NEUTRAL_WHEEL,
+      blending: 50,
+      balance: 0
+    });
+  };
+
+  return (
+    <Paper sx={{ p: 2, bgcolor: 'background.paper' }}>
+      <Typography variant="subtitle1" gutterBottom>
+        <Palette sx={{ mr: 1, verticalAlign: 'middle' }} />
+        Color Grading
+      </Typography>
+
+      <ToggleButtonGroup
+        value={view}
+        exclusive
+        size="small"
+        fullWidth
+        onChange={(event, next: GradingView | null) => next && setView(next)}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="three-way">3-Way</ToggleButton>
+        {RANGES.map(range => (
+          <ToggleButton key={range.value} value={range.value}>{range.label}</ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      {view === 'three-way' ? (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'space-around', gap: 1 }}>
+          {RANGES.filter(range => range.value !== 'global').map(range => {
+            const wheel = wheelOf(grading, range.value);
+            return (
+              <Box key={range.value} sx={{ width: 110 }}>
+                <Typography variant="caption" sx={{ display: 'block', textAlign: 'center', mb: 0.5 }}>
+                  {range.label}
+                </Typography>
+                <GradingWheel wheel={wheel} size={100} onChange={(next) => updateWheel(range.value, next)} />
+                <GradingSlider
+                  label="Lum"
+                  value={wheel.luminance}
+                  min={-100}
+                  max={100}
+                  onChange={(luminance) => updateWheel(range.value, { ...wheel, luminance })}
+                />
+              </Box>
+            );
+          })}
+        </Box>
+      ) : (
+        (() => {
+          const wheel = wheelOf(grading, view);
+          return (
+            <Box>
+              <Box sx={{ mb: 2 }}>
+                <GradingWheel wheel={wheel} size={200} onChange={(next) => updateWheel(view, next)} />
+              </Box>
+              <GradingSlider
+                label="Hue"
+                value={wheel.hue}
+                min={0}
+                max={359}
+                onChange={(hue) => updateWheel(view, { ...wheel, hue })}
+              />
+              <GradingSlider
+                label="Saturation"
+                value={wheel.saturation}
+                min={0}
+                max={100}
+                onChange={(saturation) => updateWheel(view, { ...wheel, saturation })}
+              />
+              <GradingSlider
+                label="Luminance"
+                value={wheel.luminance}
+                min={-100}
+                max={100}
+                onChange={(luminance) => updateWheel(view, { ...wheel, luminance })}
+              />
+            </Box>
+          );
+        })()
+      )}
+
+      <GradingSlider
+        label="Blending"
+        value={grading.blending ?? 50}
+        min={0}
+        max={100}
+        onChange={(blending) => onChange({ ...grading, blending })}
+      />
+      <GradingSlider
+        label="Balance"
+        value={grading.balance ?? 0}
+        min={-100}
+        max={100}
+        onChange={(balance) => onChange({ ...grading, balance })}
+      />
+
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', textAlign: 'center' }}>
+        Drag on a wheel to tint that range; double-click to clear it
+      </Typography>
+
+      <Box sx={{ textAlign: 'center', mt: 2 }}>
+        <Typography
+          variant="body2"
+          sx={{ cursor: 'pointer', color: 'primary.main' }}
+          onClick={resetGrading}
+        >
+          Reset Color Grading
+        </Typography>
+      </Box>
+    </Paper>
+  );
+};
+
+export default ColorGradingControls;
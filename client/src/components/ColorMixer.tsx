@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Box, Typography, Paper, Tabs, Tab, ToggleButton, Tooltip } from '@mui/material';
+import { TouchApp } from '@mui/icons-material';
+import Slider from 'rc-slider';
+import { HSL_BANDS } from 'lightroom-clone-shared';
+import { HslAdjustments, HslColor, HslProperty } from '../types';
+import 'rc-slider/assets/index.css';
+
+interface ColorMixerProps {
+  adjustments: HslAdjustments;
+  onChange: (adjustments: HslAdjustments) => void;
+  // Property the targeted adjustment tool drags on the photo, or null when it's off
+  targetProperty: HslProperty | null;
+  onTargetPropertyChange: (property: HslProperty | null) => void;
+}
+
+const PROPERTIES: Array<{ value: HslProperty; label: string }> = [
+  { value: 'hue', label: 'Hue' },
+  { value: 'saturation', label: 'Saturation' },
+  { value: 'lightness', label: 'Luminance' }
+];
+
+const bandLabel = (color: HslColor) => color.charAt(0).toUpperCase() + color.slice(1);
+
+// Slider rail showing what the property does to the band's color
+const railGradient = (hue: number, property: HslProperty): string => {
+  if (property === 'hue') {
+    return `linear-gradient(to right, hsl(${hue - 30}, 80%, 50%), hsl(${hue}, 80%, 50%), hsl(${hue + 30}, 80%, 50%))`;
+  }
+  if (property === 'saturation') {
+    return `linear-gradient(to right, hsl(${hue}, 0%, 50%), hsl(${hue}, 100%, 50%))`;
+  }
+  return `linear-gradient(to right, hsl(${hue}, 80%, 15%), hsl(${hue}, 80%, 50%), hsl(${hue}, 80%, 85%))`;
+};
+
+const ColorMixer: React.FC<ColorMixerProps> = ({
+  adjustments,
+  onChange,
+  targetProperty,
+  onTargetPropertyChange
+}) => {
+  const [property, setProperty] = useState<HslProperty>(targetProperty || 'hue');
+
+  const handlePropertyChange = (event: React.SyntheticEvent, value: HslProperty) => {
+    setProperty(value);
+    // Keep the targeted tool on whichever property is showing
+    if (targetProperty) {
+      onTargetPropertyChange(value);
+    }
+  };
+
+  const handleBandChange = (color: HslColor, value: number) => {
+    onChange({
+      ...adjustments,
+      [color]: { ...adjustments[color], [property]: value }
+    });
+  };
+
+  const resetProperty = () => {
+    const next: HslAdjustments = {};
+    HSL_BANDS.forEach(({ color }) => {
+      next[color] = { ...adjustments[color], [property]: 0 };
+    });
+    onChange(next);
+  };
+
+  return (
+    <Paper sx={{ p: 2, mt: 2, bgcolor: 'background.paper' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="subtitle1">
+          Color Mixer
+        </Typography>
+        <Tooltip title="Targeted adjustment: drag up or down on the photo">
+          <ToggleButton
+            value="targeted"
+            size="small"
+            selected={!!targetProperty}
+            onChange={() => onTargetPropertyChange(targetProperty ? null : property)}
+          >
+            <TouchApp fontSize="small" />
+          </ToggleButton>
+        </Tooltip>
+      </Box>
+
+      <Tabs value={property} onChange={handlePropertyChange} variant="fullWidth" sx={{ mb: 2 }}>
+        {PROPERTIES.map(item => (
+          <Tab key={item.value} label={item.label} value={item.value} />
+        ))}
+      </Tabs>
+
+      {targetProperty && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+          Drag on a color in the photo to change its {PROPERTIES.find(item => item.value === targetProperty)?.label.toLowerCase()}
+        </Typography>
+      )}
+
+      {HSL_BANDS.map(({ color, hue }) => {
+        const value = adjustments[color]?.[property] || 0;
+        return (
+          <Box key={color} sx={{ mb: 2 }}>
+            <Typography variant="body2" gutterBottom>
+              {bandLabel(color)}: {value.toFixed(0)}
+            </Typography>
+            <Slider
+              value={value}
+              min={-100}
+              max={100}
+              onChange={(next) => handleBandChange(color, next as number)}
+              trackStyle={{ backgroundColor: 'transparent' }}
+              handleStyle={{ borderColor: `hsl(${hue}, 80%, 50%)` }}
+              railStyle={{ background: railGradient(hue, property) }}
+            />
+          </Box>
+        );
+      })}
+
+      <Box sx={{ textAlign: 'center', mt: 2 }}>
+        <Typography
+          variant="body2"
+          sx={{ cursor: 'pointer', color: 'primary.main' }}
+          onClick={resetProperty}
+        >
+          Reset {PROPERTIES.find(item => item.value === property)?.label}
+        </Typography>
+      </Box>
+    </Paper>
+  );
+};
+
+export default ColorMixer;
@@ -0,0 +1,57 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Typography
+} from '@mui/material';
+import { Warning } from '@mui/icons-material';
+import { ProjectConflict } from '../types';
+
+interface ConflictDialogProps {
+  open: boolean;
+  conflict: ProjectConflict | null;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+  onClose: () => void;
+}
+
+const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  open,
+  conflict,
+  onKeepMine,
+  onUseTheirs,
+  onClose
+}) => {
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Warning color="warning" />
+        Project changed elsewhere
+      </DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          This project was edited in another tab or on another device since you opened it.
+          Keep your changes to overwrite that edit, or load the saved version and discard yours.
+        </DialogContentText>
+        {conflict && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+            Saved version {conflict.version}, last edited {new Date(conflict.lastEdited).toLocaleString()}
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={onUseTheirs}>Use Saved Version</Button>
+        <Button onClick={onKeepMine} variant="contained">
+          Keep My Changes
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ConflictDialog;
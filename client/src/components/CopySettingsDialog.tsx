@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+  Typography
+} from '@mui/material';
+import { PresetGroup } from '../types';
+import { PRESET_GROUPS } from '../utils/presets';
+
+interface CopySettingsDialogProps {
+  open: boolean;
+  title: string;
+  confirmLabel: string;
+  // Groups ticked when the dialog opens
+  defaultGroups: PresetGroup[];
+  onClose: () => void;
+  onConfirm: (groups: PresetGroup[]) => void;
+  disabled?: boolean;
+  // Extra fields shown above the groups, e.g. a source picker
+  children?: React.ReactNode;
+}
+
+const CopySettingsDialog: React.FC<CopySettingsDialogProps> = ({
+  open,
+  title,
+  confirmLabel,
+  defaultGroups,
+  onClose,
+  onConfirm,
+  disabled = false,
+  children
+}) => {
+  const [groups, setGroups] = useState<PresetGroup[]>(defaultGroups);
+
+  useEffect(() => {
+    if (open) setGroups(defaultGroups);
+  }, [open, defaultGroups]);
+
+  const toggleGroup = (group: PresetGroup) => {
+    setGroups(prev => (prev.includes(group) ? prev.filter(item => item !== group) : [...prev, group]));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        {children}
+        <FormGroup>
+          <Typography variant="caption" color="text.secondary">
+            Include settings
+          </Typography>
+          {PRESET_GROUPS.map(group => (
+            <FormControlLabel
+              key={group.value}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={groups.includes(group.value)}
+                  onChange={() => toggleGroup(group.value)}
+                />
+              }
+              label={group.label}
+            />
+          ))}
+        </FormGroup>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={() => onConfirm(groups)}
+          disabled={disabled || groups.length === 0}
+        >
+          {confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CopySettingsDialog;
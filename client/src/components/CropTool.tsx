@@ -1,7 +1,7 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { Canvas, Image as FabricImage, Rect } from 'fabric';
-import { Box, IconButton, Select, MenuItem, FormControl, InputLabel, Typography, Divider } from '@mui/material';
-import { Crop, RotateLeft, RotateRight, Flip, FlipCameraAndroid } from '@mui/icons-material';
+import { Box, Button, IconButton, Select, MenuItem, FormControl, InputLabel, Typography, Divider } from '@mui/material';
+import { Crop, RotateLeft, RotateRight, Flip, FlipCameraAndroid, Check } from '@mui/icons-material';
 import { CropSettings } from '../types';
 
 interface CropToolProps {
@@ -26,6 +26,9 @@ const ASPECT_RATIOS = [
   { label: '8.5:11', value: 8.5/11 },
 ];
 
+// Keep rotation within the -180..180 range the server accepts
+const normalizeRotation = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180;
+
 export const CropTool: React.FC<CropToolProps> = ({
   imageUrl,
   imageData,
@@ -159,24 +162,39 @@ export const CropTool: React.FC<CropToolProps> = ({
     canvas.setActiveObject(cropRect);
   }, [aspectRatio]);
 
-  const updateCropSettings = useCallback((cropRect: Rect, img: FabricImage) => {
+  const updateCropSettings = useCallback((
+    cropRect: Rect,
+    img: FabricImage,
+    overrides: Partial<CropSettings> = {}
+  ) => {
     const rectBounds = cropRect.getBoundingRect();
     const imgBounds = img.getBoundingRect();
-    const scale = img.scaleX!;
-    
+    // The canvas shows the preview image, so convert through both the canvas
+    // scale and the preview's size relative to the original
+    const scale = img.scaleX! * (img.width! / imageData.width);
+
     // Convert canvas coordinates to original image coordinates
+    const x = Math.min(Math.max(Math.round((rectBounds.left - imgBounds.left) / scale), 0), imageData.width - 1);
+    const y = Math.min(Math.max(Math.round((rectBounds.top - imgBounds.top) / scale), 0), imageData.height - 1);
     const cropData: CropSettings = {
-      x: Math.round((rectBounds.left - imgBounds.left) / scale),
-      y: Math.round((rectBounds.top - imgBounds.top) / scale),
-      width: Math.round(rectBounds.width / scale),
-      height: Math.round(rectBounds.height / scale),
+      x,
+      y,
+      width: Math.max(1, Math.min(Math.round(rectBounds.width / scale), imageData.width - x)),
+      height: Math.max(1, Math.min(Math.round(rectBounds.height / scale), imageData.height - y)),
       rotation,
       flipX,
       flipY,
+      ...overrides,
     };
     
     onCropChange(cropData);
-  }, [onCropChange, rotation, flipX, flipY]);
+  }, [onCropChange, rotation, flipX, flipY, imageData.width, imageData.height]);
+
+  const syncCropSettings = (overrides: Partial<CropSettings>) => {
+    if (cropRectRef.current && imageObjectRef.current) {
+      updateCropSettings(cropRectRef.current, imageObjectRef.current, overrides);
+    }
+  };
 
   const handleAspectRatioChange = (ratio: number | null) => {
     setAspectRatio(ratio);
@@ -195,13 +213,14 @@ export const CropTool: React.FC<CropToolProps> = ({
   };
 
   const handleRotate = (degrees: number) => {
-    const newRotation = (rotation + degrees) % 360;
+    const newRotation = normalizeRotation(rotation + degrees);
     setRotation(newRotation);
     
     if (imageObjectRef.current) {
       imageObjectRef.current.rotate(newRotation);
       fabricCanvasRef.current?.renderAll();
     }
+    syncCropSettings({ rotation: newRotation });
   };
 
   const handleFlip = (axis: 'x' | 'y') => {
@@ -217,6 +236,7 @@ export const CropTool: React.FC<CropToolProps> = ({
       }
     }
     fabricCanvasRef.current?.renderAll();
+    syncCropSettings(axis === 'x' ? { flipX: !flipX } : { flipY: !flipY });
   };
 
   const resetCrop = () => {
@@ -308,6 +328,15 @@ export const CropTool: React.FC<CropToolProps> = ({
           >
             Reset
           </IconButton>
+
+          <Button
+            onClick={onApplyCrop}
+            startIcon={<Check />}
+            variant="contained"
+            size="small"
+          >
+            Apply Crop
+          </Button>
         </Box>
       </Box>
 
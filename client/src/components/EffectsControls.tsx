@@ -42,6 +42,15 @@ const VIGNETTE_STYLES = [
   { label: 'Custom', value: 'custom' }
 ];
 
+// Only settings the server stores, within its ranges
+const QUICK_PRESETS: Array<{ name: string; settings: Partial<ImageAdjustments> }> = [
+  { name: 'Dramatic', settings: { clarity: 50, texture: 30, dehaze: 20 } },
+  { name: 'Vintage', settings: { saturation: -30, contrast: -15, texture: -10, temperature: 7200 } },
+  { name: 'Portrait', settings: { texture: -20, clarity: -10 } },
+  { name: 'Landscape', settings: { clarity: 40, texture: 20, dehaze: 30 } },
+  { name: 'Black & White', settings: { saturation: -100, contrast: 20, clarity: 30 } }
+];
+
 const EffectsControls: React.FC<EffectsControlsProps> = ({
   adjustments,
   onAdjustmentsChange
@@ -199,10 +208,10 @@ const EffectsControls: React.FC<EffectsControlsProps> = ({
 
               <Box sx={{ mb: 3 }}>
                 <Typography variant="body2" gutterBottom>
-                  Midpoint: {(adjustments.vignette?.midpoint || 50).toFixed(0)}
+                  Midpoint: {(adjustments.vignette?.midpoint ?? 50).toFixed(0)}
                 </Typography>
                 <Slider
-                  value={adjustments.vignette?.midpoint || 50}
+                  value={adjustments.vignette?.midpoint ?? 50}
                   min={0}
                   max={100}
                   onChange={(value) => handleEffectChange('vignette', 'midpoint', value)}
@@ -214,10 +223,10 @@ const EffectsControls: React.FC<EffectsControlsProps> = ({
 
               <Box sx={{ mb: 3 }}>
                 <Typography variant="body2" gutterBottom>
-                  Roundness: {(adjustments.vignette?.roundness || 50).toFixed(0)}
+                  Roundness: {(adjustments.vignette?.roundness || 0).toFixed(0)}
                 </Typography>
                 <Slider
-                  value={adjustments.vignette?.roundness || 50}
+                  value={adjustments.vignette?.roundness || 0}
                   min={-100}
                   max={100}
                   onChange={(value) => handleEffectChange('vignette', 'roundness', value)}
@@ -231,10 +240,10 @@ const EffectsControls: React.FC<EffectsControlsProps> = ({
             <Grid container spacing={3}>
               <Box sx={{ mb: 3 }}>
                 <Typography variant="body2" gutterBottom>
-                  Feather: {(adjustments.vignette?.feather || 50).toFixed(0)}
+                  Feather: {(adjustments.vignette?.feather ?? 50).toFixed(0)}
                 </Typography>
                 <Slider
-                  value={adjustments.vignette?.feather || 50}
+                  value={adjustments.vignette?.feather ?? 50}
                   min={0}
                   max={100}
                   onChange={(value) => handleEffectChange('vignette', 'feather', value)}
@@ -307,10 +316,10 @@ const EffectsControls: React.FC<EffectsControlsProps> = ({
 
               <Box sx={{ mb: 3 }}>
                 <Typography variant="body2" gutterBottom>
-                  Size: {(adjustments.grain?.size || 25).toFixed(0)}
+                  Size: {(adjustments.grain?.size ?? 50).toFixed(0)}
                 </Typography>
                 <Slider
-                  value={adjustments.grain?.size || 25}
+                  value={adjustments.grain?.size ?? 50}
                   min={0}
                   max={100}
                   onChange={(value) => handleEffectChange('grain', 'size', value)}
@@ -324,10 +333,10 @@ const EffectsControls: React.FC<EffectsControlsProps> = ({
             <Grid container spacing={3}>
               <Box sx={{ mb: 3 }}>
                 <Typography variant="body2" gutterBottom>
-                  Roughness: {(adjustments.grain?.roughness || 50).toFixed(0)}
+                  Roughness: {(adjustments.grain?.roughness ?? 50).toFixed(0)}
                 </Typography>
                 <Slider
-                  value={adjustments.grain?.roughness || 50}
+                  value={adjustments.grain?.roughness ?? 50}
                   min={0}
                   max={100}
                   onChange={(value) => handleEffectChange('grain', 'roughness', value)}
@@ -520,13 +529,7 @@ const EffectsControls: React.FC<EffectsControlsProps> = ({
                 Preset Effects
               </Typography>
               <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
-                {[
-                  { name: 'Dramatic', clarity: 50, texture: 30, dehaze: 20 },
-                  { name: 'Vintage', grain: { amount: 40, size: 30 }, vignette: { amount: -30 } },
-                  { name: 'Portrait', texture: -20, clarity: 20, sharpening: { amount: 60 } },
-                  { name: 'Landscape', clarity: 40, texture: 20, dehaze: 30 },
-                  { name: 'Black & White', saturation: -100, contrast: 20, clarity: 30 }
-                ].map((preset) => (
+                {QUICK_PRESETS.map((preset) => (
                   <Box
                     key={preset.name}
                     sx={{
@@ -537,7 +540,7 @@ const EffectsControls: React.FC<EffectsControlsProps> = ({
                       textAlign: 'center',
                       '&:hover': { bgcolor: 'action.hover' }
                     }}
-                    onClick={() => onAdjustmentsChange(preset)}
+                    onClick={() => onAdjustmentsChange(preset.settings)}
                   >
                     <Typography variant="body2">{preset.name}</Typography>
                   </Box>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Box,
   Typography,
@@ -16,7 +16,8 @@ import {
   FormControlLabel,
   Checkbox,
   LinearProgress,
-  Alert
+  Alert,
+  Chip
 } from '@mui/material';
 import Grid from "@mui/material/Grid";
 import {
@@ -25,11 +26,14 @@ import {
   PhotoSizeSelectActual,
   Palette,
   Settings,
-  CloudDownload
+  CloudDownload,
+  Cancel,
+  Replay,
+  Description
 } from '@mui/icons-material';
 import { saveAs } from 'file-saver';
-import JSZip from 'jszip';
-import { Project } from '../types';
+import { Project, ExportJob, ExportJobItem } from '../types';
+import { exportAPI, projectsAPI } from '../utils/api';
 
 interface ExportPanelProps {
   projects: Project[];
@@ -79,6 +83,14 @@ const WATERMARK_POSITIONS = [
   { value: 'center', label: 'Center' }
 ];
 
+const ITEM_STATUS_COLORS: Record<ExportJobItem['status'], 'default' | 'primary' | 'success' | 'error' | 'warning'> = {
+  pending: 'default',
+  rendering: 'primary',
+  done: 'success',
+  failed: 'error',
+  cancelled: 'warning'
+};
+
 const FILENAME_PATTERNS = [
   { value: '{name}', label: 'Original Name' },
   { value: '{name}_{sequence}', label: 'Name + Sequence' },
@@ -113,9 +125,16 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
   });
 
   const [isExporting, setIsExporting] = useState(false);
-  const [exportProgress, setExportProgress] = useState(0);
   const [exportError, setExportError] = useState<string | null>(null);
   const [expandedPanel, setExpandedPanel] = useState<string>('format');
+  const [activeJob, setActiveJob] = useState<ExportJob | null>(null);
+  const [recentJobs, setRecentJobs] = useState<ExportJob[]>([]);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    loadRecentJobs();
+    return () => unsubscribeRef.current?.();
+  }, []);
 
   const handleAccordionChange = (panel: string) => (event: React.SyntheticEvent, isExpanded: boolean) => {
     setExpandedPanel(isExpanded ? panel : '');
@@ -192,54 +211,162 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     }
   };
 
-  const exportBatch = async () => {
-    if (selectedProjects.length === 0) {
+  const loadRecentJobs = async () => {
+    try {
+      setRecentJobs(await exportAPI.getJobs());
+    } catch (error) {
+      console.error('Error loading export jobs:', error);
+    }
+  };
+
+  // Follow a server-side job over SSE until it finishes
+  const watchJob = (job: ExportJob) => {
+    unsubscribeRef.current?.();
+    setActiveJob(job);
+
+    unsubscribeRef.current = exportAPI.subscribeToJob(
+      job.id,
+      (event) => {
+        if (event.type === 'job') {
+          setActiveJob(event.data);
+        } else if (event.type === 'item') {
+          setActiveJob(prev => prev && {
+            ...prev,
+            items: prev.items.map(item => item.id === event.data.id ? { ...item, ...event.data } : item)
+          });
+        } else if (event.type === 'end') {
+          unsubscribeRef.current?.();
+          unsubscribeRef.current = null;
+          loadRecentJobs();
+        }
+      },
+      (error) => {
+        console.error('Export job stream error:', error);
+        setExportError('Lost connection to the export job. Check Recent Exports for its status.');
+      }
+    );
+  };
+
+  const exportBatch = async (projectIds: string[] = selectedProjects) => {
+    if (projectIds.length === 0) {
       setExportError('No projects selected for export');
       return;
     }
 
-    setIsExporting(true);
-    setExportProgress(0);
     setExportError(null);
 
+    if (projectIds.length === 1) {
+      setIsExporting(true);
+      try {
+        await exportSingle(projectIds[0]);
+      } catch (error) {
+        setExportError('Failed to export image. Please try again.');
+      } finally {
+        setIsExporting(false);
+      }
+      return;
+    }
+
     try {
-      const zip = new JSZip();
-      const format = EXPORT_FORMATS.find(f => f.value === exportSettings.format);
+      const job = await exportAPI.batchExport(projectIds, {
+        format: exportSettings.format,
+        quality: exportSettings.quality,
+        width: exportSettings.width,
+        height: exportSettings.height,
+        maintainAspectRatio: exportSettings.maintainAspectRatio
+      });
+      watchJob(job);
+      loadRecentJobs();
+    } catch (error) {
+      console.error('Batch export error:', error);
+      setExportError('Failed to start the export. Please try again.');
+    }
+  };
 
-      for (let i = 0; i < selectedProjects.length; i++) {
-        const projectId = selectedProjects[i];
-        const project = projects.find(p => p.id === projectId);
+  // Sidecars carry settings, rating and keywords to Lightroom and other tools
+  const exportSidecars = async (projectIds: string[] = selectedProjects) => {
+    if (projectIds.length === 0) {
+      setExportError('No projects selected for export');
+      return;
+    }
 
-        if (project) {
-          try {
-            const blob = await onExport(exportSettings);
-            const filename = `${project.title}${format?.extension || '.jpg'}`;
-            zip.file(filename, blob);
+    setExportError(null);
 
-            setExportProgress(((i + 1) / selectedProjects.length) * 100);
-          } catch (error) {
-            console.error(`Error exporting ${project.title}:`, error);
-          }
-        }
+    try {
+      if (projectIds.length === 1) {
+        const project = projects.find(p => p.id === projectIds[0]);
+        const name = project ? project.image.originalFilename.replace(/\.[^.]+$/, '') : 'settings';
+        saveAs(await projectsAPI.downloadXmp(projectIds[0]), `${name}.xmp`);
+      } else {
+        saveAs(await projectsAPI.downloadXmpArchive(projectIds), 'sidecars.zip');
       }
-
-      const zipBlob = await zip.generateAsync({ type: 'blob' });
-      saveAs(zipBlob, `export_${new Date().toISOString().split('T')[0]}.zip`);
-
     } catch (error) {
-      console.error('Batch export error:', error);
-      setExportError('Failed to export images. Please try again.');
-    } finally {
-      setIsExporting(false);
-      setExportProgress(0);
+      console.error('Sidecar export error:', error);
+      setExportError('Failed to write XMP sidecars. Please try again.');
     }
   };
 
   const exportAll = async () => {
     const allProjectIds = projects.map(p => p.id);
-    await exportBatch();
+    await exportBatch(allProjectIds);
+  };
+
+  const cancelJob = async (job: ExportJob) => {
+    try {
+      await exportAPI.cancelJob(job.id);
+    } catch (error: any) {
+      setExportError(error.message || 'Failed to cancel the export');
+    }
+  };
+
+  const retryJob = async (job: ExportJob) => {
+    try {
+      watchJob(await exportAPI.retryJob(job.id));
+    } catch (error: any) {
+      setExportError(error.message || 'Failed to retry the export');
+    }
+  };
+
+  const downloadJob = async (job: ExportJob) => {
+    try {
+      const blob = await exportAPI.downloadJob(job.id);
+      saveAs(blob, `export_${job.createdAt.split('T')[0]}.zip`);
+    } catch (error: any) {
+      setExportError(error.message || 'Failed to download the export');
+    }
+  };
+
+  const jobProgress = (job: ExportJob): number => {
+    const settled = job.items.filter(item => ['done', 'failed', 'cancelled'].includes(item.status)).length;
+    return job.items.length > 0 ? (settled / job.items.length) * 100 : 0;
   };
 
+  const isJobRunning = (job: ExportJob | null): boolean =>
+    !!job && (job.status === 'queued' || job.status === 'running');
+
+  const hasRetryableItems = (job: ExportJob): boolean =>
+    job.items.some(item => item.status === 'failed' || item.status === 'cancelled');
+
+  const renderJobActions = (job: ExportJob) => (
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      {isJobRunning(job) && (
+        <Button size="small" color="error" startIcon={<Cancel />} onClick={() => cancelJob(job)}>
+          Cancel
+        </Button>
+      )}
+      {!isJobRunning(job) && hasRetryableItems(job) && (
+        <Button size="small" startIcon={<Replay />} onClick={() => retryJob(job)}>
+          Retry Failed
+        </Button>
+      )}
+      {job.status === 'completed' && (
+        <Button size="small" variant="contained" startIcon={<CloudDownload />} onClick={() => downloadJob(job)}>
+          Download ZIP
+        </Button>
+      )}
+    </Box>
+  );
+
   return (
     <Box sx={{ p: 2, maxWidth: 800, mx: 'auto' }}>
       <Typography variant="h5" gutterBottom>
@@ -511,8 +638,8 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
         <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
           <Button
             variant="contained"
-            onClick={exportBatch}
-            disabled={isExporting || selectedProjects.length === 0}
+            onClick={() => exportBatch()}
+            disabled={isExporting || isJobRunning(activeJob) || selectedProjects.length === 0}
             startIcon={<GetApp />}
           >
             Export Selected ({selectedProjects.length})
@@ -521,19 +648,55 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
           <Button
             variant="outlined"
             onClick={exportAll}
-            disabled={isExporting || projects.length === 0}
+            disabled={isExporting || isJobRunning(activeJob) || projects.length === 0}
             startIcon={<GetApp />}
           >
             Export All ({projects.length})
           </Button>
+
+          <Button
+            variant="outlined"
+            onClick={() => exportSidecars()}
+            disabled={selectedProjects.length === 0}
+            startIcon={<Description />}
+          >
+            Write XMP Sidecars ({selectedProjects.length})
+          </Button>
         </Box>
 
         {isExporting && (
           <Box sx={{ mb: 2 }}>
             <Typography variant="body2" gutterBottom>
-              Exporting... {Math.round(exportProgress)}%
+              Rendering...
             </Typography>
-            <LinearProgress variant="determinate" value={exportProgress} />
+            <LinearProgress />
+          </Box>
+        )}
+
+        {activeJob && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+              <Typography variant="body2">
+                {isJobRunning(activeJob)
+                  ? `Exporting... ${Math.round(jobProgress(activeJob))}%`
+                  : `Export ${activeJob.status}`}
+              </Typography>
+              {renderJobActions(activeJob)}
+            </Box>
+            <LinearProgress variant="determinate" value={jobProgress(activeJob)} sx={{ mb: 1 }} />
+            {activeJob.items.map((item) => (
+              <Box key={item.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <Chip label={item.status} color={ITEM_STATUS_COLORS[item.status]} size="small" />
+                <Typography variant="body2" noWrap sx={{ flex: 1 }}>
+                  {item.filename}
+                </Typography>
+                {item.error && (
+                  <Typography variant="caption" color="error" noWrap>
+                    {item.error}
+                  </Typography>
+                )}
+              </Box>
+            ))}
           </Box>
         )}
 
@@ -542,6 +705,33 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
           Large exports may take several minutes to complete.
         </Typography>
       </Paper>
+
+      {/* Recent batch exports can be downloaded or retried later */}
+      {recentJobs.length > 0 && (
+        <Paper sx={{ p: 3, mt: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Recent Exports
+          </Typography>
+          {recentJobs.map((job) => (
+            <Box
+              key={job.id}
+              sx={{ display: 'flex', alignItems: 'center', gap: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}
+            >
+              <Box sx={{ flex: 1 }}>
+                <Typography variant="body2">
+                  {job.items.length} images • {job.settings.format.toUpperCase()}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {new Date(job.createdAt).toLocaleString()} • {job.status}
+                  {job.items.some(item => item.status === 'failed') &&
+                    ` • ${job.items.filter(item => item.status === 'failed').length} failed`}
+                </Typography>
+              </Box>
+              {renderJobActions(job)}
+            </Box>
+          ))}
+        </Paper>
+      )}
     </Box>
   );
 };
@@ -0,0 +1,204 @@
+import React, { useRef, useState } from 'react';
+import { Box, Typography, Paper } from '@mui/material';
+import * as d3 from 'd3';
+import { Histogram } from 'lightroom-clone-shared';
+import { ClippingOverlay, ImageAdjustments } from '../types';
+
+interface HistogramPanelProps {
+  histogram?: Histogram;
+  adjustments: ImageAdjustments;
+  onAdjustmentsChange: (adjustments: Partial<ImageAdjustments>) => void;
+  clipping: ClippingOverlay;
+  onClippingChange: (clipping: ClippingOverlay) => void;
+}
+
+type RegionKey = 'blacks' | 'shadows' | 'exposure' | 'highlights' | 'whites';
+
+interface Region {
+  key: RegionKey;
+  label: string;
+  // Share of the tonal range the region covers
+  from: number;
+  to: number;
+  // Change per pixel dragged, and the setting's range
+  step: number;
+  min: number;
+  max: number;
+}
+
+const REGIONS: Region[] = [
+  { key: 'blacks', label: 'Blacks', from: 0, to: 0.1, step: 0.5, min: -100, max: 100 },
+  { key: 'shadows', label: 'Shadows', from: 0.1, to: 0.35, step: 0.5, min: -100, max: 100 },
+  { key: 'exposure', label: 'Exposure', from: 0.35, to: 0.65, step: 0.01, min: -5, max: 5 },
+  { key: 'highlights', label: 'Highlights', from: 0.65, to: 0.9, step: 0.5, min: -100, max: 100 },
+  { key: 'whites', label: 'Whites', from: 0.9, to: 1, step: 0.5, min: -100, max: 100 }
+];
+
+const CHANNELS: Array<{ key: 'red' | 'green' | 'blue'; color: string }> = [
+  { key: 'red', color: '#ff6b6b' },
+  { key: 'green', color: '#51cf66' },
+  { key: 'blue', color: '#339af0' }
+];
+
+const WIDTH = 300;
+const HEIGHT = 130;
+const TRIANGLE = 12;
+
+const xScale = d3.scaleLinear().domain([0, 255]).range([0, WIDTH]);
+
+// A histogram region being dragged to change its setting
+interface RegionDrag {
+  region: Region;
+  startX: number;
+  base: number;
+}
+
+const formatValue = (region: Region, value: number) => {
+  const text = region.key === 'exposure' ? value.toFixed(2) : value.toFixed(0);
+  return value > 0 ? `+${text}` : text;
+};
+
+// Triangle color shows which channels are clipped: white when all are
+const clippingColor = (histogram: Histogram | undefined, bin: number): string => {
+  if (!histogram) return '#555';
+  const [r, g, b] = CHANNELS.map(({ key }) => histogram[key][bin] > 0);
+  if (!r && !g && !b) return '#555';
+  return `rgb(${r ? 255 : 60}, ${g ? 255 : 60}, ${b ? 255 : 60})`;
+};
+
+const HistogramPanel: React.FC<HistogramPanelProps> = ({
+  histogram,
+  adjustments,
+  onAdjustmentsChange,
+  clipping,
+  onClippingChange
+}) => {
+  const [hovered, setHovered] = useState<Region | null>(null);
+  const drag = useRef<RegionDrag | null>(null);
+
+  // Spikes of clipped pixels at either end would flatten everything else,
+  // so the end bins are left out of the vertical scale
+  let peak = 1;
+  if (histogram) {
+    for (let i = 1; i < 255; i++) {
+      peak = Math.max(peak, histogram.red[i], histogram.green[i], histogram.blue[i]);
+    }
+  }
+  const yScale = d3.scaleLinear().domain([0, peak]).range([HEIGHT, 0]).clamp(true);
+  const area = d3.area<number>()
+    .x((_, i) => xScale(i))
+    .y0(HEIGHT)
+    .y1(count => yScale(count))
+    .curve(d3.curveMonotoneX);
+  const line = d3.line<number>()
+    .x((_, i) => xScale(i))
+    .y(count => yScale(count))
+    .curve(d3.curveMonotoneX);
+
+  const regionAt = (event: React.PointerEvent<SVGSVGElement>): Region => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const position = Math.min(Math.max((event.clientX - rect.left) / WIDTH, 0), 0.999);
+    return REGIONS.find(region => position >= region.from && position < region.to) || REGIONS[2];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const region = regionAt(event);
+    drag.current = { region, startX: event.clientX, base: adjustments[region.key] || 0 };
+    setHovered(region);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const active = drag.current;
+    if (!active) {
+      setHovered(regionAt(event));
+      return;
+    }
+
+    const { region, startX, base } = active;
+    const raw = base + (event.clientX - startX) * region.step;
+    const value = Math.min(Math.max(raw, region.min), region.max);
+    onAdjustmentsChange({ [region.key]: region.key === 'exposure' ? Math.round(value * 100) / 100 : Math.round(value) });
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const toggle = (side: keyof ClippingOverlay) => (event: React.MouseEvent) => {
+    event.stopPropagation();
+    onClippingChange({ ...clipping, [side]: !clipping[side] });
+  };
+
+  const percent = (count: number) => (histogram && histogram.total > 0 ? (count / histogram.total) * 100 : 0);
+
+  return (
+    <Paper sx={{ p: 2, mb: 2, bgcolor: 'background.paper' }}>
+      <Typography variant="subtitle1" gutterBottom>
+        Histogram
+      </Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+        <svg
+          width={WIDTH}
+          height={HEIGHT}
+          style={{ background: '#1a1a1a', borderRadius: '4px', cursor: 'ew-resize', touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={() => !drag.current && setHovered(null)}
+        >
+          {hovered && (
+            <rect
+              x={hovered.from * WIDTH}
+              width={(hovered.to - hovered.from) * WIDTH}
+              y={0}
+              height={HEIGHT}
+              fill="#ffffff"
+              opacity={0.08}
+            />
+          )}
+
+          {histogram && (
+            <g style={{ mixBlendMode: 'screen' }}>
+              {CHANNELS.map(({ key, color }) => (
+                <path key={key} d={area(Array.from(histogram[key])) || ''} fill={color} opacity={0.6} />
+              ))}
+              <path d={line(Array.from(histogram.luminance)) || ''} fill="none" stroke="#dddddd" strokeWidth={1} />
+            </g>
+          )}
+
+          <polygon
+            points={`2,2 ${2 + TRIANGLE},2 2,${2 + TRIANGLE}`}
+            fill={clippingColor(histogram, 0)}
+            stroke={clipping.shadows ? '#339af0' : 'none'}
+            strokeWidth={2}
+            style={{ cursor: 'pointer' }}
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={toggle('shadows')}
+          >
+            <title>Shadow clipping {percent(histogram?.clipped.shadows || 0).toFixed(1)}% (click to show)</title>
+          </polygon>
+          <polygon
+            points={`${WIDTH - 2},2 ${WIDTH - 2 - TRIANGLE},2 ${WIDTH - 2},${2 + TRIANGLE}`}
+            fill={clippingColor(histogram, 255)}
+            stroke={clipping.highlights ? '#ff6b6b' : 'none'}
+            strokeWidth={2}
+            style={{ cursor: 'pointer' }}
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={toggle('highlights')}
+          >
+            <title>Highlight clipping {percent(histogram?.clipped.highlights || 0).toFixed(1)}% (click to show)</title>
+          </polygon>
+        </svg>
+      </Box>
+      <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block', textAlign: 'center' }}>
+        {hovered
+          ? `${hovered.label} ${formatValue(hovered, adjustments[hovered.key] || 0)}`
+          : 'Drag left or right on the histogram to adjust that range'}
+      </Typography>
+    </Paper>
+  );
+};
+
+export default HistogramPanel;
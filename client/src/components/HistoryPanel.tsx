@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  Button,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { Restore } from '@mui/icons-material';
+import { HistoryEntry } from '../types';
+import { projectsAPI } from '../utils/api';
+import { downscalePixels, renderState } from '../utils/preview';
+
+interface HistoryPanelProps {
+  projectId: string;
+  // History is reloaded whenever the project version changes
+  version: number;
+  source: ImageData | null;
+  originalWidth: number;
+  onRevert: (entry: HistoryEntry) => void;
+  disabled?: boolean;
+}
+
+const THUMBNAIL_SIZE = 72;
+const PAGE_SIZE = 20;
+
+const formatKey = (key: string) => key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1').toLowerCase();
+
+// Summarise an entry from the values it changed
+const describeEntry = (entry: HistoryEntry): string => {
+  const changes = entry.changes || {};
+
+  switch (entry.action) {
+    case 'upload':
+      return entry.details?.filename ? `Imported ${entry.details.filename}` : 'Imported';
+    case 'adjust': {
+      const changed = Object.keys(changes.adjustments || {});
+      if (changed.length === 0) return 'Adjustments';
+      const names = changed.slice(0, 3).map(formatKey).join(', ');
+      return changed.length > 3 ? `${names} +${changed.length - 3}` : names;
+    }
+    case 'crop':
+      return changes.crop?.to ? 'Crop' : 'Removed crop';
+    case 'mask': {
+      const before = changes.masks?.from?.length || 0;
+      const after = changes.masks?.to?.length || 0;
+      if (after > before) return 'Added mask';
+      if (after < before) return 'Removed mask';
+      return 'Edited masks';
+    }
+    case 'spot': {
+      const before = changes.spots?.from?.length || 0;
+      const after = changes.spots?.to?.length || 0;
+      if (after > before) return 'Added spot';
+      if (after < before) return 'Removed spot';
+      return 'Edited spots';
+    }
+    case 'reset':
+      return 'Reset all edits';
+    case 'revert':
+      return 'Restored earlier step';
+    case 'snapshot':
+      return entry.details?.name ? `Applied snapshot "${entry.details.name}"` : 'Applied snapshot';
+    case 'copy':
+      return entry.details?.title ? `Virtual copy of ${entry.details.title}` : 'Created virtual copy';
+    case 'sync':
+      return entry.details?.title ? `Synced settings from ${entry.details.title}` : 'Synced settings';
+    case 'export':
+      return 'Exported';
+    default:
+      return entry.action;
+  }
+};
+
+const HistoryThumbnail: React.FC<{
+  source: ImageData;
+  state: NonNullable<HistoryEntry['state']>;
+  originalWidth: number;
+}> = ({ source, state, originalWidth }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const image = renderState(source, state, originalWidth);
+    canvas.width = image.width;
+    canvas.height = image.height;
+    canvas.getContext('2d')?.putImageData(image, 0, 0);
+  }, [source, state, originalWidth]);
+
+  return (
+    <Box
+      component="canvas"
+      ref={canvasRef}
+      sx={{ maxWidth: THUMBNAIL_SIZE, maxHeight: THUMBNAIL_SIZE, borderRadius: 0.5, flexShrink: 0 }}
+    />
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  projectId,
+  version,
+  source,
+  originalWidth,
+  onRevert,
+  disabled = false
+}) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Thumbnails render from a tiny copy of the preview
+  const thumbnailSource = useMemo(
+    () => (source ? downscalePixels(source, THUMBNAIL_SIZE) : null),
+    [source]
+  );
+
+  // Any save changes the newest entries, so start again from the first page
+  useEffect(() => {
+    let active = true;
+
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        const response = await projectsAPI.getProjectHistory(projectId, { page: 1, limit: PAGE_SIZE });
+        if (active) {
+          setEntries(response.history);
+          setPage(1);
+          setPages(response.pagination.pages);
+          setError(null);
+        }
+      } catch (err: any) {
+        console.error('Error loading history:', err);
+        if (active) setError('Failed to load history');
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      active = false;
+    };
+  }, [projectId, version]);
+
+  const loadOlder = async () => {
+    try {
+      setLoadingMore(true);
+      const response = await projectsAPI.getProjectHistory(projectId, { page: page + 1, limit: PAGE_SIZE });
+      setEntries(prev => [...prev, ...response.history]);
+      setPage(page + 1);
+      setPages(response.pagination.pages);
+    } catch (err: any) {
+      console.error('Error loading history:', err);
+      setError('Failed to load older history');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading && entries.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 1 }}>
+      {error && (
+        <Alert severity="error" sx={{ m: 1 }}>
+          {error}
+        </Alert>
+      )}
+
+      {entries.length === 0 && !error && (
+        <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+          No history yet
+        </Typography>
+      )}
+
+      <List dense>
+        {entries.map((entry, index) => (
+          <ListItem
+            key={entry._id}
+            sx={{ gap: 1.5, alignItems: 'center' }}
+            secondaryAction={index > 0 && entry.state && (
+              <Button
+                size="small"
+                startIcon={<Restore />}
+                onClick={() => onRevert(entry)}
+                disabled={disabled}
+              >
+                Restore
+              </Button>
+            )}
+          >
+            {thumbnailSource && entry.state && (
+              <HistoryThumbnail
+                source={thumbnailSource}
+                state={entry.state}
+                originalWidth={originalWidth}
+              />
+            )}
+            <ListItemText
+              primary={describeEntry(entry)}
+              secondary={index === 0 ? 'Current' : new Date(entry.timestamp).toLocaleString()}
+            />
+          </ListItem>
+        ))}
+      </List>
+
+      {page < pages && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', pb: 1 }}>
+          <Button size="small" onClick={loadOlder} disabled={loadingMore}>
+            {loadingMore ? <CircularProgress size={16} /> : 'Load older'}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,457 @@
+import React, { useRef, useState } from 'react';
+import { MAX_BRUSH_POINTS } from 'lightroom-clone-shared';
+import {
+  BrushMask,
+  BrushSettings,
+  BrushStroke,
+  ImageDimensions,
+  LinearGradientMask,
+  Mask,
+  MaskType,
+  RadialGradientMask
+} from '../types';
+import { MaskSpace, Point, brushPointCount, createMask } from '../utils/masks';
+
+// Where the render is drawn on the canvas, in canvas pixels
+interface PreviewRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface MaskHandlesProps {
+  masks: Mask[];
+  selectedId: string | null;
+  space: MaskSpace;
+  layout: PreviewRect;
+  dimensions: ImageDimensions;
+  // The kind of mask the next drag on the photo draws, if any
+  drawing: MaskType | null;
+  // Used for strokes on a new or the selected brush mask
+  brush: BrushSettings;
+  // Clicks sample a color for the selected mask's color range instead
+  pickingColor: boolean;
+  onSelect: (id: string) => void;
+  onCreate: (mask: Mask) => void;
+  onChange: (mask: Mask, label: string) => void;
+  // An image point clicked with the eyedropper; add keeps earlier samples
+  onPickColor: (at: Point, add: boolean) => void;
+}
+
+type HandleKind = 'move' | 'start' | 'end' | 'radiusX' | 'radiusY' | 'size';
+
+// A handle being dragged; the mask is as it was when the drag started
+interface HandleDrag {
+  kind: HandleKind;
+  mask: Mask;
+  origin: Point;
+  startX: number;
+  startY: number;
+  moved: boolean;
+  label: string;
+}
+
+// A stroke being painted; the mask is as it was before the stroke
+interface StrokeDrag {
+  mask: BrushMask;
+  stroke: BrushStroke;
+  // Screen position of the last point kept
+  lastX: number;
+  lastY: number;
+  label: string;
+}
+
+const HANDLE_RADIUS = 6;
+// Pointer travel before a press counts as a drag, in screen pixels
+const DRAG_THRESHOLD = 3;
+// Smallest radial radius, in original pixels
+const MIN_RADIUS = 2;
+const SELECTED_COLOR = '#1976d2';
+// Stroke points are kept this share of the brush radius apart, and at
+// least this many screen pixels; dabs are spaced closer when painting
+const POINT_SPACING = 0.2;
+const MIN_POINT_SPACING = 2;
+
+const HANDLE_LABELS: Record<HandleKind, string> = {
+  move: 'Move mask',
+  start: 'Edit mask',
+  end: 'Edit mask',
+  radiusX: 'Resize mask',
+  radiusY: 'Resize mask',
+  size: 'Resize mask'
+};
+
+// Ends of the radial's two axes, in image fractions
+const radialAxes = (mask: RadialGradientMask, { width, height }: ImageDimensions) => {
+  const radians = (mask.angle * Math.PI) / 180;
+  const radiusX = mask.radiusX * width;
+  const radiusY = mask.radiusY * height;
+  return {
+    axisX: {
+      x: mask.centerX + (radiusX * Math.cos(radians)) / width,
+      y: mask.centerY + (radiusX * Math.sin(radians)) / height
+    },
+    axisY: {
+      x: mask.centerX - (radiusY * Math.sin(radians)) / width,
+      y: mask.centerY + (radiusY * Math.cos(radians)) / height
+    }
+  };
+};
+
+/**
+ * The mask after moving one of its handles to an image point. Radial
+ * handles work in original pixels so the ellipse keeps its shape on
+ * images that aren't square. Brushes only move as a whole, and range masks
+ * cover the whole photo so have nothing to drag.
+ */
+const dragMask = ({ kind, mask, origin }: HandleDrag, point: Point, { width, height }: ImageDimensions): Mask => {
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+
+  if (mask.type === 'range') return mask;
+  if (mask.type === 'brush') {
+    const strokes = mask.strokes.map(stroke => ({
+      ...stroke,
+      points: stroke.points.map((value, index) => value + (index % 2 === 0 ? dx : dy))
+    }));
+    return { ...mask, strokes };
+  }
+
+  if (mask.type === 'linear') {
+    switch (kind) {
+      case 'start':
+        return { ...mask, startX: point.x, startY: point.y };
+      case 'end':
+        return { ...mask, endX: point.x, endY: point.y };
+      default:
+        return { ...mask, startX: mask.startX + dx, startY: mask.startY + dy, endX: mask.endX + dx, endY: mask.endY + dy };
+    }
+  }
+
+  const offsetX = (point.x - mask.centerX) * width;
+  const offsetY = (point.y - mask.centerY) * height;
+  const radians = (mask.angle * Math.PI) / 180;
+  switch (kind) {
+    case 'radiusX':
+      return {
+        ...mask,
+        radiusX: Math.max(Math.hypot(offsetX, offsetY), MIN_RADIUS) / width,
+        angle: ((Math.atan2(offsetY, offsetX) * 180) / Math.PI + 360) % 360
+      };
+    case 'radiusY': {
+      // Only the distance along the minor axis counts
+      const along = Math.abs(offsetY * Math.cos(radians) - offsetX * Math.sin(radians));
+      return { ...mask, radiusY: Math.max(along, MIN_RADIUS) / height };
+    }
+    case 'size': {
+      const radius = Math.max(Math.hypot(offsetX, offsetY), MIN_RADIUS);
+      return { ...mask, radiusX: radius / width, radiusY: radius / height };
+    }
+    default:
+      return { ...mask, centerX: mask.centerX + dx, centerY: mask.centerY + dy };
+  }
+};
+
+const MaskHandles: React.FC<MaskHandlesProps> = ({
+  masks,
+  selectedId,
+  space,
+  layout,
+  dimensions,
+  drawing,
+  brush,
+  pickingColor,
+  onSelect,
+  onCreate,
+  onChange,
+  onPickColor
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<HandleDrag | null>(null);
+  const strokeDrag = useRef<StrokeDrag | null>(null);
+  // Pointer position on the overlay, for the brush outline
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const factor = layout.width / space.width;
+  const selected = masks.find(mask => mask.id === selectedId);
+  // Painting onto the selected brush, or a new one
+  const painting = !pickingColor && (drawing === 'brush' || (!drawing && selected?.type === 'brush'));
+  const brushRadius = brush.size * Math.max(dimensions.width, dimensions.height) * factor;
+
+  const toScreen = (point: Point): Point => {
+    const render = space.toRender(point);
+    return { x: layout.x + render.x * factor, y: layout.y + render.y * factor };
+  };
+
+  const toImage = (event: React.PointerEvent): Point => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    return space.toImage({
+      x: (event.clientX - (rect?.left || 0) - layout.x) / factor,
+      y: (event.clientY - (rect?.top || 0) - layout.y) / factor
+    });
+  };
+
+  const beginDrag = (event: React.PointerEvent<SVGElement>, kind: HandleKind, mask: Mask, label: string) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drag.current = {
+      kind,
+      mask,
+      origin: toImage(event),
+      startX: event.clientX,
+      startY: event.clientY,
+      moved: false,
+      label
+    };
+  };
+
+  const handleDown = (kind: HandleKind, mask: Mask) => (event: React.PointerEvent<SVGElement>) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    onSelect(mask.id);
+    beginDrag(event, kind, mask, HANDLE_LABELS[kind]);
+  };
+
+  // Positions are rounded so long strokes stay small to store
+  const strokePoint = (event: React.PointerEvent): number[] => {
+    const { x, y } = toImage(event);
+    return [Math.round(x * 1e5) / 1e5, Math.round(y * 1e5) / 1e5];
+  };
+
+  // A new brush is added with its first stroke, so both undo as one step
+  const beginStroke = (event: React.PointerEvent<SVGSVGElement>, mask: BrushMask, isNew: boolean) => {
+    if (brushPointCount(masks) >= MAX_BRUSH_POINTS) return;
+
+    // Alt paints the other way, like switching erase on or off
+    const stroke: BrushStroke = { ...brush, erase: brush.erase !== event.altKey, points: strokePoint(event) };
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const label = isNew ? 'Add mask' : 'Brush stroke';
+    strokeDrag.current = { mask, stroke, lastX: event.clientX, lastY: event.clientY, label };
+    const painted = { ...mask, strokes: [...mask.strokes, stroke] };
+    if (isNew) {
+      onCreate(painted);
+    } else {
+      onChange(painted, label);
+    }
+  };
+
+  const continueStroke = (event: React.PointerEvent<SVGSVGElement>, active: StrokeDrag) => {
+    const spacing = Math.max(brushRadius * POINT_SPACING, MIN_POINT_SPACING);
+    if (Math.hypot(event.clientX - active.lastX, event.clientY - active.lastY) < spacing) return;
+    if (brushPointCount(masks) >= MAX_BRUSH_POINTS) return;
+
+    active.stroke = { ...active.stroke, points: [...active.stroke.points, ...strokePoint(event)] };
+    active.lastX = event.clientX;
+    active.lastY = event.clientY;
+    onChange({ ...active.mask, strokes: [...active.mask.strokes, active.stroke] }, active.label);
+  };
+
+  // Pressing on the photo while drawing places a new mask there; dragging
+  // then sets where a linear gradient ends or how big a radial one is, or
+  // paints. With a brush selected, dragging paints another stroke onto it.
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    // Shift adds to the colors sampled so far
+    if (pickingColor) {
+      onPickColor(toImage(event), event.shiftKey);
+      return;
+    }
+    if (drawing === 'brush') {
+      beginStroke(event, createMask('brush', toImage(event), dimensions, masks) as BrushMask, true);
+      return;
+    }
+    if (drawing) {
+      const mask = createMask(drawing, toImage(event), dimensions, masks);
+      onCreate(mask);
+      beginDrag(event, drawing === 'linear' ? 'end' : 'size', mask, 'Add mask');
+      return;
+    }
+    if (selected?.type === 'brush') {
+      beginStroke(event, selected, false);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (painting) {
+      const rect = event.currentTarget.getBoundingClientRect();
+      setPointer({ x: event.clientX - rect.left, y: event.clientY - rect.top });
+    }
+    if (strokeDrag.current) {
+      continueStroke(event, strokeDrag.current);
+      return;
+    }
+
+    const active = drag.current;
+    if (!active) return;
+    if (!active.moved && Math.hypot(event.clientX - active.startX, event.clientY - active.startY) < DRAG_THRESHOLD) {
+      return;
+    }
+    active.moved = true;
+    onChange(dragMask(active, toImage(event), dimensions), active.label);
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+    strokeDrag.current = null;
+  };
+
+  const handle = (kind: HandleKind, mask: Mask, at: Point, filled = false) => {
+    const { x, y } = toScreen(at);
+    return (
+      <circle
+        key={kind}
+        cx={x}
+        cy={y}
+        r={HANDLE_RADIUS}
+        fill={filled ? SELECTED_COLOR : '#ffffff'}
+        stroke={filled ? '#ffffff' : '#000000'}
+        strokeWidth={1.5}
+        style={{ pointerEvents: 'auto', cursor: kind === 'move' ? 'move' : 'pointer' }}
+        onPointerDown={handleDown(kind, mask)}
+      />
+    );
+  };
+
+  // Three lines across the image: full effect, halfway and none
+  const linearOutline = (mask: LinearGradientMask) => {
+    const start = toScreen({ x: mask.startX, y: mask.startY });
+    const end = toScreen({ x: mask.endX, y: mask.endY });
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    if (length === 0) return null;
+
+    const reach = Math.hypot(layout.width, layout.height);
+    const normalX = (-(end.y - start.y) / length) * reach;
+    const normalY = ((end.x - start.x) / length) * reach;
+    return [0, 0.5, 1].map(position => {
+      const x = start.x + (end.x - start.x) * position;
+      const y = start.y + (end.y - start.y) * position;
+      return (
+        <line
+          key={position}
+          x1={x - normalX}
+          y1={y - normalY}
+          x2={x + normalX}
+          y2={y + normalY}
+          stroke="#ffffff"
+          strokeWidth={1}
+          strokeDasharray={position === 0.5 ? '4,4' : undefined}
+        />
+      );
+    });
+  };
+
+  // The outer ellipse and, dashed, where the feathering starts
+  const radialOutline = (mask: RadialGradientMask) => {
+    const { axisX, axisY } = radialAxes(mask, dimensions);
+    const centre = toScreen({ x: mask.centerX, y: mask.centerY });
+    const endX = toScreen(axisX);
+    const endY = toScreen(axisY);
+    const radiusX = Math.hypot(endX.x - centre.x, endX.y - centre.y);
+    const radiusY = Math.hypot(endY.x - centre.x, endY.y - centre.y);
+    const rotation = (Math.atan2(endX.y - centre.y, endX.x - centre.x) * 180) / Math.PI;
+    const inner = 1 - mask.feather / 100;
+    const transform = `rotate(${rotation} ${centre.x} ${centre.y})`;
+
+    return (
+      <g transform={transform}>
+        <ellipse cx={centre.x} cy={centre.y} rx={radiusX} ry={radiusY} fill="none" stroke="#ffffff" strokeWidth={1} />
+        {inner > 0 && (
+          <ellipse
+            cx={centre.x}
+            cy={centre.y}
+            rx={radiusX * inner}
+            ry={radiusY * inner}
+            fill="none"
+            stroke="#ffffff"
+            strokeWidth={1}
+            strokeDasharray="4,4"
+          />
+        )}
+      </g>
+    );
+  };
+
+  // Every mask with a shape has a pin that selects and moves it; brushes
+  // get theirs where they were first painted
+  const pinOf = (mask: Mask): Point | null => {
+    if (mask.type === 'range') return null;
+    if (mask.type === 'linear') return { x: (mask.startX + mask.endX) / 2, y: (mask.startY + mask.endY) / 2 };
+    if (mask.type === 'radial') return { x: mask.centerX, y: mask.centerY };
+    const first = mask.strokes[0];
+    return first ? { x: first.points[0], y: first.points[1] } : null;
+  };
+
+  // Ends of the gradient, or the ends of the ellipse's axes
+  const shapeHandles = (mask: Mask) => {
+    if (mask.type === 'brush' || mask.type === 'range') return null;
+    if (mask.type === 'linear') {
+      return [
+        handle('start', mask, { x: mask.startX, y: mask.startY }),
+        handle('end', mask, { x: mask.endX, y: mask.endY })
+      ];
+    }
+    const { axisX, axisY } = radialAxes(mask, dimensions);
+    return [handle('radiusX', mask, axisX), handle('radiusY', mask, axisY)];
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        touchAction: 'none',
+        cursor: painting ? 'none' : drawing || pickingColor ? 'crosshair' : 'default',
+        pointerEvents: drawing || painting || pickingColor ? 'auto' : 'none'
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setPointer(null)}
+    >
+      <defs>
+        <clipPath id="mask-handles-render">
+          <rect x={layout.x} y={layout.y} width={layout.width} height={layout.height} />
+        </clipPath>
+      </defs>
+
+      {selected && selected.visible && (selected.type === 'linear' || selected.type === 'radial') && (
+        <g clipPath="url(#mask-handles-render)" opacity={0.8}>
+          {selected.type === 'linear' ? linearOutline(selected) : radialOutline(selected)}
+        </g>
+      )}
+
+      {masks.map(mask => {
+        const pin = pinOf(mask);
+        return pin && (
+          <g key={mask.id} opacity={mask.visible ? 1 : 0.5}>
+            {handle('move', mask, pin, mask.id === selectedId)}
+            {mask.id === selectedId && shapeHandles(mask)}
+          </g>
+        );
+      })}
+
+      {painting && pointer && (
+        <g pointerEvents="none">
+          <circle cx={pointer.x} cy={pointer.y} r={brushRadius} fill="none" stroke="#ffffff" strokeWidth={1} />
+          {brush.feather > 0 && brush.feather < 100 && (
+            <circle
+              cx={pointer.x}
+              cy={pointer.y}
+              r={brushRadius * (1 - brush.feather / 100)}
+              fill="none"
+              stroke="#ffffff"
+              strokeWidth={1}
+              strokeDasharray="3,3"
+            />
+          )}
+        </g>
+      )}
+    </svg>
+  );
+};
+
+export default MaskHandles;
@@ -0,0 +1,480 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  Switch,
+  FormControlLabel,
+  ToggleButtonGroup,
+  ToggleButton
+} from '@mui/material';
+import {
+  Gradient,
+  LinearScale,
+  RadioButtonUnchecked,
+  Brush,
+  Contrast,
+  Colorize,
+  Visibility,
+  VisibilityOff,
+  Delete
+} from '@mui/icons-material';
+import Slider from 'rc-slider';
+import { MAX_RANGE_COLORS } from 'lightroom-clone-shared';
+import { BrushSettings, Mask, MaskAdjustmentKey, MaskRange, MaskType } from '../types';
+import { OverlayStyle, createRangeMask, defaultRange } from '../utils/masks';
+import 'rc-slider/assets/index.css';
+
+interface MaskPanelProps {
+  masks: Mask[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onMasksChange: (masks: Mask[], label: string) => void;
+  // The kind of mask the next drag on the photo draws, if any
+  drawing: MaskType | null;
+  onDrawingChange: (drawing: MaskType | null) => void;
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+  brush: BrushSettings;
+  onBrushChange: (brush: BrushSettings) => void;
+  overlayStyle: OverlayStyle;
+  onOverlayStyleChange: (style: OverlayStyle) => void;
+  // Whether clicks on the photo sample colors for the selected color range
+  pickingColor: boolean;
+  onPickingColorChange: (picking: boolean) => void;
+}
+
+const SLIDERS: Array<{ key: MaskAdjustmentKey; label: string; min: number; max: number; step: number }> = [
+  { key: 'exposure', label: 'Exposure', min: -5, max: 5, step: 0.01 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'highlights', label: 'Highlights', min: -100, max: 100, step: 1 },
+  { key: 'shadows', label: 'Shadows', min: -100, max: 100, step: 1 },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+  { key: 'clarity', label: 'Clarity', min: -100, max: 100, step: 1 }
+];
+
+const BRUSH_SLIDERS: Array<{ key: 'feather' | 'flow' | 'density'; label: string }> = [
+  { key: 'feather', label: 'Feather' },
+  { key: 'flow', label: 'Flow' },
+  { key: 'density', label: 'Density' }
+];
+
+const MASK_ICONS: Record<MaskType, React.ReactElement> = {
+  linear: <LinearScale fontSize="small" />,
+  radial: <RadioButtonUnchecked fontSize="small" />,
+  brush: <Brush fontSize="small" />,
+  range: <Contrast fontSize="small" />
+};
+
+const iconOf = (mask: Mask) =>
+  (mask.type === 'range' && mask.range.type === 'color' ? <Colorize fontSize="small" /> : MASK_ICONS[mask.type]);
+
+// Range masks cover the whole photo, so aren't drawn
+const DRAWING_HINTS: Partial<Record<MaskType, string>> = {
+  linear: 'Drag on the photo from where the effect is full to where it fades out',
+  radial: 'Drag on the photo from the centre outwards',
+  brush: 'Paint on the photo; hold Alt to erase'
+};
+
+const formatValue = (key: MaskAdjustmentKey, value: number) => {
+  const text = key === 'exposure' ? value.toFixed(2) : value.toFixed(0);
+  return value > 0 ? `+${text}` : text;
+};
+
+// e.g. "Exposure +0.50, Saturation -20"
+const describeMask = (mask: Mask): string => {
+  const changed = SLIDERS.filter(({ key }) => mask.adjustments[key]);
+  if (changed.length === 0) return 'No adjustments';
+  return changed.map(({ key, label }) => `${label} ${formatValue(key, mask.adjustments[key] || 0)}`).join(', ');
+};
+
+const MaskPanel: React.FC<MaskPanelProps> = ({
+  masks,
+  selectedId,
+  onSelect,
+  onMasksChange,
+  drawing,
+  onDrawingChange,
+  showOverlay,
+  onShowOverlayChange,
+  brush,
+  onBrushChange,
+  overlayStyle,
+  onOverlayStyleChange,
+  pickingColor,
+  onPickingColorChange
+}) => {
+  const selected = masks.find(mask => mask.id === selectedId);
+  const brushActive = drawing === 'brush' || (!drawing && selected?.type === 'brush');
+
+  const updateMask = (id: string, changes: Partial<Mask>, label: string) => {
+    onMasksChange(masks.map(mask => (mask.id === id ? { ...mask, ...changes } as Mask : mask)), label);
+  };
+
+  const removeMask = (id: string) => {
+    onMasksChange(masks.filter(mask => mask.id !== id), 'Delete mask');
+    if (id === selectedId) onSelect(null);
+  };
+
+  const toggleDrawing = (type: MaskType) => {
+    onDrawingChange(drawing === type ? null : type);
+  };
+
+  const addRangeMask = (type: MaskRange['type']) => {
+    const mask = createRangeMask(type, masks);
+    onMasksChange([...masks, mask], 'Add mask');
+    onSelect(mask.id);
+    onDrawingChange(null);
+    onPickingColorChange(type === 'color');
+  };
+
+  // Switching between range kinds starts the new one afresh; only masks
+  // with a shape can drop their range
+  const setRangeType = (mask: Mask, type: MaskRange['type'] | 'none') => {
+    if (type === 'none') {
+      if (mask.type !== 'range') updateMask(mask.id, { range: null }, 'Mask range');
+    } else if (mask.range?.type !== type) {
+      updateMask(mask.id, { range: defaultRange(type) }, 'Mask range');
+    }
+    onPickingColorChange(type === 'color');
+  };
+
+  const updateRange = (mask: Mask, changes: Partial<MaskRange>, label: string) => {
+    if (mask.range) updateMask(mask.id, { range: { ...mask.range, ...changes } as MaskRange }, label);
+  };
+
+  return (
+    <Box sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        <Gradient sx={{ mr: 1, verticalAlign: 'middle' }} />
+        Masks
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+        <Button
+          size="small"
+          variant={drawing === 'linear' ? 'contained' : 'outlined'}
+          startIcon={<LinearScale />}
+          onClick={() => toggleDrawing('linear')}
+        >
+          Linear Gradient
+        </Button>
+        <Button
+          size="small"
+          variant={drawing === 'radial' ? 'contained' : 'outlined'}
+          startIcon={<RadioButtonUnchecked />}
+          onClick={() => toggleDrawing('radial')}
+        >
+          Radial Gradient
+        </Button>
+        <Button
+          size="small"
+          variant={drawing === 'brush' ? 'contained' : 'outlined'}
+          startIcon={<Brush />}
+          onClick={() => toggleDrawing('brush')}
+        >
+          Brush
+        </Button>
+        <Button size="small" variant="outlined" startIcon={<Contrast />} onClick={() => addRangeMask('luminance')}>
+          Luminance Range
+        </Button>
+        <Button size="small" variant="outlined" startIcon={<Colorize />} onClick={() => addRangeMask('color')}>
+          Color Range
+        </Button>
+      </Box>
+      {(drawing || brushActive) && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+          {DRAWING_HINTS[drawing || 'brush']}
+        </Typography>
+      )}
+
+      {brushActive && (
+        <Paper sx={{ p: 2, mb: 1, bgcolor: 'background.paper' }}>
+          <Typography variant="subtitle1" gutterBottom>
+            Brush
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <FormControlLabel
+              control={<Switch checked={brush.erase} onChange={(event) => onBrushChange({ ...brush, erase: event.target.checked })} />}
+              label="Erase"
+            />
+            <FormControlLabel
+              control={<Switch checked={brush.autoMask} onChange={(event) => onBrushChange({ ...brush, autoMask: event.target.checked })} />}
+              label="Auto Mask"
+            />
+          </Box>
+
+          <Box sx={{ my: 2 }}>
+            <Typography variant="body2" gutterBottom>
+              Size: {(brush.size * 100).toFixed(1)}%
+            </Typography>
+            <Slider
+              value={brush.size * 100}
+              min={0.2}
+              max={20}
+              step={0.1}
+              onChange={(value) => onBrushChange({ ...brush, size: (value as number) / 100 })}
+              trackStyle={{ backgroundColor: '#1976d2' }}
+              handleStyle={{ borderColor: '#1976d2' }}
+              railStyle={{ backgroundColor: '#555' }}
+            />
+          </Box>
+
+          {BRUSH_SLIDERS.map(({ key, label }) => (
+            <Box key={key} sx={{ mb: 2 }}>
+              <Typography variant="body2" gutterBottom>
+                {label}: {brush[key].toFixed(0)}
+              </Typography>
+              <Slider
+                value={brush[key]}
+                min={0}
+                max={100}
+                onChange={(value) => onBrushChange({ ...brush, [key]: value as number })}
+                trackStyle={{ backgroundColor: '#1976d2' }}
+                handleStyle={{ borderColor: '#1976d2' }}
+                railStyle={{ backgroundColor: '#555' }}
+              />
+            </Box>
+          ))}
+        </Paper>
+      )}
+
+      {masks.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+          No masks yet. Draw a gradient, paint with the brush or pick a range to adjust part of the photo.
+        </Typography>
+      ) : (
+        <List dense>
+          {masks.map(mask => (
+            <ListItem
+              key={mask.id}
+              disablePadding
+              secondaryAction={
+                <>
+                  <IconButton
+                    size="small"
+                    onClick={() => updateMask(mask.id, { visible: !mask.visible }, mask.visible ? 'Hide mask' : 'Show mask')}
+                    title={mask.visible ? 'Hide' : 'Show'}
+                  >
+                    {mask.visible ? <Visibility fontSize="small" /> : <VisibilityOff fontSize="small" />}
+                  </IconButton>
+                  <IconButton size="small" onClick={() => removeMask(mask.id)} title="Delete">
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </>
+              }
+            >
+              <ListItemButton selected={mask.id === selectedId} onClick={() => onSelect(mask.id)} sx={{ pr: 11 }}>
+                <ListItemIcon sx={{ minWidth: 36 }}>{iconOf(mask)}</ListItemIcon>
+                <ListItemText primary={mask.name || 'Mask'} secondary={describeMask(mask)} />
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <FormControlLabel
+        control={<Switch checked={showOverlay} onChange={(event) => onShowOverlayChange(event.target.checked)} />}
+        label="Show overlay (O)"
+      />
+      {showOverlay && (
+        <ToggleButtonGroup
+          value={overlayStyle}
+          exclusive
+          size="small"
+          onChange={(event, next: OverlayStyle | null) => next && onOverlayStyleChange(next)}
+          sx={{ ml: 1, mb: 1 }}
+        >
+          <ToggleButton value="color">Color</ToggleButton>
+          <ToggleButton value="grayscale">Grayscale</ToggleButton>
+        </ToggleButtonGroup>
+      )}
+
+      {selected && (
+        <Paper sx={{ p: 2, mt: 1, bgcolor: 'background.paper' }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+            <Typography variant="subtitle1">{selected.name || 'Mask'}</Typography>
+            <Typography
+              variant="body2"
+              sx={{ cursor: 'pointer', color: 'primary.main' }}
+              onClick={() => updateMask(selected.id, { adjustments: {} }, 'Reset mask')}
+            >
+              Reset
+            </Typography>
+          </Box>
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={selected.invert}
+                onChange={(event) => updateMask(selected.id, { invert: event.target.checked }, 'Invert mask')}
+              />
+            }
+            label="Invert"
+            sx={{ mb: 2 }}
+          />
+
+          {selected.type === 'radial' && (
+            <Box sx={{ mb: 3 }}>
+              <Typography variant="body2" gutterBottom>
+                Feather: {selected.feather.toFixed(0)}
+              </Typography>
+              <Slider
+                value={selected.feather}
+                min={0}
+                max={100}
+                onChange={(value) => updateMask(selected.id, { feather: value as number }, 'Mask feather')}
+                trackStyle={{ backgroundColor: '#1976d2' }}
+                handleStyle={{ borderColor: '#1976d2' }}
+                railStyle={{ backgroundColor: '#555' }}
+              />
+            </Box>
+          )}
+
+          <Typography variant="body2" gutterBottom>
+            Range
+          </Typography>
+          <ToggleButtonGroup
+            value={selected.range?.type || 'none'}
+            exclusive
+            size="small"
+            fullWidth
+            onChange={(event, next: MaskRange['type'] | 'none' | null) => next && setRangeType(selected, next)}
+            sx={{ mb: 2 }}
+          >
+            {selected.type !== 'range' && <ToggleButton value="none">None</ToggleButton>}
+            <ToggleButton value="luminance">Luminance</ToggleButton>
+            <ToggleButton value="color">Color</ToggleButton>
+          </ToggleButtonGroup>
+
+          {selected.range?.type === 'luminance' && (
+            <>
+              <Box sx={{ mb: 3 }}>
+                <Typography variant="body2" gutterBottom>
+                  Luminance: {selected.range.min.toFixed(0)} - {selected.range.max.toFixed(0)}
+                </Typography>
+                <Slider
+                  range
+                  value={[selected.range.min, selected.range.max]}
+                  min={0}
+                  max={100}
+                  allowCross={false}
+                  onChange={(value) => {
+                    const [min, max] = value as number[];
+                    updateRange(selected, { min, max }, 'Mask luminance range');
+                  }}
+                  trackStyle={{ backgroundColor: '#1976d2' }}
+                  handleStyle={{ borderColor: '#1976d2' }}
+                  railStyle={{ backgroundColor: '#555' }}
+                />
+              </Box>
+              <Box sx={{ mb: 3 }}>
+                <Typography variant="body2" gutterBottom>
+                  Smoothness: {selected.range.smoothness.toFixed(0)}
+                </Typography>
+                <Slider
+                  value={selected.range.smoothness}
+                  min={0}
+                  max={100}
+                  onChange={(value) => updateRange(selected, { smoothness: value as number }, 'Mask range smoothness')}
+                  trackStyle={{ backgroundColor: '#1976d2' }}
+                  handleStyle={{ borderColor: '#1976d2' }}
+                  railStyle={{ backgroundColor: '#555' }}
+                />
+              </Box>
+            </>
+          )}
+
+          {selected.range?.type === 'color' && (
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Button
+                  size="small"
+                  variant={pickingColor ? 'contained' : 'outlined'}
+                  startIcon={<Colorize />}
+                  onClick={() => onPickingColorChange(!pickingColor)}
+                >
+                  Pick Color
+                </Button>
+                {selected.range.colors.map((color, index) => (
+                  <Box
+                    key={index}
+                    title="Remove"
+                    onClick={() => selected.range?.type === 'color' && updateRange(
+                      selected,
+                      { colors: selected.range.colors.filter((_, other) => other !== index) },
+                      'Remove range color'
+                    )}
+                    sx={{
+                      width: 20,
+                      height: 20,
+                      borderRadius: '50%',
+                      border: '1px solid #fff',
+                      cursor: 'pointer',
+                      bgcolor: `rgb(${color.r}, ${color.g}, ${color.b})`
+                    }}
+                  />
+                ))}
+              </Box>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+                {selected.range.colors.length === 0
+                  ? 'Click the photo to sample a color'
+                  : `Click to sample again; Shift-click adds up to ${MAX_RANGE_COLORS} colors`}
+              </Typography>
+              <Box sx={{ mb: 3 }}>
+                <Typography variant="body2" gutterBottom>
+                  Amount: {selected.range.amount.toFixed(0)}
+                </Typography>
+                <Slider
+                  value={selected.range.amount}
+                  min={0}
+                  max={100}
+                  onChange={(value) => updateRange(selected, { amount: value as number }, 'Mask range amount')}
+                  trackStyle={{ backgroundColor: '#1976d2' }}
+                  handleStyle={{ borderColor: '#1976d2' }}
+                  railStyle={{ backgroundColor: '#555' }}
+                />
+              </Box>
+            </>
+          )}
+
+          {SLIDERS.map(({ key, label, min, max, step }) => {
+            const value = selected.adjustments[key] || 0;
+            return (
+              <Box key={key} sx={{ mb: 3 }}>
+                <Typography variant="body2" gutterBottom>
+                  {label}: {formatValue(key, value)}
+                </Typography>
+                <Slider
+                  value={value}
+                  min={min}
+                  max={max}
+                  step={step}
+                  onChange={(next) => updateMask(
+                    selected.id,
+                    { adjustments: { ...selected.adjustments, [key]: next as number } },
+                    `Mask ${label.toLowerCase()}`
+                  )}
+                  trackStyle={{ backgroundColor: '#1976d2' }}
+                  handleStyle={{ borderColor: '#1976d2' }}
+                  railStyle={{ backgroundColor: '#555' }}
+                />
+              </Box>
+            );
+          })}
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default MaskPanel;
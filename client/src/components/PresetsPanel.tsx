@@ -0,0 +1,410 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  ListSubheader,
+  Button,
+  IconButton,
+  Menu,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Autocomplete,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { Add, MoreVert, Edit, Delete, FileUpload, FileDownload } from '@mui/icons-material';
+import { saveAs } from 'file-saver';
+import { Preset, PresetGroup } from '../types';
+import { presetsAPI, projectsAPI } from '../utils/api';
+import { PRESET_GROUPS } from '../utils/presets';
+
+interface PresetsPanelProps {
+  projectId: string;
+  // Used to name the settings file when exporting the project as XMP
+  projectTitle: string;
+  // Runs before a preset is created, e.g. to save pending edits; false cancels
+  onBeforeCreate: () => Promise<boolean>;
+  // Called with the hovered preset, or null when the pointer leaves
+  onPreview: (preset: Preset | null) => void;
+  onApply: (preset: Preset) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_FOLDER = 'User Presets';
+const DEFAULT_GROUPS: PresetGroup[] = ['light', 'color', 'effects'];
+
+interface PresetForm {
+  // Set when editing an existing preset
+  id?: string;
+  name: string;
+  folder: string;
+  groups: PresetGroup[];
+}
+
+const PresetsPanel: React.FC<PresetsPanelProps> = ({
+  projectId,
+  projectTitle,
+  onBeforeCreate,
+  onPreview,
+  onApply,
+  disabled = false
+}) => {
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState<PresetForm | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [menu, setMenu] = useState<{ anchor: HTMLElement; preset: Preset } | null>(null);
+
+  const folders = useMemo(
+    () => Array.from(new Set(presets.map(preset => preset.folder))).sort(),
+    [presets]
+  );
+
+  useEffect(() => {
+    let active = true;
+
+    const loadPresets = async () => {
+      try {
+        setLoading(true);
+        const result = await presetsAPI.getPresets();
+        if (active) {
+          setPresets(result.presets);
+          setError(null);
+        }
+      } catch (err: any) {
+        console.error('Error loading presets:', err);
+        if (active) setError('Failed to load presets');
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
+    loadPresets();
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Don't leave a hover preview on the canvas when the panel closes
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  const handleSubmit = async () => {
+    if (!form || !form.name.trim()) return;
+
+    try {
+      setSubmitting(true);
+      const folder = form.folder.trim() || DEFAULT_FOLDER;
+
+      if (form.id) {
+        const updated = await presetsAPI.updatePreset(form.id, { name: form.name.trim(), folder });
+        setPresets(prev => prev.map(preset => (preset.id === updated.id ? updated : preset)));
+      } else {
+        if (!(await onBeforeCreate())) return;
+        const created = await presetsAPI.createPreset({
+          name: form.name.trim(),
+          folder,
+          groups: form.groups,
+          projectId
+        });
+        setPresets(prev => [...prev, created]);
+      }
+
+      setForm(null);
+      setError(null);
+    } catch (err: any) {
+      console.error('Error saving preset:', err);
+      setError(err.message || 'Failed to save preset');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (preset: Preset) => {
+    setMenu(null);
+    if (!window.confirm(`Delete preset "${preset.name}"?`)) return;
+
+    try {
+      await presetsAPI.deletePreset(preset.id);
+      setPresets(prev => prev.filter(item => item.id !== preset.id));
+    } catch (err: any) {
+      console.error('Error deleting preset:', err);
+      setError(err.message || 'Failed to delete preset');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setImporting(true);
+    const imported: Preset[] = [];
+    const unsupported = new Set<string>();
+    const failed: string[] = [];
+
+    for (const file of files) {
+      try {
+        const result = await presetsAPI.importXmp(await file.text());
+        imported.push(result.preset);
+        result.unsupported.forEach(tag => unsupported.add(tag));
+      } catch (err: any) {
+        console.error('Error importing preset:', err);
+        failed.push(`${file.name}: ${err.message || 'import failed'}`);
+      }
+    }
+
+    setPresets(prev => [...prev, ...imported]);
+    setError(failed.length > 0 ? `Could not import ${failed.join('; ')}` : null);
+    setNotice(
+      imported.length === 0
+        ? null
+        : `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.` +
+          (unsupported.size > 0 ? ` Not supported and skipped: ${Array.from(unsupported).sort().join(', ')}.` : '')
+    );
+    setImporting(false);
+  };
+
+  const handleExportPreset = async (preset: Preset) => {
+    setMenu(null);
+
+    try {
+      saveAs(await presetsAPI.exportXmp(preset.id), `${preset.name}.xmp`);
+    } catch (err: any) {
+      console.error('Error exporting preset:', err);
+      setError(err.message || 'Failed to export preset');
+    }
+  };
+
+  const handleExportSettings = async () => {
+    try {
+      if (!(await onBeforeCreate())) return;
+      saveAs(await projectsAPI.downloadXmp(projectId), `${projectTitle}.xmp`);
+    } catch (err: any) {
+      console.error('Error exporting settings:', err);
+      setError(err.message || 'Failed to export settings');
+    }
+  };
+
+  const handleRenameFolder = async (folder: string) => {
+    const name = window.prompt('Rename folder', folder)?.trim();
+    if (!name || name === folder) return;
+
+    try {
+      await presetsAPI.renameFolder(folder, name);
+      setPresets(prev => prev.map(preset => (preset.folder === folder ? { ...preset, folder: name } : preset)));
+    } catch (err: any) {
+      console.error('Error renaming folder:', err);
+      setError(err.message || 'Failed to rename folder');
+    }
+  };
+
+  const handleDeleteFolder = async (folder: string) => {
+    if (!window.confirm(`Delete folder "${folder}" and all of its presets?`)) return;
+
+    try {
+      await presetsAPI.deleteFolder(folder);
+      setPresets(prev => prev.filter(preset => preset.folder !== folder));
+    } catch (err: any) {
+      console.error('Error deleting folder:', err);
+      setError(err.message || 'Failed to delete folder');
+    }
+  };
+
+  const toggleGroup = (group: PresetGroup) => {
+    setForm(prev => prev && {
+      ...prev,
+      groups: prev.groups.includes(group)
+        ? prev.groups.filter(item => item !== group)
+        : [...prev.groups, group]
+    });
+  };
+
+  return (
+    <Box sx={{ p: 1 }}>
+      <Box sx={{ p: 1 }}>
+        <Button
+          variant="contained"
+          size="small"
+          startIcon={<Add />}
+          onClick={() => setForm({ name: '', folder: folders[0] || DEFAULT_FOLDER, groups: DEFAULT_GROUPS })}
+          disabled={disabled}
+          fullWidth
+        >
+          New Preset
+        </Button>
+        <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+          <Button
+            size="small"
+            startIcon={importing ? <CircularProgress size={14} /> : <FileUpload />}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            sx={{ flex: 1 }}
+          >
+            Import XMP
+          </Button>
+          <Button
+            size="small"
+            startIcon={<FileDownload />}
+            onClick={handleExportSettings}
+            disabled={disabled}
+            title="Download the current settings as an XMP file"
+            sx={{ flex: 1 }}
+          >
+            Export XMP
+          </Button>
+        </Box>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xmp,application/rdf+xml"
+          multiple
+          hidden
+          onChange={handleImport}
+        />
+      </Box>
+
+      {notice && (
+        <Alert severity="info" sx={{ m: 1 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ m: 1 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : presets.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+          No presets yet. Save the current settings as a preset to reuse them on other photos.
+        </Typography>
+      ) : (
+        <List dense onMouseLeave={() => onPreview(null)}>
+          {folders.map(folder => (
+            <React.Fragment key={folder}>
+              <ListSubheader sx={{ display: 'flex', alignItems: 'center', bgcolor: 'background.paper' }}>
+                <Box sx={{ flex: 1 }}>{folder}</Box>
+                <IconButton size="small" onClick={() => handleRenameFolder(folder)} title="Rename folder">
+                  <Edit fontSize="small" />
+                </IconButton>
+                <IconButton size="small" onClick={() => handleDeleteFolder(folder)} title="Delete folder">
+                  <Delete fontSize="small" />
+                </IconButton>
+              </ListSubheader>
+
+              {presets.filter(preset => preset.folder === folder).map(preset => (
+                <ListItem
+                  key={preset.id}
+                  disablePadding
+                  secondaryAction={
+                    <IconButton size="small" onClick={(e) => setMenu({ anchor: e.currentTarget, preset })}>
+                      <MoreVert fontSize="small" />
+                    </IconButton>
+                  }
+                >
+                  <ListItemButton
+                    onMouseEnter={() => onPreview(preset)}
+                    onMouseLeave={() => onPreview(null)}
+                    onClick={() => onApply(preset)}
+                    disabled={disabled}
+                  >
+                    <ListItemText
+                      primary={preset.name}
+                      secondary={preset.groups.map(group => PRESET_GROUPS.find(item => item.value === group)?.label).join(', ')}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              ))}
+            </React.Fragment>
+          ))}
+        </List>
+      )}
+
+      <Menu anchorEl={menu?.anchor} open={!!menu} onClose={() => setMenu(null)}>
+        <MenuItem
+          onClick={() => {
+            if (menu) setForm({ id: menu.preset.id, name: menu.preset.name, folder: menu.preset.folder, groups: menu.preset.groups });
+            setMenu(null);
+          }}
+        >
+          Rename or move
+        </MenuItem>
+        <MenuItem onClick={() => menu && handleExportPreset(menu.preset)}>Export as XMP</MenuItem>
+        <MenuItem onClick={() => menu && handleDelete(menu.preset)}>Delete</MenuItem>
+      </Menu>
+
+      <Dialog open={!!form} onClose={() => setForm(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{form?.id ? 'Edit Preset' : 'New Preset'}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+          <TextField
+            label="Name"
+            size="small"
+            value={form?.name || ''}
+            onChange={(e) => setForm(prev => prev && { ...prev, name: e.target.value })}
+            inputProps={{ maxLength: 50 }}
+            autoFocus
+          />
+          <Autocomplete
+            freeSolo
+            options={folders}
+            inputValue={form?.folder || ''}
+            onInputChange={(event, value) => setForm(prev => prev && { ...prev, folder: value })}
+            renderInput={(params) => <TextField {...params} label="Folder" size="small" />}
+          />
+          {!form?.id && (
+            <FormGroup>
+              <Typography variant="caption" color="text.secondary">
+                Include settings
+              </Typography>
+              {PRESET_GROUPS.map(group => (
+                <FormControlLabel
+                  key={group.value}
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={!!form?.groups.includes(group.value)}
+                      onChange={() => toggleGroup(group.value)}
+                    />
+                  }
+                  label={group.label}
+                />
+              ))}
+            </FormGroup>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSubmit}
+            disabled={submitting || !form?.name.trim() || form.groups.length === 0}
+          >
+            {form?.id ? 'Save' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PresetsPanel;
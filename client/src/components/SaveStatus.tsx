@@ -0,0 +1,43 @@
+import React from 'react';
+import { Box, CircularProgress, Typography } from '@mui/material';
+import { CloudDone, CloudOff, CloudQueue } from '@mui/icons-material';
+
+export type SaveState = 'saved' | 'saving' | 'unsaved' | 'offline';
+
+interface SaveStatusProps {
+  state: SaveState;
+}
+
+const LABELS: Record<SaveState, string> = {
+  saved: 'All changes saved',
+  saving: 'Saving...',
+  unsaved: 'Unsaved changes',
+  offline: 'Offline - changes not saved'
+};
+
+const SaveStatus: React.FC<SaveStatusProps> = ({ state }) => {
+  const renderIcon = () => {
+    switch (state) {
+      case 'saving':
+        return <CircularProgress size={14} />;
+      case 'offline':
+        return <CloudOff fontSize="small" color="warning" />;
+      case 'unsaved':
+        return <CloudQueue fontSize="small" />;
+      case 'saved':
+      default:
+        return <CloudDone fontSize="small" color="success" />;
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, mx: 2 }}>
+      {renderIcon()}
+      <Typography variant="caption" color={state === 'offline' ? 'warning.main' : 'text.secondary'}>
+        {LABELS[state]}
+      </Typography>
+    </Box>
+  );
+};
+
+export default SaveStatus;
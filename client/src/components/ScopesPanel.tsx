@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Typography, Paper, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { SKIN_TONE_ANGLE, ScopeGrid, Scopes, vectorscopePoint } from 'lightroom-clone-shared';
+
+interface ScopesPanelProps {
+  // Computed by the preview worker; missing until the first render with scopes
+  scopes?: Scopes;
+}
+
+type ScopeView = 'waveform' | 'parade' | 'vectorscope';
+
+type Rgb = [number, number, number];
+
+const WAVEFORM_WIDTH = 300;
+const WAVEFORM_HEIGHT = 160;
+const VECTORSCOPE_SIZE = 240;
+
+const TRACE_COLOR: Rgb = [170, 255, 170];
+const PARADE_COLORS: Rgb[] = [[255, 90, 90], [90, 255, 110], [90, 150, 255]];
+
+// 75% primaries and secondaries, the boxes a vectorscope graticule marks
+const TARGETS: Array<{ label: string; color: Rgb }> = [
+  { label: 'R', color: [191, 0, 0] },
+  { label: 'Yl', color: [191, 191, 0] },
+  { label: 'G', color: [0, 191, 0] },
+  { label: 'Cy', color: [0, 191, 191] },
+  { label: 'B', color: [0, 0, 191] },
+  { label: 'Mg', color: [191, 0, 191] }
+];
+
+/**
+ * Draw a grid of counts as a glowing trace. Counts are log scaled so a few
+ * stray pixels still show next to large flat areas.
+ */
+const gridToCanvas = (grid: ScopeGrid, color: Rgb): HTMLCanvasElement => {
+  let max = 1;
+  grid.data.forEach(count => {
+    if (count > max) max = count;
+  });
+  const logMax = Math.log1p(max);
+
+  const image = new ImageData(grid.width, grid.height);
+  grid.data.forEach((count, index) => {
+    if (count === 0) return;
+    const strength = 0.3 + 0.7 * (Math.log1p(count) / logMax);
+    const offset = index * 4;
+    image.data[offset] = color[0] * strength;
+    image.data[offset + 1] = color[1] * strength;
+    image.data[offset + 2] = color[2] * strength;
+    image.data[offset + 3] = 255;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.width;
+  canvas.height = grid.height;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+  return canvas;
+};
+
+// Level lines at 0, 25, 50, 75 and 100%
+const drawLevels = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+  ctx.font = '9px sans-serif';
+  ctx.lineWidth = 1;
+  [0, 25, 50, 75, 100].forEach(level => {
+    const y = Math.round(height - 1 - (level / 100) * (height - 1)) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+    ctx.fillText(String(level), 2, Math.min(Math.max(y - 2, 9), height - 2));
+  });
+};
+
+const drawWaveform = (ctx: CanvasRenderingContext2D, scopes: Scopes) => {
+  ctx.drawImage(gridToCanvas(scopes.waveform, TRACE_COLOR), 0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+  drawLevels(ctx, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+};
+
+const drawParade = (ctx: CanvasRenderingContext2D, scopes: Scopes) => {
+  const third = WAVEFORM_WIDTH / 3;
+  scopes.parade.forEach((grid, channel) => {
+    ctx.drawImage(gridToCanvas(grid, PARADE_COLORS[channel]), channel * third, 0, third - 2, WAVEFORM_HEIGHT);
+  });
+  drawLevels(ctx, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+};
+
+const drawVectorscope = (ctx: CanvasRenderingContext2D, scopes: Scopes) => {
+  const { vectorscope } = scopes;
+  const size = VECTORSCOPE_SIZE;
+  const centre = size / 2;
+  // Vectorscope cells to canvas pixels
+  const toCanvas = ([x, y]: [number, number]): [number, number] => [
+    ((x + 0.5) / vectorscope.width) * size,
+    ((y + 0.5) / vectorscope.height) * size
+  ];
+
+  ctx.drawImage(gridToCanvas(vectorscope, [255, 255, 255]), 0, 0, size, size);
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(centre, centre, centre - 1, 0, Math.PI * 2);
+  ctx.moveTo(centre, 0);
+  ctx.lineTo(centre, size);
+  ctx.moveTo(0, centre);
+  ctx.lineTo(size, centre);
+  ctx.stroke();
+
+  ctx.font = '9px sans-serif';
+  TARGETS.forEach(({ label, color }) => {
+    const [x, y] = toCanvas(vectorscopePoint(color[0], color[1], color[2], vectorscope.width));
+    ctx.strokeStyle = `rgb(${color.join(', ')})`;
+    ctx.strokeRect(x - 4, y - 4, 8, 8);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.fillText(label, x + 6, y + 3);
+  });
+
+  // Skin tone line from the centre out to the edge
+  const angle = (SKIN_TONE_ANGLE * Math.PI) / 180;
+  ctx.strokeStyle = 'rgba(255, 190, 150, 0.7)';
+  ctx.beginPath();
+  ctx.moveTo(centre, centre);
+  ctx.lineTo(centre + Math.cos(angle) * (centre - 1), centre - Math.sin(angle) * (centre - 1));
+  ctx.stroke();
+};
+
+const ScopesPanel: React.FC<ScopesPanelProps> = ({ scopes }) => {
+  const [view, setView] = useState<ScopeView>('waveform');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const width = view === 'vectorscope' ? VECTORSCOPE_SIZE : WAVEFORM_WIDTH;
+  const height = view === 'vectorscope' ? VECTORSCOPE_SIZE : WAVEFORM_HEIGHT;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = '#111111';
+    ctx.fillRect(0, 0, width, height);
+    if (!scopes) return;
+
+    ctx.imageSmoothingEnabled = true;
+    if (view === 'waveform') drawWaveform(ctx, scopes);
+    if (view === 'parade') drawParade(ctx, scopes);
+    if (view === 'vectorscope') drawVectorscope(ctx, scopes);
+  }, [scopes, view, width, height]);
+
+  return (
+    <Paper sx={{ p: 2, m: 2, bgcolor: 'background.paper' }}>
+      <Typography variant="subtitle1" gutterBottom>
+        Scopes
+      </Typography>
+
+      <ToggleButtonGroup
+        value={view}
+        exclusive
+        size="small"
+        fullWidth
+        onChange={(event, next: ScopeView | null) => next && setView(next)}
+        sx={{ mb: 1 }}
+      >
+        <ToggleButton value="waveform">Waveform</ToggleButton>
+        <ToggleButton value="parade">Parade</ToggleButton>
+        <ToggleButton value="vectorscope">Vectorscope</ToggleButton>
+      </ToggleButtonGroup>
+
+      <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+        <canvas ref={canvasRef} width={width} height={height} style={{ borderRadius: 4 }} />
+      </Box>
+
+      {view === 'vectorscope' && (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block', textAlign: 'center' }}>
+          Skin tones sit along the orange line when white balance is right
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default ScopesPanel;
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Button,
+  IconButton,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { AddAPhoto, Edit, Delete, Check, Close } from '@mui/icons-material';
+import { ProjectSnapshot } from '../types';
+import { projectsAPI } from '../utils/api';
+
+interface SnapshotsPanelProps {
+  projectId: string;
+  // Shown for snapshots whose thumbnail failed to render
+  fallbackThumbnailUrl: string;
+  // Runs before a snapshot is taken, e.g. to save pending edits; false cancels
+  onBeforeCreate: () => Promise<boolean>;
+  onApply: (snapshot: ProjectSnapshot) => void;
+  disabled?: boolean;
+}
+
+const THUMBNAIL_SIZE = 56;
+
+const SnapshotThumbnail: React.FC<{ src: string; alt: string }> = ({ src, alt }) => (
+  <Box
+    component="img"
+    src={src}
+    alt={alt}
+    sx={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, objectFit: 'cover', borderRadius: 0.5, flexShrink: 0 }}
+  />
+);
+
+const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({
+  projectId,
+  fallbackThumbnailUrl,
+  onBeforeCreate,
+  onApply,
+  disabled = false
+}) => {
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  useEffect(() => {
+    let active = true;
+
+    const loadSnapshots = async () => {
+      try {
+        setLoading(true);
+        const result = await projectsAPI.getSnapshots(projectId);
+        if (active) {
+          setSnapshots(result);
+          setError(null);
+        }
+      } catch (err: any) {
+        console.error('Error loading snapshots:', err);
+        if (active) setError('Failed to load snapshots');
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
+    loadSnapshots();
+    return () => {
+      active = false;
+    };
+  }, [projectId]);
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    try {
+      setCreating(true);
+      if (!(await onBeforeCreate())) return;
+
+      const snapshot = await projectsAPI.createSnapshot(projectId, name);
+      setSnapshots(prev => [...prev, snapshot]);
+      setNewName('');
+      setError(null);
+    } catch (err: any) {
+      console.error('Error saving snapshot:', err);
+      setError(err.message || 'Failed to save snapshot');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const startRename = (snapshot: ProjectSnapshot) => {
+    setEditingId(snapshot.id);
+    setEditingName(snapshot.name);
+  };
+
+  const handleRename = async () => {
+    const name = editingName.trim();
+    if (!editingId || !name) return;
+
+    try {
+      const renamed = await projectsAPI.renameSnapshot(projectId, editingId, name);
+      setSnapshots(prev => prev.map(snapshot => (snapshot.id === renamed.id ? renamed : snapshot)));
+      setEditingId(null);
+    } catch (err: any) {
+      console.error('Error renaming snapshot:', err);
+      setError(err.message || 'Failed to rename snapshot');
+    }
+  };
+
+  const handleDelete = async (snapshot: ProjectSnapshot) => {
+    if (!window.confirm(`Delete snapshot "${snapshot.name}"?`)) return;
+
+    try {
+      await projectsAPI.deleteSnapshot(projectId, snapshot.id);
+      setSnapshots(prev => prev.filter(item => item.id !== snapshot.id));
+    } catch (err: any) {
+      console.error('Error deleting snapshot:', err);
+      setError(err.message || 'Failed to delete snapshot');
+    }
+  };
+
+  return (
+    <Box sx={{ p: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1, p: 1 }}>
+        <TextField
+          size="small"
+          placeholder="Snapshot name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          inputProps={{ maxLength: 50 }}
+          fullWidth
+        />
+        <Button
+          variant="contained"
+          size="small"
+          startIcon={creating ? <CircularProgress size={14} /> : <AddAPhoto />}
+          onClick={handleCreate}
+          disabled={disabled || creating || !newName.trim()}
+        >
+          Save
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ m: 1 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : snapshots.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+          No snapshots yet. Save the current edits under a name to switch back to them later.
+        </Typography>
+      ) : (
+        <List dense>
+          {snapshots.map(snapshot => (
+            <ListItem
+              key={snapshot.id}
+              disablePadding
+              secondaryAction={editingId === snapshot.id ? (
+                <>
+                  <IconButton size="small" onClick={handleRename} title="Save name">
+                    <Check fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" onClick={() => setEditingId(null)} title="Cancel">
+                    <Close fontSize="small" />
+                  </IconButton>
+                </>
+              ) : (
+                <>
+                  <IconButton size="small" onClick={() => startRename(snapshot)} title="Rename">
+                    <Edit fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" onClick={() => handleDelete(snapshot)} title="Delete">
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </>
+              )}
+            >
+              {editingId === snapshot.id ? (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, py: 1, pl: 2, pr: 11 }}>
+                  <SnapshotThumbnail src={snapshot.thumbnailUrl || fallbackThumbnailUrl} alt={snapshot.name} />
+                  <TextField
+                    size="small"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    inputProps={{ maxLength: 50 }}
+                    autoFocus
+                  />
+                </Box>
+              ) : (
+                <ListItemButton
+                  onClick={() => onApply(snapshot)}
+                  disabled={disabled}
+                  title="Apply snapshot"
+                  sx={{ gap: 1.5, pr: 11 }}
+                >
+                  <SnapshotThumbnail src={snapshot.thumbnailUrl || fallbackThumbnailUrl} alt={snapshot.name} />
+                  <ListItemText
+                    primary={snapshot.name}
+                    secondary={new Date(snapshot.createdAt).toLocaleString()}
+                  />
+                </ListItemButton>
+              )}
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default SnapshotsPanel;
@@ -0,0 +1,296 @@
+import React, { useRef, useState } from 'react';
+import { MAX_SPOT_POINTS } from 'lightroom-clone-shared';
+import { ImageDimensions, Spot } from '../types';
+import { MaskSpace, Point } from '../utils/masks';
+
+// Where the render is drawn on the canvas, in canvas pixels
+interface PreviewRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface SpotHandlesProps {
+  spots: Spot[];
+  selectedId: string | null;
+  space: MaskSpace;
+  layout: PreviewRect;
+  dimensions: ImageDimensions;
+  // Radius of the next spot as a share of the original's longest edge
+  size: number;
+  onSelect: (id: string) => void;
+  // Image points, x, y pairs, clicked or painted for a new spot
+  onCreate: (points: number[]) => void;
+  onChange: (spot: Spot, label: string) => void;
+}
+
+type HandleKind = 'spot' | 'source';
+
+// A pin being dragged; the spot is as it was when the drag started
+interface HandleDrag {
+  kind: HandleKind;
+  spot: Spot;
+  origin: Point;
+  startX: number;
+  startY: number;
+  moved: boolean;
+}
+
+// A spot being painted, in image points, and the last screen position kept
+interface PaintDrag {
+  points: number[];
+  lastX: number;
+  lastY: number;
+}
+
+const HANDLE_RADIUS = 6;
+// Pointer travel before a press counts as a drag, in screen pixels
+const DRAG_THRESHOLD = 3;
+const SELECTED_COLOR = '#1976d2';
+// Painted points are kept this share of the spot radius apart, and at
+// least this many screen pixels
+const POINT_SPACING = 0.25;
+const MIN_POINT_SPACING = 2;
+
+const HANDLE_LABELS: Record<HandleKind, string> = {
+  spot: 'Move spot',
+  source: 'Move spot source'
+};
+
+const round = (value: number) => Math.round(value * 1e5) / 1e5;
+
+// Pins move the spot, keeping its source, or move just the source
+const dragSpot = ({ kind, spot, origin }: HandleDrag, point: Point): Spot => {
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+
+  if (kind === 'source') {
+    return { ...spot, sourceX: round(spot.sourceX + dx), sourceY: round(spot.sourceY + dy) };
+  }
+  return { ...spot, points: spot.points.map((value, index) => round(value + (index % 2 === 0 ? dx : dy))) };
+};
+
+/**
+ * Pins and outlines for spot removal over the preview. Clicking the photo
+ * adds a round spot and dragging paints one along the pointer's path; the
+ * selected spot shows where it's copied from, and both ends can be dragged.
+ */
+const SpotHandles: React.FC<SpotHandlesProps> = ({
+  spots,
+  selectedId,
+  space,
+  layout,
+  dimensions,
+  size,
+  onSelect,
+  onCreate,
+  onChange
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<HandleDrag | null>(null);
+  const paint = useRef<PaintDrag | null>(null);
+  // The spot being painted, drawn until it's added
+  const [painting, setPainting] = useState<number[] | null>(null);
+  // Pointer position on the overlay, for the spot outline
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const factor = layout.width / space.width;
+  const longestEdge = Math.max(dimensions.width, dimensions.height);
+  const selected = spots.find(spot => spot.id === selectedId);
+
+  const toScreen = (point: Point): Point => {
+    const render = space.toRender(point);
+    return { x: layout.x + render.x * factor, y: layout.y + render.y * factor };
+  };
+
+  const toImage = (event: React.PointerEvent): Point => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    return space.toImage({
+      x: (event.clientX - (rect?.left || 0) - layout.x) / factor,
+      y: (event.clientY - (rect?.top || 0) - layout.y) / factor
+    });
+  };
+
+  const handleDown = (kind: HandleKind, spot: Spot) => (event: React.PointerEvent<SVGElement>) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onSelect(spot.id);
+    drag.current = {
+      kind,
+      spot,
+      origin: toImage(event),
+      startX: event.clientX,
+      startY: event.clientY,
+      moved: false
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = toImage(event);
+    paint.current = { points: [x, y], lastX: event.clientX, lastY: event.clientY };
+    setPainting(paint.current.points);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    setPointer({ x: event.clientX - rect.left, y: event.clientY - rect.top });
+
+    const active = paint.current;
+    if (active) {
+      const spacing = Math.max(size * longestEdge * factor * POINT_SPACING, MIN_POINT_SPACING);
+      const travelled = Math.hypot(event.clientX - active.lastX, event.clientY - active.lastY);
+      // A click that wobbles a little still makes a round spot
+      const threshold = active.points.length === 2 ? Math.max(spacing, DRAG_THRESHOLD) : spacing;
+      if (travelled < threshold || active.points.length >= MAX_SPOT_POINTS * 2) return;
+
+      const { x, y } = toImage(event);
+      active.points = [...active.points, x, y];
+      active.lastX = event.clientX;
+      active.lastY = event.clientY;
+      setPainting(active.points);
+      return;
+    }
+
+    const moving = drag.current;
+    if (!moving) return;
+    if (!moving.moved && Math.hypot(event.clientX - moving.startX, event.clientY - moving.startY) < DRAG_THRESHOLD) {
+      return;
+    }
+    moving.moved = true;
+    onChange(dragSpot(moving, toImage(event)), HANDLE_LABELS[moving.kind]);
+  };
+
+  const handlePointerUp = () => {
+    if (paint.current) {
+      onCreate(paint.current.points);
+    }
+    paint.current = null;
+    drag.current = null;
+    setPainting(null);
+  };
+
+  // The area a spot covers, translucent: a circle or a round-ended band
+  const shape = (points: number[], radius: number, key: string, opacity: number) => {
+    const screen: Point[] = [];
+    for (let i = 0; i + 1 < points.length; i += 2) {
+      screen.push(toScreen({ x: points[i], y: points[i + 1] }));
+    }
+    if (screen.length === 1) {
+      return (
+        <circle
+          key={key}
+          cx={screen[0].x}
+          cy={screen[0].y}
+          r={radius}
+          fill="none"
+          stroke="#ffffff"
+          strokeWidth={1.5}
+          opacity={opacity}
+        />
+      );
+    }
+    return (
+      <polyline
+        key={key}
+        points={screen.map(({ x, y }) => `${x},${y}`).join(' ')}
+        fill="none"
+        stroke="#ffffff"
+        strokeWidth={radius * 2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        opacity={opacity * 0.3}
+      />
+    );
+  };
+
+  const handle = (kind: HandleKind, spot: Spot, at: Point, filled: boolean) => {
+    const { x, y } = toScreen(at);
+    return (
+      <circle
+        key={kind}
+        cx={x}
+        cy={y}
+        r={HANDLE_RADIUS}
+        fill={filled ? SELECTED_COLOR : '#ffffff'}
+        stroke={filled ? '#ffffff' : '#000000'}
+        strokeWidth={1.5}
+        style={{ pointerEvents: 'auto', cursor: 'move' }}
+        onPointerDown={handleDown(kind, spot)}
+      />
+    );
+  };
+
+  // The selected spot, the same shape where it's copied from, and a line
+  // joining their pins
+  const selectedOutline = (spot: Spot) => {
+    const radius = spot.size * longestEdge * factor;
+    const offsetX = spot.sourceX - spot.points[0];
+    const offsetY = spot.sourceY - spot.points[1];
+    const source = spot.points.map((value, index) => value + (index % 2 === 0 ? offsetX : offsetY));
+    const from = toScreen({ x: spot.sourceX, y: spot.sourceY });
+    const to = toScreen({ x: spot.points[0], y: spot.points[1] });
+
+    return (
+      <g pointerEvents="none">
+        {shape(spot.points, radius, 'spot', 1)}
+        {shape(source, radius, 'source', 0.6)}
+        <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="#ffffff" strokeWidth={1} strokeDasharray="4,4" />
+      </g>
+    );
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        touchAction: 'none',
+        cursor: 'crosshair'
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setPointer(null)}
+    >
+      <defs>
+        <clipPath id="spot-handles-render">
+          <rect x={layout.x} y={layout.y} width={layout.width} height={layout.height} />
+        </clipPath>
+      </defs>
+
+      <g clipPath="url(#spot-handles-render)">
+        {selected && selectedOutline(selected)}
+        {painting && <g pointerEvents="none">{shape(painting, size * longestEdge * factor, 'painting', 1)}</g>}
+      </g>
+
+      {spots.map(spot => (
+        <g key={spot.id}>
+          {handle('spot', spot, { x: spot.points[0], y: spot.points[1] }, spot.id === selectedId)}
+          {spot.id === selectedId && handle('source', spot, { x: spot.sourceX, y: spot.sourceY }, false)}
+        </g>
+      ))}
+
+      {pointer && !painting && (
+        <circle
+          cx={pointer.x}
+          cy={pointer.y}
+          r={size * longestEdge * factor}
+          fill="none"
+          stroke="#ffffff"
+          strokeWidth={1}
+          pointerEvents="none"
+        />
+      )}
+    </svg>
+  );
+};
+
+export default SpotHandles;
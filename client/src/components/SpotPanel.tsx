@@ -0,0 +1,179 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  Switch,
+  FormControlLabel,
+  ToggleButtonGroup,
+  ToggleButton
+} from '@mui/material';
+import { Healing, AutoFixHigh, Delete } from '@mui/icons-material';
+import Slider from 'rc-slider';
+import { MAX_SPOTS } from 'lightroom-clone-shared';
+import { Spot, SpotMode, SpotSettings } from '../types';
+import 'rc-slider/assets/index.css';
+
+interface SpotPanelProps {
+  spots: Spot[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onSpotsChange: (spots: Spot[], label: string) => void;
+  // Mode and size of the next spot placed
+  settings: SpotSettings;
+  onSettingsChange: (settings: SpotSettings) => void;
+  // Picks a new source for the selected spot
+  onFindSource: () => void;
+  visualize: boolean;
+  onVisualizeChange: (visualize: boolean) => void;
+  visualizeThreshold: number;
+  onVisualizeThresholdChange: (threshold: number) => void;
+}
+
+const SLIDERS: Array<{ key: 'feather' | 'opacity'; label: string }> = [
+  { key: 'feather', label: 'Feather' },
+  { key: 'opacity', label: 'Opacity' }
+];
+
+const SpotPanel: React.FC<SpotPanelProps> = ({
+  spots,
+  selectedId,
+  onSelect,
+  onSpotsChange,
+  settings,
+  onSettingsChange,
+  onFindSource,
+  visualize,
+  onVisualizeChange,
+  visualizeThreshold,
+  onVisualizeThresholdChange
+}) => {
+  const selected = spots.find(spot => spot.id === selectedId);
+  // The sliders edit the selected spot, or the next one when none is
+  const values: SpotSettings = selected || settings;
+
+  const update = (changes: Partial<SpotSettings>, label: string) => {
+    onSettingsChange({ ...settings, ...changes });
+    if (selected) {
+      onSpotsChange(spots.map(spot => (spot.id === selected.id ? { ...spot, ...changes } : spot)), label);
+    }
+  };
+
+  const removeSpot = () => {
+    if (!selected) return;
+    onSpotsChange(spots.filter(spot => spot.id !== selected.id), 'Delete spot');
+    onSelect(null);
+  };
+
+  const clearSpots = () => {
+    onSpotsChange([], 'Clear spots');
+    onSelect(null);
+  };
+
+  return (
+    <Box sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        <Healing sx={{ mr: 1, verticalAlign: 'middle' }} />
+        Spot Removal
+      </Typography>
+
+      <ToggleButtonGroup
+        value={values.mode}
+        exclusive
+        size="small"
+        fullWidth
+        onChange={(event, next: SpotMode | null) => next && update({ mode: next }, 'Spot mode')}
+        sx={{ mb: 1 }}
+      >
+        <ToggleButton value="heal">Heal</ToggleButton>
+        <ToggleButton value="clone">Clone</ToggleButton>
+      </ToggleButtonGroup>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+        {spots.length >= MAX_SPOTS
+          ? `A photo can have up to ${MAX_SPOTS} spots`
+          : 'Click a blemish on the photo, or paint over a longer one. Drag the pins to move a spot or its source.'}
+      </Typography>
+
+      <Paper sx={{ p: 2, mb: 1, bgcolor: 'background.paper' }}>
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="body2" gutterBottom>
+            Size: {(values.size * 100).toFixed(1)}%
+          </Typography>
+          <Slider
+            value={values.size * 100}
+            min={0.2}
+            max={20}
+            step={0.1}
+            onChange={(value) => update({ size: (value as number) / 100 }, 'Spot size')}
+            trackStyle={{ backgroundColor: '#1976d2' }}
+            handleStyle={{ borderColor: '#1976d2' }}
+            railStyle={{ backgroundColor: '#555' }}
+          />
+        </Box>
+
+        {SLIDERS.map(({ key, label }) => (
+          <Box key={key} sx={{ mb: 2 }}>
+            <Typography variant="body2" gutterBottom>
+              {label}: {values[key].toFixed(0)}
+            </Typography>
+            <Slider
+              value={values[key]}
+              min={0}
+              max={100}
+              onChange={(value) => update({ [key]: value as number }, `Spot ${label.toLowerCase()}`)}
+              trackStyle={{ backgroundColor: '#1976d2' }}
+              handleStyle={{ borderColor: '#1976d2' }}
+              railStyle={{ backgroundColor: '#555' }}
+            />
+          </Box>
+        ))}
+
+        {selected && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            <Button size="small" variant="outlined" startIcon={<AutoFixHigh />} onClick={onFindSource}>
+              Find New Source
+            </Button>
+            <Button size="small" variant="outlined" color="error" startIcon={<Delete />} onClick={removeSpot}>
+              Delete Spot
+            </Button>
+          </Box>
+        )}
+      </Paper>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          {spots.length === 1 ? '1 spot' : `${spots.length} spots`}
+        </Typography>
+        {spots.length > 0 && (
+          <Typography variant="body2" sx={{ cursor: 'pointer', color: 'primary.main' }} onClick={clearSpots}>
+            Clear All
+          </Typography>
+        )}
+      </Box>
+
+      <FormControlLabel
+        control={<Switch checked={visualize} onChange={(event) => onVisualizeChange(event.target.checked)} />}
+        label="Visualize spots (A)"
+      />
+      {visualize && (
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="body2" gutterBottom>
+            Threshold: {visualizeThreshold.toFixed(0)}
+          </Typography>
+          <Slider
+            value={visualizeThreshold}
+            min={0}
+            max={100}
+            onChange={(value) => onVisualizeThresholdChange(value as number)}
+            trackStyle={{ backgroundColor: '#1976d2' }}
+            handleStyle={{ borderColor: '#1976d2' }}
+            railStyle={{ backgroundColor: '#555' }}
+          />
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default SpotPanel;
@@ -0,0 +1,298 @@
+import React, { useRef, useState } from 'react';
+import { Box, Typography, Paper, ToggleButtonGroup, ToggleButton } from '@mui/material';
+import { TonalityOutlined } from '@mui/icons-material';
+import Slider from 'rc-slider';
+import * as d3 from 'd3';
+import { PARAMETRIC_SPLITS, buildCurveLUT, buildParametricLUT } from 'lightroom-clone-shared';
+import { CurvePoint, ParametricRegion, ToneCurve, ToneCurveChannel } from '../types';
+import 'rc-slider/assets/index.css';
+
+interface ToneCurveEditorProps {
+  curves?: CurvePoint[];
+  toneCurve: ToneCurve;
+  onChange: (changes: { curves?: CurvePoint[]; toneCurve?: ToneCurve }) => void;
+}
+
+type CurveMode = 'parametric' | 'point';
+type CurveChannel = 'rgb' | ToneCurveChannel;
+
+const CHANNELS: Array<{ value: CurveChannel; label: string; color: string }> = [
+  { value: 'rgb', label: 'RGB', color: '#ffffff' },
+  { value: 'red', label: 'Red', color: '#ff6b6b' },
+  { value: 'green', label: 'Green', color: '#51cf66' },
+  { value: 'blue', label: 'Blue', color: '#339af0' }
+];
+
+const REGIONS: Array<{ value: ParametricRegion; label: string }> = [
+  { value: 'highlights', label: 'Highlights' },
+  { value: 'lights', label: 'Lights' },
+  { value: 'darks', label: 'Darks' },
+  { value: 'shadows', label: 'Shadows' }
+];
+
+const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+const SIZE = 280;
+const MARGIN = 10;
+const MAX_POINTS = 16;
+// How close (in screen pixels) a press has to be to grab a point
+const HIT_RADIUS = 8;
+// Dragging an inner point this far past the top or bottom removes it
+const REMOVE_DISTANCE = 20;
+
+const scale = d3.scaleLinear().domain([0, 255]).range([0, SIZE]);
+const scaleY = d3.scaleLinear().domain([0, 255]).range([SIZE, 0]);
+
+// SVG path through a lookup table, so the line shows exactly what renders
+const lutPath = (lut: Float32Array): string =>
+  d3.line<number>()
+    .x((_, i) => scale(i))
+    .y(value => scaleY(value * 255))(Array.from(lut)) || '';
+
+const ToneCurveEditor: React.FC<ToneCurveEditorProps> = ({ curves, toneCurve, onChange }) => {
+  const [mode, setMode] = useState<CurveMode>('point');
+  const [channel, setChannel] = useState<CurveChannel>('rgb');
+  const dragIndex = useRef<number | null>(null);
+
+  const stored = channel === 'rgb' ? curves : toneCurve[channel];
+  const points = stored && stored.length >= 2 ? stored : IDENTITY_CURVE;
+  const parametric = toneCurve.parametric || {};
+  const color = CHANNELS.find(item => item.value === channel)?.color || '#ffffff';
+
+  const lut = mode === 'parametric' ? buildParametricLUT(parametric) : buildCurveLUT(points);
+  const path = lutPath(lut || buildCurveLUT(IDENTITY_CURVE));
+
+  const updatePoints = (next: CurvePoint[]) => {
+    if (channel === 'rgb') {
+      onChange({ curves: next });
+    } else {
+      onChange({ toneCurve: { ...toneCurve, [channel]: next } });
+    }
+  };
+
+  const updateParametric = (changes: typeof parametric) => {
+    onChange({ toneCurve: { ...toneCurve, parametric: { ...parametric, ...changes } } });
+  };
+
+  // Pointer position in curve values (0-255), unclamped
+  const toCurve = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: scale.invert(event.clientX - rect.left - MARGIN),
+      y: scaleY.invert(event.clientY - rect.top - MARGIN)
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (mode !== 'point' || event.button !== 0) return;
+    const { x, y } = toCurve(event);
+    if (x < 0 || x > 255 || y < 0 || y > 255) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const hit = points.findIndex(point =>
+      Math.hypot(scale(point.x) - scale(x), scaleY(point.y) - scaleY(y)) <= HIT_RADIUS
+    );
+    if (hit >= 0) {
+      dragIndex.current = hit;
+      return;
+    }
+
+    // Add a point where the user pressed, unless one already sits at that input
+    const input = Math.round(x);
+    if (points.length >= MAX_POINTS || points.some(point => point.x === input)) return;
+    const next = [...points, { x: input, y: Math.round(y) }].sort((a, b) => a.x - b.x);
+    dragIndex.current = next.findIndex(point => point.x === input);
+    updatePoints(next);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragIndex.current;
+    if (index === null) return;
+    const { x, y } = toCurve(event);
+    const inner = index > 0 && index < points.length - 1;
+
+    if (inner && (y < -REMOVE_DISTANCE || y > 255 + REMOVE_DISTANCE)) {
+      dragIndex.current = null;
+      updatePoints(points.filter((_, i) => i !== index));
+      return;
+    }
+
+    // Points keep their order along the input axis
+    const min = index > 0 ? points[index - 1].x + 1 : 0;
+    const max = index < points.length - 1 ? points[index + 1].x - 1 : 255;
+    const next = [...points];
+    next[index] = {
+      x: Math.round(Math.min(Math.max(x, min), max)),
+      y: Math.round(Math.min(Math.max(y, 0), 255))
+    };
+    updatePoints(next);
+  };
+
+  const handlePointerUp = () => {
+    dragIndex.current = null;
+  };
+
+  const removePoint = (index: number) => {
+    if (index === 0 || index === points.length - 1) return;
+    updatePoints(points.filter((_, i) => i !== index));
+  };
+
+  const resetCurve = () => {
+    if (mode === 'parametric') {
+      onChange({ toneCurve: { ...toneCurve, parametric: { ...PARAMETRIC_SPLITS } } });
+    } else {
+      updatePoints(IDENTITY_CURVE);
+    }
+  };
+
+  const splits = [
+    parametric.shadowSplit ?? PARAMETRIC_SPLITS.shadowSplit,
+    parametric.midtoneSplit ?? PARAMETRIC_SPLITS.midtoneSplit,
+    parametric.highlightSplit ?? PARAMETRIC_SPLITS.highlightSplit
+  ];
+  const ticks = [0, 64, 128, 192, 255];
+
+  return (
+    <Paper sx={{ p: 2, bgcolor: 'background.paper' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle1">
+          <TonalityOutlined sx={{ mr: 1, verticalAlign: 'middle' }} />
+          Tone Curve
+        </Typography>
+        <Typography
+          variant="body2"
+          sx={{ cursor: 'pointer', color: 'primary.main' }}
+          onClick={resetCurve}
+        >
+          Reset
+        </Typography>
+      </Box>
+
+      <ToggleButtonGroup
+        value={mode}
+        exclusive
+        size="small"
+        fullWidth
+        onChange={(event, next: CurveMode | null) => next && setMode(next)}
+        sx={{ mb: 1 }}
+      >
+        <ToggleButton value="parametric">Parametric</ToggleButton>
+        <ToggleButton value="point">Point</ToggleButton>
+      </ToggleButtonGroup>
+
+      {mode === 'point' && (
+        <ToggleButtonGroup
+          value={channel}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(event, next: CurveChannel | null) => next && setChannel(next)}
+          sx={{ mb: 1 }}
+        >
+          {CHANNELS.map(item => (
+            <ToggleButton key={item.value} value={item.value} sx={{ color: item.color }}>
+              {item.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+        <svg
+          width={SIZE + MARGIN * 2}
+          height={SIZE + MARGIN * 2}
+          style={{ background: '#1a1a1a', borderRadius: '4px', touchAction: 'none', cursor: mode === 'point' ? 'crosshair' : 'default' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          <g transform={`translate(${MARGIN},${MARGIN})`}>
+            {ticks.map(tick => (
+              <g key={tick}>
+                <line x1={scale(tick)} x2={scale(tick)} y1={0} y2={SIZE} stroke="#444" strokeWidth={tick % 255 === 0 ? 1 : 0.5} />
+                <line x1={0} x2={SIZE} y1={scaleY(tick)} y2={scaleY(tick)} stroke="#444" strokeWidth={tick % 255 === 0 ? 1 : 0.5} />
+              </g>
+            ))}
+            <line x1={0} y1={SIZE} x2={SIZE} y2={0} stroke="#666" strokeDasharray="3,3" />
+
+            {mode === 'parametric' && splits.map(position => (
+              <line
+                key={position}
+                x1={scale((position / 100) * 255)}
+                x2={scale((position / 100) * 255)}
+                y1={0}
+                y2={SIZE}
+                stroke="#888"
+                strokeDasharray="2,4"
+              />
+            ))}
+
+            <path d={path} fill="none" stroke={mode === 'point' ? color : '#ffffff'} strokeWidth={2} />
+
+            {mode === 'point' && points.map((point, index) => (
+              <circle
+                key={index}
+                cx={scale(point.x)}
+                cy={scaleY(point.y)}
+                r={4}
+                fill={color}
+                stroke="#000"
+                style={{ cursor: 'pointer' }}
+                onDoubleClick={() => removePoint(index)}
+              />
+            ))}
+          </g>
+        </svg>
+      </Box>
+
+      {mode === 'point' ? (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+          Click to add a point and drag to move it; double-click a point or drag it off the graph to remove it
+        </Typography>
+      ) : (
+        <Box sx={{ mt: 2 }}>
+          {REGIONS.map(region => {
+            const value = parametric[region.value] || 0;
+            return (
+              <Box key={region.value} sx={{ mb: 2 }}>
+                <Typography variant="body2" gutterBottom>
+                  {region.label}: {value.toFixed(0)}
+                </Typography>
+                <Slider
+                  value={value}
+                  min={-100}
+                  max={100}
+                  onChange={(next) => updateParametric({ [region.value]: next as number })}
+                  trackStyle={{ backgroundColor: '#1976d2' }}
+                  handleStyle={{ borderColor: '#1976d2' }}
+                  railStyle={{ backgroundColor: '#555' }}
+                />
+              </Box>
+            );
+          })}
+
+          <Typography variant="body2" gutterBottom>
+            Region splits: {splits.join(' / ')}
+          </Typography>
+          <Slider
+            range
+            value={splits}
+            min={10}
+            max={90}
+            allowCross={false}
+            pushable={10}
+            onChange={(next) => {
+              const [shadowSplit, midtoneSplit, highlightSplit] = next as number[];
+              updateParametric({ shadowSplit, midtoneSplit, highlightSplit });
+            }}
+            trackStyle={[{ backgroundColor: '#555' }, { backgroundColor: '#555' }]}
+            handleStyle={[{ borderColor: '#888' }, { borderColor: '#888' }, { borderColor: '#888' }]}
+            railStyle={{ backgroundColor: '#555' }}
+          />
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default ToneCurveEditor;
@@ -76,6 +76,9 @@ export const editorShortcuts = {
   resetAdjustments: { key: 'r', ctrl: true, description: 'Reset all adjustments' },
   copyAdjustments: { key: 'c', ctrl: true, alt: true, description: 'Copy adjustments' },
   pasteAdjustments: { key: 'v', ctrl: true, alt: true, description: 'Paste adjustments' },
+  toggleClipping: { key: 'j', description: 'Show or hide clipping overlays' },
+  toggleMaskOverlay: { key: 'o', description: 'Show or hide the selected mask overlay' },
+  visualizeSpots: { key: 'a', description: 'Show or hide the spot visualization' },
 };
 
 export const dashboardShortcuts = {
@@ -0,0 +1,87 @@
+import { useCallback, useRef, useState } from 'react';
+
+interface UndoStep<T> {
+  label: string;
+  before: T;
+  after: T;
+  updatedAt: number;
+}
+
+// Changes with the same label this close together become one step,
+// so a slider drag undoes in one go rather than tick by tick
+const GROUP_WINDOW = 1000;
+
+const last = <S>(stack: S[]): S | null => stack[stack.length - 1] || null;
+
+export const useUndoRedo = <T>() => {
+  const undoStack = useRef<UndoStep<T>[]>([]);
+  const redoStack = useRef<UndoStep<T>[]>([]);
+  // Step on top of the undo stack when the state was last saved (null = empty stack)
+  const savedStep = useRef<UndoStep<T> | null>(null);
+  const [, setRevision] = useState(0);
+
+  const record = useCallback((label: string, before: T, after: T) => {
+    const previous = last(undoStack.current);
+    const now = Date.now();
+
+    // Never extend the saved step, or it would no longer match the server
+    if (previous && previous.label === label && now - previous.updatedAt < GROUP_WINDOW &&
+        previous !== savedStep.current) {
+      previous.after = after;
+      previous.updatedAt = now;
+    } else {
+      undoStack.current.push({ label, before, after, updatedAt: now });
+    }
+
+    redoStack.current = [];
+    setRevision(revision => revision + 1);
+  }, []);
+
+  const undo = useCallback((): T | null => {
+    const step = undoStack.current.pop();
+    if (!step) return null;
+
+    redoStack.current.push(step);
+    setRevision(revision => revision + 1);
+    return step.before;
+  }, []);
+
+  const redo = useCallback((): T | null => {
+    const step = redoStack.current.pop();
+    if (!step) return null;
+
+    undoStack.current.push(step);
+    setRevision(revision => revision + 1);
+    return step.after;
+  }, []);
+
+  // Remember the current position as matching the server
+  const markSaved = useCallback(() => {
+    savedStep.current = last(undoStack.current);
+  }, []);
+
+  const isSaved = useCallback(() => last(undoStack.current) === savedStep.current, []);
+
+  const reset = useCallback(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    savedStep.current = null;
+    setRevision(revision => revision + 1);
+  }, []);
+
+  const nextUndo = last(undoStack.current);
+  const nextRedo = last(redoStack.current);
+
+  return {
+    record,
+    undo,
+    redo,
+    markSaved,
+    isSaved,
+    reset,
+    canUndo: !!nextUndo,
+    canRedo: !!nextRedo,
+    undoLabel: nextUndo?.label,
+    redoLabel: nextRedo?.label
+  };
+};
@@ -19,6 +19,9 @@ import {
   Fab,
   CircularProgress,
   Alert,
+  Tooltip,
+  Checkbox,
+  TextField,
 } from '@mui/material';
 import {
   PhotoLibrary,
@@ -30,12 +33,33 @@ import {
   AccountCircle,
   ExitToApp,
   CloudUpload,
+  ContentCopy,
+  Sync,
 } from '@mui/icons-material';
 import { styled } from '@mui/material/styles';
 import { useDropzone } from 'react-dropzone';
 import { useAuth } from '../context/AuthContext';
 import { projectsAPI, uploadAPI } from '../utils/api';
-import { Project, FileUpload } from '../types';
+import { pickGroups } from '../utils/presets';
+import { copySettings, getCopiedSettings } from '../utils/settingsClipboard';
+import CopySettingsDialog from '../components/CopySettingsDialog';
+import { Project, FileUpload, PresetGroup, CopiedSettings } from '../types';
+
+const isSidecar = (file: File) => file.name.toLowerCase().endsWith('.xmp');
+
+// Sidecars are named after the image (IMG_0001.xmp) or the whole file (IMG_0001.jpg.xmp)
+const findSidecar = (image: File, sidecars: File[]) => {
+  const full = image.name.toLowerCase();
+  const base = full.replace(/\.[^.]+$/, '');
+  return sidecars.find(sidecar => {
+    const name = sidecar.name.toLowerCase().replace(/\.xmp$/, '');
+    return name === base || name === full;
+  });
+};
+
+// Sync source option for settings copied in the editor
+const COPIED_SOURCE = 'copied';
+const DEFAULT_SYNC_GROUPS: PresetGroup[] = ['light', 'color', 'effects'];
 
 const StyledAppBar = styled(AppBar)(({ theme }) => ({
   backgroundColor: theme.palette.background.paper,
@@ -90,6 +114,11 @@ const DashboardPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [notice, setNotice] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [syncSource, setSyncSource] = useState<string | null>(null);
+  const [copiedSettings, setCopiedSettings] = useState<CopiedSettings | null>(null);
+  const [syncing, setSyncing] = useState(false);
   
   const { user, logout } = useAuth();
   const navigate = useNavigate();
@@ -116,8 +145,10 @@ const DashboardPage: React.FC = () => {
   };
 
   const handleFileUpload = async (files: File[]) => {
+    const sidecars = files.filter(isSidecar);
+
     // Create upload entries
-    const newUploads = files.map(file => ({
+    const newUploads = files.filter(file => !isSidecar(file)).map(file => ({
       file,
       id: `${Date.now()}-${Math.random()}`,
       progress: { loaded: 0, total: file.size, percentage: 0 },
@@ -153,7 +184,8 @@ const DashboardPage: React.FC = () => {
                   }
                 : u
             ));
-          }
+          },
+          findSidecar(upload.file, sidecars)
         );
 
         // Mark upload as successful
@@ -183,7 +215,8 @@ const DashboardPage: React.FC = () => {
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.tiff', '.webp']
+      'image/*': ['.jpeg', '.jpg', '.png', '.tiff', '.webp'],
+      'application/rdf+xml': ['.xmp']
     },
     multiple: true,
     onDrop: handleFileUpload,
@@ -208,17 +241,96 @@ const DashboardPage: React.FC = () => {
     }
   };
 
+  // Virtual copies share the original's files, so they cost no extra storage
+  const handleCreateVirtualCopy = async (project: Project) => {
+    try {
+      const copy = await projectsAPI.createVirtualCopy(project.id);
+      setProjects(prev => [copy, ...prev]);
+    } catch (err: any) {
+      console.error('Error creating virtual copy:', err);
+      setError(err.message || 'Failed to create virtual copy');
+    }
+  };
+
   const handleDeleteProject = async (project: Project) => {
     if (!window.confirm(`Delete project "${project.title}"?`)) return;
     
     try {
       await projectsAPI.deleteProject(project.id);
       setProjects(prev => prev.filter(p => p.id !== project.id));
+      setSelected(prev => prev.filter(id => id !== project.id));
     } catch (err: any) {
       console.error('Error deleting project:', err);
     }
   };
 
+  const toggleSelected = (project: Project) => {
+    setSelected(prev => (
+      prev.includes(project.id) ? prev.filter(id => id !== project.id) : [...prev, project.id]
+    ));
+  };
+
+  const openSyncDialog = () => {
+    setCopiedSettings(getCopiedSettings());
+    setSyncSource(selected[0]);
+  };
+
+  // Copy settings from one selected project, or from the editor's clipboard,
+  // to the rest of the selection in one request
+  const handleSync = async (groups: PresetGroup[]) => {
+    const source = projects.find(project => project.id === syncSource);
+    const settings = source
+      ? copySettings(source, groups)
+      : copiedSettings && {
+          ...copiedSettings,
+          adjustments: pickGroups(copiedSettings.adjustments, groups),
+          crop: groups.includes('crop') ? copiedSettings.crop : null,
+        };
+    if (!settings) return;
+
+    const targets = selected.filter(id => id !== settings.sourceId);
+    if (targets.length === 0) {
+      setError('Select at least one other project to sync to');
+      return;
+    }
+
+    try {
+      setSyncing(true);
+      const results = await projectsAPI.syncSettings({
+        projectIds: targets,
+        sourceId: settings.sourceId,
+        adjustments: settings.adjustments,
+        crop: settings.crop,
+      });
+
+      setProjects(prev => prev.map(project => {
+        const result = results.find(item => item.id === project.id && item.status === 'updated');
+        return result
+          ? {
+              ...project,
+              adjustments: result.adjustments || project.adjustments,
+              crop: result.crop,
+              lastEdited: result.lastEdited || project.lastEdited,
+              version: result.version ?? project.version,
+            }
+          : project;
+      }));
+
+      const updated = results.filter(result => result.status === 'updated').length;
+      const skipped = results.length - updated;
+      setNotice(
+        `Synced settings from ${settings.sourceTitle} to ${updated} project${updated === 1 ? '' : 's'}.` +
+        (skipped > 0 ? ` ${skipped} changed elsewhere or failed and were left as they were.` : '')
+      );
+      setSyncSource(null);
+    } catch (err: any) {
+      console.error('Error syncing settings:', err);
+      setError(err.message || 'Failed to sync settings');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
   const handleUserMenuClick = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget);
   };
@@ -284,6 +396,12 @@ const DashboardPage: React.FC = () => {
           </Alert>
         )}
 
+        {notice && (
+          <Alert severity="info" sx={{ mb: 3 }} onClose={() => setNotice('')}>
+            {notice}
+          </Alert>
+        )}
+
         {/* Upload Area */}
         {projects.length === 0 && (
           <UploadArea {...getRootProps()} isDragActive={isDragActive}>
@@ -296,7 +414,7 @@ const DashboardPage: React.FC = () => {
               Drag & drop images here, or click to browse
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-              Supports: JPEG, PNG, TIFF, WebP
+              Supports: JPEG, PNG, TIFF, WebP, plus .xmp sidecars for Lightroom settings
             </Typography>
           </UploadArea>
         )}
@@ -338,6 +456,20 @@ const DashboardPage: React.FC = () => {
             <Typography variant="h4" gutterBottom sx={{ mb: 3 }}>
               Your Projects ({projects.length})
             </Typography>
+
+            {selected.length > 0 && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+                <Typography variant="body1">
+                  {selected.length} selected
+                </Typography>
+                <Button variant="contained" size="small" startIcon={<Sync />} onClick={openSyncDialog}>
+                  Sync Settings
+                </Button>
+                <Button size="small" onClick={() => setSelected([])}>
+                  Clear selection
+                </Button>
+              </Box>
+            )}
             
             <Box
               sx={{
@@ -352,7 +484,10 @@ const DashboardPage: React.FC = () => {
               }}
             >
               {projects.map((project) => (
-                <ProjectCard key={project.id}>
+                <ProjectCard
+                  key={project.id}
+                  sx={selected.includes(project.id) ? { outline: 2, outlineColor: 'primary.main' } : undefined}
+                >
                   <ProjectImage
                     image={project.image.thumbnailUrl || project.image.url}
                     title={project.title}
@@ -369,6 +504,9 @@ const DashboardPage: React.FC = () => {
                     <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
                       {new Date(project.lastEdited).toLocaleDateString()}
                     </Typography>
+                    {project.virtualCopyOf && (
+                      <Chip label="Virtual copy" size="small" variant="outlined" sx={{ mt: 1, mr: 0.5 }} />
+                    )}
                     {project.tags.length > 0 && (
                       <Box sx={{ mt: 1 }}>
                         {project.tags.slice(0, 2).map((tag) => (
@@ -378,6 +516,12 @@ const DashboardPage: React.FC = () => {
                     )}
                   </CardContent>
                   <CardActions>
+                    <Checkbox
+                      size="small"
+                      checked={selected.includes(project.id)}
+                      onChange={() => toggleSelected(project)}
+                      inputProps={{ 'aria-label': `Select ${project.title}` }}
+                    />
                     <Button size="small" onClick={() => handleProjectClick(project)}>
                       <Edit sx={{ mr: 0.5 }} />
                       Edit
@@ -391,6 +535,17 @@ const DashboardPage: React.FC = () => {
                     >
                       {project.starred ? <Star color="primary" /> : <StarBorder />}
                     </IconButton>
+                    <Tooltip title="Create virtual copy">
+                      <IconButton
+                        size="small"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleCreateVirtualCopy(project);
+                        }}
+                      >
+                        <ContentCopy />
+                      </IconButton>
+                    </Tooltip>
                     <IconButton
                       size="small"
                       color="error"
@@ -408,6 +563,36 @@ const DashboardPage: React.FC = () => {
           </>
         )}
 
+        <CopySettingsDialog
+          open={syncSource !== null}
+          title="Sync Settings"
+          confirmLabel={syncing ? 'Syncing...' : 'Sync'}
+          defaultGroups={DEFAULT_SYNC_GROUPS}
+          onClose={() => setSyncSource(null)}
+          onConfirm={handleSync}
+          disabled={syncing}
+        >
+          <TextField
+            select
+            size="small"
+            label="Copy settings from"
+            value={syncSource || ''}
+            onChange={(e) => setSyncSource(e.target.value)}
+            helperText="The other selected projects take on these settings"
+          >
+            {copiedSettings && (
+              <MenuItem value={COPIED_SOURCE}>
+                Copied settings ({copiedSettings.sourceTitle})
+              </MenuItem>
+            )}
+            {projects.filter(project => selected.includes(project.id)).map(project => (
+              <MenuItem key={project.id} value={project.id}>
+                {project.title}
+              </MenuItem>
+            ))}
+          </TextField>
+        </CopySettingsDialog>
+
         {/* Floating Upload Button */}
         {projects.length > 0 && (
           <UploadFab color="primary" {...getRootProps()}>
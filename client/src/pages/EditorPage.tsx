@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -13,7 +13,8 @@ import {
   Alert,
   CircularProgress,
   Divider,
-  Dialog
+  Dialog,
+  Tooltip
 } from '@mui/material';
 import {
   ArrowBack,
@@ -28,16 +29,139 @@ import {
   Tune,
   ColorLens,
   FilterVintage,
-  GetApp
+  GetApp,
+  History as HistoryIcon,
+  PhotoLibrary,
+  Style,
+  ContentCopy,
+  ContentPaste,
+  Insights,
+  Gradient,
+  Healing
 } from '@mui/icons-material';
-import { Project, EditorTab, EditSubTab, ImageAdjustments, Adjustments, CropSettings } from '../types';
-import { projectsAPI } from '../utils/api';
+import { MAX_RANGE_COLORS, MAX_SPOTS, hslBandWeights, solveWhiteBalance } from 'lightroom-clone-shared';
+import { Project, EditorTab, EditSubTab, ImageAdjustments, Adjustments, CropSettings, ProjectConflict, HistoryEntry, ProjectSnapshot, Preset, PresetGroup, CopiedSettings, HslAdjustments, HslColor, HslProperty, ClippingOverlay, Mask, MaskType, BrushSettings, Spot, SpotSettings } from '../types';
+import { projectsAPI, exportAPI } from '../utils/api';
+import { getSourcePixels, usePreviewRenderer } from '../utils/preview';
+import { applyPreset } from '../utils/presets';
+import { copySettings, getCopiedSettings, setCopiedSettings } from '../utils/settingsClipboard';
+import { DEFAULT_BRUSH, OverlayStyle, Point, maskOverlay, maskSpace, sampleColor } from '../utils/masks';
+import { DEFAULT_SPOT, createSpot, spotSource, visualizeSpots } from '../utils/spots';
 import { useAuth } from '../context/AuthContext';
+import { useUndoRedo } from '../hooks/useUndoRedo';
+import { useKeyboardShortcuts, editorShortcuts } from '../hooks/useKeyboardShortcuts';
 import CropTool from '../components/CropTool';
 import LightControls from '../components/LightControls';
 import ColorControls from '../components/ColorControls';
 import EffectsControls from '../components/EffectsControls';
 import ExportPanel from '../components/ExportPanel';
+import HistoryPanel from '../components/HistoryPanel';
+import SnapshotsPanel from '../components/SnapshotsPanel';
+import PresetsPanel from '../components/PresetsPanel';
+import ConflictDialog from '../components/ConflictDialog';
+import CopySettingsDialog from '../components/CopySettingsDialog';
+import SaveStatus, { SaveState } from '../components/SaveStatus';
+import ScopesPanel from '../components/ScopesPanel';
+import MaskPanel from '../components/MaskPanel';
+import MaskHandles from '../components/MaskHandles';
+import SpotPanel from '../components/SpotPanel';
+import SpotHandles from '../components/SpotHandles';
+
+// Idle time after the last adjustment before autosave runs
+const AUTOSAVE_DELAY = 1500;
+// Wait before retrying a failed background save
+const AUTOSAVE_RETRY_DELAY = 10000;
+// Groups ticked the first time settings are copied; crops rarely carry over
+const DEFAULT_COPY_GROUPS: PresetGroup[] = ['light', 'color', 'effects'];
+
+interface PendingChanges {
+  adjustments: boolean;
+  crop: boolean;
+  masks: boolean;
+  spots: boolean;
+}
+
+interface EditSnapshot {
+  adjustments: Adjustments;
+  crop?: CropSettings;
+  masks?: Mask[];
+  spots?: Spot[];
+}
+
+// A drag with the color mixer's targeted adjustment tool
+interface TargetedDrag {
+  startY: number;
+  // Bands under the pixel where the drag started
+  weights: Partial<Record<HslColor, number>>;
+  base: HslAdjustments;
+}
+
+// Name an undo step after the first setting it changes, e.g. "exposure" -> "Exposure"
+const describeAdjustments = (changes: Partial<ImageAdjustments>): string => {
+  const key = Object.keys(changes)[0];
+  if (!key) return 'Adjustments';
+  if (key === 'hslAdjustments') return 'Color mixer';
+  if (key === 'curves' || key === 'toneCurve') return 'Tone curve';
+  if ('temperature' in changes && 'tint' in changes) return 'White balance';
+  return key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1').toLowerCase();
+};
+
+const describeCrop = (before: CropSettings | undefined, after: CropSettings): string => {
+  if (before && before.rotation !== after.rotation) return 'Rotate';
+  if (before && (before.flipX !== after.flipX || before.flipY !== after.flipY)) return 'Flip';
+  return 'Crop';
+};
+
+// Half-width of the square the white balance eyedropper averages over
+const EYEDROPPER_RADIUS = 2;
+
+// Where the rendered preview sits on the canvas for the current zoom and pan
+const previewLayout = (
+  canvas: { width: number; height: number },
+  image: { width: number; height: number },
+  zoom: number,
+  pan: { x: number; y: number }
+) => {
+  const scale = (zoom / 100) * Math.min(canvas.width / image.width, canvas.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  return {
+    x: (canvas.width - width) / 2 + pan.x,
+    y: (canvas.height - height) / 2 + pan.y,
+    width,
+    height,
+    scale
+  };
+};
+
+// Paint clipped pixels over a copy of the preview: red where a channel is
+// blown out, blue where one is crushed to black
+const withClippingOverlay = (image: ImageData, clipping: ClippingOverlay): ImageData => {
+  if (!clipping.shadows && !clipping.highlights) return image;
+
+  const data = new Uint8ClampedArray(image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    if (clipping.highlights && (r === 255 || g === 255 || b === 255)) {
+      data[i] = 255;
+      data[i + 1] = 0;
+      data[i + 2] = 0;
+    } else if (clipping.shadows && (r === 0 || g === 0 || b === 0)) {
+      data[i] = 0;
+      data[i + 1] = 0;
+      data[i + 2] = 255;
+    }
+  }
+  return new ImageData(data, image.width, image.height);
+};
+
+interface PersistOptions {
+  // Background saves report failures in the save status instead of the page
+  background?: boolean;
+}
 
 const EditorPage: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
@@ -48,8 +172,26 @@ const EditorPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [adjustmentsChanged, setAdjustmentsChanged] = useState(false);
+  const [cropChanged, setCropChanged] = useState(false);
+  const [masksChanged, setMasksChanged] = useState(false);
+  const [spotsChanged, setSpotsChanged] = useState(false);
+  const [conflict, setConflict] = useState<{ current: ProjectConflict; changes: PendingChanges } | null>(null);
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showCopyDialog, setShowCopyDialog] = useState(false);
+  const [copiedSettings, setCopied] = useState<CopiedSettings | null>(getCopiedSettings);
+  const hasUnsavedChanges = adjustmentsChanged || cropChanged || masksChanged || spotsChanged;
+
+  // Autosave state
+  const autoSave = !!user?.preferences?.autoSave;
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [autoSaveFailed, setAutoSaveFailed] = useState(false);
+  // Bumped on every adjustment so a save only clears edits it actually sent
+  const adjustmentsRevision = useRef(0);
+  const masksRevision = useRef(0);
+  const spotsRevision = useRef(0);
+  const history = useUndoRedo<EditSnapshot>();
+  const { reset: resetHistory } = history;
 
   // Editor state
   const [currentTab, setCurrentTab] = useState<EditorTab>('edit');
@@ -60,7 +202,57 @@ const EditorPage: React.FC = () => {
   // Canvas refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
-  const [imageData, setImageData] = useState<ImageData | undefined>();
+  const [sourcePixels, setSourcePixels] = useState<ImageData | null>(null);
+  // Preset under the pointer in the Presets panel, shown on the canvas until applied
+  const [previewPreset, setPreviewPreset] = useState<Preset | null>(null);
+  // Color mixer property the targeted adjustment tool changes, or null when it's off
+  const [targetHslProperty, setTargetHslProperty] = useState<HslProperty | null>(null);
+  const targetedDrag = useRef<TargetedDrag | null>(null);
+  const [pickingWhiteBalance, setPickingWhiteBalance] = useState(false);
+  const [clipping, setClipping] = useState<ClippingOverlay>({ shadows: false, highlights: false });
+  const [showScopes, setShowScopes] = useState(false);
+  const [selectedMaskId, setSelectedMaskId] = useState<string | null>(null);
+  const [drawingMask, setDrawingMask] = useState<MaskType | null>(null);
+  const [showMaskOverlay, setShowMaskOverlay] = useState(false);
+  const [brush, setBrush] = useState<BrushSettings>(DEFAULT_BRUSH);
+  const [maskOverlayStyle, setMaskOverlayStyle] = useState<OverlayStyle>('color');
+  const [pickingColor, setPickingColor] = useState(false);
+  const [selectedSpotId, setSelectedSpotId] = useState<string | null>(null);
+  const [spotSettings, setSpotSettings] = useState<SpotSettings>(DEFAULT_SPOT);
+  const [showSpotVisualization, setShowSpotVisualization] = useState(false);
+  const [spotThreshold, setSpotThreshold] = useState(50);
+  // Where the render sits on the canvas, for the mask handles drawn over it
+  const [previewRect, setPreviewRect] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
+  const displayProject = useMemo(
+    () => (project && previewPreset
+      ? { ...project, ...applyPreset(project, previewPreset, project.image.dimensions) }
+      : project),
+    [project, previewPreset]
+  );
+  const scopesVisible = showScopes && currentTab === 'edit';
+  const { image: imageData, histogram, scopes } = usePreviewRenderer(sourcePixels, displayProject, scopesVisible);
+
+  const masks = useMemo(() => project?.masks || [], [project?.masks]);
+  const masksActive = currentTab === 'edit' && currentSubTab === 'masks';
+  const selectedMask = masks.find(mask => mask.id === selectedMaskId);
+  // The eyedropper only samples for a selected color range
+  const pickingActive = pickingColor && selectedMask?.range?.type === 'color';
+  const spots = useMemo(() => project?.spots || [], [project?.spots]);
+  const spotsActive = currentTab === 'edit' && currentSubTab === 'spots';
+  const selectedSpot = spots.find(spot => spot.id === selectedSpotId);
+  const crop = project?.crop;
+  const dimensions = project?.image.dimensions;
+  const overlay = useMemo(
+    () => (dimensions && masksActive && showMaskOverlay && selectedMask
+      ? maskOverlay(selectedMask, crop, dimensions, sourcePixels, maskOverlayStyle)
+      : null),
+    [crop, dimensions, masksActive, showMaskOverlay, selectedMask, sourcePixels, maskOverlayStyle]
+  );
+  // The rendered preview as an edge map, while looking for dust
+  const visualized = useMemo(
+    () => (imageData && spotsActive && showSpotVisualization ? visualizeSpots(imageData, spotThreshold) : null),
+    [imageData, spotsActive, showSpotVisualization, spotThreshold]
+  );
 
   // Load project data
   useEffect(() => {
@@ -71,6 +263,7 @@ const EditorPage: React.FC = () => {
         setLoading(true);
         const projectData = await projectsAPI.getProject(projectId);
         setProject(projectData);
+        resetHistory();
       } catch (err: any) {
         console.error('Error loading project:', err);
         setError('Failed to load project');
@@ -80,15 +273,26 @@ const EditorPage: React.FC = () => {
     };
 
     loadProject();
-  }, [projectId, user]);
+  }, [projectId, user, resetHistory]);
 
-  // Image rendering with adjustments
+  // Capture the preview's source pixels once it has loaded
+  const handleImageLoad = () => {
+    if (!imageRef.current) return;
+
+    try {
+      setSourcePixels(getSourcePixels(imageRef.current));
+    } catch (e) {
+      // Handle CORS issues with external images
+      console.warn('Could not read image pixels for preview');
+    }
+  };
+
+  // Draw the rendered preview with zoom and pan
   useEffect(() => {
-    if (!project || !canvasRef.current || !imageRef.current) return;
+    if (!imageData || !canvasRef.current) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
-    const image = imageRef.current;
 
     if (!ctx) return;
 
@@ -100,67 +304,28 @@ const EditorPage: React.FC = () => {
     canvas.height = containerHeight;
 
     // Calculate image scaling and position
-    const scale = (zoom / 100) * Math.min(
-      containerWidth / project.image.dimensions.width,
-      containerHeight / project.image.dimensions.height
-    );
-
-    const imageWidth = project.image.dimensions.width * scale;
-    const imageHeight = project.image.dimensions.height * scale;
-
-    const x = (containerWidth - imageWidth) / 2 + pan.x;
-    const y = (containerHeight - imageHeight) / 2 + pan.y;
+    const { x, y, width: imageWidth, height: imageHeight } = previewLayout(canvas, imageData, zoom, pan);
 
     // Clear canvas
     ctx.fillStyle = '#1a1a1a';
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-    // Draw image with adjustments
-    const drawWithAdjustments = () => {
-      // Apply adjustments via CSS filters for real-time preview
-      const filters = buildCSSFilters(project.adjustments);
-      ctx.filter = filters;
-      ctx.drawImage(image, x, y, imageWidth, imageHeight);
-      ctx.filter = 'none';
-
-      // Extract image data for histogram
-      try {
-        const imgData = ctx.getImageData(x, y, imageWidth, imageHeight);
-        setImageData(imgData);
-      } catch (e) {
-        // Handle CORS issues with external images
-        console.warn('Could not extract image data for histogram');
-      }
-    };
-
-    if (image.complete) {
-      drawWithAdjustments();
-    } else {
-      image.onload = drawWithAdjustments;
-    }
-
-  }, [project, zoom, pan]);
+    const rendered = document.createElement('canvas');
+    rendered.width = imageData.width;
+    rendered.height = imageData.height;
+    rendered.getContext('2d')?.putImageData(visualized || withClippingOverlay(imageData, clipping), 0, 0);
 
-  // Build CSS filters from adjustments
-  const buildCSSFilters = (adjustments: any): string => {
-    const filters = [];
-
-    if (adjustments.exposure !== 0) {
-      filters.push(`brightness(${100 + adjustments.exposure * 20}%)`);
-    }
-    if (adjustments.contrast !== 0) {
-      filters.push(`contrast(${100 + adjustments.contrast}%)`);
-    }
-    if (adjustments.saturation !== 0) {
-      filters.push(`saturate(${100 + adjustments.saturation}%)`);
-    }
-    if (adjustments.temperature !== 0) {
-      // Approximate temperature with hue-rotate
-      filters.push(`hue-rotate(${adjustments.temperature * 0.1}deg)`);
+    ctx.drawImage(rendered, x, y, imageWidth, imageHeight);
+    if (overlay) {
+      ctx.drawImage(overlay, x, y, imageWidth, imageHeight);
     }
 
-    return filters.join(' ') || 'none';
-  };
+    setPreviewRect(prev => (
+      prev && prev.x === x && prev.y === y && prev.width === imageWidth && prev.height === imageHeight
+        ? prev
+        : { x, y, width: imageWidth, height: imageHeight }
+    ));
+  }, [imageData, zoom, pan, currentTab, clipping, overlay, visualized]);
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: EditorTab) => {
     setCurrentTab(newValue);
@@ -186,79 +351,630 @@ const EditorPage: React.FC = () => {
   const handleAdjustmentsChange = (newAdjustments: Partial<ImageAdjustments>) => {
     if (!project) return;
 
-    setProject(prev => {
-      if (!prev) return prev;
+    // Create a deep copy of previous adjustments to avoid mutation
+    const updatedAdjustments = { ...project.adjustments };
 
-      // Create a deep copy of previous adjustments to avoid mutation
-      const updatedAdjustments = { ...prev.adjustments };
+    // Update only the numeric values, ignoring complex objects
+    Object.keys(newAdjustments).forEach(key => {
+      const value = newAdjustments[key as keyof ImageAdjustments];
+      if (typeof value === 'number') {
+        (updatedAdjustments as any)[key] = value;
+      }
+    });
+    // Vignette and grain arrive one setting at a time, so merge them
+    if (newAdjustments.vignette) {
+      updatedAdjustments.vignette = { ...updatedAdjustments.vignette, ...newAdjustments.vignette };
+    }
+    if (newAdjustments.grain) {
+      updatedAdjustments.grain = { ...updatedAdjustments.grain, ...newAdjustments.grain };
+    }
+    // Curves, the color mixer and color grading always arrive as complete blocks
+    if (newAdjustments.curves) {
+      updatedAdjustments.curves = newAdjustments.curves;
+    }
+    if (newAdjustments.toneCurve) {
+      updatedAdjustments.toneCurve = newAdjustments.toneCurve;
+    }
+    if (newAdjustments.hslAdjustments) {
+      updatedAdjustments.hslAdjustments = newAdjustments.hslAdjustments;
+    }
+    if (newAdjustments.colorGrading) {
+      updatedAdjustments.colorGrading = newAdjustments.colorGrading;
+    }
 
-      // Update only the numeric values, ignoring complex objects
-      Object.keys(newAdjustments).forEach(key => {
-        const value = newAdjustments[key as keyof ImageAdjustments];
-        if (typeof value === 'number') {
-          (updatedAdjustments as any)[key] = value;
-        }
-      });
+    history.record(
+      describeAdjustments(newAdjustments),
+      { adjustments: project.adjustments, crop: project.crop, masks: project.masks, spots: project.spots },
+      { adjustments: updatedAdjustments, crop: project.crop, masks: project.masks, spots: project.spots }
+    );
+    setProject(prev => prev && {
+      ...prev,
+      adjustments: updatedAdjustments
+    });
+    adjustmentsRevision.current += 1;
+    setAdjustmentsChanged(true);
+  };
 
-      return {
-        ...prev,
-        adjustments: updatedAdjustments
-      };
+  const colorToolsActive = currentTab === 'edit' && currentSubTab === 'color';
+  const targetedActive = !!targetHslProperty && colorToolsActive;
+  const whiteBalanceActive = pickingWhiteBalance && colorToolsActive;
+
+  // The targeted mixer tool and the eyedropper both use the canvas; only one can be on
+  const handleTargetHslPropertyChange = (property: HslProperty | null) => {
+    setTargetHslProperty(property);
+    if (property) setPickingWhiteBalance(false);
+  };
+
+  const handlePickingWhiteBalanceChange = (picking: boolean) => {
+    setPickingWhiteBalance(picking);
+    if (picking) setTargetHslProperty(null);
+  };
+
+  // Rendered preview pixel under the pointer, or null outside the image
+  const previewPixelAt = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!imageData || !canvasRef.current) return null;
+
+    const canvas = canvasRef.current;
+    const rect = canvas.getBoundingClientRect();
+    const { x, y, scale } = previewLayout(canvas, imageData, zoom, pan);
+    const px = Math.floor((event.clientX - rect.left - x) / scale);
+    const py = Math.floor((event.clientY - rect.top - y) / scale);
+    if (px < 0 || py < 0 || px >= imageData.width || py >= imageData.height) return null;
+
+    return { x: px, y: py };
+  };
+
+  // Set white balance so the clicked area turns neutral. A small area is
+  // averaged so noise doesn't throw the result off.
+  const pickWhiteBalance = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = previewPixelAt(event);
+    if (!point || !imageData || !project) return;
+
+    const totals = [0, 0, 0];
+    let count = 0;
+    for (let y = point.y - EYEDROPPER_RADIUS; y <= point.y + EYEDROPPER_RADIUS; y++) {
+      for (let x = point.x - EYEDROPPER_RADIUS; x <= point.x + EYEDROPPER_RADIUS; x++) {
+        if (x < 0 || y < 0 || x >= imageData.width || y >= imageData.height) continue;
+        const i = (y * imageData.width + x) * 4;
+        totals[0] += imageData.data[i];
+        totals[1] += imageData.data[i + 1];
+        totals[2] += imageData.data[i + 2];
+        count++;
+      }
+    }
+
+    const solved = solveWhiteBalance(totals[0] / count, totals[1] / count, totals[2] / count, {
+      temperature: project.adjustments.temperature,
+      tint: project.adjustments.tint
     });
-    setHasUnsavedChanges(true);
+    if (!solved) return;
+
+    handleAdjustmentsChange(solved);
+    setPickingWhiteBalance(false);
+  };
+
+  // Start a targeted adjustment on the color mixer bands under the pointer
+  const handleCanvasMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (whiteBalanceActive) {
+      pickWhiteBalance(event);
+      return;
+    }
+    if (!targetedActive || !imageData || !project) return;
+
+    const point = previewPixelAt(event);
+    if (!point) return;
+
+    const i = (point.y * imageData.width + point.x) * 4;
+    const weights = hslBandWeights(imageData.data[i], imageData.data[i + 1], imageData.data[i + 2]);
+    // Greys belong to no band
+    if (Object.keys(weights).length === 0) return;
+
+    targetedDrag.current = {
+      startY: event.clientY,
+      weights,
+      base: project.adjustments.hslAdjustments || {}
+    };
+  };
+
+  // Dragging up raises the property, one step per pixel at full weight
+  const handleCanvasMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = targetedDrag.current;
+    if (!drag || !targetHslProperty) return;
+
+    const delta = drag.startY - event.clientY;
+    const next: HslAdjustments = { ...drag.base };
+    (Object.keys(drag.weights) as HslColor[]).forEach(color => {
+      const band = drag.base[color] || {};
+      const value = (band[targetHslProperty] || 0) + delta * (drag.weights[color] || 0);
+      next[color] = { ...band, [targetHslProperty]: Math.round(Math.min(100, Math.max(-100, value))) };
+    });
+
+    handleAdjustmentsChange({ hslAdjustments: next });
+  };
+
+  const handleCanvasMouseUp = () => {
+    targetedDrag.current = null;
   };
 
   const handleCropChange = (newCrop: CropSettings) => {
     if (!project) return;
 
+    history.record(
+      describeCrop(project.crop, newCrop),
+      { adjustments: project.adjustments, crop: project.crop, masks: project.masks, spots: project.spots },
+      { adjustments: project.adjustments, crop: newCrop, masks: project.masks, spots: project.spots }
+    );
     setProject(prev => ({
       ...prev!,
       crop: newCrop
     }));
-    setHasUnsavedChanges(true);
+    setCropChanged(true);
   };
 
-  const handleApplyCrop = async () => {
-    if (!project?.crop) return;
+  const handleMasksChange = (newMasks: Mask[], label: string) => {
+    if (!project) return;
+
+    history.record(
+      label,
+      { adjustments: project.adjustments, crop: project.crop, masks: project.masks, spots: project.spots },
+      { adjustments: project.adjustments, crop: project.crop, masks: newMasks, spots: project.spots }
+    );
+    setProject(prev => prev && { ...prev, masks: newMasks });
+    masksRevision.current += 1;
+    setMasksChanged(true);
+  };
+
+  // A mask drawn on the photo is selected and ends drawing mode
+  const handleMaskCreate = (mask: Mask) => {
+    handleMasksChange([...masks, mask], 'Add mask');
+    setSelectedMaskId(mask.id);
+    setDrawingMask(null);
+  };
+
+  const handleMaskChange = (mask: Mask, label: string) => {
+    handleMasksChange(masks.map(existing => (existing.id === mask.id ? mask : existing)), label);
+  };
+
+  // Sample the unadjusted photo under the eyedropper, replacing the colors
+  // picked so far or adding to them
+  const handlePickColor = (at: Point, add: boolean) => {
+    if (!sourcePixels || !selectedMask || selectedMask.range?.type !== 'color') return;
+    const range = selectedMask.range;
+    if (add && range.colors.length >= MAX_RANGE_COLORS) return;
+
+    const color = sampleColor(sourcePixels, at);
+    handleMaskChange(
+      { ...selectedMask, range: { ...range, colors: add ? [...range.colors, color] : [color] } },
+      'Sample color'
+    );
+  };
+
+  const handleSpotsChange = (newSpots: Spot[], label: string) => {
+    if (!project) return;
+
+    history.record(
+      label,
+      { adjustments: project.adjustments, crop: project.crop, masks: project.masks, spots: project.spots },
+      { adjustments: project.adjustments, crop: project.crop, masks: project.masks, spots: newSpots }
+    );
+    setProject(prev => prev && { ...prev, spots: newSpots });
+    spotsRevision.current += 1;
+    setSpotsChanged(true);
+  };
+
+  // A spot clicked or painted on the photo takes the panel's settings and
+  // a source picked from the unadjusted photo, and is selected
+  const handleSpotCreate = (points: number[]) => {
+    if (!project || spots.length >= MAX_SPOTS) return;
+
+    const spot = createSpot(points, spotSettings, project.image.dimensions, sourcePixels);
+    handleSpotsChange([...spots, spot], 'Add spot');
+    setSelectedSpotId(spot.id);
+  };
+
+  const handleSpotChange = (spot: Spot, label: string) => {
+    handleSpotsChange(spots.map(existing => (existing.id === spot.id ? spot : existing)), label);
+  };
+
+  const handleFindSpotSource = () => {
+    const spot = spots.find(existing => existing.id === selectedSpotId);
+    if (!project || !spot) return;
+
+    handleSpotChange({ ...spot, ...spotSource(spot, project.image.dimensions, sourcePixels) }, 'Find spot source');
+  };
+
+  // Apply a preset or pasted settings as one undoable step; it's saved like any other edit
+  const applySettings = (label: string, settings: Pick<Preset, 'adjustments' | 'crop'>) => {
+    if (!project) return;
+
+    const next = applyPreset(project, settings, project.image.dimensions);
+    history.record(
+      label,
+      { adjustments: project.adjustments, crop: project.crop, masks: project.masks, spots: project.spots },
+      { ...next, masks: project.masks, spots: project.spots }
+    );
+    setProject(prev => prev && { ...prev, ...next });
+    adjustmentsRevision.current += 1;
+    setAdjustmentsChanged(true);
+    if (settings.crop) {
+      setCropChanged(true);
+    }
+  };
+
+  const handleApplyPreset = (preset: Preset) => {
+    applySettings(`Preset ${preset.name}`, preset);
+    setPreviewPreset(null);
+  };
+
+  const handleCopySettings = (groups: PresetGroup[]) => {
+    if (!project) return;
+
+    const copied = copySettings(project, groups);
+    setCopiedSettings(copied);
+    setCopied(copied);
+    setShowCopyDialog(false);
+  };
+
+  // Settings copied in another tab or project are picked up at paste time
+  const handlePasteSettings = () => {
+    const copied = getCopiedSettings() || copiedSettings;
+    if (!copied) return;
+
+    setCopied(copied);
+    applySettings('Paste settings', copied);
+  };
+
+  // Restore a snapshot from the undo stack and flag whatever it changed for saving
+  const applySnapshot = (snapshot: EditSnapshot | null) => {
+    if (!snapshot || !project) return;
+
+    const adjustmentsDiffer = snapshot.adjustments !== project.adjustments;
+    const cropDiffers = snapshot.crop !== project.crop;
+    const masksDiffer = snapshot.masks !== project.masks;
+    const spotsDiffer = snapshot.spots !== project.spots;
+
+    setProject(prev => prev && {
+      ...prev,
+      adjustments: snapshot.adjustments,
+      crop: snapshot.crop,
+      masks: snapshot.masks,
+      spots: snapshot.spots
+    });
+
+    // Back at the saved step there is nothing left to persist
+    if (history.isSaved()) {
+      setAdjustmentsChanged(false);
+      setCropChanged(false);
+      setMasksChanged(false);
+      setSpotsChanged(false);
+      return;
+    }
+
+    if (adjustmentsDiffer) {
+      adjustmentsRevision.current += 1;
+      setAdjustmentsChanged(true);
+    }
+    if (cropDiffers) {
+      setCropChanged(true);
+    }
+    if (masksDiffer) {
+      masksRevision.current += 1;
+      setMasksChanged(true);
+    }
+    if (spotsDiffer) {
+      spotsRevision.current += 1;
+      setSpotsChanged(true);
+    }
+  };
+
+  const handleUndo = () => applySnapshot(history.undo());
+  const handleRedo = () => applySnapshot(history.redo());
+
+  // Persist edits against the version they were based on. Each write bumps
+  // the version, so later writes in the same save use the returned one.
+  const persistChanges = async (
+    changes: PendingChanges,
+    baseVersion?: number,
+    options: PersistOptions = {}
+  ): Promise<boolean> => {
+    if (!project) return false;
+
+    let version = baseVersion ?? project.version;
+    let lastEdited = project.lastEdited;
+    const remaining = { ...changes };
+    const revision = adjustmentsRevision.current;
+    const masksRevisionAtStart = masksRevision.current;
+    const spotsRevisionAtStart = spotsRevision.current;
 
     try {
       setSaving(true);
-      // This would normally send crop data to server
-      console.log('Applying crop:', project.crop);
-      setHasUnsavedChanges(false);
-    } catch (err) {
-      console.error('Error applying crop:', err);
-      setError('Failed to apply crop');
+
+      if (remaining.adjustments) {
+        const result = await projectsAPI.updateAdjustments(
+          project.id,
+          project.adjustments,
+          version,
+          { autosave: !!options.background }
+        );
+        version = result.version;
+        lastEdited = result.lastEdited;
+        remaining.adjustments = false;
+        if (adjustmentsRevision.current === revision) {
+          setAdjustmentsChanged(false);
+        }
+      }
+
+      if (remaining.crop && project.crop) {
+        const result = await projectsAPI.updateCrop(project.id, project.crop, version);
+        version = result.version;
+        lastEdited = result.lastEdited;
+        remaining.crop = false;
+        setCropChanged(false);
+      }
+
+      if (remaining.masks) {
+        const result = await projectsAPI.updateMasks(project.id, project.masks || [], version);
+        version = result.version;
+        lastEdited = result.lastEdited;
+        remaining.masks = false;
+        if (masksRevision.current === masksRevisionAtStart) {
+          setMasksChanged(false);
+        }
+      }
+
+      if (remaining.spots) {
+        const result = await projectsAPI.updateSpots(project.id, project.spots || [], version);
+        version = result.version;
+        lastEdited = result.lastEdited;
+        remaining.spots = false;
+        if (spotsRevision.current === spotsRevisionAtStart) {
+          setSpotsChanged(false);
+        }
+      }
+
+      // Only mark the undo position as saved if nothing changed mid-save
+      if (
+        adjustmentsRevision.current === revision &&
+        masksRevision.current === masksRevisionAtStart &&
+        spotsRevision.current === spotsRevisionAtStart
+      ) {
+        history.markSaved();
+      }
+      setAutoSaveFailed(false);
+      return true;
+    } catch (err: any) {
+      if (err.status === 409 && err.current) {
+        setConflict({ current: err.current, changes: remaining });
+      } else if (options.background) {
+        console.warn('Autosave failed:', err);
+        setAutoSaveFailed(true);
+      } else {
+        console.error('Error saving project:', err);
+        setError('Failed to save project');
+      }
+      return false;
     } finally {
+      setProject(prev => prev && { ...prev, version, lastEdited });
       setSaving(false);
     }
   };
 
+  // Always call the latest persistChanges from timers without re-arming them
+  const persistRef = useRef(persistChanges);
+  persistRef.current = persistChanges;
+
+  // Track connectivity so autosave can pause while offline
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Coalesce adjustment, mask and spot edits into one background save once they go idle
+  useEffect(() => {
+    if (!autoSave || !(adjustmentsChanged || masksChanged || spotsChanged) || !isOnline || saving || conflict) return;
+
+    const timer = setTimeout(() => {
+      persistRef.current(
+        { adjustments: adjustmentsChanged, crop: false, masks: masksChanged, spots: spotsChanged },
+        undefined,
+        { background: true }
+      );
+    }, autoSaveFailed ? AUTOSAVE_RETRY_DELAY : AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [
+    autoSave,
+    adjustmentsChanged,
+    masksChanged,
+    spotsChanged,
+    isOnline,
+    saving,
+    conflict,
+    autoSaveFailed,
+    project?.adjustments,
+    project?.masks,
+    project?.spots
+  ]);
+
+  const saveState: SaveState = saving
+    ? 'saving'
+    : !isOnline || autoSaveFailed
+      ? 'offline'
+      : hasUnsavedChanges ? 'unsaved' : 'saved';
+
+  const handleApplyCrop = async () => {
+    if (!project?.crop) return;
+
+    if (await persistChanges({ adjustments: false, crop: true, masks: false, spots: false }, project.version)) {
+      setCurrentTab('edit');
+    }
+  };
+
   const handleSave = async () => {
     if (!project || !hasUnsavedChanges) return;
 
+    await persistChanges({ adjustments: adjustmentsChanged, crop: cropChanged, masks: masksChanged, spots: spotsChanged }, project.version);
+  };
+
+  // Overwrite the other session's edit with ours
+  const handleKeepMine = async () => {
+    if (!conflict) return;
+
+    const { current, changes } = conflict;
+    setConflict(null);
+    await persistChanges(changes, current.version);
+  };
+
+  // Drop our pending edits and load what was saved elsewhere
+  const handleUseTheirs = () => {
+    if (!conflict) return;
+
+    const { current } = conflict;
+    setProject(prev => prev && {
+      ...prev,
+      adjustments: current.adjustments,
+      crop: current.crop || undefined,
+      masks: current.masks || [],
+      spots: current.spots || [],
+      version: current.version,
+      lastEdited: current.lastEdited
+    });
+    setAdjustmentsChanged(false);
+    setCropChanged(false);
+    setMasksChanged(false);
+    setSpotsChanged(false);
+    setConflict(null);
+    // Steps recorded against our discarded edits no longer apply
+    history.reset();
+  };
+
+  // Take on a state the server restored; it records the restore as a new history entry.
+  // Restores are checked against our version, so one made elsewhere raises a conflict.
+  const applyServerState = async (
+    label: string,
+    restore: () => Promise<{
+      adjustments: Adjustments;
+      crop: CropSettings | null;
+      masks: Mask[];
+      spots: Spot[];
+      lastEdited: string;
+      version: number;
+    }>,
+    errorMessage: string
+  ) => {
+    if (!project) return;
+
     try {
       setSaving(true);
-      // This would normally save to server
-      console.log('Saving project:', {
-        id: project.id,
-        adjustments: project.adjustments,
-        crop: project.crop
+      const result = await restore();
+      const restored = {
+        adjustments: result.adjustments,
+        crop: result.crop || undefined,
+        masks: result.masks || [],
+        spots: result.spots || []
+      };
+
+      history.record(
+        label,
+        { adjustments: project.adjustments, crop: project.crop, masks: project.masks, spots: project.spots },
+        restored
+      );
+      setProject(prev => prev && {
+        ...prev,
+        ...restored,
+        version: result.version,
+        lastEdited: result.lastEdited
       });
-      setHasUnsavedChanges(false);
-    } catch (err) {
-      console.error('Error saving project:', err);
-      setError('Failed to save project');
+      setAdjustmentsChanged(false);
+      setCropChanged(false);
+      setMasksChanged(false);
+      setSpotsChanged(false);
+      history.markSaved();
+    } catch (err: any) {
+      if (err.status === 409 && err.current) {
+        // Keeping ours has to overwrite all of their edit, not just what's unsaved here
+        setConflict({ current: err.current, changes: { adjustments: true, crop: true, masks: true, spots: true } });
+      } else {
+        console.error(`${errorMessage}:`, err);
+        setError(errorMessage);
+      }
     } finally {
       setSaving(false);
     }
   };
 
+  // Restore a step from the server history
+  const handleRevert = async (entry: HistoryEntry) => {
+    if (!project || !entry.state) return;
+    if (hasUnsavedChanges && !window.confirm('Discard unsaved changes and restore this step?')) return;
+
+    await applyServerState(
+      'Restore',
+      () => projectsAPI.revertToHistory(project.id, entry._id, project.version),
+      'Failed to restore history'
+    );
+  };
+
+  // Switch to a named snapshot
+  const handleApplySnapshot = async (snapshot: ProjectSnapshot) => {
+    if (!project) return;
+    if (hasUnsavedChanges && !window.confirm(`Discard unsaved changes and apply "${snapshot.name}"?`)) return;
+
+    await applyServerState(
+      `Apply ${snapshot.name}`,
+      () => projectsAPI.applySnapshot(project.id, snapshot.id, project.version),
+      'Failed to apply snapshot'
+    );
+  };
+
+  // Snapshots and presets capture the saved state, so save pending edits first
+  const savePendingEdits = async () => {
+    if (!project || !hasUnsavedChanges) return true;
+
+    return persistChanges({ adjustments: adjustmentsChanged, crop: cropChanged, masks: masksChanged, spots: spotsChanged }, project.version);
+  };
+
+  useKeyboardShortcuts({
+    shortcuts: [
+      { ...editorShortcuts.undo, action: handleUndo },
+      { ...editorShortcuts.redo, action: handleRedo },
+      { ...editorShortcuts.save, action: handleSave },
+      { ...editorShortcuts.copyAdjustments, action: () => setShowCopyDialog(true) },
+      { ...editorShortcuts.pasteAdjustments, action: handlePasteSettings },
+      {
+        ...editorShortcuts.toggleClipping,
+        action: () => setClipping(prev => {
+          const show = !(prev.shadows && prev.highlights);
+          return { shadows: show, highlights: show };
+        })
+      },
+      { ...editorShortcuts.toggleMaskOverlay, action: () => setShowMaskOverlay(prev => !prev) },
+      { ...editorShortcuts.visualizeSpots, action: () => setShowSpotVisualization(prev => !prev) }
+    ],
+    enabled: !!project && !conflict
+  });
+
   const handleExport = async (settings: any): Promise<Blob> => {
-    // This would normally process the image on the server with all adjustments
-    // For now, we'll return the original image blob
-    const response = await fetch(project!.image.url);
-    return response.blob();
+    // The server renders the original with the saved crop and adjustments,
+    // so pending edits have to reach it first
+    if (!(await savePendingEdits())) {
+      throw new Error('Unsaved changes could not be saved');
+    }
+
+    return exportAPI.exportProject(project!.id, {
+      format: settings.format,
+      quality: settings.quality,
+      width: settings.width,
+      height: settings.height,
+      maintainAspectRatio: settings.maintainAspectRatio
+    });
   };
 
   if (loading) {
@@ -311,12 +1027,40 @@ const EditorPage: React.FC = () => {
             {project.title}
           </Typography>
 
-          <IconButton disabled>
-            <Undo />
-          </IconButton>
-          <IconButton disabled>
-            <Redo />
-          </IconButton>
+          <SaveStatus state={saveState} />
+
+          <Tooltip title={history.canUndo ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}>
+            <span>
+              <IconButton onClick={handleUndo} disabled={!history.canUndo}>
+                <Undo />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={history.canRedo ? `Redo ${history.redoLabel} (Ctrl+Y)` : 'Nothing to redo'}>
+            <span>
+              <IconButton onClick={handleRedo} disabled={!history.canRedo}>
+                <Redo />
+              </IconButton>
+            </span>
+          </Tooltip>
+
+          <Tooltip title="Copy settings (Ctrl+Alt+C)">
+            <IconButton onClick={() => setShowCopyDialog(true)}>
+              <ContentCopy />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={copiedSettings ? `Paste settings from ${copiedSettings.sourceTitle} (Ctrl+Alt+V)` : 'Nothing copied'}>
+            <span>
+              <IconButton onClick={handlePasteSettings} disabled={!copiedSettings}>
+                <ContentPaste />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={showScopes ? 'Hide scopes' : 'Show waveform, parade and vectorscope'}>
+            <IconButton onClick={() => setShowScopes(prev => !prev)} color={showScopes ? 'primary' : 'default'}>
+              <Insights />
+            </IconButton>
+          </Tooltip>
 
           <Button
             onClick={handleSave}
@@ -353,11 +1097,15 @@ const EditorPage: React.FC = () => {
             <Box sx={{ flex: 1, position: 'relative', overflow: 'hidden', bgcolor: '#1a1a1a' }}>
               <canvas
                 ref={canvasRef}
+                onMouseDown={handleCanvasMouseDown}
+                onMouseMove={handleCanvasMouseMove}
+                onMouseUp={handleCanvasMouseUp}
+                onMouseLeave={handleCanvasMouseUp}
                 style={{
                   position: 'absolute',
                   top: 0,
                   left: 0,
-                  cursor: 'move',
+                  cursor: whiteBalanceActive ? 'crosshair' : targetedActive ? 'ns-resize' : 'move',
                   width: '100%',
                   height: '100%'
                 }}
@@ -370,8 +1118,40 @@ const EditorPage: React.FC = () => {
                 alt={project.title}
                 style={{ display: 'none' }}
                 crossOrigin="anonymous"
+                onLoad={handleImageLoad}
               />
 
+              {masksActive && previewRect && (
+                <MaskHandles
+                  masks={masks}
+                  selectedId={selectedMaskId}
+                  space={maskSpace(project.crop, project.image.dimensions)}
+                  layout={previewRect}
+                  dimensions={project.image.dimensions}
+                  drawing={drawingMask}
+                  brush={brush}
+                  pickingColor={pickingActive}
+                  onSelect={setSelectedMaskId}
+                  onCreate={handleMaskCreate}
+                  onChange={handleMaskChange}
+                  onPickColor={handlePickColor}
+                />
+              )}
+
+              {spotsActive && previewRect && (
+                <SpotHandles
+                  spots={spots}
+                  selectedId={selectedSpotId}
+                  space={maskSpace(project.crop, project.image.dimensions)}
+                  layout={previewRect}
+                  dimensions={project.image.dimensions}
+                  size={(selectedSpot || spotSettings).size}
+                  onSelect={setSelectedSpotId}
+                  onCreate={handleSpotCreate}
+                  onChange={handleSpotChange}
+                />
+              )}
+
               {/* Zoom controls */}
               <Paper
                 sx={{
@@ -428,7 +1208,8 @@ const EditorPage: React.FC = () => {
             <Tabs
               value={currentSubTab}
               onChange={handleSubTabChange}
-              variant="fullWidth"
+              variant="scrollable"
+              scrollButtons="auto"
               sx={{ borderBottom: 1, borderColor: 'divider' }}
             >
               <Tab
@@ -449,16 +1230,50 @@ const EditorPage: React.FC = () => {
                 icon={<FilterVintage />}
                 iconPosition="start"
               />
+              <Tab
+                label="Masks"
+                value="masks"
+                icon={<Gradient />}
+                iconPosition="start"
+              />
+              <Tab
+                label="Spots"
+                value="spots"
+                icon={<Healing />}
+                iconPosition="start"
+              />
+              <Tab
+                label="Presets"
+                value="presets"
+                icon={<Style />}
+                iconPosition="start"
+              />
+              <Tab
+                label="History"
+                value="history"
+                icon={<HistoryIcon />}
+                iconPosition="start"
+              />
+              <Tab
+                label="Snapshots"
+                value="snapshots"
+                icon={<PhotoLibrary />}
+                iconPosition="start"
+              />
             </Tabs>
           )}
 
           {/* Control panels */}
           <Box sx={{ flex: 1, overflow: 'auto' }}>
+            {scopesVisible && <ScopesPanel scopes={scopes} />}
+
             {currentTab === 'edit' && currentSubTab === 'light' && (
               <LightControls
                 adjustments={project.adjustments as unknown as ImageAdjustments}
                 onAdjustmentsChange={handleAdjustmentsChange}
-                imageData={imageData}
+                histogram={histogram}
+                clipping={clipping}
+                onClippingChange={setClipping}
               />
             )}
 
@@ -466,6 +1281,10 @@ const EditorPage: React.FC = () => {
               <ColorControls
                 adjustments={project.adjustments as unknown as ImageAdjustments}
                 onAdjustmentsChange={handleAdjustmentsChange}
+                targetHslProperty={targetHslProperty}
+                onTargetHslPropertyChange={handleTargetHslPropertyChange}
+                pickingWhiteBalance={pickingWhiteBalance}
+                onPickingWhiteBalanceChange={handlePickingWhiteBalanceChange}
               />
             )}
 
@@ -475,10 +1294,95 @@ const EditorPage: React.FC = () => {
                 onAdjustmentsChange={handleAdjustmentsChange}
               />
             )}
+
+            {masksActive && (
+              <MaskPanel
+                masks={masks}
+                selectedId={selectedMaskId}
+                onSelect={setSelectedMaskId}
+                onMasksChange={handleMasksChange}
+                drawing={drawingMask}
+                onDrawingChange={setDrawingMask}
+                showOverlay={showMaskOverlay}
+                onShowOverlayChange={setShowMaskOverlay}
+                brush={brush}
+                onBrushChange={setBrush}
+                overlayStyle={maskOverlayStyle}
+                onOverlayStyleChange={setMaskOverlayStyle}
+                pickingColor={pickingActive}
+                onPickingColorChange={setPickingColor}
+              />
+            )}
+
+            {spotsActive && (
+              <SpotPanel
+                spots={spots}
+                selectedId={selectedSpotId}
+                onSelect={setSelectedSpotId}
+                onSpotsChange={handleSpotsChange}
+                settings={spotSettings}
+                onSettingsChange={setSpotSettings}
+                onFindSource={handleFindSpotSource}
+                visualize={showSpotVisualization}
+                onVisualizeChange={setShowSpotVisualization}
+                visualizeThreshold={spotThreshold}
+                onVisualizeThresholdChange={setSpotThreshold}
+              />
+            )}
+
+            {currentTab === 'edit' && currentSubTab === 'presets' && (
+              <PresetsPanel
+                projectId={project.id}
+                projectTitle={project.title}
+                onBeforeCreate={savePendingEdits}
+                onPreview={setPreviewPreset}
+                onApply={handleApplyPreset}
+                disabled={saving}
+              />
+            )}
+
+            {currentTab === 'edit' && currentSubTab === 'history' && (
+              <HistoryPanel
+                projectId={project.id}
+                version={project.version}
+                source={sourcePixels}
+                originalWidth={project.image.dimensions.width}
+                onRevert={handleRevert}
+                disabled={saving}
+              />
+            )}
+
+            {currentTab === 'edit' && currentSubTab === 'snapshots' && (
+              <SnapshotsPanel
+                projectId={project.id}
+                fallbackThumbnailUrl={project.image.thumbnailUrl}
+                onBeforeCreate={savePendingEdits}
+                onApply={handleApplySnapshot}
+                disabled={saving}
+              />
+            )}
           </Box>
         </Paper>
       </Box>
 
+      <ConflictDialog
+        open={!!conflict}
+        conflict={conflict?.current || null}
+        onKeepMine={handleKeepMine}
+        onUseTheirs={handleUseTheirs}
+        onClose={() => setConflict(null)}
+      />
+
+      {/* Copy Settings Dialog */}
+      <CopySettingsDialog
+        open={showCopyDialog}
+        title="Copy Settings"
+        confirmLabel="Copy"
+        defaultGroups={copiedSettings?.groups || DEFAULT_COPY_GROUPS}
+        onClose={() => setShowCopyDialog(false)}
+        onConfirm={handleCopySettings}
+      />
+
       {/* Export Dialog */}
       <Dialog
         open={showExportDialog}
@@ -58,16 +58,60 @@ export interface ProjectImage {
 }
 
 export interface GrainSettings {
+  enabled?: boolean;
   amount: number;
   size: number;
   roughness: number;
 }
 
+export interface VignetteSettings {
+  enabled?: boolean;
+  amount: number;
+  midpoint: number;
+  roundness: number;
+  feather: number;
+}
+
 export interface CurvePoint {
   x: number;
   y: number;
 }
 
+export type ToneCurveChannel = 'red' | 'green' | 'blue';
+
+export type ParametricRegion = 'highlights' | 'lights' | 'darks' | 'shadows';
+
+export type ParametricSplit = 'shadowSplit' | 'midtoneSplit' | 'highlightSplit';
+
+// Region amounts run -100..100; splits are positions along the tonal range, 10-90
+export type ParametricCurve = Partial<Record<ParametricRegion | ParametricSplit, number>>;
+
+// Channel point curves and the parametric curve; the RGB master curve is `curves`
+export type ToneCurve = Partial<Record<ToneCurveChannel, CurvePoint[]>> & {
+  parametric?: ParametricCurve;
+};
+
+export type HslColor = 'red' | 'orange' | 'yellow' | 'green' | 'aqua' | 'blue' | 'purple' | 'magenta';
+
+export type HslProperty = 'hue' | 'saturation' | 'lightness';
+
+// Color mixer settings, each band's values running -100..100
+export type HslAdjustments = Partial<Record<HslColor, Partial<Record<HslProperty, number>>>>;
+
+export type ColorGradingRange = 'shadows' | 'midtones' | 'highlights' | 'global';
+
+// Hue 0-360, saturation 0-100, luminance -100..100
+export interface ColorGradingWheel {
+  hue: number;
+  saturation: number;
+  luminance: number;
+}
+
+export type ColorGrading = Partial<Record<ColorGradingRange, ColorGradingWheel>> & {
+  blending?: number;
+  balance?: number;
+};
+
 export interface ImageAdjustments {
   exposure: number;
   contrast: number;
@@ -75,7 +119,7 @@ export interface ImageAdjustments {
   shadows: number;
   whites: number;
   blacks: number;
-  temperature: number;
+  temperature: number; // Kelvin
   tint: number;
   vibrance: number;
   saturation: number;
@@ -84,15 +128,15 @@ export interface ImageAdjustments {
   dehaze?: number;
   structure?: number;
   
-  // HSL Adjustments
-  hslAdjustments?: {
-    red?: { hue?: number; saturation?: number; lightness?: number };
-    green?: { hue?: number; saturation?: number; lightness?: number };
-    blue?: { hue?: number; saturation?: number; lightness?: number };
-  };
+  // HSL / Color Mixer
+  hslAdjustments?: HslAdjustments;
+
+  // Color Grading
+  colorGrading?: ColorGrading;
   
-  // Curves
-  curves?: Array<{ input: number; output: number }>;
+  // Curves: the RGB master curve plus channel and parametric curves
+  curves?: CurvePoint[];
+  toneCurve?: ToneCurve;
   
   // Vignette
   vignette?: {
@@ -133,9 +177,15 @@ export interface ImageAdjustments {
 
 // Keep legacy interface for compatibility
 export interface Adjustments extends Omit<ImageAdjustments, 'vignette' | 'grain' | 'curves'> {
-  vignette: number; // Legacy single vignette value
-  grain: GrainSettings; // Legacy grain settings
-  curves: CurvePoint[]; // Legacy curve points
+  vignette: VignetteSettings;
+  grain: GrainSettings;
+  curves: CurvePoint[]; // RGB master curve
+}
+
+// Which clipping warnings are painted over the preview
+export interface ClippingOverlay {
+  shadows: boolean;
+  highlights: boolean;
 }
 
 export interface CropSettings {
@@ -148,11 +198,181 @@ export interface CropSettings {
   flipY: boolean;
 }
 
+export type MaskType = 'linear' | 'radial' | 'brush' | 'range';
+
+export type MaskAdjustmentKey =
+  | 'exposure'
+  | 'contrast'
+  | 'highlights'
+  | 'shadows'
+  | 'temperature'
+  | 'tint'
+  | 'saturation'
+  | 'clarity';
+
+// Exposure in stops (-5..5), the rest -100..100. Temperature and tint shift
+// the global white balance rather than setting Kelvin.
+export type MaskAdjustments = Partial<Record<MaskAdjustmentKey, number>>;
+
+// Pixels with luminance between min and max (0-100), fading out over
+// smoothness (0-100) beyond them
+export interface LuminanceRange {
+  type: 'luminance';
+  min: number;
+  max: number;
+  smoothness: number;
+}
+
+// 0-255 channels
+export interface RangeColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Pixels near any of the sampled colors; amount (0-100) widens the match
+export interface ColorRange {
+  type: 'color';
+  colors: RangeColor[];
+  amount: number;
+}
+
+export type MaskRange = LuminanceRange | ColorRange;
+
+interface MaskBase {
+  id: string;
+  name?: string;
+  visible: boolean;
+  invert: boolean;
+  adjustments: MaskAdjustments;
+  // Narrows the mask to part of the unadjusted photo
+  range?: MaskRange | null;
+}
+
+// Positions are fractions of the original image's width and height, so
+// masks stay on the same part of the photo through crops and rotation
+
+// Full effect at the start line, fading out to none at the end line
+export interface LinearGradientMask extends MaskBase {
+  type: 'linear';
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+// Full effect inside an ellipse turned by angle degrees, fading out over
+// the outer feather percent of its radius
+export interface RadialGradientMask extends MaskBase {
+  type: 'radial';
+  centerX: number;
+  centerY: number;
+  radiusX: number;
+  radiusY: number;
+  angle: number;
+  feather: number;
+}
+
+// Points are x, y pairs and size a radius as a share of the original's
+// longest edge; feather, flow and density run 0-100
+export interface BrushStroke {
+  points: number[];
+  size: number;
+  feather: number;
+  flow: number;
+  density: number;
+  erase: boolean;
+  autoMask: boolean;
+}
+
+// Painted by hand, stroke by stroke
+export interface BrushMask extends MaskBase {
+  type: 'brush';
+  strokes: BrushStroke[];
+}
+
+// The whole photo, narrowed by its range alone
+export interface RangeMask extends MaskBase {
+  type: 'range';
+  range: MaskRange;
+}
+
+export type Mask = LinearGradientMask | RadialGradientMask | BrushMask | RangeMask;
+
+// How the next brush stroke is painted
+export type BrushSettings = Omit<BrushStroke, 'points'>;
+
+export type SpotMode = 'heal' | 'clone';
+
+// A retouched spot: a circle at one point, or a path of x, y pairs painted
+// over a blemish, covered by the same shape copied from elsewhere. The
+// source is where the first point is copied from. Positions are fractions
+// of the original image and size a radius as a share of its longest edge;
+// feather and opacity run 0-100.
+export interface Spot {
+  id: string;
+  mode: SpotMode;
+  points: number[];
+  sourceX: number;
+  sourceY: number;
+  size: number;
+  feather: number;
+  opacity: number;
+}
+
+// How the next spot is placed
+export type SpotSettings = Pick<Spot, 'mode' | 'size' | 'feather' | 'opacity'>;
+
+// Stored edit state returned when a save conflicts with another session
+export interface ProjectConflict {
+  adjustments: Adjustments;
+  crop: CropSettings | null;
+  masks?: Mask[];
+  spots?: Spot[];
+  lastEdited: string;
+  version: number;
+}
+
+// A single value before and after an edit
+export interface ValueChange<T = any> {
+  from: T | null;
+  to: T | null;
+}
+
+// History entries only store what changed; crops use the server's field names
+export interface HistoryChanges {
+  adjustments?: Record<string, ValueChange>;
+  crop?: ValueChange;
+  masks?: ValueChange<Mask[]>;
+  spots?: ValueChange<Spot[]>;
+}
+
 export interface HistoryEntry {
   _id: string;
-  action: 'upload' | 'adjust' | 'crop' | 'export' | 'reset';
+  action: 'upload' | 'adjust' | 'crop' | 'mask' | 'spot' | 'export' | 'reset' | 'revert' | 'snapshot' | 'copy' | 'sync';
+  version: number;
   timestamp: string;
-  changes: any;
+  changes: HistoryChanges;
+  details?: any;
+  // Project state right after this entry was applied
+  state?: {
+    adjustments: Adjustments;
+    crop: CropSettings | null;
+    masks?: Mask[];
+    spots?: Spot[];
+  };
+}
+
+// A named copy of a project's adjustments, crop, masks and spots
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  adjustments: Adjustments;
+  crop: CropSettings | null;
+  masks?: Mask[];
+  spots?: Spot[];
+  thumbnailUrl: string | null;
+  createdAt: string;
 }
 
 export interface Project {
@@ -162,13 +382,20 @@ export interface Project {
   image: ProjectImage;
   adjustments: Adjustments;
   crop?: CropSettings;
+  // Local adjustments, composited over the global ones in order
+  masks?: Mask[];
+  // Spot removal, retouched in order before anything else
+  spots?: Spot[];
+  // Set on virtual copies: the project whose image files this one shares
+  virtualCopyOf?: string | null;
   tags: string[];
+  // 0-5 stars, read from and written to XMP sidecars
+  rating?: number;
   starred: boolean;
   isPublic: boolean;
   createdAt: string;
   lastEdited: string;
   version: number;
-  history?: HistoryEntry[];
 }
 
 export interface ProjectsResponse {
@@ -181,9 +408,65 @@ export interface ProjectsResponse {
   };
 }
 
+export interface HistoryResponse {
+  history: HistoryEntry[];
+  pagination: {
+    current: number;
+    pages: number;
+    total: number;
+    limit: number;
+  };
+}
+
+// Preset types
+export type PresetGroup = 'light' | 'color' | 'effects' | 'crop';
+
+// Crop stored as fractions of the image so a preset fits photos of any size
+export interface PresetCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  folder: string;
+  groups: PresetGroup[];
+  adjustments: Partial<Adjustments>;
+  crop: PresetCrop | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Settings copied from one project, ready to paste or sync into others
+export interface CopiedSettings {
+  sourceId: string;
+  sourceTitle: string;
+  groups: PresetGroup[];
+  adjustments: Partial<Adjustments>;
+  // Fractions of the source image, like a preset's crop
+  crop: PresetCrop | null;
+}
+
+// Outcome of syncing settings to one project; 'conflict' means it changed
+// in another session during the sync and was left alone
+export interface SyncResult {
+  id: string;
+  status: 'updated' | 'conflict' | 'failed';
+  adjustments?: Adjustments;
+  crop?: CropSettings;
+  lastEdited?: string;
+  version?: number;
+}
+
 // Editor types
 export type EditorTab = 'crop' | 'edit';
-export type EditSubTab = 'light' | 'color' | 'effects';
+export type EditSubTab = 'light' | 'color' | 'effects' | 'masks' | 'spots' | 'presets' | 'history' | 'snapshots';
 
 export interface EditorState {
   currentTab: EditorTab;
@@ -204,6 +487,33 @@ export interface ExportSettings {
   maintainAspectRatio: boolean;
 }
 
+export interface ExportJobItem {
+  id: string;
+  project: string;
+  title?: string;
+  filename: string;
+  status: 'pending' | 'rendering' | 'done' | 'failed' | 'cancelled';
+  error?: string;
+  size?: number;
+}
+
+export interface ExportJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  settings: ExportSettings;
+  items: ExportJobItem[];
+  archiveSize?: number;
+  downloadUrl: string | null;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export type ExportJobEvent =
+  | { type: 'job'; data: ExportJob }
+  | { type: 'item'; data: Partial<ExportJobItem> & { id: string } }
+  | { type: 'end'; data: { status: ExportJob['status'] } };
+
 // API Response types
 export interface ApiResponse<T = any> {
   message: string;
@@ -1,5 +1,25 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
-import { AuthResponse, User, Project, ProjectsResponse, StorageStats, Adjustments, CropSettings } from '../types';
+import {
+  AuthResponse,
+  User,
+  Project,
+  ProjectsResponse,
+  StorageStats,
+  Adjustments,
+  CropSettings,
+  Mask,
+  Spot,
+  ProjectConflict,
+  HistoryEntry,
+  HistoryResponse,
+  ProjectSnapshot,
+  Preset,
+  PresetGroup,
+  PresetCrop,
+  SyncResult,
+  ExportJob,
+  ExportJobEvent
+} from '../types';
 
 // Create axios instance with base configuration
 const api: AxiosInstance = axios.create({
@@ -67,6 +87,7 @@ api.interceptors.response.use(
       status: error.response?.status || 500,
       message: (error.response?.data as any)?.error || error.message || 'An error occurred',
       details: (error.response?.data as any)?.details || [],
+      current: (error.response?.data as any)?.current,
     };
     
     return Promise.reject(apiError);
@@ -135,10 +156,12 @@ export const uploadAPI = {
     title?: string,
     description?: string,
     tags?: string[],
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    sidecar?: File
   ): Promise<Project> => {
     const formData = new FormData();
     formData.append('image', file);
+    if (sidecar) formData.append('sidecar', sidecar);
     if (title) formData.append('title', title);
     if (description) formData.append('description', description);
     if (tags && tags.length > 0) formData.append('tags', tags.join(','));
@@ -160,12 +183,16 @@ export const uploadAPI = {
 
   batchUpload: async (
     files: File[],
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    sidecars: File[] = []
   ): Promise<Project[]> => {
     const formData = new FormData();
     files.forEach((file) => {
       formData.append('images', file);
     });
+    sidecars.forEach((sidecar) => {
+      formData.append('sidecars', sidecar);
+    });
 
     const response = await api.post('/upload/batch', formData, {
       headers: {
@@ -188,6 +215,56 @@ export const uploadAPI = {
   },
 };
 
+// The server names crop flips flipHorizontal/flipVertical, the editor flipX/flipY
+const toClientCrop = (crop: any): CropSettings | null => {
+  if (!crop) return null;
+  return {
+    x: crop.x,
+    y: crop.y,
+    width: crop.width,
+    height: crop.height,
+    rotation: crop.rotation || 0,
+    flipX: !!(crop.flipX ?? crop.flipHorizontal),
+    flipY: !!(crop.flipY ?? crop.flipVertical),
+  };
+};
+
+const toServerCrop = (crop: CropSettings) => ({
+  x: crop.x,
+  y: crop.y,
+  width: crop.width,
+  height: crop.height,
+  rotation: crop.rotation,
+  flipHorizontal: crop.flipX,
+  flipVertical: crop.flipY,
+});
+
+const toClientSnapshot = (snapshot: any): ProjectSnapshot => ({
+  ...snapshot,
+  crop: toClientCrop(snapshot.crop),
+});
+
+const toClientPreset = (preset: any): Preset => ({
+  ...preset,
+  crop: toClientCrop(preset.crop),
+});
+
+// Send the version the edit was based on so the server can reject stale writes
+const versionHeaders = (version?: number) => (
+  version !== undefined ? { headers: { 'If-Match': `"${version}"` } } : {}
+);
+
+// Conflict responses carry the stored state; normalise its crop for the editor
+const rethrowConflict = (error: any): never => {
+  if (error?.status === 409 && error.current) {
+    error.current = {
+      ...error.current,
+      crop: toClientCrop(error.current.crop),
+    } as ProjectConflict;
+  }
+  throw error;
+};
+
 // Projects API functions
 export const projectsAPI = {
   getProjects: async (params?: {
@@ -199,12 +276,19 @@ export const projectsAPI = {
     search?: string;
   }): Promise<ProjectsResponse> => {
     const response = await api.get('/projects', { params });
-    return response.data;
+    return {
+      ...response.data,
+      projects: response.data.projects.map((project: any) => ({
+        ...project,
+        crop: toClientCrop(project.crop) || undefined,
+      })),
+    };
   },
 
   getProject: async (id: string): Promise<Project> => {
     const response = await api.get(`/projects/${id}`);
-    return response.data.project;
+    const project = response.data.project;
+    return { ...project, crop: toClientCrop(project.crop) || undefined };
   },
 
   updateProject: async (
@@ -223,34 +307,195 @@ export const projectsAPI = {
 
   updateAdjustments: async (
     id: string,
-    adjustments: Partial<Adjustments>
+    adjustments: Partial<Adjustments>,
+    version?: number,
+    options: { autosave?: boolean } = {}
   ): Promise<{ adjustments: Adjustments; lastEdited: string; version: number }> => {
-    const response = await api.put(`/projects/${id}/adjustments`, { adjustments });
+    const response = await api
+      .put(`/projects/${id}/adjustments`, { adjustments, ...options }, versionHeaders(version))
+      .catch(rethrowConflict);
     return response.data;
   },
 
   updateCrop: async (
     id: string,
-    crop: CropSettings
+    crop: CropSettings,
+    version?: number
   ): Promise<{ crop: CropSettings; lastEdited: string; version: number }> => {
-    const response = await api.put(`/projects/${id}/crop`, { crop });
+    const response = await api
+      .put(`/projects/${id}/crop`, { crop: toServerCrop(crop) }, versionHeaders(version))
+      .catch(rethrowConflict);
+    return { ...response.data, crop: toClientCrop(response.data.crop) };
+  },
+
+  updateMasks: async (
+    id: string,
+    masks: Mask[],
+    version?: number
+  ): Promise<{ masks: Mask[]; lastEdited: string; version: number }> => {
+    const response = await api
+      .put(`/projects/${id}/masks`, { masks }, versionHeaders(version))
+      .catch(rethrowConflict);
+    return response.data;
+  },
+
+  updateSpots: async (
+    id: string,
+    spots: Spot[],
+    version?: number
+  ): Promise<{ spots: Spot[]; lastEdited: string; version: number }> => {
+    const response = await api
+      .put(`/projects/${id}/spots`, { spots }, versionHeaders(version))
+      .catch(rethrowConflict);
     return response.data;
   },
 
   resetProject: async (
-    id: string
-  ): Promise<{ adjustments: Adjustments; crop: CropSettings | null; lastEdited: string; version: number }> => {
-    const response = await api.post(`/projects/${id}/reset`);
+    id: string,
+    version?: number
+  ): Promise<{ adjustments: Adjustments; crop: CropSettings | null; masks: Mask[]; spots: Spot[]; lastEdited: string; version: number }> => {
+    const response = await api
+      .post(`/projects/${id}/reset`, undefined, versionHeaders(version))
+      .catch(rethrowConflict);
+    return { ...response.data, crop: toClientCrop(response.data.crop) };
+  },
+
+  downloadXmp: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/projects/${id}/xmp`, { responseType: 'blob' });
     return response.data;
   },
 
+  // Apply the same settings to many projects; each reports whether it updated
+  syncSettings: async (sync: {
+    projectIds: string[];
+    sourceId?: string;
+    adjustments: Partial<Adjustments>;
+    crop: PresetCrop | null;
+  }): Promise<SyncResult[]> => {
+    const response = await api.post('/projects/sync', {
+      ...sync,
+      crop: sync.crop ? toServerCrop(sync.crop) : null,
+    });
+    return response.data.results.map((result: any) => ({
+      ...result,
+      crop: toClientCrop(result.crop) || undefined,
+    }));
+  },
+
+  // ZIP of XMP sidecars, one per project
+  downloadXmpArchive: async (projectIds: string[]): Promise<Blob> => {
+    const response = await api.post('/projects/xmp', { projectIds }, { responseType: 'blob' });
+    return response.data;
+  },
+
+  createVirtualCopy: async (id: string, title?: string): Promise<Project> => {
+    const response = await api.post(`/projects/${id}/virtual-copies`, { title });
+    const project = response.data.project;
+    return { ...project, crop: toClientCrop(project.crop) || undefined };
+  },
+
   deleteProject: async (id: string): Promise<void> => {
     await api.delete(`/projects/${id}`);
   },
 
-  getProjectHistory: async (id: string): Promise<any[]> => {
-    const response = await api.get(`/projects/${id}/history`);
-    return response.data.history;
+  getProjectHistory: async (
+    id: string,
+    params?: { page?: number; limit?: number }
+  ): Promise<HistoryResponse> => {
+    const response = await api.get(`/projects/${id}/history`, { params });
+    return {
+      ...response.data,
+      history: response.data.history.map((entry: HistoryEntry) => (
+        entry.state ? { ...entry, state: { ...entry.state, crop: toClientCrop(entry.state.crop) } } : entry
+      ))
+    };
+  },
+
+  revertToHistory: async (
+    id: string,
+    entryId: string,
+    version?: number
+  ): Promise<{ adjustments: Adjustments; crop: CropSettings | null; masks: Mask[]; spots: Spot[]; lastEdited: string; version: number }> => {
+    const response = await api
+      .post(`/projects/${id}/history/${entryId}/revert`, undefined, versionHeaders(version))
+      .catch(rethrowConflict);
+    return { ...response.data, crop: toClientCrop(response.data.crop) };
+  },
+
+  getSnapshots: async (id: string): Promise<ProjectSnapshot[]> => {
+    const response = await api.get(`/projects/${id}/snapshots`);
+    return response.data.snapshots.map(toClientSnapshot);
+  },
+
+  createSnapshot: async (id: string, name: string): Promise<ProjectSnapshot> => {
+    const response = await api.post(`/projects/${id}/snapshots`, { name });
+    return toClientSnapshot(response.data.snapshot);
+  },
+
+  renameSnapshot: async (id: string, snapshotId: string, name: string): Promise<ProjectSnapshot> => {
+    const response = await api.put(`/projects/${id}/snapshots/${snapshotId}`, { name });
+    return toClientSnapshot(response.data.snapshot);
+  },
+
+  deleteSnapshot: async (id: string, snapshotId: string): Promise<void> => {
+    await api.delete(`/projects/${id}/snapshots/${snapshotId}`);
+  },
+
+  applySnapshot: async (
+    id: string,
+    snapshotId: string,
+    version?: number
+  ): Promise<{ adjustments: Adjustments; crop: CropSettings | null; masks: Mask[]; spots: Spot[]; lastEdited: string; version: number }> => {
+    const response = await api
+      .post(`/projects/${id}/snapshots/${snapshotId}/apply`, undefined, versionHeaders(version))
+      .catch(rethrowConflict);
+    return { ...response.data, crop: toClientCrop(response.data.crop) };
+  },
+};
+
+// Presets API functions
+export const presetsAPI = {
+  getPresets: async (): Promise<{ presets: Preset[]; folders: string[] }> => {
+    const response = await api.get('/presets');
+    return { ...response.data, presets: response.data.presets.map(toClientPreset) };
+  },
+
+  createPreset: async (preset: {
+    name: string;
+    folder?: string;
+    groups: PresetGroup[];
+    projectId: string;
+  }): Promise<Preset> => {
+    const response = await api.post('/presets', preset);
+    return toClientPreset(response.data.preset);
+  },
+
+  updatePreset: async (id: string, updates: { name?: string; folder?: string }): Promise<Preset> => {
+    const response = await api.put(`/presets/${id}`, updates);
+    return toClientPreset(response.data.preset);
+  },
+
+  deletePreset: async (id: string): Promise<void> => {
+    await api.delete(`/presets/${id}`);
+  },
+
+  // Settings the file contained that couldn't be imported come back in `unsupported`
+  importXmp: async (xmp: string, folder?: string): Promise<{ preset: Preset; unsupported: string[] }> => {
+    const response = await api.post('/presets/import', { xmp, folder });
+    return { preset: toClientPreset(response.data.preset), unsupported: response.data.unsupported };
+  },
+
+  exportXmp: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/presets/${id}/xmp`, { responseType: 'blob' });
+    return response.data;
+  },
+
+  renameFolder: async (from: string, to: string): Promise<void> => {
+    await api.put('/presets/folders', { from, to });
+  },
+
+  deleteFolder: async (folder: string): Promise<void> => {
+    await api.delete(`/presets/folders/${encodeURIComponent(folder)}`);
   },
 };
 
@@ -263,6 +508,7 @@ export const exportAPI = {
       quality: number;
       width?: number;
       height?: number;
+      maintainAspectRatio?: boolean;
     }
   ): Promise<Blob> => {
     const response = await api.post(
@@ -280,17 +526,107 @@ export const exportAPI = {
     settings: {
       format: 'jpeg' | 'png' | 'tiff' | 'webp';
       quality: number;
+      width?: number;
+      height?: number;
+      maintainAspectRatio?: boolean;
     }
-  ): Promise<Blob> => {
-    const response = await api.post(
-      `/projects/export/batch`,
-      { projectIds, settings },
-      {
-        responseType: 'blob',
-      }
-    );
+  ): Promise<ExportJob> => {
+    const response = await api.post(`/projects/export/batch`, { projectIds, settings });
+    return response.data.job;
+  },
+
+  getJobs: async (): Promise<ExportJob[]> => {
+    const response = await api.get('/projects/export/jobs');
+    return response.data.jobs;
+  },
+
+  getJob: async (jobId: string): Promise<ExportJob> => {
+    const response = await api.get(`/projects/export/jobs/${jobId}`);
+    return response.data.job;
+  },
+
+  cancelJob: async (jobId: string): Promise<ExportJob> => {
+    const response = await api.post(`/projects/export/jobs/${jobId}/cancel`);
+    return response.data.job;
+  },
+
+  retryJob: async (jobId: string): Promise<ExportJob> => {
+    const response = await api.post(`/projects/export/jobs/${jobId}/retry`);
+    return response.data.job;
+  },
+
+  downloadJob: async (jobId: string): Promise<Blob> => {
+    const response = await api.get(`/projects/export/jobs/${jobId}/download`, {
+      responseType: 'blob',
+      timeout: 0,
+    });
     return response.data;
   },
+
+  deleteJob: async (jobId: string): Promise<void> => {
+    await api.delete(`/projects/export/jobs/${jobId}`);
+  },
+
+  // Listen to Server-Sent Events for a job. EventSource cannot send the
+  // Authorization header, so the stream is read through fetch instead.
+  subscribeToJob: (
+    jobId: string,
+    onEvent: (event: ExportJobEvent) => void,
+    onError?: (error: Error) => void
+  ): (() => void) => {
+    const controller = new AbortController();
+
+    const readStream = async () => {
+      const response = await fetch(`${api.defaults.baseURL}/projects/export/jobs/${jobId}/events`, {
+        headers: {
+          Accept: 'text/event-stream',
+          Authorization: `Bearer ${getToken()}`,
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Could not subscribe to export job (${response.status})`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const message = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+
+          let event = 'message';
+          let data = '';
+          message.split('\n').forEach(line => {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            if (line.startsWith('data:')) data += line.slice(5).trim();
+          });
+
+          if (data) {
+            onEvent({ type: event, data: JSON.parse(data) } as ExportJobEvent);
+          }
+        }
+      }
+    };
+
+    readStream().catch((error) => {
+      if (error.name !== 'AbortError' && onError) {
+        onError(error);
+      }
+    });
+
+    return () => controller.abort();
+  },
 };
 
 // Health check
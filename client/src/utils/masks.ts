@@ -0,0 +1,208 @@
+import { PixelBuffer, croppedSize, maskWeights, normalizeCrop, sourceMapping } from 'lightroom-clone-shared';
+import { BrushSettings, CropSettings, ImageDimensions, Mask, MaskRange, MaskType, RangeColor } from '../types';
+
+// Longest edge of the overlay; it is stretched over the preview like a draft
+const OVERLAY_SIZE = 480;
+// New masks drawn with a click rather than a drag get this share of the image
+const DEFAULT_MASK_SIZE = 0.25;
+
+export const DEFAULT_BRUSH: BrushSettings = {
+  size: 0.03,
+  feather: 50,
+  flow: 100,
+  density: 100,
+  erase: false,
+  autoMask: false
+};
+
+// How a mask is previewed: red over the photo, or its weights in gray
+export type OverlayStyle = 'color' | 'grayscale';
+
+// Half-width in source pixels of the square the eyedropper averages
+const SAMPLE_RADIUS = 2;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Converts between the rendered image and the original that masks are
+ * placed on. Render points are in original pixels within the crop, with
+ * pixel x covering x..x+1; image points are fractions of the original.
+ */
+export interface MaskSpace {
+  // Size of the render in original pixels
+  width: number;
+  height: number;
+  toImage: (point: Point) => Point;
+  toRender: (point: Point) => Point;
+}
+
+export const maskSpace = (crop: CropSettings | undefined, dimensions: ImageDimensions): MaskSpace => {
+  const normalized = normalizeCrop(crop, dimensions.width, dimensions.height);
+  const { width, height } = normalized ? croppedSize(normalized) : dimensions;
+  const mapping = sourceMapping(normalized);
+
+  // The crop is a rotation plus flips, so three points pin it down
+  const mapped = [0, 0];
+  const at = (x: number, y: number) => {
+    mapping(x - 0.5, y - 0.5, mapped);
+    return [mapped[0] + 0.5, mapped[1] + 0.5];
+  };
+  const [originX, originY] = at(0, 0);
+  const [rightX, rightY] = at(1, 0);
+  const [downX, downY] = at(0, 1);
+  // Original pixels moved per render pixel across (a, c) and down (b, d)
+  const a = rightX - originX;
+  const c = rightY - originY;
+  const b = downX - originX;
+  const d = downY - originY;
+  const determinant = a * d - b * c;
+
+  return {
+    width,
+    height,
+    toImage: ({ x, y }) => ({
+      x: (originX + a * x + b * y) / dimensions.width,
+      y: (originY + c * x + d * y) / dimensions.height
+    }),
+    toRender: ({ x, y }) => {
+      const dx = x * dimensions.width - originX;
+      const dy = y * dimensions.height - originY;
+      return { x: (d * dx - b * dy) / determinant, y: (a * dy - c * dx) / determinant };
+    }
+  };
+};
+
+/**
+ * Paint where a mask applies in translucent red, or as an opaque grayscale
+ * matte, at a reduced size that is drawn over the whole preview. Brush auto
+ * masks and ranges read colors from `pixels`.
+ */
+export const maskOverlay = (
+  mask: Mask,
+  crop: CropSettings | undefined,
+  dimensions: ImageDimensions,
+  pixels?: PixelBuffer | null,
+  style: OverlayStyle = 'color'
+): HTMLCanvasElement => {
+  const factor = Math.min(1, OVERLAY_SIZE / Math.max(dimensions.width, dimensions.height));
+  const width = Math.max(1, Math.round(dimensions.width * factor));
+  const height = Math.max(1, Math.round(dimensions.height * factor));
+  const weights = maskWeights(mask, normalizeCrop(crop, width, height, factor), width, height, pixels);
+
+  const image = new ImageData(weights.width, weights.height);
+  weights.data.forEach((weight, index) => {
+    if (style === 'grayscale') {
+      const level = Math.round(weight * 255);
+      image.data[index * 4] = level;
+      image.data[index * 4 + 1] = level;
+      image.data[index * 4 + 2] = level;
+      image.data[index * 4 + 3] = 255;
+    } else {
+      image.data[index * 4] = 255;
+      image.data[index * 4 + 3] = Math.round(weight * 140);
+    }
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = weights.width;
+  canvas.height = weights.height;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+  return canvas;
+};
+
+/**
+ * The average color of the source around an image point, for the color
+ * range eyedropper. Ranges are matched against the same pixels.
+ */
+export const sampleColor = (pixels: PixelBuffer, at: Point): RangeColor => {
+  const cx = Math.min(Math.max(Math.floor(at.x * pixels.width), 0), pixels.width - 1);
+  const cy = Math.min(Math.max(Math.floor(at.y * pixels.height), 0), pixels.height - 1);
+  const total = [0, 0, 0];
+  let count = 0;
+
+  for (let y = Math.max(cy - SAMPLE_RADIUS, 0); y <= Math.min(cy + SAMPLE_RADIUS, pixels.height - 1); y++) {
+    for (let x = Math.max(cx - SAMPLE_RADIUS, 0); x <= Math.min(cx + SAMPLE_RADIUS, pixels.width - 1); x++) {
+      const i = (y * pixels.width + x) * 4;
+      total[0] += pixels.data[i];
+      total[1] += pixels.data[i + 1];
+      total[2] += pixels.data[i + 2];
+      count++;
+    }
+  }
+
+  return { r: Math.round(total[0] / count), g: Math.round(total[1] / count), b: Math.round(total[2] / count) };
+};
+
+// A range with nothing sampled yet, or the middle tones
+export const defaultRange = (type: MaskRange['type']): MaskRange => (
+  type === 'luminance'
+    ? { type, min: 25, max: 75, smoothness: 50 }
+    : { type, colors: [], amount: 50 }
+);
+
+const MASK_NAMES: Record<MaskType, string> = {
+  linear: 'Linear Gradient',
+  radial: 'Radial Gradient',
+  brush: 'Brush',
+  range: 'Range'
+};
+
+const RANGE_NAMES: Record<MaskRange['type'], string> = {
+  luminance: 'Luminance Range',
+  color: 'Color Range'
+};
+
+// Brush points held across all masks, counted against MAX_BRUSH_POINTS
+export const brushPointCount = (masks: Mask[]): number => masks.reduce((total, mask) =>
+  total + (mask.type === 'brush' ? mask.strokes.reduce((sum, stroke) => sum + stroke.points.length / 2, 0) : 0), 0);
+
+// A new mask over the whole photo, narrowed by a range alone
+export const createRangeMask = (type: MaskRange['type'], existing: Mask[]): Mask => ({
+  id: `mask-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: `${RANGE_NAMES[type]} ${existing.filter(mask => mask.type === 'range' && mask.range.type === type).length + 1}`,
+  visible: true,
+  invert: false,
+  adjustments: {},
+  type: 'range',
+  range: defaultRange(type)
+});
+
+/**
+ * A new mask with no adjustments, placed at an image point. Linear
+ * gradients start there and fade downwards; radial ones are centred there
+ * as a circle. Brushes start with no strokes.
+ */
+export const createMask = (type: MaskType, at: Point, dimensions: ImageDimensions, existing: Mask[]): Mask => {
+  const base = {
+    id: `mask-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: `${MASK_NAMES[type]} ${existing.filter(mask => mask.type === type).length + 1}`,
+    visible: true,
+    invert: false,
+    adjustments: {}
+  };
+
+  if (type === 'linear') {
+    return { ...base, type, startX: at.x, startY: at.y, endX: at.x, endY: at.y + DEFAULT_MASK_SIZE };
+  }
+  if (type === 'brush') {
+    return { ...base, type, strokes: [] };
+  }
+  if (type === 'range') {
+    return { ...base, type, range: defaultRange('luminance') };
+  }
+
+  const radius = DEFAULT_MASK_SIZE * Math.min(dimensions.width, dimensions.height);
+  return {
+    ...base,
+    type,
+    centerX: at.x,
+    centerY: at.y,
+    radiusX: radius / dimensions.width,
+    radiusY: radius / dimensions.height,
+    angle: 0,
+    feather: 50
+  };
+};
@@ -1,4 +1,5 @@
 import { useCallback, useRef, useEffect, useState } from 'react';
+import { RenderPool, getRenderPool } from './renderPool';
 
 // Debounce utility for expensive operations
 export const useDebounce = <T extends (...args: any[]) => any>(
@@ -174,9 +175,12 @@ export const resizeImageWithWorker = (
   targetWidth: number,
   targetHeight: number
 ): Promise<ImageData> => {
-  return new Promise((resolve, reject) => {
-    // In a real implementation, this would use a Web Worker
-    // For now, we'll do it on the main thread
+  if (RenderPool.isSupported()) {
+    return getRenderPool().resize(imageData, targetWidth, targetHeight);
+  }
+
+  return new Promise((resolve) => {
+    // Without worker support, resize on the main thread
     const canvas = createOptimizedCanvas(targetWidth, targetHeight);
     const ctx = canvas.getContext('2d')!;
     
@@ -0,0 +1,62 @@
+import { Adjustments, CropSettings, ImageDimensions, Preset, PresetCrop, PresetGroup } from '../types';
+
+// Mirrors the server's groups in services/presets.js
+export const PRESET_GROUPS: Array<{ value: PresetGroup; label: string; settings: Array<keyof Adjustments> }> = [
+  { value: 'light', label: 'Light', settings: ['exposure', 'contrast', 'highlights', 'shadows', 'whites', 'blacks', 'curves', 'toneCurve'] },
+  { value: 'color', label: 'Color', settings: ['temperature', 'tint', 'vibrance', 'saturation', 'hslAdjustments', 'colorGrading'] },
+  { value: 'effects', label: 'Effects', settings: ['texture', 'clarity', 'dehaze', 'vignette', 'grain'] },
+  { value: 'crop', label: 'Crop', settings: [] },
+];
+
+// The settings belonging to the given groups
+export const pickGroups = (adjustments: Partial<Adjustments>, groups: PresetGroup[]): Partial<Adjustments> => {
+  const picked: Partial<Adjustments> = {};
+  PRESET_GROUPS
+    .filter(group => groups.includes(group.value))
+    .forEach(group => group.settings.forEach(key => {
+      if (adjustments[key] !== undefined) {
+        (picked as any)[key] = adjustments[key];
+      }
+    }));
+  return picked;
+};
+
+// Store a crop as fractions of its image so it fits photos of any size
+export const toRelativeCrop = (crop: CropSettings, dimensions: ImageDimensions): PresetCrop => ({
+  x: crop.x / dimensions.width,
+  y: crop.y / dimensions.height,
+  width: crop.width / dimensions.width,
+  height: crop.height / dimensions.height,
+  rotation: crop.rotation || 0,
+  flipX: !!crop.flipX,
+  flipY: !!crop.flipY,
+});
+
+// Scale a preset's fractional crop to an image, keeping it inside the frame
+const toImageCrop = (crop: PresetCrop, dimensions: ImageDimensions): CropSettings => {
+  const x = Math.min(Math.max(Math.round(crop.x * dimensions.width), 0), dimensions.width - 1);
+  const y = Math.min(Math.max(Math.round(crop.y * dimensions.height), 0), dimensions.height - 1);
+
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width * dimensions.width), dimensions.width - x)),
+    height: Math.max(1, Math.min(Math.round(crop.height * dimensions.height), dimensions.height - y)),
+    rotation: crop.rotation,
+    flipX: crop.flipX,
+    flipY: crop.flipY,
+  };
+};
+
+/**
+ * The edit state after applying a preset or copied settings: its settings
+ * replace the current ones and its crop, if it has one, is fitted to the image.
+ */
+export const applyPreset = (
+  state: { adjustments: Adjustments; crop?: CropSettings },
+  preset: Pick<Preset, 'adjustments' | 'crop'>,
+  dimensions: ImageDimensions
+): { adjustments: Adjustments; crop?: CropSettings } => ({
+  adjustments: { ...state.adjustments, ...preset.adjustments },
+  crop: preset.crop ? toImageCrop(preset.crop, dimensions) : state.crop,
+});
@@ -0,0 +1,123 @@
+import { useEffect, useMemo, useState } from 'react';
+import { computeHistogram, computeScopes, processImage } from 'lightroom-clone-shared';
+import { Adjustments, CropSettings, Mask, Project, Spot } from '../types';
+import { RenderResult } from '../workers/protocol';
+import { RenderPool, getRenderPool } from './renderPool';
+
+// How long adjustments must stay unchanged before the full resolution pass
+const SETTLE_DELAY = 200;
+
+// Read the decoded pixels of a loaded image through an offscreen canvas
+export const getSourcePixels = (image: HTMLImageElement): ImageData | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Render the preview with the shared pipeline used by server exports.
+ * The preview is a downscaled copy of the original, so crop coordinates
+ * (stored in original pixels) are scaled to the preview's resolution.
+ */
+export const renderPreview = (source: ImageData, project: Project): ImageData => {
+  return renderState(source, project, project.image.dimensions.width);
+};
+
+// Render any adjustments/crop/masks/spots state, e.g. one recorded in project history
+export const renderState = (
+  source: ImageData,
+  state: { adjustments: Adjustments; crop?: CropSettings | null; masks?: Mask[]; spots?: Spot[] },
+  originalWidth: number
+): ImageData => {
+  const scale = source.width / originalWidth;
+  const result = processImage(source, state.adjustments, state.crop, { scale, masks: state.masks, spots: state.spots });
+
+  return new ImageData(new Uint8ClampedArray(result.data), result.width, result.height);
+};
+
+// Downscale pixels so their longest edge is at most maxSize, for thumbnails
+export const downscalePixels = (source: ImageData, maxSize: number): ImageData => {
+  const factor = Math.min(1, maxSize / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * factor));
+  const height = Math.max(1, Math.round(source.height * factor));
+
+  const full = document.createElement('canvas');
+  full.width = source.width;
+  full.height = source.height;
+  full.getContext('2d')?.putImageData(source, 0, 0);
+
+  const small = document.createElement('canvas');
+  small.width = width;
+  small.height = height;
+  const ctx = small.getContext('2d');
+  if (!ctx) return source;
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(full, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Render the preview and its histogram off the main thread, plus scopes
+ * when asked for. Every change first gets a quick low resolution draft, then
+ * a full resolution pass once it has settled. Falls back to rendering on the
+ * main thread without Web Worker support.
+ */
+export const usePreviewRenderer = (
+  source: ImageData | null,
+  project: Project | null,
+  scopes = false
+): Partial<RenderResult> => {
+  const [preview, setPreview] = useState<RenderResult | undefined>();
+  const pool = useMemo(() => (RenderPool.isSupported() ? getRenderPool() : null), []);
+
+  useEffect(() => {
+    if (source && pool) {
+      pool.setSource(source);
+    }
+  }, [source, pool]);
+
+  useEffect(() => {
+    if (!source || !project) return;
+
+    if (!pool) {
+      const image = renderPreview(source, project);
+      setPreview({ image, histogram: computeHistogram(image), scopes: scopes ? computeScopes(image) : undefined });
+      return;
+    }
+
+    let active = true;
+    const request = {
+      adjustments: project.adjustments,
+      crop: project.crop,
+      masks: project.masks,
+      spots: project.spots,
+      scale: source.width / project.image.dimensions.width,
+      scopes
+    };
+    const show = (result: RenderResult | null) => {
+      if (active && result) setPreview(result);
+    };
+    const fail = (error: Error) => console.error('Preview render error:', error);
+
+    pool.render({ ...request, quality: 'draft' }).then(show, fail);
+    const settleTimer = setTimeout(() => {
+      pool.render({ ...request, quality: 'full' }).then(show, fail);
+    }, SETTLE_DELAY);
+
+    return () => {
+      active = false;
+      clearTimeout(settleTimer);
+    };
+  }, [source, project, pool, scopes]);
+
+  useEffect(() => () => pool?.cancelRenders(), [pool]);
+
+  return preview || {};
+};
@@ -0,0 +1,157 @@
+import { RenderRequest, RenderResult, WorkerRequest, WorkerResponse } from '../workers/protocol';
+
+interface PendingJob {
+  id: number;
+  message: WorkerRequest;
+  resolve: (result: RenderResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PendingJob | null;
+}
+
+const createWorker = () => new Worker(new URL('../workers/preview.worker.ts', import.meta.url));
+
+/**
+ * Pool of preview workers. Only the newest render is ever kept: a render that
+ * is superseded before it starts is dropped, and a full render already running
+ * is cancelled by terminating its worker. Superseded renders resolve with null
+ * so callers can ignore them.
+ */
+export class RenderPool {
+  private workers: PoolWorker[] = [];
+  private source: ImageData | null = null;
+  private queued: PendingJob | null = null;
+  private resizeQueue: PendingJob[] = [];
+  private nextId = 1;
+
+  constructor(size: number = RenderPool.defaultSize()) {
+    for (let i = 0; i < size; i++) {
+      this.workers.push(this.spawn());
+    }
+  }
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  static defaultSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    return Math.min(Math.max(cores - 1, 1), 4);
+  }
+
+  setSource(source: ImageData) {
+    this.source = source;
+    this.cancelRenders();
+    this.workers.forEach(entry => entry.worker.postMessage({ type: 'source', source }));
+  }
+
+  render(request: RenderRequest): Promise<RenderResult | null> {
+    this.cancelRenders();
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.queued = { id, message: { type: 'render', id, ...request }, resolve, reject };
+      this.dispatch();
+    });
+  }
+
+  resize(image: ImageData, width: number, height: number): Promise<ImageData> {
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.resizeQueue.push({
+        id,
+        message: { type: 'resize', id, image, width, height },
+        resolve: (result) => (result ? resolve(result.image) : reject(new Error('Resize cancelled'))),
+        reject
+      });
+      this.dispatch();
+    });
+  }
+
+  // Drop the queued render and stop any render still running
+  cancelRenders() {
+    if (this.queued) {
+      this.queued.resolve(null);
+      this.queued = null;
+    }
+
+    this.workers.forEach((entry, index) => {
+      const message = entry.job?.message;
+      if (!entry.job || !message || message.type !== 'render') return;
+
+      // Settling the promise early means the stale result is ignored when it
+      // arrives. Drafts finish quickly, but a full render is worth killing.
+      entry.job.resolve(null);
+      if (message.quality === 'full') {
+        entry.worker.terminate();
+        this.workers[index] = this.spawn();
+      }
+    });
+  }
+
+  destroy() {
+    this.cancelRenders();
+    this.resizeQueue.forEach(job => job.reject(new Error('Render pool destroyed')));
+    this.resizeQueue = [];
+    this.workers.forEach(entry => {
+      entry.job?.reject(new Error('Render pool destroyed'));
+      entry.worker.terminate();
+    });
+    this.workers = [];
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: createWorker(), job: null };
+
+    entry.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const job = entry.job;
+      if (!job || job.id !== event.data.id) return;
+
+      entry.job = null;
+      if (event.data.type === 'result') {
+        job.resolve({ image: event.data.image, histogram: event.data.histogram, scopes: event.data.scopes });
+      } else {
+        job.reject(new Error(event.data.message));
+      }
+      this.dispatch();
+    };
+
+    entry.worker.onerror = (event) => {
+      const job = entry.job;
+      entry.job = null;
+      job?.reject(new Error(event.message || 'Preview worker failed'));
+      this.dispatch();
+    };
+
+    if (this.source) {
+      entry.worker.postMessage({ type: 'source', source: this.source });
+    }
+
+    return entry;
+  }
+
+  private dispatch() {
+    for (const entry of this.workers) {
+      if (entry.job) continue;
+
+      const job = this.queued || this.resizeQueue.shift();
+      if (!job) return;
+      if (job === this.queued) this.queued = null;
+
+      entry.job = job;
+      entry.worker.postMessage(job.message);
+    }
+  }
+}
+
+let sharedPool: RenderPool | null = null;
+
+export const getRenderPool = (): RenderPool => {
+  if (!sharedPool) {
+    sharedPool = new RenderPool();
+  }
+  return sharedPool;
+};
@@ -0,0 +1,26 @@
+import { CopiedSettings, PresetGroup, Project } from '../types';
+import { pickGroups, toRelativeCrop } from './presets';
+
+// Kept in localStorage so copied settings survive moving between projects
+const CLIPBOARD_KEY = 'copiedSettings';
+
+export const copySettings = (project: Project, groups: PresetGroup[]): CopiedSettings => ({
+  sourceId: project.id,
+  sourceTitle: project.title,
+  groups,
+  adjustments: pickGroups(project.adjustments, groups),
+  crop: groups.includes('crop') && project.crop ? toRelativeCrop(project.crop, project.image.dimensions) : null,
+});
+
+export const getCopiedSettings = (): CopiedSettings | null => {
+  try {
+    const stored = localStorage.getItem(CLIPBOARD_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setCopiedSettings = (settings: CopiedSettings) => {
+  localStorage.setItem(CLIPBOARD_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,85 @@
+import { PixelBuffer, findSpotSource } from 'lightroom-clone-shared';
+import { ImageDimensions, Spot, SpotSettings } from '../types';
+
+export const DEFAULT_SPOT: SpotSettings = {
+  mode: 'heal',
+  size: 0.02,
+  feather: 50,
+  opacity: 100
+};
+
+// Visualize spots multiplies edge strength by up to this much at the top
+// of its threshold slider, so faint dust stands out
+const MAX_VISUALIZE_GAIN = 20;
+
+// Positions are rounded so painted spots stay small to store
+const roundPosition = (value: number) => Math.round(value * 1e5) / 1e5;
+
+/**
+ * Where a spot is copied from. With the source pixels the best matching
+ * place nearby is found; without them the source sits beside the spot.
+ */
+export const spotSource = (
+  spot: Omit<Spot, 'sourceX' | 'sourceY'>,
+  dimensions: ImageDimensions,
+  pixels?: PixelBuffer | null
+): Pick<Spot, 'sourceX' | 'sourceY'> => {
+  const [x, y] = spot.points;
+  if (pixels) {
+    const { sourceX, sourceY } = findSpotSource(pixels, { ...spot, sourceX: x, sourceY: y });
+    return { sourceX: roundPosition(sourceX), sourceY: roundPosition(sourceY) };
+  }
+
+  const offset = (spot.size * 3 * Math.max(dimensions.width, dimensions.height)) / dimensions.width;
+  return { sourceX: roundPosition(x + offset <= 1 ? x + offset : x - offset), sourceY: y };
+};
+
+// A new spot over image points, x, y pairs, with its source picked for it
+export const createSpot = (
+  points: number[],
+  settings: SpotSettings,
+  dimensions: ImageDimensions,
+  pixels?: PixelBuffer | null
+): Spot => {
+  const spot = {
+    id: `spot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    ...settings,
+    points: points.map(roundPosition)
+  };
+  return { ...spot, ...spotSource(spot, dimensions, pixels) };
+};
+
+/**
+ * An edge map of a rendered image for finding dust: luminance edges in
+ * white on black, boosted more the higher the threshold (0-100).
+ */
+export const visualizeSpots = (image: ImageData, threshold: number): ImageData => {
+  const { width, height, data } = image;
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2];
+  }
+
+  const gain = 1 + (threshold / 100) * (MAX_VISUALIZE_GAIN - 1);
+  const at = (x: number, y: number) =>
+    luminance[Math.min(Math.max(y, 0), height - 1) * width + Math.min(Math.max(x, 0), width - 1)];
+  const result = new ImageData(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Sobel, scaled so a full black to white step reads 255 before the gain
+      const gx = (at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)) / 4;
+      const gy = (at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)) / 4;
+      const value = Math.min(255, Math.sqrt(gx * gx + gy * gy) * gain);
+      const i = (y * width + x) * 4;
+      result.data[i] = value;
+      result.data[i + 1] = value;
+      result.data[i + 2] = value;
+      result.data[i + 3] = 255;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,111 @@
+import { computeHistogram, computeScopes, processImage } from 'lightroom-clone-shared';
+import { WorkerRequest, WorkerResponse } from './protocol';
+
+// Longest edge of a draft render
+const DRAFT_SIZE = 480;
+
+// The worker's global scope, typed as the Worker it posts from
+const ctx = globalThis as unknown as Worker;
+
+let source: ImageData | null = null;
+let draft: Promise<ImageData> | null = null;
+
+const nearestResize = (image: ImageData, width: number, height: number): ImageData => {
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(Math.floor(((y + 0.5) * image.height) / height), image.height - 1);
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(Math.floor(((x + 0.5) * image.width) / width), image.width - 1);
+      const from = (sy * image.width + sx) * 4;
+      const to = (y * width + x) * 4;
+      out[to] = image.data[from];
+      out[to + 1] = image.data[from + 1];
+      out[to + 2] = image.data[from + 2];
+      out[to + 3] = image.data[from + 3];
+    }
+  }
+  return new ImageData(out, width, height);
+};
+
+// Resample with OffscreenCanvas where the browser supports it in workers
+const resize = async (image: ImageData, width: number, height: number): Promise<ImageData> => {
+  if (typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    return nearestResize(image, width, height);
+  }
+
+  const bitmap = await createImageBitmap(image);
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | null;
+
+  if (!context) {
+    bitmap.close();
+    return nearestResize(image, width, height);
+  }
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return context.getImageData(0, 0, width, height);
+};
+
+const getDraftSource = (image: ImageData): Promise<ImageData> => {
+  if (!draft) {
+    const factor = Math.min(1, DRAFT_SIZE / Math.max(image.width, image.height));
+    draft = factor < 1
+      ? resize(image, Math.max(1, Math.round(image.width * factor)), Math.max(1, Math.round(image.height * factor)))
+      : Promise.resolve(image);
+  }
+  return draft;
+};
+
+const reply = (response: WorkerResponse) => {
+  if (response.type === 'result') {
+    const { histogram, scopes } = response;
+    const buffers: ArrayBufferLike[] = [response.image.data.buffer];
+    if (histogram) {
+      buffers.push(histogram.red.buffer, histogram.green.buffer, histogram.blue.buffer, histogram.luminance.buffer);
+    }
+    if (scopes) {
+      buffers.push(scopes.waveform.data.buffer, scopes.vectorscope.data.buffer, ...scopes.parade.map(grid => grid.data.buffer));
+    }
+    ctx.postMessage(response, buffers as Transferable[]);
+  } else {
+    ctx.postMessage(response);
+  }
+};
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'source') {
+    source = message.source;
+    draft = null;
+    return;
+  }
+
+  try {
+    if (message.type === 'resize') {
+      reply({ type: 'result', id: message.id, image: await resize(message.image, message.width, message.height) });
+      return;
+    }
+
+    if (!source) {
+      throw new Error('No source image');
+    }
+
+    const input = message.quality === 'draft' ? await getDraftSource(source) : source;
+    const scale = message.scale * (input.width / source.width);
+    const result = processImage(input, message.adjustments, message.crop, { scale, masks: message.masks, spots: message.spots });
+
+    // Counted here so the editor never walks the pixels on the main thread
+    reply({
+      type: 'result',
+      id: message.id,
+      image: new ImageData(new Uint8ClampedArray(result.data.buffer as ArrayBuffer), result.width, result.height),
+      histogram: computeHistogram(result),
+      scopes: message.scopes ? computeScopes(result) : undefined
+    });
+  } catch (error: any) {
+    reply({ type: 'error', id: message.id, message: error?.message || 'Render failed' });
+  }
+};
@@ -0,0 +1,35 @@
+import { Histogram, Scopes } from 'lightroom-clone-shared';
+import { Adjustments, CropSettings, Mask, Spot } from '../types';
+
+// 'draft' renders a downscaled copy while a slider is moving,
+// 'full' renders the whole preview once the value settles
+export type PreviewQuality = 'draft' | 'full';
+
+export interface RenderRequest {
+  adjustments: Adjustments;
+  crop?: CropSettings | null;
+  masks?: Mask[];
+  spots?: Spot[];
+  // Source pixels per original image pixel
+  scale: number;
+  quality: PreviewQuality;
+  // Also compute waveform, parade and vectorscope, while the scopes are open
+  scopes?: boolean;
+}
+
+// A rendered preview and, for renders, the histogram of the whole image
+// plus scopes when they were asked for
+export interface RenderResult {
+  image: ImageData;
+  histogram?: Histogram;
+  scopes?: Scopes;
+}
+
+export type WorkerRequest =
+  | { type: 'source'; source: ImageData }
+  | ({ type: 'render'; id: number } & RenderRequest)
+  | { type: 'resize'; id: number; image: ImageData; width: number; height: number };
+
+export type WorkerResponse =
+  | ({ type: 'result'; id: number } & RenderResult)
+  | { type: 'error'; id: number; message: string };
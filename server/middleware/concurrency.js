@@ -0,0 +1,67 @@
+// Optimistic concurrency for project edits. Clients send the project version
+// they last saw, either as an If-Match header ("5" or W/"5") or as body.version.
+// A write made against an older version is rejected with 409 Conflict.
+
+const parseVersion = (value) => {
+  if (value === undefined || value === null || value === '' || value === '*') {
+    return null;
+  }
+
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(String(value).trim());
+  return match ? parseInt(match[1], 10) : NaN;
+};
+
+// Middleware to read the expected version into req.expectedVersion
+const expectVersion = (req, res, next) => {
+  const header = parseVersion(req.header('If-Match'));
+  const expected = header !== null ? header : parseVersion(req.body && req.body.version);
+
+  if (Number.isNaN(expected)) {
+    return res.status(400).json({ error: 'Invalid project version' });
+  }
+
+  req.expectedVersion = expected;
+  next();
+};
+
+const isStale = (project, req) => {
+  return req.expectedVersion !== null && req.expectedVersion !== undefined &&
+    project.version !== req.expectedVersion;
+};
+
+// Make the next save() only match the version that was loaded, so a write
+// landing between our read and our save is detected instead of overwritten
+const lockVersion = (project) => {
+  project.$where = { version: project.version };
+};
+
+const isVersionConflict = (error) => error && error.name === 'DocumentNotFoundError';
+
+const setVersionHeader = (res, project) => {
+  res.set('ETag', `"${project.version}"`);
+};
+
+// Respond with the stored state so the client can choose how to resolve it
+const sendConflict = (res, project) => {
+  setVersionHeader(res, project);
+  return res.status(409).json({
+    error: 'Project was modified in another session',
+    current: {
+      adjustments: project.adjustments,
+      crop: project.crop,
+      masks: project.masks || [],
+      spots: project.spots || [],
+      lastEdited: project.lastEdited,
+      version: project.version
+    }
+  });
+};
+
+module.exports = {
+  expectVersion,
+  isStale,
+  lockVersion,
+  isVersionConflict,
+  setVersionHeader,
+  sendConflict
+};
@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+
+const exportItemSchema = new mongoose.Schema({
+  project: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Project',
+    required: [true, 'Project is required']
+  },
+  title: String,
+  filename: {
+    type: String,
+    required: [true, 'Filename is required']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'rendering', 'done', 'failed', 'cancelled'],
+    default: 'pending'
+  },
+  error: String,
+  size: Number
+});
+
+const exportJobSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  settings: {
+    format: {
+      type: String,
+      enum: ['jpeg', 'png', 'tiff', 'webp'],
+      default: 'jpeg'
+    },
+    quality: { type: Number, default: 90, min: 1, max: 100 },
+    width: Number,
+    height: Number,
+    maintainAspectRatio: { type: Boolean, default: true }
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+    default: 'queued'
+  },
+  items: {
+    type: [exportItemSchema],
+    validate: [items => items.length > 0, 'An export job needs at least one project']
+  },
+  archivePath: String,
+  archiveSize: Number,
+  completedAt: Date
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+exportJobSchema.index({ user: 1, createdAt: -1 });
+exportJobSchema.index({ status: 1 });
+
+// Virtual for overall progress as a percentage of settled items
+exportJobSchema.virtual('progress').get(function() {
+  if (!this.items || this.items.length === 0) return 0;
+  const settled = this.items.filter(item => ['done', 'failed', 'cancelled'].includes(item.status)).length;
+  return Math.round((settled / this.items.length) * 100);
+});
+
+// Whether the job has stopped and will not change without a retry
+exportJobSchema.virtual('isFinished').get(function() {
+  return ['completed', 'failed', 'cancelled'].includes(this.status);
+});
+
+module.exports = mongoose.model('ExportJob', exportJobSchema);
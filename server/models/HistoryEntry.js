@@ -0,0 +1,174 @@
+const mongoose = require('mongoose');
+
+// Entries beyond these limits are pruned after each write; 0 keeps everything
+const MAX_ENTRIES = parseInt(process.env.HISTORY_MAX_ENTRIES) || 0;
+const MAX_AGE_DAYS = parseInt(process.env.HISTORY_MAX_AGE_DAYS) || 0;
+
+// Autosaves within this window of the previous adjust entry are folded into it
+const COALESCE_WINDOW = 2 * 60 * 1000;
+
+const historyEntrySchema = new mongoose.Schema({
+  project: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Project',
+    required: [true, 'Project is required']
+  },
+  action: {
+    type: String,
+    required: true,
+    enum: ['upload', 'adjust', 'crop', 'mask', 'spot', 'export', 'reset', 'revert', 'snapshot', 'copy', 'sync']
+  },
+  // Project version right after this entry, which also orders the history
+  version: {
+    type: Number,
+    required: true
+  },
+  // Only what the edit changed: { adjustments: { key: { from, to } }, crop: { from, to }, masks: { from, to },
+  // spots: { from, to } }
+  changes: {
+    type: mongoose.Schema.Types.Mixed,
+    default: () => ({})
+  },
+  // Anything else worth showing, e.g. the uploaded file or the reverted-to entry
+  details: mongoose.Schema.Types.Mixed,
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  minimize: false
+});
+
+historyEntrySchema.index({ project: 1, version: -1 }, { unique: true });
+
+const isEqual = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Diff two { adjustments, crop, masks, spots } states into the changes
+ * stored on an entry. Adjustments are compared per key so entries stay small.
+ */
+historyEntrySchema.statics.diffState = function(before, after) {
+  const changes = {};
+  const keys = new Set([...Object.keys(before.adjustments || {}), ...Object.keys(after.adjustments || {})]);
+
+  keys.forEach(key => {
+    const from = (before.adjustments || {})[key];
+    const to = (after.adjustments || {})[key];
+    if (!isEqual(from, to)) {
+      changes.adjustments = changes.adjustments || {};
+      changes.adjustments[key] = { from: from === undefined ? null : from, to: to === undefined ? null : to };
+    }
+  });
+
+  if (!isEqual(before.crop || null, after.crop || null)) {
+    changes.crop = { from: before.crop || null, to: after.crop || null };
+  }
+
+  if (!isEqual(before.masks || [], after.masks || [])) {
+    changes.masks = { from: before.masks || [], to: after.masks || [] };
+  }
+
+  if (!isEqual(before.spots || [], after.spots || [])) {
+    changes.spots = { from: before.spots || [], to: after.spots || [] };
+  }
+
+  return changes;
+};
+
+/**
+ * Step a state back over one entry's changes, giving the state before it.
+ */
+historyEntrySchema.statics.undoChanges = function(state, changes = {}) {
+  const adjustments = { ...state.adjustments };
+
+  Object.entries(changes.adjustments || {}).forEach(([key, change]) => {
+    if (change.from === null) {
+      delete adjustments[key];
+    } else {
+      adjustments[key] = change.from;
+    }
+  });
+
+  return {
+    adjustments,
+    crop: changes.crop ? changes.crop.from : state.crop,
+    masks: changes.masks ? changes.masks.from : state.masks,
+    spots: changes.spots ? changes.spots.from : state.spots
+  };
+};
+
+// Fold an autosave into the previous adjust entry when nothing else happened
+// in between, keeping each key's original value and its latest one
+const coalesce = async (Model, projectId, entry) => {
+  const last = await Model.findOne({ project: projectId }).sort({ version: -1 });
+
+  if (!last || last.action !== 'adjust' || last.version !== entry.version - 1 ||
+      Date.now() - last.timestamp.getTime() >= COALESCE_WINDOW) {
+    return false;
+  }
+
+  const merged = { ...(last.changes.adjustments || {}) };
+  Object.entries(entry.changes.adjustments || {}).forEach(([key, change]) => {
+    const from = merged[key] ? merged[key].from : change.from;
+    if (isEqual(from, change.to)) {
+      delete merged[key];
+    } else {
+      merged[key] = { from, to: change.to };
+    }
+  });
+
+  last.changes = { ...last.changes, adjustments: merged };
+  last.markModified('changes');
+  last.version = entry.version;
+  last.timestamp = entry.timestamp;
+  await last.save();
+  return true;
+};
+
+/**
+ * Write entries queued on a project by Project#addHistory, then apply retention.
+ */
+historyEntrySchema.statics.record = async function(projectId, entries) {
+  for (const entry of entries) {
+    if (entry.coalesce && await coalesce(this, projectId, entry)) continue;
+
+    await this.create({
+      project: projectId,
+      action: entry.action,
+      version: entry.version,
+      changes: entry.changes,
+      details: entry.details,
+      timestamp: entry.timestamp
+    });
+  }
+
+  await this.prune(projectId);
+};
+
+/**
+ * Drop entries outside the configured retention. States are rebuilt backwards
+ * from the project's current state, so older entries can go without breaking
+ * the ones that remain.
+ */
+historyEntrySchema.statics.prune = async function(projectId) {
+  if (MAX_AGE_DAYS > 0) {
+    await this.deleteMany({
+      project: projectId,
+      timestamp: { $lt: new Date(Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000) }
+    });
+  }
+
+  if (MAX_ENTRIES > 0) {
+    const cutoff = await this.findOne({ project: projectId })
+      .sort({ version: -1 })
+      .skip(MAX_ENTRIES - 1)
+      .select('version')
+      .lean();
+
+    if (cutoff) {
+      await this.deleteMany({ project: projectId, version: { $lt: cutoff.version } });
+    }
+  }
+};
+
+module.exports = mongoose.model('HistoryEntry', historyEntrySchema);
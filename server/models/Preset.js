@@ -0,0 +1,57 @@
+const mongoose = require('mongoose');
+
+// Crop stored as fractions of the image so it fits any photo it's applied to
+const relativeCropSchema = new mongoose.Schema({
+  x: { type: Number, default: 0, min: 0, max: 1 },
+  y: { type: Number, default: 0, min: 0, max: 1 },
+  width: { type: Number, required: true, min: 0, max: 1 },
+  height: { type: Number, required: true, min: 0, max: 1 },
+  rotation: { type: Number, default: 0, min: -180, max: 180 },
+  flipHorizontal: { type: Boolean, default: false },
+  flipVertical: { type: Boolean, default: false }
+}, { _id: false });
+
+const presetSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Preset name is required'],
+    trim: true,
+    maxlength: [50, 'Preset name cannot exceed 50 characters']
+  },
+  folder: {
+    type: String,
+    trim: true,
+    default: 'User Presets',
+    maxlength: [50, 'Folder name cannot exceed 50 characters']
+  },
+  groups: {
+    type: [{
+      type: String,
+      enum: ['light', 'color', 'effects', 'crop']
+    }],
+    validate: [groups => groups.length > 0, 'A preset needs at least one group']
+  },
+  // Only the settings from the chosen groups
+  adjustments: {
+    type: mongoose.Schema.Types.Mixed,
+    default: () => ({})
+  },
+  crop: {
+    type: relativeCropSchema,
+    default: null
+  }
+}, {
+  timestamps: true,
+  minimize: false,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+presetSchema.index({ user: 1, folder: 1, name: 1 });
+
+module.exports = mongoose.model('Preset', presetSchema);
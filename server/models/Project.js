@@ -1,4 +1,90 @@
 const mongoose = require('mongoose');
+const { NEUTRAL_KELVIN, toKelvin } = require('lightroom-clone-shared');
+const HistoryEntry = require('./HistoryEntry');
+
+// One color mixer band: hue, saturation and lightness shifts for its hue range
+const hslBandSchema = new mongoose.Schema({
+  hue: { type: Number, default: 0, min: -100, max: 100 },
+  saturation: { type: Number, default: 0, min: -100, max: 100 },
+  lightness: { type: Number, default: 0, min: -100, max: 100 }
+}, { _id: false });
+
+const hslBand = () => ({ type: hslBandSchema, default: () => ({}) });
+
+const hslSchema = new mongoose.Schema({
+  red: hslBand(),
+  orange: hslBand(),
+  yellow: hslBand(),
+  green: hslBand(),
+  aqua: hslBand(),
+  blue: hslBand(),
+  purple: hslBand(),
+  magenta: hslBand()
+}, { _id: false });
+
+// One color grading wheel: tint hue and strength plus a brightness shift
+const gradingWheelSchema = new mongoose.Schema({
+  hue: { type: Number, default: 0, min: 0, max: 360 },
+  saturation: { type: Number, default: 0, min: 0, max: 100 },
+  luminance: { type: Number, default: 0, min: -100, max: 100 }
+}, { _id: false });
+
+const gradingWheel = () => ({ type: gradingWheelSchema, default: () => ({}) });
+
+const colorGradingSchema = new mongoose.Schema({
+  shadows: gradingWheel(),
+  midtones: gradingWheel(),
+  highlights: gradingWheel(),
+  global: gradingWheel(),
+  blending: { type: Number, default: 50, min: 0, max: 100 },
+  balance: { type: Number, default: 0, min: -100, max: 100 }
+}, { _id: false });
+
+// A point curve; the default diagonal leaves tones unchanged
+const pointCurve = () => ({
+  type: [{
+    x: { type: Number, required: true },
+    y: { type: Number, required: true }
+  }],
+  default: [
+    { x: 0, y: 0 },
+    { x: 255, y: 255 }
+  ]
+});
+
+// Parametric tone curve: region amounts and the splits between the regions
+const parametricCurveSchema = new mongoose.Schema({
+  highlights: { type: Number, default: 0, min: -100, max: 100 },
+  lights: { type: Number, default: 0, min: -100, max: 100 },
+  darks: { type: Number, default: 0, min: -100, max: 100 },
+  shadows: { type: Number, default: 0, min: -100, max: 100 },
+  shadowSplit: { type: Number, default: 25, min: 10, max: 90 },
+  midtoneSplit: { type: Number, default: 50, min: 10, max: 90 },
+  highlightSplit: { type: Number, default: 75, min: 10, max: 90 }
+}, { _id: false });
+
+// Per-channel and parametric curves; the RGB master curve is `curves`
+const toneCurveSchema = new mongoose.Schema({
+  red: pointCurve(),
+  green: pointCurve(),
+  blue: pointCurve(),
+  parametric: {
+    type: parametricCurveSchema,
+    default: () => ({})
+  }
+}, { _id: false });
+
+// Post-crop vignette. It used to be just an amount, which old history
+// entries still hold, so numbers are read as the amount on assignment.
+const vignetteSchema = new mongoose.Schema({
+  enabled: { type: Boolean, default: true },
+  amount: { type: Number, default: 0, min: -100, max: 100 },
+  midpoint: { type: Number, default: 50, min: 0, max: 100 },
+  roundness: { type: Number, default: 0, min: -100, max: 100 },
+  feather: { type: Number, default: 50, min: 0, max: 100 }
+}, { _id: false });
+
+const toVignette = (value) => (typeof value === 'number' ? { amount: value } : value);
 
 const adjustmentSchema = new mongoose.Schema({
   exposure: { type: Number, default: 0, min: -5, max: 5 },
@@ -7,31 +93,132 @@ const adjustmentSchema = new mongoose.Schema({
   shadows: { type: Number, default: 0, min: -100, max: 100 },
   whites: { type: Number, default: 0, min: -100, max: 100 },
   blacks: { type: Number, default: 0, min: -100, max: 100 },
-  temperature: { type: Number, default: 0, min: -100, max: 100 },
+  // Kelvin. Relative values from before the switch (-100..100) are converted
+  // on assignment, which also covers reverting to an old history entry.
+  temperature: { type: Number, default: NEUTRAL_KELVIN, set: toKelvin },
   tint: { type: Number, default: 0, min: -100, max: 100 },
   vibrance: { type: Number, default: 0, min: -100, max: 100 },
   saturation: { type: Number, default: 0, min: -100, max: 100 },
   texture: { type: Number, default: 0, min: -100, max: 100 },
   clarity: { type: Number, default: 0, min: -100, max: 100 },
   dehaze: { type: Number, default: 0, min: -100, max: 100 },
-  vignette: { type: Number, default: 0, min: -100, max: 100 },
+  vignette: {
+    type: vignetteSchema,
+    default: () => ({}),
+    set: toVignette
+  },
   grain: {
+    enabled: { type: Boolean, default: true },
     amount: { type: Number, default: 0, min: 0, max: 100 },
     size: { type: Number, default: 50, min: 0, max: 100 },
     roughness: { type: Number, default: 50, min: 0, max: 100 }
   },
-  curves: {
+  curves: pointCurve(),
+  toneCurve: {
+    type: toneCurveSchema,
+    default: () => ({})
+  },
+  hslAdjustments: {
+    type: hslSchema,
+    default: () => ({})
+  },
+  colorGrading: {
+    type: colorGradingSchema,
+    default: () => ({})
+  }
+}, { _id: false });
+
+// What a mask changes where it applies, on top of the global adjustments.
+// Temperature and tint are relative shifts rather than Kelvin.
+const maskAdjustmentsSchema = new mongoose.Schema({
+  exposure: { type: Number, default: 0, min: -5, max: 5 },
+  contrast: { type: Number, default: 0, min: -100, max: 100 },
+  highlights: { type: Number, default: 0, min: -100, max: 100 },
+  shadows: { type: Number, default: 0, min: -100, max: 100 },
+  temperature: { type: Number, default: 0, min: -100, max: 100 },
+  tint: { type: Number, default: 0, min: -100, max: 100 },
+  saturation: { type: Number, default: 0, min: -100, max: 100 },
+  clarity: { type: Number, default: 0, min: -100, max: 100 }
+}, { _id: false });
+
+// One brush stroke: x, y pairs as fractions of the original image and a
+// radius as a share of its longest edge, so strokes replay at any size
+const brushStrokeSchema = new mongoose.Schema({
+  points: { type: [Number], default: [] },
+  size: { type: Number, required: true, min: 0, max: 1 },
+  feather: { type: Number, default: 50, min: 0, max: 100 },
+  flow: { type: Number, default: 100, min: 0, max: 100 },
+  density: { type: Number, default: 100, min: 0, max: 100 },
+  erase: { type: Boolean, default: false },
+  autoMask: { type: Boolean, default: false }
+}, { _id: false });
+
+// Narrows a mask to a band of luminance (0-100, faded over smoothness) or
+// to colors near ones sampled from the photo
+const maskRangeSchema = new mongoose.Schema({
+  type: { type: String, required: true, enum: ['luminance', 'color'] },
+  min: { type: Number, min: 0, max: 100 },
+  max: { type: Number, min: 0, max: 100 },
+  smoothness: { type: Number, min: 0, max: 100 },
+  colors: {
     type: [{
-      x: { type: Number, required: true },
-      y: { type: Number, required: true }
+      _id: false,
+      r: { type: Number, min: 0, max: 255 },
+      g: { type: Number, min: 0, max: 255 },
+      b: { type: Number, min: 0, max: 255 }
     }],
-    default: [
-      { x: 0, y: 0 },
-      { x: 255, y: 255 }
-    ]
+    default: undefined
+  },
+  amount: { type: Number, min: 0, max: 100 }
+}, { _id: false });
+
+// A local adjustment limited to a linear or radial gradient, a painted
+// brush area or a luminance or color range. Positions are fractions of the
+// original image, so masks stay put through crops.
+const maskSchema = new mongoose.Schema({
+  id: { type: String, required: true },
+  name: { type: String, trim: true, maxlength: [50, 'Mask name cannot exceed 50 characters'] },
+  type: { type: String, required: true, enum: ['linear', 'radial', 'brush', 'range'] },
+  visible: { type: Boolean, default: true },
+  invert: { type: Boolean, default: false },
+  // Linear: full effect at the start line, none at the end line
+  startX: Number,
+  startY: Number,
+  endX: Number,
+  endY: Number,
+  // Radial: an ellipse turned by angle degrees, faded over feather percent
+  centerX: Number,
+  centerY: Number,
+  radiusX: Number,
+  radiusY: Number,
+  angle: Number,
+  feather: { type: Number, min: 0, max: 100 },
+  // Brush: strokes painted and erased in order
+  strokes: { type: [brushStrokeSchema], default: undefined },
+  // Any type can be narrowed by a range; range masks are nothing but one
+  range: { type: maskRangeSchema, default: undefined },
+  adjustments: {
+    type: maskAdjustmentsSchema,
+    default: () => ({})
   }
 }, { _id: false });
 
+// A retouched spot: a circle, or a painted path of x, y pairs, covered by
+// the same shape copied from elsewhere. The source is where the first point
+// is copied from. Positions are fractions of the original image and size a
+// radius as a share of its longest edge, like brush strokes.
+const spotSchema = new mongoose.Schema({
+  id: { type: String, required: true },
+  // Heal blends the copy into its surroundings; clone copies it as is
+  mode: { type: String, required: true, enum: ['heal', 'clone'] },
+  points: { type: [Number], default: [] },
+  sourceX: { type: Number, required: true },
+  sourceY: { type: Number, required: true },
+  size: { type: Number, required: true, min: 0, max: 1 },
+  feather: { type: Number, default: 50, min: 0, max: 100 },
+  opacity: { type: Number, default: 100, min: 0, max: 100 }
+}, { _id: false });
+
 const cropSchema = new mongoose.Schema({
   x: { type: Number, default: 0 },
   y: { type: Number, default: 0 },
@@ -43,6 +230,37 @@ const cropSchema = new mongoose.Schema({
   aspectRatio: { type: String, default: 'free' } // 'free', '1:1', '16:9', '4:3', etc.
 }, { _id: false });
 
+// A named copy of the edit state the user can switch back to
+const snapshotSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Snapshot name is required'],
+    trim: true,
+    maxlength: [50, 'Snapshot name cannot exceed 50 characters']
+  },
+  adjustments: {
+    type: adjustmentSchema,
+    default: () => ({})
+  },
+  crop: {
+    type: cropSchema,
+    default: null
+  },
+  masks: {
+    type: [maskSchema],
+    default: []
+  },
+  spots: {
+    type: [spotSchema],
+    default: []
+  },
+  thumbnailPath: String,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
 const imageSchema = new mongoose.Schema({
   originalFilename: {
     type: String,
@@ -126,24 +344,36 @@ const projectSchema = new mongoose.Schema({
     type: cropSchema,
     default: null
   },
-  history: [{
-    action: {
-      type: String,
-      required: true,
-      enum: ['upload', 'adjust', 'crop', 'export', 'reset']
-    },
-    timestamp: {
-      type: Date,
-      default: Date.now
-    },
-    changes: mongoose.Schema.Types.Mixed
-  }],
+  // Local adjustments, composited over the global ones in order
+  masks: {
+    type: [maskSchema],
+    default: []
+  },
+  // Spot removal, retouched in order before anything else
+  spots: {
+    type: [spotSchema],
+    default: []
+  },
+  // Project this one is a virtual copy of. Copies share its image files and
+  // are only charged against storage once.
+  virtualCopyOf: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null
+  },
   tags: [{
     type: String,
     trim: true,
     lowercase: true,
     maxlength: [30, 'Tag cannot exceed 30 characters']
   }],
+  // Star rating, kept in sync with XMP sidecars
+  rating: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 5
+  },
   isPublic: {
     type: Boolean,
     default: false
@@ -169,12 +399,15 @@ const projectSchema = new mongoose.Schema({
       enum: ['jpeg', 'png', 'tiff', 'webp']
     },
     quality: Number,
+    width: Number,
+    height: Number,
     size: Number,
     exportedAt: {
       type: Date,
       default: Date.now
     }
-  }]
+  }],
+  snapshots: [snapshotSchema]
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -187,6 +420,7 @@ projectSchema.index({ user: 1, title: 'text', tags: 'text' });
 projectSchema.index({ user: 1, starred: 1 });
 projectSchema.index({ user: 1, isPublic: 1 });
 projectSchema.index({ lastEdited: -1 });
+projectSchema.index({ 'image.filename': 1 });
 
 // Virtual for full image URL
 projectSchema.virtual('image.url').get(function() {
@@ -212,77 +446,171 @@ projectSchema.virtual('image.previewUrl').get(function() {
   return this.image.url; // Fallback to original image
 });
 
-// Method to add history entry
-projectSchema.methods.addHistory = function(action, changes) {
-  this.history.push({
+const snapshot = (project) => ({
+  adjustments: project.adjustments ? project.adjustments.toObject() : {},
+  crop: project.crop ? project.crop.toObject() : null,
+  masks: project.masks ? project.masks.toObject() : [],
+  spots: project.spots ? project.spots.toObject() : []
+});
+
+// Method to add history entry. Entries live in their own collection and are
+// written once the project itself has saved.
+projectSchema.methods.addHistory = function(action, { changes, details, coalesce } = {}) {
+  this.lastEdited = new Date();
+  this.version += 1;
+
+  this.$locals.pendingHistory = this.$locals.pendingHistory || [];
+  this.$locals.pendingHistory.push({
     action,
     changes: changes || {},
-    timestamp: new Date()
+    details,
+    coalesce: Boolean(coalesce),
+    version: this.version,
+    timestamp: this.lastEdited
   });
-  
-  // Keep only last 50 history entries
-  if (this.history.length > 50) {
-    this.history = this.history.slice(-50);
-  }
-  
-  this.lastEdited = new Date();
-  this.version += 1;
 };
 
-// Method to apply adjustments
-projectSchema.methods.applyAdjustments = function(newAdjustments) {
-  const oldAdjustments = { ...this.adjustments.toObject() };
+// Record an edit as the difference between the state before it and now
+projectSchema.methods.recordEdit = function(action, before, options = {}) {
+  this.addHistory(action, {
+    ...options,
+    changes: HistoryEntry.diffState(before, snapshot(this))
+  });
+};
+
+// Method to apply adjustments. Background saves arrive every few seconds
+// while a user works, so they extend the latest adjust entry instead of
+// adding one per save.
+projectSchema.methods.applyAdjustments = function(newAdjustments, options = {}) {
+  const before = snapshot(this);
   
   // Update adjustments
   Object.assign(this.adjustments, newAdjustments);
   
   // Add to history
-  this.addHistory('adjust', {
-    old: oldAdjustments,
-    new: newAdjustments
-  });
+  this.recordEdit('adjust', before, { coalesce: options.coalesce });
 };
 
 // Method to apply crop
 projectSchema.methods.applyCrop = function(cropData) {
-  const oldCrop = this.crop ? { ...this.crop.toObject() } : null;
+  const before = snapshot(this);
   
   this.crop = cropData;
   
-  this.addHistory('crop', {
-    old: oldCrop,
-    new: cropData
-  });
+  this.recordEdit('crop', before);
+};
+
+// Method to replace the masks
+projectSchema.methods.applyMasks = function(masks) {
+  const before = snapshot(this);
+
+  this.masks = masks;
+
+  this.recordEdit('mask', before);
+};
+
+// Method to replace the retouched spots
+projectSchema.methods.applySpots = function(spots) {
+  const before = snapshot(this);
+
+  this.spots = spots;
+
+  this.recordEdit('spot', before);
 };
 
 // Method to reset all edits
 projectSchema.methods.resetEdits = function() {
-  const oldState = {
-    adjustments: { ...this.adjustments.toObject() },
-    crop: this.crop ? { ...this.crop.toObject() } : null
-  };
+  const before = snapshot(this);
   
   // Reset adjustments to defaults
   this.adjustments = {};
   this.crop = null;
+  this.masks = [];
+  this.spots = [];
   
-  this.addHistory('reset', { old: oldState });
+  this.recordEdit('reset', before);
+};
+
+// Method to restore the state recorded after an earlier history entry.
+// The revert is itself a new entry, so later history is kept.
+projectSchema.methods.revertTo = function(entryId, state) {
+  const before = snapshot(this);
+
+  this.adjustments = state.adjustments || {};
+  this.crop = state.crop || null;
+  this.masks = state.masks || [];
+  this.spots = state.spots || [];
+
+  this.recordEdit('revert', before, { details: { entry: entryId } });
+};
+
+// Method to switch to a named snapshot's adjustments, crop, masks and spots
+projectSchema.methods.applySnapshot = function(saved) {
+  const before = snapshot(this);
+
+  this.adjustments = saved.adjustments ? saved.adjustments.toObject() : {};
+  this.crop = saved.crop ? saved.crop.toObject() : null;
+  this.masks = saved.masks ? saved.masks.toObject() : [];
+  this.spots = saved.spots ? saved.spots.toObject() : [];
+
+  this.recordEdit('snapshot', before, { details: { snapshot: saved._id, name: saved.name } });
+};
+
+// Method to take on settings copied from another project. Only the settings
+// given change; a crop, when given, replaces the current one.
+projectSchema.methods.syncSettings = function({ adjustments, crop }, details) {
+  const before = snapshot(this);
+
+  if (adjustments) Object.assign(this.adjustments, adjustments);
+  if (crop) this.crop = crop;
+
+  this.recordEdit('sync', before, { details });
+};
+
+// Write queued history entries after the project has saved
+projectSchema.post('save', async function() {
+  const pending = this.$locals.pendingHistory;
+  if (!pending || pending.length === 0) return;
+
+  this.$locals.pendingHistory = [];
+  await HistoryEntry.record(this._id, pending);
+});
+
+// Remove a project's history along with it
+projectSchema.post('findOneAndDelete', async function(project) {
+  if (project) {
+    await HistoryEntry.deleteMany({ project: project._id });
+  }
+});
+
+// Static method to count the other projects sharing an image file
+projectSchema.statics.countFileReferences = function(filename, excludeId) {
+  return this.countDocuments({ 'image.filename': filename, _id: { $ne: excludeId } });
 };
 
-// Static method to get user's storage usage
+// Static method to get user's storage usage. Virtual copies share their
+// original's files, so each file is only counted once.
 projectSchema.statics.getUserStorageUsage = async function(userId) {
   const result = await this.aggregate([
-    { $match: { user: mongoose.Types.ObjectId(userId) } },
+    { $match: { user: new mongoose.Types.ObjectId(userId) } },
+    {
+      $group: {
+        _id: '$image.filename',
+        size: { $first: '$image.size' },
+        projects: { $sum: 1 }
+      }
+    },
     { 
       $group: { 
         _id: null, 
-        totalSize: { $sum: '$image.size' },
-        projectCount: { $sum: 1 }
+        totalSize: { $sum: '$size' },
+        projectCount: { $sum: '$projects' },
+        fileCount: { $sum: 1 }
       } 
     }
   ]);
   
-  return result[0] || { totalSize: 0, projectCount: 0 };
+  return result[0] || { totalSize: 0, projectCount: 0, fileCount: 0 };
 };
 
 module.exports = mongoose.model('Project', projectSchema);
@@ -0,0 +1,338 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const path = require('path');
+const { auth } = require('../middleware/auth');
+const Project = require('../models/Project');
+const ExportJob = require('../models/ExportJob');
+const exportQueue = require('../services/exportQueue');
+const { EXPORT_FORMATS } = require('../services/renderer');
+
+const router = express.Router();
+
+const formatJob = (job) => ({
+  id: job._id,
+  status: job.status,
+  progress: job.progress,
+  settings: job.settings,
+  items: job.items.map(item => ({
+    id: item._id,
+    project: item.project,
+    title: item.title,
+    filename: item.filename,
+    status: item.status,
+    error: item.error,
+    size: item.size
+  })),
+  archiveSize: job.archiveSize,
+  downloadUrl: job.status === 'completed' ? `/projects/export/jobs/${job._id}/download` : null,
+  createdAt: job.createdAt,
+  completedAt: job.completedAt
+});
+
+// Give every project a unique, filesystem-safe name inside the archive
+const buildFilenames = (projects, extension) => {
+  const used = new Set();
+  return projects.map(project => {
+    const base = (project.title || path.parse(project.image.originalFilename).name)
+      .replace(/[^a-zA-Z0-9-_ ]/g, '_')
+      .trim() || 'image';
+    let filename = `${base}${extension}`;
+    let counter = 2;
+    while (used.has(filename.toLowerCase())) {
+      filename = `${base} (${counter})${extension}`;
+      counter++;
+    }
+    used.add(filename.toLowerCase());
+    return filename;
+  });
+};
+
+const findJob = (req) => ExportJob.findOne({
+  _id: req.params.jobId,
+  user: req.user._id
+});
+
+// @route   POST /api/projects/export/batch
+// @desc    Create a batch export job for many projects
+// @access  Private
+router.post('/batch', [
+  auth,
+  body('projectIds').isArray({ min: 1, max: 500 }).withMessage('projectIds must be an array of 1 to 500 ids'),
+  body('projectIds.*').isMongoId().withMessage('Invalid project id'),
+  body('settings').isObject().withMessage('Settings must be an object'),
+  body('settings.format').isIn(Object.keys(EXPORT_FORMATS)).withMessage('Format must be jpeg, png, tiff or webp'),
+  body('settings.quality').optional().isInt({ min: 1, max: 100 }).withMessage('Quality must be between 1 and 100'),
+  body('settings.width').optional({ nullable: true }).isInt({ min: 1, max: 20000 }).withMessage('Width must be between 1 and 20000'),
+  body('settings.height').optional({ nullable: true }).isInt({ min: 1, max: 20000 }).withMessage('Height must be between 1 and 20000'),
+  body('settings.maintainAspectRatio').optional().isBoolean().withMessage('maintainAspectRatio must be a boolean')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { projectIds, settings } = req.body;
+
+    const projects = await Project.find({
+      _id: { $in: projectIds },
+      user: req.user._id
+    }).select('title image.originalFilename');
+
+    if (projects.length === 0) {
+      return res.status(404).json({ error: 'No projects found for export' });
+    }
+
+    // Keep the order the client asked for
+    const byId = new Map(projects.map(project => [project._id.toString(), project]));
+    const ordered = [...new Set(projectIds)].map(id => byId.get(id)).filter(Boolean);
+    const filenames = buildFilenames(ordered, EXPORT_FORMATS[settings.format].extension);
+
+    const job = new ExportJob({
+      user: req.user._id,
+      settings: {
+        format: settings.format,
+        quality: parseInt(settings.quality) || 90,
+        width: parseInt(settings.width) || undefined,
+        height: parseInt(settings.height) || undefined,
+        maintainAspectRatio: settings.maintainAspectRatio !== false
+      },
+      items: ordered.map((project, index) => ({
+        project: project._id,
+        title: project.title,
+        filename: filenames[index]
+      }))
+    });
+
+    await job.save();
+    exportQueue.enqueue(job._id);
+
+    res.status(202).json({
+      message: 'Export job queued',
+      job: formatJob(job)
+    });
+  } catch (error) {
+    console.error('Create export job error:', error);
+    res.status(500).json({ error: 'Server error creating export job' });
+  }
+});
+
+// @route   GET /api/projects/export/jobs
+// @desc    List the user's recent export jobs
+// @access  Private
+router.get('/jobs', auth, async (req, res) => {
+  try {
+    const jobs = await ExportJob.find({ user: req.user._id })
+      .sort({ createdAt: -1 })
+      .limit(20);
+
+    res.json({ jobs: jobs.map(formatJob) });
+  } catch (error) {
+    console.error('Get export jobs error:', error);
+    res.status(500).json({ error: 'Server error retrieving export jobs' });
+  }
+});
+
+// @route   GET /api/projects/export/jobs/:jobId
+// @desc    Get an export job and the state of each item
+// @access  Private
+router.get('/jobs/:jobId', auth, async (req, res) => {
+  try {
+    const job = await findJob(req);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+
+    res.json({ job: formatJob(job) });
+  } catch (error) {
+    console.error('Get export job error:', error);
+    res.status(500).json({ error: 'Server error retrieving export job' });
+  }
+});
+
+// @route   GET /api/projects/export/jobs/:jobId/events
+// @desc    Stream export job progress as Server-Sent Events
+// @access  Private
+router.get('/jobs/:jobId/events', auth, async (req, res) => {
+  try {
+    const job = await findJob(req);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const send = (event, data) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // The compression middleware buffers output unless flushed
+      if (res.flush) res.flush();
+    };
+
+    send('job', formatJob(job));
+
+    if (job.isFinished && !exportQueue.isActive(job._id)) {
+      send('end', { status: job.status });
+      return res.end();
+    }
+
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+      if (res.flush) res.flush();
+    }, 15000);
+
+    const unsubscribe = exportQueue.subscribe(job._id, async (event) => {
+      if (event.type === 'item') {
+        send('item', event.item);
+        return;
+      }
+
+      // Status changes carry the whole job so the client can resync
+      const latest = await ExportJob.findById(job._id);
+      if (latest) {
+        send('job', formatJob(latest));
+      }
+      if (['completed', 'failed', 'cancelled'].includes(event.status)) {
+        send('end', { status: event.status });
+        cleanup();
+        res.end();
+      }
+    });
+
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    req.on('close', cleanup);
+  } catch (error) {
+    console.error('Export job events error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Server error streaming export job' });
+    } else {
+      res.end();
+    }
+  }
+});
+
+// @route   POST /api/projects/export/jobs/:jobId/cancel
+// @desc    Cancel a queued or running export job
+// @access  Private
+router.post('/jobs/:jobId/cancel', auth, async (req, res) => {
+  try {
+    const job = await findJob(req);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+
+    if (job.isFinished) {
+      return res.status(409).json({ error: `Export job is already ${job.status}` });
+    }
+
+    await exportQueue.cancel(job);
+
+    res.json({
+      message: 'Export job cancelled',
+      job: formatJob(job)
+    });
+  } catch (error) {
+    console.error('Cancel export job error:', error);
+    res.status(500).json({ error: 'Server error cancelling export job' });
+  }
+});
+
+// @route   POST /api/projects/export/jobs/:jobId/retry
+// @desc    Re-run the failed and cancelled items of an export job
+// @access  Private
+router.post('/jobs/:jobId/retry', auth, async (req, res) => {
+  try {
+    const job = await findJob(req);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+
+    if (exportQueue.isActive(job._id)) {
+      return res.status(409).json({ error: 'Export job is still running' });
+    }
+
+    const retried = await exportQueue.retry(job);
+
+    if (retried === 0) {
+      return res.status(400).json({ error: 'No failed items to retry' });
+    }
+
+    res.json({
+      message: `Retrying ${retried} item${retried === 1 ? '' : 's'}`,
+      job: formatJob(job)
+    });
+  } catch (error) {
+    console.error('Retry export job error:', error);
+    res.status(500).json({ error: 'Server error retrying export job' });
+  }
+});
+
+// @route   GET /api/projects/export/jobs/:jobId/download
+// @desc    Download the finished ZIP archive of an export job
+// @access  Private
+router.get('/jobs/:jobId/download', auth, async (req, res) => {
+  try {
+    const job = await findJob(req);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+
+    if (job.status !== 'completed' || !job.archivePath) {
+      return res.status(409).json({ error: 'Export archive is not ready' });
+    }
+
+    const date = job.createdAt.toISOString().split('T')[0];
+    res.download(path.join(__dirname, '../uploads', job.archivePath), `export_${date}.zip`, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: 'Export archive no longer exists' });
+      }
+    });
+  } catch (error) {
+    console.error('Download export job error:', error);
+    res.status(500).json({ error: 'Server error downloading export archive' });
+  }
+});
+
+// @route   DELETE /api/projects/export/jobs/:jobId
+// @desc    Delete an export job and its archive
+// @access  Private
+router.delete('/jobs/:jobId', auth, async (req, res) => {
+  try {
+    const job = await findJob(req);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+
+    if (exportQueue.isActive(job._id)) {
+      await exportQueue.cancel(job);
+    }
+
+    await exportQueue.removeFiles(job._id);
+    await ExportJob.findByIdAndDelete(job._id);
+
+    res.json({ message: 'Export job deleted successfully' });
+  } catch (error) {
+    console.error('Delete export job error:', error);
+    res.status(500).json({ error: 'Server error deleting export job' });
+  }
+});
+
+module.exports = router;
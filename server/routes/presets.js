@@ -0,0 +1,277 @@
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const { auth } = require('../middleware/auth');
+const Project = require('../models/Project');
+const Preset = require('../models/Preset');
+const { parseXmp, buildXmp } = require('lightroom-clone-shared');
+const { PRESET_GROUPS, pickGroups, toRelativeCrop, fromXmp, xmpFilename } = require('../services/presets');
+
+const router = express.Router();
+
+const formatPreset = (preset) => ({
+  id: preset._id,
+  name: preset.name,
+  folder: preset.folder,
+  groups: preset.groups,
+  adjustments: preset.adjustments,
+  crop: preset.crop,
+  createdAt: preset.createdAt,
+  updatedAt: preset.updatedAt
+});
+
+const sendValidationErrors = (req, res) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    error: 'Validation failed',
+    details: errors.array()
+  });
+  return true;
+};
+
+// @route   GET /api/presets
+// @desc    List the user's presets and their folders
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const presets = await Preset.find({ user: req.user._id }).sort({ folder: 1, name: 1 });
+
+    res.json({
+      presets: presets.map(formatPreset),
+      folders: [...new Set(presets.map(preset => preset.folder))]
+    });
+  } catch (error) {
+    console.error('Get presets error:', error);
+    res.status(500).json({ error: 'Server error retrieving presets' });
+  }
+});
+
+// @route   POST /api/presets
+// @desc    Create a preset from a project's current settings
+// @access  Private
+router.post('/', [
+  auth,
+  body('name').trim().isLength({ min: 1, max: 50 }).withMessage('Preset name must be between 1 and 50 characters'),
+  body('folder').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Folder name must be between 1 and 50 characters'),
+  body('groups').isArray({ min: 1 }).withMessage('Choose at least one group'),
+  body('groups.*').isIn(Object.keys(PRESET_GROUPS)).withMessage('Groups must be light, color, effects or crop'),
+  body('projectId').isMongoId().withMessage('Invalid project id')
+], async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const project = await Project.findOne({
+      _id: req.body.projectId,
+      user: req.user._id
+    }).select('adjustments crop image.dimensions');
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const groups = [...new Set(req.body.groups)];
+    const preset = new Preset({
+      user: req.user._id,
+      name: req.body.name,
+      folder: req.body.folder,
+      groups,
+      adjustments: pickGroups(project.adjustments, groups),
+      crop: groups.includes('crop') ? toRelativeCrop(project.crop, project.image.dimensions) : null
+    });
+
+    await preset.save();
+
+    res.status(201).json({
+      message: 'Preset created successfully',
+      preset: formatPreset(preset)
+    });
+  } catch (error) {
+    console.error('Create preset error:', error);
+    res.status(500).json({ error: 'Server error creating preset' });
+  }
+});
+
+// @route   POST /api/presets/import
+// @desc    Create a preset from a Lightroom/Camera Raw XMP file
+// @access  Private
+router.post('/import', [
+  auth,
+  body('xmp').isString().isLength({ min: 1, max: 1024 * 1024 }).withMessage('XMP content is required'),
+  body('name').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Preset name must be between 1 and 50 characters'),
+  body('folder').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Folder name must be between 1 and 50 characters')
+], async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const parsed = parseXmp(req.body.xmp);
+    const { groups, adjustments, crop, unsupported } = fromXmp(parsed);
+
+    if (groups.length === 0) {
+      return res.status(400).json({
+        error: 'The file has no develop settings that can be imported',
+        unsupported
+      });
+    }
+
+    const preset = new Preset({
+      user: req.user._id,
+      name: req.body.name || (parsed.name || 'Imported Preset').slice(0, 50),
+      folder: req.body.folder || (parsed.group ? parsed.group.slice(0, 50) : undefined),
+      groups,
+      adjustments,
+      crop
+    });
+
+    await preset.save();
+
+    res.status(201).json({
+      message: 'Preset imported successfully',
+      preset: formatPreset(preset),
+      unsupported
+    });
+  } catch (error) {
+    console.error('Import preset error:', error);
+    res.status(500).json({ error: 'Server error importing preset' });
+  }
+});
+
+// @route   PUT /api/presets/folders
+// @desc    Rename a preset folder
+// @access  Private
+router.put('/folders', [
+  auth,
+  body('from').trim().isLength({ min: 1, max: 50 }).withMessage('Folder name must be between 1 and 50 characters'),
+  body('to').trim().isLength({ min: 1, max: 50 }).withMessage('Folder name must be between 1 and 50 characters')
+], async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const result = await Preset.updateMany(
+      { user: req.user._id, folder: req.body.from },
+      { $set: { folder: req.body.to } }
+    );
+
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    res.json({ message: 'Folder renamed successfully', folder: req.body.to });
+  } catch (error) {
+    console.error('Rename preset folder error:', error);
+    res.status(500).json({ error: 'Server error renaming folder' });
+  }
+});
+
+// @route   DELETE /api/presets/folders/:folder
+// @desc    Delete a preset folder and the presets in it
+// @access  Private
+router.delete('/folders/:folder', auth, async (req, res) => {
+  try {
+    const result = await Preset.deleteMany({ user: req.user._id, folder: req.params.folder });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    res.json({ message: 'Folder deleted successfully', deleted: result.deletedCount });
+  } catch (error) {
+    console.error('Delete preset folder error:', error);
+    res.status(500).json({ error: 'Server error deleting folder' });
+  }
+});
+
+// @route   GET /api/presets/:id/xmp
+// @desc    Download a preset as a Lightroom-compatible XMP file
+// @access  Private
+router.get('/:id/xmp', [
+  auth,
+  param('id').isMongoId().withMessage('Invalid preset id')
+], async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const preset = await Preset.findOne({ _id: req.params.id, user: req.user._id });
+
+    if (!preset) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+
+    const xmp = buildXmp({
+      name: preset.name,
+      group: preset.folder,
+      settings: preset.adjustments,
+      crop: preset.crop
+    });
+
+    res.set({
+      'Content-Type': 'application/rdf+xml',
+      'Content-Disposition': `attachment; filename="${xmpFilename(preset.name)}"`
+    });
+    res.send(xmp);
+  } catch (error) {
+    console.error('Export preset error:', error);
+    res.status(500).json({ error: 'Server error exporting preset' });
+  }
+});
+
+// @route   PUT /api/presets/:id
+// @desc    Rename a preset or move it to another folder
+// @access  Private
+router.put('/:id', [
+  auth,
+  param('id').isMongoId().withMessage('Invalid preset id'),
+  body('name').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Preset name must be between 1 and 50 characters'),
+  body('folder').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Folder name must be between 1 and 50 characters')
+], async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const updates = {};
+    if (req.body.name !== undefined) updates.name = req.body.name;
+    if (req.body.folder !== undefined) updates.folder = req.body.folder;
+
+    const preset = await Preset.findOneAndUpdate(
+      { _id: req.params.id, user: req.user._id },
+      { $set: updates },
+      { new: true, runValidators: true }
+    );
+
+    if (!preset) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+
+    res.json({
+      message: 'Preset updated successfully',
+      preset: formatPreset(preset)
+    });
+  } catch (error) {
+    console.error('Update preset error:', error);
+    res.status(500).json({ error: 'Server error updating preset' });
+  }
+});
+
+// @route   DELETE /api/presets/:id
+// @desc    Delete a preset
+// @access  Private
+router.delete('/:id', [
+  auth,
+  param('id').isMongoId().withMessage('Invalid preset id')
+], async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const preset = await Preset.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+
+    if (!preset) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+
+    res.json({ message: 'Preset deleted successfully' });
+  } catch (error) {
+    console.error('Delete preset error:', error);
+    res.status(500).json({ error: 'Server error deleting preset' });
+  }
+});
+
+module.exports = router;
@@ -1,14 +1,421 @@
 const express = require('express');
-const { body, validationResult, query } = require('express-validator');
+const { body, validationResult, query, param } = require('express-validator');
 const sharp = require('sharp');
 const path = require('path');
 const fs = require('fs').promises;
 const { auth, ownerAuth } = require('../middleware/auth');
+const {
+  expectVersion,
+  isStale,
+  lockVersion,
+  isVersionConflict,
+  setVersionHeader,
+  sendConflict
+} = require('../middleware/concurrency');
 const Project = require('../models/Project');
 const User = require('../models/User');
+const { EXPORT_FORMATS, renderProject } = require('../services/renderer');
+const { getHistoryPage, getEntryState } = require('../services/history');
+const archiver = require('archiver');
+const { buildSidecar, sidecarFilename } = require('../services/sidecar');
+const { toPixelCrop } = require('../services/presets');
+const {
+  HSL_BANDS,
+  MASK_ADJUSTMENTS,
+  MAX_BRUSH_POINTS,
+  MAX_RANGE_COLORS,
+  MAX_SPOTS,
+  MAX_SPOT_POINTS,
+  PARAMETRIC_SPLITS,
+  toKelvin
+} = require('lightroom-clone-shared');
 
 const router = express.Router();
 
+const HSL_PROPERTIES = ['hue', 'saturation', 'lightness'];
+const GRADING_WHEELS = ['shadows', 'midtones', 'highlights', 'global'];
+const GRADING_WHEEL_PROPERTIES = ['hue', 'saturation', 'luminance'];
+const CURVE_CHANNELS = ['red', 'green', 'blue'];
+const PARAMETRIC_REGIONS = ['highlights', 'lights', 'darks', 'shadows'];
+const IDENTITY_CURVE = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+const MAX_MASKS = 20;
+// Where each mask type is placed, as fractions of the original image.
+// Brushes are placed by their strokes instead, and range masks cover the whole photo.
+const MASK_POSITIONS = {
+  linear: ['startX', 'startY', 'endX', 'endY'],
+  radial: ['centerX', 'centerY', 'radiusX', 'radiusY'],
+  brush: [],
+  range: []
+};
+const BRUSH_STROKE_PERCENTS = ['feather', 'flow', 'density'];
+// Ranges of the vignette and grain settings
+const VIGNETTE_RANGES = {
+  amount: [-100, 100],
+  midpoint: [0, 100],
+  roundness: [-100, 100],
+  feather: [0, 100]
+};
+const GRAIN_RANGES = {
+  amount: [0, 100],
+  size: [0, 100],
+  roughness: [0, 100]
+};
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+// Color mixer settings must name known bands, each holding numeric values
+const isHslAdjustments = (value) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+
+  return Object.entries(value).every(([color, band]) =>
+    HSL_BANDS.some(known => known.color === color) &&
+    band && typeof band === 'object' &&
+    Object.entries(band).every(([property, amount]) =>
+      HSL_PROPERTIES.includes(property) && isNumber(amount)
+    )
+  );
+};
+
+// Color grading: known wheels holding numeric values, plus blending and balance
+const isColorGrading = (value) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+
+  return Object.entries(value).every(([key, setting]) => {
+    if (key === 'blending' || key === 'balance') return isNumber(setting);
+    return GRADING_WHEELS.includes(key) &&
+      setting && typeof setting === 'object' &&
+      Object.entries(setting).every(([property, amount]) =>
+        GRADING_WHEEL_PROPERTIES.includes(property) && isNumber(amount)
+      );
+  });
+};
+
+// Vignette and grain: numeric settings and an enabled switch. A bare number
+// is a vignette amount from older clients. Other keys are ignored.
+const isEffect = (ranges) => (value) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+
+  return (value.enabled === undefined || typeof value.enabled === 'boolean') &&
+    Object.keys(ranges).every(key => value[key] === undefined || isNumber(value[key]));
+};
+const isVignette = (value) => isNumber(value) || isEffect(VIGNETTE_RANGES)(value);
+const isGrain = isEffect(GRAIN_RANGES);
+
+// Tone curve: channel point lists plus parametric region amounts and splits
+const isToneCurve = (value) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+
+  return Object.entries(value).every(([key, setting]) => {
+    if (CURVE_CHANNELS.includes(key)) return Array.isArray(setting);
+    return key === 'parametric' &&
+      setting && typeof setting === 'object' &&
+      Object.entries(setting).every(([property, amount]) =>
+        (PARAMETRIC_REGIONS.includes(property) || property in PARAMETRIC_SPLITS) && isNumber(amount)
+      );
+  });
+};
+
+// Brush strokes: numeric x, y pairs and a size, with optional settings
+const isBrushStrokes = (value) => Array.isArray(value) && value.every(stroke =>
+  stroke && typeof stroke === 'object' &&
+  Array.isArray(stroke.points) && stroke.points.length >= 2 && stroke.points.length % 2 === 0 &&
+  stroke.points.every(isNumber) &&
+  isNumber(stroke.size) &&
+  BRUSH_STROKE_PERCENTS.every(key => stroke[key] === undefined || isNumber(stroke[key]))
+);
+
+// Mask ranges: luminance bounds, or up to a few sampled colors
+const isMaskRange = (range) => {
+  if (!range || typeof range !== 'object') return false;
+  const optionalNumber = (key) => range[key] === undefined || isNumber(range[key]);
+
+  if (range.type === 'luminance') {
+    return isNumber(range.min) && isNumber(range.max) && optionalNumber('smoothness');
+  }
+  return range.type === 'color' &&
+    Array.isArray(range.colors) && range.colors.length <= MAX_RANGE_COLORS &&
+    range.colors.every(color => color && ['r', 'g', 'b'].every(channel => isNumber(color[channel]))) &&
+    optionalNumber('amount');
+};
+
+const brushPointCount = (masks) => masks.reduce((total, mask) =>
+  total + (mask.type === 'brush' ? mask.strokes.reduce((sum, stroke) => sum + stroke.points.length / 2, 0) : 0), 0);
+
+// Masks: a short list of known types with numeric positions or strokes, an
+// optional range and adjustments
+const isMasks = (value) => {
+  if (!Array.isArray(value) || value.length > MAX_MASKS) return false;
+
+  const valid = value.every(mask =>
+    mask && typeof mask === 'object' &&
+    Object.prototype.hasOwnProperty.call(MASK_POSITIONS, mask.type) &&
+    MASK_POSITIONS[mask.type].every(key => isNumber(mask[key])) &&
+    (mask.type !== 'brush' || isBrushStrokes(mask.strokes)) &&
+    (mask.type === 'range' ? isMaskRange(mask.range) : [undefined, null].includes(mask.range) || isMaskRange(mask.range)) &&
+    (mask.adjustments === undefined || (
+      mask.adjustments && typeof mask.adjustments === 'object' &&
+      Object.entries(mask.adjustments).every(([key, amount]) => MASK_ADJUSTMENTS.includes(key) && isNumber(amount))
+    ))
+  );
+  return valid && brushPointCount(value) <= MAX_BRUSH_POINTS;
+};
+
+// Spots: a short list of heal or clone spots, each a point or a painted path
+// with a numeric source and size
+const isSpots = (value) => Array.isArray(value) && value.length <= MAX_SPOTS &&
+  value.every(spot =>
+    spot && typeof spot === 'object' &&
+    ['heal', 'clone'].includes(spot.mode) &&
+    Array.isArray(spot.points) && spot.points.length >= 2 && spot.points.length % 2 === 0 &&
+    spot.points.length <= MAX_SPOT_POINTS * 2 && spot.points.every(isNumber) &&
+    ['sourceX', 'sourceY', 'size'].every(key => isNumber(spot[key])) &&
+    ['feather', 'opacity'].every(key => spot[key] === undefined || isNumber(spot[key]))
+  );
+
+// Curve points inside the 0-255 square, or null when fewer than two remain
+const sanitizeCurve = (points) => {
+  if (!Array.isArray(points)) return null;
+
+  const validCurve = points.filter(point =>
+    point &&
+    typeof point.x === 'number' &&
+    typeof point.y === 'number' &&
+    point.x >= 0 && point.x <= 255 &&
+    point.y >= 0 && point.y <= 255
+  );
+
+  return validCurve.length >= 2 ? validCurve : null;
+};
+
+// The known settings of a vignette or grain, clamped to their ranges, or
+// null when there are none
+const sanitizeEffect = (effect, ranges) => {
+  if (!effect || typeof effect !== 'object') return null;
+
+  const valid = {};
+  if (typeof effect.enabled === 'boolean') {
+    valid.enabled = effect.enabled;
+  }
+  Object.entries(ranges).forEach(([key, [min, max]]) => {
+    if (isNumber(effect[key])) {
+      valid[key] = Math.min(Math.max(effect[key], min), max);
+    }
+  });
+
+  return Object.keys(valid).length > 0 ? valid : null;
+};
+
+// Keep only known adjustment settings, clamped to their ranges. Vignette and
+// grain values are merged into the project's current settings; the tone curve,
+// color mixer and color grading are replaced as a whole, with values left out reset.
+const sanitizeAdjustments = (adjustments, project) => {
+  // Validate adjustment values
+  const validAdjustments = {};
+  const allowedFields = [
+    'exposure', 'contrast', 'highlights', 'shadows', 'whites', 'blacks',
+    'temperature', 'tint', 'vibrance', 'saturation', 'texture', 'clarity',
+    'dehaze'
+  ];
+
+  for (const [key, value] of Object.entries(adjustments)) {
+    if (allowedFields.includes(key) && typeof value === 'number') {
+      // Apply appropriate ranges for each adjustment
+      let min = -100, max = 100;
+      if (key === 'exposure') {
+        min = -5; max = 5;
+      } else if (key === 'temperature') {
+        // Kelvin, though older clients still send -100..100
+        validAdjustments.temperature = toKelvin(value);
+        continue;
+      }
+      
+      validAdjustments[key] = Math.min(Math.max(value, min), max);
+    }
+  }
+
+  // Vignette and grain settings are merged into the current ones
+  const vignette = isNumber(adjustments.vignette) ? { amount: adjustments.vignette } : adjustments.vignette;
+  const vignetteAdjustments = sanitizeEffect(vignette, VIGNETTE_RANGES);
+  if (vignetteAdjustments) {
+    validAdjustments.vignette = { ...project.adjustments.vignette.toObject(), ...vignetteAdjustments };
+  }
+
+  const grainAdjustments = sanitizeEffect(adjustments.grain, GRAIN_RANGES);
+  if (grainAdjustments) {
+    validAdjustments.grain = { ...project.adjustments.grain.toObject(), ...grainAdjustments };
+  }
+
+  // Handle curves adjustments
+  const validCurves = sanitizeCurve(adjustments.curves);
+  if (validCurves) {
+    validAdjustments.curves = validCurves;
+  }
+
+  if (isToneCurve(adjustments.toneCurve)) {
+    const toneCurve = adjustments.toneCurve;
+    const parametric = toneCurve.parametric || {};
+    validAdjustments.toneCurve = { parametric: {} };
+    CURVE_CHANNELS.forEach(channel => {
+      validAdjustments.toneCurve[channel] = sanitizeCurve(toneCurve[channel]) || IDENTITY_CURVE;
+    });
+    PARAMETRIC_REGIONS.forEach(region => {
+      validAdjustments.toneCurve.parametric[region] = Math.min(Math.max(parametric[region] || 0, -100), 100);
+    });
+    Object.entries(PARAMETRIC_SPLITS).forEach(([name, fallback]) => {
+      const value = isNumber(parametric[name]) ? parametric[name] : fallback;
+      validAdjustments.toneCurve.parametric[name] = Math.min(Math.max(value, 10), 90);
+    });
+  }
+
+  if (isHslAdjustments(adjustments.hslAdjustments)) {
+    validAdjustments.hslAdjustments = {};
+    HSL_BANDS.forEach(({ color }) => {
+      const band = adjustments.hslAdjustments[color] || {};
+      validAdjustments.hslAdjustments[color] = {};
+      HSL_PROPERTIES.forEach(property => {
+        validAdjustments.hslAdjustments[color][property] = Math.min(Math.max(band[property] || 0, -100), 100);
+      });
+    });
+  }
+
+  if (isColorGrading(adjustments.colorGrading)) {
+    const grading = adjustments.colorGrading;
+    validAdjustments.colorGrading = {
+      blending: isNumber(grading.blending) ? Math.min(Math.max(grading.blending, 0), 100) : 50,
+      balance: isNumber(grading.balance) ? Math.min(Math.max(grading.balance, -100), 100) : 0
+    };
+    GRADING_WHEELS.forEach(name => {
+      const wheel = grading[name] || {};
+      validAdjustments.colorGrading[name] = {
+        // Hues wrap around the wheel
+        hue: (((wheel.hue || 0) % 360) + 360) % 360,
+        saturation: Math.min(Math.max(wheel.saturation || 0, 0), 100),
+        luminance: Math.min(Math.max(wheel.luminance || 0, -100), 100)
+      };
+    });
+  }
+
+  return validAdjustments;
+};
+
+// Rebuild spots from known fields only, with positions kept near the image
+const sanitizeSpots = (spots) => spots.map((spot, index) => ({
+  id: typeof spot.id === 'string' && spot.id ? spot.id.slice(0, 50) : `spot-${index + 1}`,
+  mode: spot.mode,
+  points: spot.points.map(value => Math.min(Math.max(value, -1), 2)),
+  sourceX: Math.min(Math.max(spot.sourceX, -1), 2),
+  sourceY: Math.min(Math.max(spot.sourceY, -1), 2),
+  size: Math.min(Math.max(spot.size, 0.0005), 1),
+  feather: isNumber(spot.feather) ? Math.min(Math.max(spot.feather, 0), 100) : 50,
+  opacity: isNumber(spot.opacity) ? Math.min(Math.max(spot.opacity, 0), 100) : 100
+}));
+
+const percent = (value, fallback) => (isNumber(value) ? Math.min(Math.max(value, 0), 100) : fallback);
+
+// Luminance bounds in order, and sampled colors as whole 0-255 channels
+const sanitizeMaskRange = (range) => {
+  if (range.type === 'luminance') {
+    const bounds = [percent(range.min, 0), percent(range.max, 100)].sort((a, b) => a - b);
+    return { type: 'luminance', min: bounds[0], max: bounds[1], smoothness: percent(range.smoothness, 50) };
+  }
+  return {
+    type: 'color',
+    colors: range.colors.map(color => ({
+      r: Math.round(Math.min(Math.max(color.r, 0), 255)),
+      g: Math.round(Math.min(Math.max(color.g, 0), 255)),
+      b: Math.round(Math.min(Math.max(color.b, 0), 255))
+    })),
+    amount: percent(range.amount, 50)
+  };
+};
+
+// Rebuild masks from known fields only, with every adjustment set and
+// clamped. Gradients may reach past the frame, e.g. one fading in from
+// above the top edge, so positions can lie up to a frame's size outside it.
+const sanitizeMasks = (masks) => masks.map((mask, index) => {
+  const settings = mask.adjustments || {};
+  const validMask = {
+    id: typeof mask.id === 'string' && mask.id ? mask.id.slice(0, 50) : `mask-${index + 1}`,
+    type: mask.type,
+    visible: mask.visible !== false,
+    invert: mask.invert === true,
+    adjustments: {}
+  };
+
+  if (typeof mask.name === 'string' && mask.name.trim()) {
+    validMask.name = mask.name.trim().slice(0, 50);
+  }
+  MASK_POSITIONS[mask.type].forEach(key => {
+    validMask[key] = Math.min(Math.max(mask[key], -1), 2);
+  });
+  if (mask.type === 'radial') {
+    validMask.radiusX = Math.max(validMask.radiusX, 0.001);
+    validMask.radiusY = Math.max(validMask.radiusY, 0.001);
+    validMask.angle = isNumber(mask.angle) ? ((mask.angle % 360) + 360) % 360 : 0;
+    validMask.feather = isNumber(mask.feather) ? Math.min(Math.max(mask.feather, 0), 100) : 50;
+  }
+  if (mask.type === 'brush') {
+    validMask.strokes = mask.strokes.map(stroke => {
+      const validStroke = {
+        points: stroke.points.map(value => Math.min(Math.max(value, -1), 2)),
+        size: Math.min(Math.max(stroke.size, 0.0005), 1),
+        erase: stroke.erase === true,
+        autoMask: stroke.autoMask === true
+      };
+      BRUSH_STROKE_PERCENTS.forEach(key => {
+        const fallback = key === 'feather' ? 50 : 100;
+        validStroke[key] = isNumber(stroke[key]) ? Math.min(Math.max(stroke[key], 0), 100) : fallback;
+      });
+      return validStroke;
+    });
+  }
+  if (mask.range) {
+    validMask.range = sanitizeMaskRange(mask.range);
+  }
+  MASK_ADJUSTMENTS.forEach(key => {
+    const limit = key === 'exposure' ? 5 : 100;
+    validMask.adjustments[key] = isNumber(settings[key]) ? Math.min(Math.max(settings[key], -limit), limit) : 0;
+  });
+
+  return validMask;
+});
+
+const SNAPSHOT_THUMBNAIL_SIZE = 240;
+
+const formatSnapshot = (snapshot) => ({
+  id: snapshot._id,
+  name: snapshot.name,
+  adjustments: snapshot.adjustments,
+  crop: snapshot.crop,
+  masks: snapshot.masks,
+  spots: snapshot.spots,
+  thumbnailUrl: snapshot.thumbnailPath
+    ? `${process.env.SERVER_URL || 'http://localhost:5000'}/uploads/${snapshot.thumbnailPath}`
+    : null,
+  createdAt: snapshot.createdAt
+});
+
+// Render a small preview of a snapshot's edits and store it with the project's files
+const renderSnapshotThumbnail = async (project, snapshot) => {
+  const rendered = await renderProject({
+    image: project.image,
+    adjustments: snapshot.adjustments,
+    crop: snapshot.crop,
+    masks: snapshot.masks,
+    spots: snapshot.spots
+  }, {
+    format: 'jpeg',
+    quality: 80,
+    width: SNAPSHOT_THUMBNAIL_SIZE,
+    height: SNAPSHOT_THUMBNAIL_SIZE
+  });
+
+  const baseFilename = path.parse(project.image.filename).name;
+  const thumbnailFilename = `${baseFilename}-${snapshot._id}.jpg`;
+  await fs.writeFile(path.join(__dirname, '../uploads/snapshots', thumbnailFilename), rendered.buffer);
+  return `snapshots/${thumbnailFilename}`;
+};
+
 // @route   GET /api/projects
 // @desc    Get all projects for the authenticated user
 // @access  Private
@@ -55,7 +462,7 @@ router.get('/', [
       .sort({ [sort]: order })
       .skip(skip)
       .limit(limit)
-      .select('-history -__v')
+      .select('-__v')
       .lean();
 
     // Get total count for pagination
@@ -76,7 +483,11 @@ router.get('/', [
         },
         adjustments: project.adjustments,
         crop: project.crop,
+        masks: project.masks || [],
+        spots: project.spots || [],
+        virtualCopyOf: project.virtualCopyOf,
         tags: project.tags,
+        rating: project.rating,
         starred: project.starred,
         isPublic: project.isPublic,
         createdAt: project.createdAt,
@@ -96,6 +507,167 @@ router.get('/', [
   }
 });
 
+// @route   POST /api/projects/xmp
+// @desc    Download XMP sidecars for several projects as a ZIP archive
+// @access  Private
+router.post('/xmp', [
+  auth,
+  body('projectIds').isArray({ min: 1, max: 500 }).withMessage('Select between 1 and 500 projects'),
+  body('projectIds.*').isMongoId().withMessage('Invalid project id')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const projects = await Project.find({
+      _id: { $in: req.body.projectIds },
+      user: req.user._id
+    });
+
+    if (projects.length === 0) {
+      return res.status(404).json({ error: 'No projects found' });
+    }
+
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': 'attachment; filename="sidecars.zip"'
+    });
+
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    archive.on('error', (error) => {
+      console.error('Sidecar archive error:', error);
+      res.destroy(error);
+    });
+    archive.pipe(res);
+
+    // Virtual copies share their original's filename; number the extras
+    const used = new Map();
+    projects.forEach(project => {
+      const filename = sidecarFilename(project);
+      const count = (used.get(filename) || 0) + 1;
+      used.set(filename, count);
+
+      const name = count === 1 ? filename : `${path.parse(filename).name}-${count}.xmp`;
+      archive.append(buildSidecar(project), { name });
+    });
+
+    await archive.finalize();
+  } catch (error) {
+    console.error('Export sidecars error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Server error exporting sidecars' });
+    }
+  }
+});
+
+// @route   POST /api/projects/sync
+// @desc    Apply the same settings to many projects, recording history for each
+// @access  Private
+router.post('/sync', [
+  auth,
+  body('projectIds').isArray({ min: 1, max: 500 }).withMessage('Select between 1 and 500 projects'),
+  body('projectIds.*').isMongoId().withMessage('Invalid project id'),
+  body('sourceId').optional({ nullable: true }).isMongoId().withMessage('Invalid source project id'),
+  body('adjustments').optional().isObject().withMessage('Adjustments must be an object'),
+  body('adjustments.hslAdjustments')
+    .optional()
+    .custom(isHslAdjustments)
+    .withMessage('hslAdjustments must map mixer bands to hue, saturation and lightness values'),
+  body('adjustments.toneCurve')
+    .optional()
+    .custom(isToneCurve)
+    .withMessage('toneCurve must hold red, green and blue point lists and parametric region values'),
+  body('adjustments.colorGrading')
+    .optional()
+    .custom(isColorGrading)
+    .withMessage('colorGrading must hold wheels with hue, saturation and luminance values, blending and balance'),
+  body('adjustments.vignette')
+    .optional()
+    .custom(isVignette)
+    .withMessage('vignette must be an amount or hold amount, midpoint, roundness and feather values'),
+  body('adjustments.grain')
+    .optional()
+    .custom(isGrain)
+    .withMessage('grain must hold amount, size and roughness values'),
+  // Crops are fractions of the image so they fit photos of any size
+  body('crop').optional({ nullable: true }).isObject().withMessage('Crop must be an object'),
+  body(['crop.x', 'crop.y']).if(body('crop').isObject()).isFloat({ min: 0, max: 1 }).withMessage('Crop position must be between 0 and 1'),
+  body(['crop.width', 'crop.height']).if(body('crop').isObject()).isFloat({ gt: 0, max: 1 }).withMessage('Crop size must be between 0 and 1'),
+  body('crop.rotation').if(body('crop').isObject()).optional().isFloat({ min: -180, max: 180 }).withMessage('Rotation must be between -180 and 180')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { projectIds, sourceId, adjustments = {}, crop } = req.body;
+
+    if (Object.keys(adjustments).length === 0 && !crop) {
+      return res.status(400).json({ error: 'Nothing to sync' });
+    }
+
+    const source = sourceId
+      ? await Project.findOne({ _id: sourceId, user: req.user._id }).select('title')
+      : null;
+    const details = source ? { source: source._id, title: source.title } : undefined;
+
+    const projects = await Project.find({
+      _id: { $in: projectIds },
+      user: req.user._id
+    });
+
+    if (projects.length === 0) {
+      return res.status(404).json({ error: 'No projects found' });
+    }
+
+    // Each project saves on its own; one that changed mid-sync is reported
+    // rather than overwritten, and the rest still update
+    const results = [];
+    for (const project of projects) {
+      try {
+        lockVersion(project);
+        project.syncSettings({
+          adjustments: sanitizeAdjustments(adjustments, project),
+          crop: crop ? toPixelCrop(crop, project.image.dimensions) : null
+        }, details);
+        await project.save();
+
+        results.push({
+          id: project._id,
+          status: 'updated',
+          adjustments: project.adjustments,
+          crop: project.crop,
+          lastEdited: project.lastEdited,
+          version: project.version
+        });
+      } catch (error) {
+        if (!isVersionConflict(error)) {
+          console.error(`Sync project ${project._id} error:`, error);
+        }
+        results.push({ id: project._id, status: isVersionConflict(error) ? 'conflict' : 'failed' });
+      }
+    }
+
+    const updated = results.filter(result => result.status === 'updated').length;
+    res.json({
+      message: `Synced settings to ${updated} of ${results.length} projects`,
+      results
+    });
+  } catch (error) {
+    console.error('Sync projects error:', error);
+    res.status(500).json({ error: 'Server error syncing projects' });
+  }
+});
+
 // @route   GET /api/projects/:id
 // @desc    Get a specific project
 // @access  Private
@@ -110,6 +682,7 @@ router.get('/:id', auth, async (req, res) => {
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    setVersionHeader(res, project);
     res.json({
       project: {
         id: project._id,
@@ -126,13 +699,16 @@ router.get('/:id', auth, async (req, res) => {
         },
         adjustments: project.adjustments,
         crop: project.crop,
+        masks: project.masks || [],
+        spots: project.spots || [],
+        virtualCopyOf: project.virtualCopyOf,
         tags: project.tags,
+        rating: project.rating,
         starred: project.starred,
         isPublic: project.isPublic,
         createdAt: project.createdAt,
         lastEdited: project.lastEdited,
-        version: project.version,
-        history: project.history
+        version: project.version
       }
     });
   } catch (error) {
@@ -160,6 +736,10 @@ router.put('/:id', [
     .optional()
     .isArray()
     .withMessage('Tags must be an array'),
+  body('rating')
+    .optional()
+    .isInt({ min: 0, max: 5 })
+    .withMessage('Rating must be between 0 and 5'),
   body('starred')
     .optional()
     .isBoolean()
@@ -187,10 +767,11 @@ router.put('/:id', [
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const { title, description, tags, starred, isPublic } = req.body;
+    const { title, description, tags, rating, starred, isPublic } = req.body;
 
     if (title !== undefined) project.title = title;
     if (description !== undefined) project.description = description;
+    if (rating !== undefined) project.rating = rating;
     if (starred !== undefined) project.starred = starred;
     if (isPublic !== undefined) project.isPublic = isPublic;
     
@@ -209,6 +790,7 @@ router.put('/:id', [
         title: project.title,
         description: project.description,
         tags: project.tags,
+        rating: project.rating,
         starred: project.starred,
         isPublic: project.isPublic,
         lastEdited: project.lastEdited,
@@ -226,7 +808,29 @@ router.put('/:id', [
 // @access  Private
 router.put('/:id/adjustments', [
   auth,
-  body('adjustments').isObject().withMessage('Adjustments must be an object')
+  expectVersion,
+  body('adjustments').isObject().withMessage('Adjustments must be an object'),
+  body('adjustments.hslAdjustments')
+    .optional()
+    .custom(isHslAdjustments)
+    .withMessage('hslAdjustments must map mixer bands to hue, saturation and lightness values'),
+  body('adjustments.toneCurve')
+    .optional()
+    .custom(isToneCurve)
+    .withMessage('toneCurve must hold red, green and blue point lists and parametric region values'),
+  body('adjustments.colorGrading')
+    .optional()
+    .custom(isColorGrading)
+    .withMessage('colorGrading must hold wheels with hue, saturation and luminance values, blending and balance'),
+  body('adjustments.vignette')
+    .optional()
+    .custom(isVignette)
+    .withMessage('vignette must be an amount or hold amount, midpoint, roundness and feather values'),
+  body('adjustments.grain')
+    .optional()
+    .custom(isGrain)
+    .withMessage('grain must hold amount, size and roughness values'),
+  body('autosave').optional().isBoolean().withMessage('autosave must be a boolean')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -246,67 +850,18 @@ router.put('/:id/adjustments', [
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const { adjustments } = req.body;
-    
-    // Validate adjustment values
-    const validAdjustments = {};
-    const allowedFields = [
-      'exposure', 'contrast', 'highlights', 'shadows', 'whites', 'blacks',
-      'temperature', 'tint', 'vibrance', 'saturation', 'texture', 'clarity',
-      'dehaze', 'vignette'
-    ];
-
-    for (const [key, value] of Object.entries(adjustments)) {
-      if (allowedFields.includes(key) && typeof value === 'number') {
-        // Apply appropriate ranges for each adjustment
-        let min = -100, max = 100;
-        if (key === 'exposure') {
-          min = -5; max = 5;
-        } else if (key === 'grain') {
-          // Handle grain object separately
-          continue;
-        }
-        
-        validAdjustments[key] = Math.min(Math.max(value, min), max);
-      }
-    }
-
-    // Handle grain adjustments separately
-    if (adjustments.grain && typeof adjustments.grain === 'object') {
-      const grainAdjustments = {};
-      if (typeof adjustments.grain.amount === 'number') {
-        grainAdjustments.amount = Math.min(Math.max(adjustments.grain.amount, 0), 100);
-      }
-      if (typeof adjustments.grain.size === 'number') {
-        grainAdjustments.size = Math.min(Math.max(adjustments.grain.size, 0), 100);
-      }
-      if (typeof adjustments.grain.roughness === 'number') {
-        grainAdjustments.roughness = Math.min(Math.max(adjustments.grain.roughness, 0), 100);
-      }
-      if (Object.keys(grainAdjustments).length > 0) {
-        validAdjustments.grain = { ...project.adjustments.grain.toObject(), ...grainAdjustments };
-      }
+    if (isStale(project, req)) {
+      return sendConflict(res, project);
     }
 
-    // Handle curves adjustments
-    if (adjustments.curves && Array.isArray(adjustments.curves)) {
-      const validCurves = adjustments.curves.filter(point => 
-        point && 
-        typeof point.x === 'number' && 
-        typeof point.y === 'number' &&
-        point.x >= 0 && point.x <= 255 &&
-        point.y >= 0 && point.y <= 255
-      );
-      
-      if (validCurves.length >= 2) {
-        validAdjustments.curves = validCurves;
-      }
-    }
+    const validAdjustments = sanitizeAdjustments(req.body.adjustments, project);
 
     // Apply adjustments
-    project.applyAdjustments(validAdjustments);
+    lockVersion(project);
+    project.applyAdjustments(validAdjustments, { coalesce: req.body.autosave === true });
     await project.save();
 
+    setVersionHeader(res, project);
     res.json({
       message: 'Adjustments applied successfully',
       adjustments: project.adjustments,
@@ -314,6 +869,10 @@ router.put('/:id/adjustments', [
       version: project.version
     });
   } catch (error) {
+    if (isVersionConflict(error)) {
+      const current = await Project.findById(req.params.id).catch(() => null);
+      if (current) return sendConflict(res, current);
+    }
     console.error('Update adjustments error:', error);
     res.status(500).json({ error: 'Server error updating adjustments' });
   }
@@ -324,6 +883,7 @@ router.put('/:id/adjustments', [
 // @access  Private
 router.put('/:id/crop', [
   auth,
+  expectVersion,
   body('crop').isObject().withMessage('Crop must be an object'),
   body('crop.x').isNumeric().withMessage('Crop x must be a number'),
   body('crop.y').isNumeric().withMessage('Crop y must be a number'),
@@ -351,6 +911,10 @@ router.put('/:id/crop', [
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    if (isStale(project, req)) {
+      return sendConflict(res, project);
+    }
+
     const { crop } = req.body;
 
     // Validate crop bounds against image dimensions
@@ -361,6 +925,7 @@ router.put('/:id/crop', [
       return res.status(400).json({ error: 'Crop bounds exceed image dimensions' });
     }
 
+    lockVersion(project);
     project.applyCrop({
       x: parseFloat(crop.x),
       y: parseFloat(crop.y),
@@ -374,6 +939,7 @@ router.put('/:id/crop', [
 
     await project.save();
 
+    setVersionHeader(res, project);
     res.json({
       message: 'Crop applied successfully',
       crop: project.crop,
@@ -381,16 +947,34 @@ router.put('/:id/crop', [
       version: project.version
     });
   } catch (error) {
+    if (isVersionConflict(error)) {
+      const current = await Project.findById(req.params.id).catch(() => null);
+      if (current) return sendConflict(res, current);
+    }
     console.error('Update crop error:', error);
     res.status(500).json({ error: 'Server error updating crop' });
   }
 });
 
-// @route   POST /api/projects/:id/reset
-// @desc    Reset all project edits to original
+// @route   PUT /api/projects/:id/masks
+// @desc    Replace the project's masks
 // @access  Private
-router.post('/:id/reset', auth, async (req, res) => {
+router.put('/:id/masks', [
+  auth,
+  expectVersion,
+  body('masks')
+    .custom(isMasks)
+    .withMessage(`masks must be a list of up to ${MAX_MASKS} gradients, brushes or ranges with numeric positions, strokes (up to ${MAX_BRUSH_POINTS} points in all), ranges (up to ${MAX_RANGE_COLORS} colors) and adjustments`)
+], async (req, res) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
     const project = await Project.findOne({
       _id: req.params.id,
       user: req.user._id
@@ -400,27 +984,50 @@ router.post('/:id/reset', auth, async (req, res) => {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    project.resetEdits();
+    if (isStale(project, req)) {
+      return sendConflict(res, project);
+    }
+
+    lockVersion(project);
+    project.applyMasks(sanitizeMasks(req.body.masks));
     await project.save();
 
+    setVersionHeader(res, project);
     res.json({
-      message: 'Project reset to original successfully',
-      adjustments: project.adjustments,
-      crop: project.crop,
+      message: 'Masks applied successfully',
+      masks: project.masks,
       lastEdited: project.lastEdited,
       version: project.version
     });
   } catch (error) {
-    console.error('Reset project error:', error);
-    res.status(500).json({ error: 'Server error resetting project' });
+    if (isVersionConflict(error)) {
+      const current = await Project.findById(req.params.id).catch(() => null);
+      if (current) return sendConflict(res, current);
+    }
+    console.error('Update masks error:', error);
+    res.status(500).json({ error: 'Server error updating masks' });
   }
 });
 
-// @route   DELETE /api/projects/:id
-// @desc    Delete a project and its files
+// @route   PUT /api/projects/:id/spots
+// @desc    Replace the project's retouched spots
 // @access  Private
-router.delete('/:id', auth, async (req, res) => {
+router.put('/:id/spots', [
+  auth,
+  expectVersion,
+  body('spots')
+    .custom(isSpots)
+    .withMessage(`spots must be a list of up to ${MAX_SPOTS} heal or clone spots with up to ${MAX_SPOT_POINTS} numeric points each, a numeric source and size`)
+], async (req, res) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
     const project = await Project.findOne({
       _id: req.params.id,
       user: req.user._id
@@ -430,69 +1037,633 @@ router.delete('/:id', auth, async (req, res) => {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    // Delete image files
-    const filesToDelete = [
-      path.join(__dirname, '../uploads', project.image.filename)
-    ];
-
-    if (project.image.thumbnailPath) {
-      filesToDelete.push(path.join(__dirname, '../uploads', project.image.thumbnailPath));
-    }
-    if (project.image.previewPath) {
-      filesToDelete.push(path.join(__dirname, '../uploads', project.image.previewPath));
-    }
-
-    // Delete export files
-    for (const exportFile of project.exports) {
-      if (exportFile.path) {
-        filesToDelete.push(path.join(__dirname, exportFile.path));
-      }
+    if (isStale(project, req)) {
+      return sendConflict(res, project);
     }
 
-    // Delete files from filesystem
-    for (const filePath of filesToDelete) {
-      try {
-        await fs.unlink(filePath);
-      } catch (fileError) {
-        console.error(`Error deleting file ${filePath}:`, fileError);
-      }
-    }
+    lockVersion(project);
+    project.applySpots(sanitizeSpots(req.body.spots));
+    await project.save();
 
-    // Update user storage
-    await User.findByIdAndUpdate(req.user._id, {
-      $inc: { storageUsed: -project.image.size }
+    setVersionHeader(res, project);
+    res.json({
+      message: 'Spots applied successfully',
+      spots: project.spots,
+      lastEdited: project.lastEdited,
+      version: project.version
     });
-
-    // Delete project from database
-    await Project.findByIdAndDelete(project._id);
-
-    res.json({ message: 'Project deleted successfully' });
   } catch (error) {
-    console.error('Delete project error:', error);
-    res.status(500).json({ error: 'Server error deleting project' });
+    if (isVersionConflict(error)) {
+      const current = await Project.findById(req.params.id).catch(() => null);
+      if (current) return sendConflict(res, current);
+    }
+    console.error('Update spots error:', error);
+    res.status(500).json({ error: 'Server error updating spots' });
   }
 });
 
-// @route   GET /api/projects/:id/history
-// @desc    Get project edit history
+// @route   POST /api/projects/:id/reset
+// @desc    Reset all project edits to original
 // @access  Private
-router.get('/:id/history', auth, async (req, res) => {
+router.post('/:id/reset', auth, expectVersion, async (req, res) => {
   try {
     const project = await Project.findOne({
       _id: req.params.id,
       user: req.user._id
-    }).select('history').lean();
+    });
 
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    if (isStale(project, req)) {
+      return sendConflict(res, project);
+    }
+
+    lockVersion(project);
+    project.resetEdits();
+    await project.save();
+
+    setVersionHeader(res, project);
     res.json({
-      history: project.history.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp))
+      message: 'Project reset to original successfully',
+      adjustments: project.adjustments,
+      crop: project.crop,
+      masks: project.masks,
+      spots: project.spots,
+      lastEdited: project.lastEdited,
+      version: project.version
     });
   } catch (error) {
-    console.error('Get history error:', error);
-    res.status(500).json({ error: 'Server error retrieving project history' });
+    if (isVersionConflict(error)) {
+      const current = await Project.findById(req.params.id).catch(() => null);
+      if (current) return sendConflict(res, current);
+    }
+    console.error('Reset project error:', error);
+    res.status(500).json({ error: 'Server error resetting project' });
+  }
+});
+
+// @route   POST /api/projects/:id/export
+// @desc    Render the project with its crop and adjustments and download it
+// @access  Private
+router.post('/:id/export', [
+  auth,
+  body('format').isIn(Object.keys(EXPORT_FORMATS)).withMessage('Format must be jpeg, png, tiff or webp'),
+  body('quality').optional().isInt({ min: 1, max: 100 }).withMessage('Quality must be between 1 and 100'),
+  body('width').optional({ nullable: true }).isInt({ min: 1, max: 20000 }).withMessage('Width must be between 1 and 20000'),
+  body('height').optional({ nullable: true }).isInt({ min: 1, max: 20000 }).withMessage('Height must be between 1 and 20000'),
+  body('maintainAspectRatio').optional().isBoolean().withMessage('maintainAspectRatio must be a boolean')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const settings = {
+      format: req.body.format,
+      quality: parseInt(req.body.quality) || 90,
+      width: parseInt(req.body.width) || undefined,
+      height: parseInt(req.body.height) || undefined,
+      maintainAspectRatio: req.body.maintainAspectRatio !== false
+    };
+
+    const rendered = await renderProject(project, settings);
+    const { extension, mimeType } = EXPORT_FORMATS[settings.format];
+
+    // Keep a copy of the render alongside the project's other files
+    const baseFilename = path.parse(project.image.filename).name;
+    const exportFilename = `${baseFilename}-${Date.now()}${extension}`;
+    await fs.writeFile(path.join(__dirname, '../uploads/exports', exportFilename), rendered.buffer);
+
+    await Project.updateOne({ _id: project._id }, {
+      $push: {
+        exports: {
+          filename: exportFilename,
+          path: `exports/${exportFilename}`,
+          format: settings.format,
+          quality: settings.quality,
+          width: rendered.width,
+          height: rendered.height,
+          size: rendered.size,
+          exportedAt: new Date()
+        }
+      }
+    });
+
+    const downloadName = `${path.parse(project.image.originalFilename).name}${extension}`;
+    res.set({
+      'Content-Type': mimeType,
+      'Content-Length': rendered.buffer.length,
+      'Content-Disposition': `attachment; filename="${downloadName.replace(/"/g, '')}"`
+    });
+    res.send(rendered.buffer);
+  } catch (error) {
+    console.error('Export project error:', error);
+    res.status(500).json({ error: 'Server error exporting project' });
+  }
+});
+
+// @route   GET /api/projects/:id/xmp
+// @desc    Download the project's settings, rating and keywords as an XMP sidecar
+// @access  Private
+router.get('/:id/xmp', auth, async (req, res) => {
+  try {
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    res.set({
+      'Content-Type': 'application/rdf+xml',
+      'Content-Disposition': `attachment; filename="${sidecarFilename(project).replace(/"/g, '')}"`
+    });
+    res.send(buildSidecar(project));
+  } catch (error) {
+    console.error('Export XMP error:', error);
+    res.status(500).json({ error: 'Server error exporting settings' });
+  }
+});
+
+// @route   POST /api/projects/:id/virtual-copies
+// @desc    Create a virtual copy sharing the project's original image
+// @access  Private
+router.post('/:id/virtual-copies', [
+  auth,
+  body('title').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Title must be between 1 and 100 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const source = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    });
+
+    if (!source) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    // Copies of copies all point at the project that owns the upload
+    const original = source.virtualCopyOf || source._id;
+    const copyNumber = await Project.countFileReferences(source.image.filename, null);
+    const suffix = ` (Copy ${copyNumber})`;
+
+    const copy = new Project({
+      title: req.body.title || `${source.title.slice(0, 100 - suffix.length)}${suffix}`,
+      description: source.description,
+      user: req.user._id,
+      image: source.image.toObject(),
+      adjustments: source.adjustments.toObject(),
+      crop: source.crop ? source.crop.toObject() : null,
+      masks: source.masks.toObject(),
+      spots: source.spots.toObject(),
+      virtualCopyOf: original,
+      tags: [...source.tags],
+      rating: source.rating
+    });
+
+    copy.addHistory('copy', {
+      details: {
+        source: source._id,
+        title: source.title
+      }
+    });
+
+    // The files are shared, so no storage is charged for the copy
+    await copy.save();
+
+    res.status(201).json({
+      message: 'Virtual copy created successfully',
+      project: {
+        id: copy._id,
+        title: copy.title,
+        description: copy.description,
+        image: {
+          url: copy.image.url,
+          thumbnailUrl: copy.image.thumbnailUrl,
+          previewUrl: copy.image.previewUrl,
+          originalFilename: copy.image.originalFilename,
+          dimensions: copy.image.dimensions,
+          size: copy.image.size
+        },
+        adjustments: copy.adjustments,
+        crop: copy.crop,
+        masks: copy.masks,
+        spots: copy.spots,
+        virtualCopyOf: copy.virtualCopyOf,
+        tags: copy.tags,
+        starred: copy.starred,
+        isPublic: copy.isPublic,
+        createdAt: copy.createdAt,
+        lastEdited: copy.lastEdited,
+        version: copy.version
+      }
+    });
+  } catch (error) {
+    console.error('Create virtual copy error:', error);
+    res.status(500).json({ error: 'Server error creating virtual copy' });
+  }
+});
+
+// @route   DELETE /api/projects/:id
+// @desc    Delete a project and its files
+// @access  Private
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    // Delete project from database first so it no longer counts as a
+    // reference to its image files
+    await Project.findByIdAndDelete(project._id);
+
+    // Virtual copies share the original, thumbnail and preview, so those files
+    // and the storage they use are only released with the last project
+    const sharedReferences = await Project.countFileReferences(project.image.filename, project._id);
+    const filesToDelete = [];
+
+    if (sharedReferences === 0) {
+      filesToDelete.push(path.join(__dirname, '../uploads', project.image.filename));
+
+      if (project.image.thumbnailPath) {
+        filesToDelete.push(path.join(__dirname, '../uploads', project.image.thumbnailPath));
+      }
+      if (project.image.previewPath) {
+        filesToDelete.push(path.join(__dirname, '../uploads', project.image.previewPath));
+      }
+    }
+
+    // Delete export files
+    for (const exportFile of project.exports) {
+      if (exportFile.path) {
+        filesToDelete.push(path.join(__dirname, '../uploads', exportFile.path));
+      }
+    }
+
+    // Delete snapshot thumbnails
+    for (const snapshot of project.snapshots) {
+      if (snapshot.thumbnailPath) {
+        filesToDelete.push(path.join(__dirname, '../uploads', snapshot.thumbnailPath));
+      }
+    }
+
+    // Delete files from filesystem
+    for (const filePath of filesToDelete) {
+      try {
+        await fs.unlink(filePath);
+      } catch (fileError) {
+        console.error(`Error deleting file ${filePath}:`, fileError);
+      }
+    }
+
+    // Update user storage
+    if (sharedReferences === 0) {
+      await User.findByIdAndUpdate(req.user._id, {
+        $inc: { storageUsed: -project.image.size }
+      });
+    }
+
+    res.json({ message: 'Project deleted successfully' });
+  } catch (error) {
+    console.error('Delete project error:', error);
+    res.status(500).json({ error: 'Server error deleting project' });
+  }
+});
+
+// @route   GET /api/projects/:id/history
+// @desc    Get project edit history, newest first
+// @access  Private
+router.get('/:id/history', auth, [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 20;
+
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    }).select('adjustments crop masks spots').lean();
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const { history, total } = await getHistoryPage(project, { page, limit });
+
+    res.json({
+      history,
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        limit
+      }
+    });
+  } catch (error) {
+    console.error('Get history error:', error);
+    res.status(500).json({ error: 'Server error retrieving project history' });
+  }
+});
+
+// @route   POST /api/projects/:id/history/:entryId/revert
+// @desc    Restore the project to its state after a history entry
+// @access  Private
+router.post('/:id/history/:entryId/revert', auth, expectVersion, [
+  param('entryId').isMongoId().withMessage('Invalid history entry id')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (isStale(project, req)) {
+      return sendConflict(res, project);
+    }
+
+    const target = await getEntryState(project, req.params.entryId);
+
+    if (!target) {
+      return res.status(404).json({ error: 'History entry not found' });
+    }
+
+    lockVersion(project);
+    project.revertTo(target._id, target.state);
+    await project.save();
+
+    setVersionHeader(res, project);
+    res.json({
+      message: 'Project reverted successfully',
+      adjustments: project.adjustments,
+      crop: project.crop,
+      masks: project.masks,
+      spots: project.spots,
+      lastEdited: project.lastEdited,
+      version: project.version
+    });
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      const current = await Project.findById(req.params.id).catch(() => null);
+      if (current) return sendConflict(res, current);
+    }
+    console.error('Revert project error:', error);
+    res.status(500).json({ error: 'Server error reverting project' });
+  }
+});
+
+// @route   GET /api/projects/:id/snapshots
+// @desc    Get a project's named snapshots
+// @access  Private
+router.get('/:id/snapshots', auth, async (req, res) => {
+  try {
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    }).select('snapshots');
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    res.json({
+      snapshots: project.snapshots.map(formatSnapshot)
+    });
+  } catch (error) {
+    console.error('Get snapshots error:', error);
+    res.status(500).json({ error: 'Server error retrieving snapshots' });
+  }
+});
+
+// @route   POST /api/projects/:id/snapshots
+// @desc    Save the project's current adjustments, crop, masks and spots as a named snapshot
+// @access  Private
+router.post('/:id/snapshots', [
+  auth,
+  body('name').trim().isLength({ min: 1, max: 50 }).withMessage('Snapshot name must be between 1 and 50 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    project.snapshots.push({
+      name: req.body.name,
+      adjustments: project.adjustments.toObject(),
+      crop: project.crop ? project.crop.toObject() : null,
+      masks: project.masks.toObject(),
+      spots: project.spots.toObject()
+    });
+    const snapshot = project.snapshots[project.snapshots.length - 1];
+
+    // A missing thumbnail shouldn't lose the snapshot itself
+    try {
+      snapshot.thumbnailPath = await renderSnapshotThumbnail(project, snapshot);
+    } catch (renderError) {
+      console.error('Snapshot thumbnail error:', renderError);
+    }
+
+    await project.save();
+
+    res.status(201).json({
+      message: 'Snapshot saved successfully',
+      snapshot: formatSnapshot(snapshot)
+    });
+  } catch (error) {
+    console.error('Create snapshot error:', error);
+    res.status(500).json({ error: 'Server error saving snapshot' });
+  }
+});
+
+// @route   PUT /api/projects/:id/snapshots/:snapshotId
+// @desc    Rename a snapshot
+// @access  Private
+router.put('/:id/snapshots/:snapshotId', [
+  auth,
+  body('name').trim().isLength({ min: 1, max: 50 }).withMessage('Snapshot name must be between 1 and 50 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const snapshot = project.snapshots.id(req.params.snapshotId);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    snapshot.name = req.body.name;
+    await project.save();
+
+    res.json({
+      message: 'Snapshot renamed successfully',
+      snapshot: formatSnapshot(snapshot)
+    });
+  } catch (error) {
+    console.error('Rename snapshot error:', error);
+    res.status(500).json({ error: 'Server error renaming snapshot' });
+  }
+});
+
+// @route   DELETE /api/projects/:id/snapshots/:snapshotId
+// @desc    Delete a snapshot and its thumbnail
+// @access  Private
+router.delete('/:id/snapshots/:snapshotId', auth, async (req, res) => {
+  try {
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const snapshot = project.snapshots.id(req.params.snapshotId);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    const { thumbnailPath } = snapshot;
+    snapshot.deleteOne();
+    await project.save();
+
+    if (thumbnailPath) {
+      try {
+        await fs.unlink(path.join(__dirname, '../uploads', thumbnailPath));
+      } catch (fileError) {
+        console.error(`Error deleting file ${thumbnailPath}:`, fileError);
+      }
+    }
+
+    res.json({ message: 'Snapshot deleted successfully' });
+  } catch (error) {
+    console.error('Delete snapshot error:', error);
+    res.status(500).json({ error: 'Server error deleting snapshot' });
+  }
+});
+
+// @route   POST /api/projects/:id/snapshots/:snapshotId/apply
+// @desc    Switch the project to a snapshot's adjustments, crop, masks and spots
+// @access  Private
+router.post('/:id/snapshots/:snapshotId/apply', auth, expectVersion, async (req, res) => {
+  try {
+    const project = await Project.findOne({
+      _id: req.params.id,
+      user: req.user._id
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (isStale(project, req)) {
+      return sendConflict(res, project);
+    }
+
+    const snapshot = project.snapshots.id(req.params.snapshotId);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    lockVersion(project);
+    project.applySnapshot(snapshot);
+    await project.save();
+
+    setVersionHeader(res, project);
+    res.json({
+      message: 'Snapshot applied successfully',
+      adjustments: project.adjustments,
+      crop: project.crop,
+      masks: project.masks,
+      spots: project.spots,
+      lastEdited: project.lastEdited,
+      version: project.version
+    });
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      const current = await Project.findById(req.params.id).catch(() => null);
+      if (current) return sendConflict(res, current);
+    }
+    console.error('Apply snapshot error:', error);
+    res.status(500).json({ error: 'Server error applying snapshot' });
   }
 });
 
@@ -0,0 +1,102 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const request = require('supertest');
+
+const mockUserId = new mongoose.Types.ObjectId();
+
+jest.mock('../middleware/auth', () => ({
+  auth: (req, res, next) => {
+    req.user = { _id: mockUserId };
+    next();
+  },
+  ownerAuth: () => (req, res, next) => next()
+}));
+
+const Project = require('../models/Project');
+const projectRoutes = require('./projects');
+
+const app = express();
+app.use(express.json());
+app.use('/api/projects', projectRoutes);
+
+// One project kept in memory in place of the database: reads return it and
+// saves validate it against the schema before keeping it
+let stored;
+
+const query = () => ({
+  lean: async () => stored && stored.toObject(),
+  then: (resolve, reject) => Promise.resolve(stored).then(resolve, reject)
+});
+
+beforeEach(() => {
+  stored = new Project({
+    title: 'Harbour',
+    user: mockUserId,
+    image: {
+      originalFilename: 'harbour.jpg',
+      filename: 'harbour.jpg',
+      path: 'uploads/harbour.jpg',
+      mimeType: 'image/jpeg',
+      size: 1024,
+      dimensions: { width: 60, height: 40 }
+    }
+  });
+
+  jest.spyOn(Project, 'findOne').mockImplementation(query);
+  jest.spyOn(Project.prototype, 'save').mockImplementation(async function() {
+    await this.validate();
+    stored = this;
+    return this;
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const saveAdjustments = (adjustments) =>
+  request(app)
+    .put(`/api/projects/${stored._id}/adjustments`)
+    .send({ adjustments, version: stored.version });
+
+describe('PUT /api/projects/:id/adjustments', () => {
+  it('saves vignette and grain settings and reads them back', async () => {
+    const saved = await saveAdjustments({
+      vignette: { amount: -40, midpoint: 30, roundness: -60, feather: 80, style: 'round' },
+      grain: { enabled: false, amount: 35 }
+    });
+    expect(saved.status).toBe(200);
+
+    const { body } = await request(app).get(`/api/projects/${stored._id}`);
+    expect(body.project.adjustments.vignette).toEqual({
+      enabled: true,
+      amount: -40,
+      midpoint: 30,
+      roundness: -60,
+      feather: 80
+    });
+    expect(body.project.adjustments.grain).toEqual({ enabled: false, amount: 35, size: 50, roughness: 50 });
+  });
+
+  it('merges vignette settings into the current ones and clamps them', async () => {
+    await saveAdjustments({ vignette: { amount: -40, midpoint: 30 } });
+    const saved = await saveAdjustments({ vignette: { feather: 140 } });
+
+    expect(saved.body.adjustments.vignette).toMatchObject({ amount: -40, midpoint: 30, feather: 100 });
+  });
+
+  it('reads a legacy vignette number as its amount', async () => {
+    const saved = await saveAdjustments({ vignette: -25 });
+
+    expect(saved.status).toBe(200);
+    expect(saved.body.adjustments.vignette).toMatchObject({ amount: -25, midpoint: 50, roundness: 0, feather: 50 });
+  });
+
+  it('rejects vignette and grain settings that are not numbers', async () => {
+    const vignette = await saveAdjustments({ vignette: { amount: 'dark' } });
+    const grain = await saveAdjustments({ grain: { enabled: 'yes' } });
+
+    expect(vignette.status).toBe(400);
+    expect(grain.status).toBe(400);
+  });
+});
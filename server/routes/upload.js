@@ -6,12 +6,13 @@ const fs = require('fs').promises;
 const { auth, checkStorage } = require('../middleware/auth');
 const Project = require('../models/Project');
 const User = require('../models/User');
+const { findSidecar, importUploadXmp } = require('../services/sidecar');
 
 const router = express.Router();
 
 // Ensure upload directories exist
 const ensureDirectories = async () => {
-  const dirs = ['../uploads', '../uploads/thumbnails', '../uploads/previews', '../uploads/exports'];
+  const dirs = ['../uploads', '../uploads/thumbnails', '../uploads/previews', '../uploads/exports', '../uploads/snapshots'];
   for (const dir of dirs) {
     try {
       await fs.access(path.join(__dirname, dir));
@@ -35,7 +36,19 @@ const storage = multer.diskStorage({
   }
 });
 
+const SIDECAR_FIELDS = ['sidecar', 'sidecars'];
+
 const fileFilter = (req, file, cb) => {
+  // XMP sidecars travel with the images they describe
+  if (SIDECAR_FIELDS.includes(file.fieldname)) {
+    if (path.extname(file.originalname).toLowerCase() === '.xmp') {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid sidecar file. Only .xmp files are allowed.'), false);
+    }
+    return;
+  }
+
   // Check file type
   const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/tiff', 'image/webp'];
   const allowedMimes = ['image/jpeg', 'image/png', 'image/tiff', 'image/webp'];
@@ -52,10 +65,23 @@ const upload = multer({
   fileFilter,
   limits: {
     fileSize: 50 * 1024 * 1024, // 50MB limit
-    files: 1
+    files: 20 // Up to 10 images, each with a sidecar
   }
 });
 
+const removeFiles = async (files) => {
+  for (const file of files) {
+    try {
+      await fs.unlink(file.path);
+    } catch (cleanupError) {
+      console.error('Error cleaning up file:', cleanupError);
+    }
+  }
+};
+
+// Explicit values win; XMP fills in what wasn't given
+const mergeTags = (...lists) => [...new Set(lists.flat().filter(tag => tag))];
+
 // Helper function to extract metadata
 const extractMetadata = async (imagePath) => {
   try {
@@ -70,6 +96,8 @@ const extractMetadata = async (imagePath) => {
       depth: metadata.depth,
       density: metadata.density,
       orientation: metadata.orientation,
+      // Embedded XMP packet, read for develop settings, rating and keywords
+      xmp: metadata.xmp ? metadata.xmp.toString('utf8') : null,
       // Additional metadata from EXIF if available
       exif: metadata.exif ? {
         // Parse EXIF data here if needed
@@ -122,9 +150,16 @@ const generateImageVariants = async (originalPath, filename) => {
 // @route   POST /api/upload
 // @desc    Upload image and create new project
 // @access  Private
-router.post('/', auth, upload.single('image'), async (req, res) => {
+router.post('/', auth, upload.fields([
+  { name: 'image', maxCount: 1 },
+  { name: 'sidecar', maxCount: 1 }
+]), async (req, res) => {
+  const imageFile = req.files && req.files.image ? req.files.image[0] : null;
+  let sidecarFile = req.files && req.files.sidecar ? req.files.sidecar[0] : null;
+
   try {
-    if (!req.file) {
+    if (!imageFile) {
+      if (sidecarFile) await removeFiles([sidecarFile]);
       return res.status(400).json({ error: 'No image file provided' });
     }
     
@@ -133,9 +168,9 @@ router.post('/', auth, upload.single('image'), async (req, res) => {
     
     // Check storage limit
     const user = await User.findById(userId);
-    if (user.storageUsed + req.file.size > user.storageLimit) {
-      // Clean up uploaded file
-      await fs.unlink(req.file.path);
+    if (user.storageUsed + imageFile.size > user.storageLimit) {
+      // Clean up uploaded files
+      await removeFiles([imageFile, sidecarFile].filter(Boolean));
       return res.status(413).json({ 
         error: 'Storage limit exceeded. Please upgrade your plan or delete some files.',
         storageUsed: user.storageUsed,
@@ -144,32 +179,37 @@ router.post('/', auth, upload.single('image'), async (req, res) => {
     }
     
     // Extract image metadata
-    const metadata = await extractMetadata(req.file.path);
+    const metadata = await extractMetadata(imageFile.path);
     
     if (!metadata) {
-      // Clean up uploaded file
-      await fs.unlink(req.file.path);
+      // Clean up uploaded files
+      await removeFiles([imageFile, sidecarFile].filter(Boolean));
       return res.status(400).json({ error: 'Could not process image file' });
     }
     
+    const { xmp: embeddedXmp, ...imageMetadata } = metadata;
+    const dimensions = { width: metadata.width, height: metadata.height };
+    const imported = await importUploadXmp(sidecarFile, embeddedXmp, dimensions) || {};
+    if (sidecarFile) {
+      await removeFiles([sidecarFile]);
+      sidecarFile = null;
+    }
+    
     // Generate thumbnails and previews
-    const variants = await generateImageVariants(req.file.path, req.file.filename);
+    const variants = await generateImageVariants(imageFile.path, imageFile.filename);
     
     // Create new project
     const project = new Project({
-      title: title || path.parse(req.file.originalname).name,
-      description: description || '',
+      title: (title || imported.title || path.parse(imageFile.originalname).name).slice(0, 100),
+      description: (description || imported.description || '').slice(0, 500),
       user: userId,
       image: {
-        originalFilename: req.file.originalname,
-        filename: req.file.filename,
-        path: req.file.path,
-        mimeType: req.file.mimetype,
-        size: req.file.size,
-        dimensions: {
-          width: metadata.width,
-          height: metadata.height
-        },
+        originalFilename: imageFile.originalname,
+        filename: imageFile.filename,
+        path: imageFile.path,
+        mimeType: imageFile.mimetype,
+        size: imageFile.size,
+        dimensions,
         thumbnailPath: variants.thumbnailPath,
         previewPath: variants.previewPath,
         metadata: {
@@ -177,21 +217,30 @@ router.post('/', auth, upload.single('image'), async (req, res) => {
           orientation: metadata.orientation
         }
       },
-      tags: tags ? tags.split(',').map(tag => tag.trim().toLowerCase()).filter(tag => tag) : []
+      adjustments: imported.adjustments,
+      crop: imported.crop || null,
+      rating: imported.rating || 0,
+      tags: mergeTags(
+        tags ? tags.split(',').map(tag => tag.trim().toLowerCase()) : [],
+        imported.tags || []
+      )
     });
     
     // Add initial history entry
     project.addHistory('upload', {
-      filename: req.file.originalname,
-      size: req.file.size,
-      dimensions: metadata
+      details: {
+        filename: imageFile.originalname,
+        size: imageFile.size,
+        dimensions: imageMetadata,
+        xmp: imported.source
+      }
     });
     
     await project.save();
     
     // Update user storage usage
     await User.findByIdAndUpdate(userId, {
-      $inc: { storageUsed: req.file.size }
+      $inc: { storageUsed: imageFile.size }
     });
     
     res.status(201).json({
@@ -211,21 +260,21 @@ router.post('/', auth, upload.single('image'), async (req, res) => {
         adjustments: project.adjustments,
         crop: project.crop,
         tags: project.tags,
+        rating: project.rating,
         createdAt: project.createdAt,
         lastEdited: project.lastEdited,
         version: project.version
-      }
+      },
+      // Where imported settings came from and what couldn't be carried over
+      xmp: imported.source ? {
+        source: imported.source,
+        unsupported: imported.unsupported || []
+      } : null
     });
     
   } catch (error) {
-    // Clean up uploaded file on error
-    if (req.file && req.file.path) {
-      try {
-        await fs.unlink(req.file.path);
-      } catch (cleanupError) {
-        console.error('Error cleaning up uploaded file:', cleanupError);
-      }
-    }
+    // Clean up uploaded files on error
+    await removeFiles([imageFile, sidecarFile].filter(Boolean));
     
     console.error('Upload error:', error);
     
@@ -245,12 +294,17 @@ router.post('/', auth, upload.single('image'), async (req, res) => {
 // @route   POST /api/upload/batch
 // @desc    Upload multiple images at once
 // @access  Private
-router.post('/batch', auth, upload.array('images', 10), async (req, res) => {
+router.post('/batch', auth, upload.fields([
+  { name: 'images', maxCount: 10 },
+  { name: 'sidecars', maxCount: 10 }
+]), async (req, res) => {
+  const images = (req.files && req.files.images) || [];
+  const sidecars = (req.files && req.files.sidecars) || [];
   const uploadedFiles = [];
   const createdProjects = [];
   
   try {
-    if (!req.files || req.files.length === 0) {
+    if (images.length === 0) {
       return res.status(400).json({ error: 'No image files provided' });
     }
     
@@ -258,17 +312,11 @@ router.post('/batch', auth, upload.array('images', 10), async (req, res) => {
     const user = await User.findById(userId);
     
     // Calculate total size
-    const totalSize = req.files.reduce((sum, file) => sum + file.size, 0);
+    const totalSize = images.reduce((sum, file) => sum + file.size, 0);
     
     if (user.storageUsed + totalSize > user.storageLimit) {
       // Clean up uploaded files
-      for (const file of req.files) {
-        try {
-          await fs.unlink(file.path);
-        } catch (cleanupError) {
-          console.error('Error cleaning up file:', cleanupError);
-        }
-      }
+      await removeFiles(images);
       
       return res.status(413).json({ 
         error: 'Storage limit exceeded for batch upload.',
@@ -279,7 +327,7 @@ router.post('/batch', auth, upload.array('images', 10), async (req, res) => {
     }
     
     // Process each file
-    for (const file of req.files) {
+    for (const file of images) {
       uploadedFiles.push(file);
       
       try {
@@ -287,13 +335,21 @@ router.post('/batch', auth, upload.array('images', 10), async (req, res) => {
         const metadata = await extractMetadata(file.path);
         if (!metadata) continue;
         
+        const { xmp: embeddedXmp, ...imageMetadata } = metadata;
+        const dimensions = { width: metadata.width, height: metadata.height };
+        const imported = await importUploadXmp(
+          findSidecar(file.originalname, sidecars),
+          embeddedXmp,
+          dimensions
+        ) || {};
+        
         // Generate variants
         const variants = await generateImageVariants(file.path, file.filename);
         
         // Create project
         const project = new Project({
-          title: path.parse(file.originalname).name,
-          description: '',
+          title: (imported.title || path.parse(file.originalname).name).slice(0, 100),
+          description: (imported.description || '').slice(0, 500),
           user: userId,
           image: {
             originalFilename: file.originalname,
@@ -301,23 +357,27 @@ router.post('/batch', auth, upload.array('images', 10), async (req, res) => {
             path: file.path,
             mimeType: file.mimetype,
             size: file.size,
-            dimensions: {
-              width: metadata.width,
-              height: metadata.height
-            },
+            dimensions,
             thumbnailPath: variants.thumbnailPath,
             previewPath: variants.previewPath,
             metadata: {
               colorSpace: metadata.space,
               orientation: metadata.orientation
             }
-          }
+          },
+          adjustments: imported.adjustments,
+          crop: imported.crop || null,
+          rating: imported.rating || 0,
+          tags: mergeTags(imported.tags || [])
         });
         
         project.addHistory('upload', {
-          filename: file.originalname,
-          size: file.size,
-          dimensions: metadata
+          details: {
+            filename: file.originalname,
+            size: file.size,
+            dimensions: imageMetadata,
+            xmp: imported.source
+          }
         });
         
         await project.save();
@@ -356,16 +416,13 @@ router.post('/batch', auth, upload.array('images', 10), async (req, res) => {
     
   } catch (error) {
     // Clean up all uploaded files on error
-    for (const file of uploadedFiles) {
-      try {
-        await fs.unlink(file.path);
-      } catch (cleanupError) {
-        console.error('Error cleaning up file:', cleanupError);
-      }
-    }
+    await removeFiles(uploadedFiles);
     
     console.error('Batch upload error:', error);
     res.status(500).json({ error: 'Server error during batch upload' });
+  } finally {
+    // Sidecars are only read, never stored
+    await removeFiles(sidecars);
   }
 });
 
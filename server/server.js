@@ -12,6 +12,12 @@ require('dotenv').config();
 const authRoutes = require('./routes/auth');
 const uploadRoutes = require('./routes/upload');
 const projectRoutes = require('./routes/projects');
+const exportRoutes = require('./routes/exports');
+const presetRoutes = require('./routes/presets');
+const exportQueue = require('./services/exportQueue');
+const { migrateInlineHistory } = require('./services/history');
+const { migrateLegacyTemperature } = require('./services/whiteBalance');
+const { migrateLegacyVignette } = require('./services/vignette');
 
 const app = express();
 
@@ -36,7 +42,8 @@ app.use(cors({
   origin: process.env.CLIENT_ORIGIN || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+  exposedHeaders: ['ETag']
 }));
 
 // Body parsing middleware
@@ -51,7 +58,29 @@ mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/lightroom_c
   useNewUrlParser: true,
   useUnifiedTopology: true,
 })
-.then(() => console.log('✅ MongoDB connected successfully'))
+.then(() => {
+  console.log('✅ MongoDB connected successfully');
+
+  // Resume batch exports that were interrupted by a restart
+  exportQueue.resumeInterruptedJobs()
+    .then(resumed => resumed > 0 && console.log(`📦 Resumed ${resumed} export job(s)`))
+    .catch(err => console.error('❌ Error resuming export jobs:', err));
+
+  // Move edit history still stored inside project documents to its own collection
+  migrateInlineHistory()
+    .then(migrated => migrated > 0 && console.log(`🕘 Migrated history for ${migrated} project(s)`))
+    .catch(err => console.error('❌ Error migrating project history:', err));
+
+  // Move white balance stored on the old relative scale to Kelvin
+  migrateLegacyTemperature()
+    .then(migrated => migrated > 0 && console.log(`🌡️ Migrated white balance for ${migrated} document(s)`))
+    .catch(err => console.error('❌ Error migrating white balance:', err));
+
+  // Expand vignettes stored as a single amount into full vignette settings
+  migrateLegacyVignette()
+    .then(migrated => migrated > 0 && console.log(`🌗 Migrated vignettes for ${migrated} document(s)`))
+    .catch(err => console.error('❌ Error migrating vignettes:', err));
+})
 .catch(err => {
   console.error('❌ MongoDB connection error:', err);
   process.exit(1);
@@ -60,7 +89,9 @@ mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/lightroom_c
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/upload', uploadRoutes);
+app.use('/api/projects/export', exportRoutes);
 app.use('/api/projects', projectRoutes);
+app.use('/api/presets', presetRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
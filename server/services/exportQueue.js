@@ -0,0 +1,264 @@
+const EventEmitter = require('events');
+const path = require('path');
+const fs = require('fs');
+const archiver = require('archiver');
+const ExportJob = require('../models/ExportJob');
+const Project = require('../models/Project');
+const { renderProject } = require('./renderer');
+
+const JOBS_DIR = path.join(__dirname, '../uploads/exports/jobs');
+
+// Maximum number of renders running at once across every job
+const MAX_CONCURRENCY = parseInt(process.env.EXPORT_CONCURRENCY) || 2;
+
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+// Jobs currently being processed by this server, keyed by job id
+const activeJobs = new Map();
+
+// Simple semaphore so all jobs share one bounded pool of render slots
+let runningRenders = 0;
+const waitingRenders = [];
+
+const acquireSlot = () => {
+  if (runningRenders < MAX_CONCURRENCY) {
+    runningRenders++;
+    return Promise.resolve();
+  }
+  return new Promise(resolve => waitingRenders.push(resolve));
+};
+
+const releaseSlot = () => {
+  const next = waitingRenders.shift();
+  if (next) {
+    next();
+  } else {
+    runningRenders--;
+  }
+};
+
+const stagingDir = (jobId) => path.join(JOBS_DIR, jobId.toString());
+const archiveFile = (jobId) => path.join(JOBS_DIR, `${jobId}.zip`);
+
+const emit = (jobId, type, payload) => {
+  events.emit(jobId.toString(), { type, ...payload });
+};
+
+// Subscribe to progress events for a job, returning an unsubscribe function
+const subscribe = (jobId, listener) => {
+  const key = jobId.toString();
+  events.on(key, listener);
+  return () => events.off(key, listener);
+};
+
+const setItemState = async (jobId, itemId, updates) => {
+  const $set = {};
+  for (const [key, value] of Object.entries(updates)) {
+    $set[`items.$.${key}`] = value;
+  }
+  await ExportJob.updateOne({ _id: jobId, 'items._id': itemId }, { $set });
+  emit(jobId, 'item', { item: { id: itemId, ...updates } });
+};
+
+const renderItem = async (job, item, state) => {
+  await acquireSlot();
+  try {
+    if (state.cancelled) return;
+
+    await setItemState(job._id, item._id, { status: 'rendering', error: null });
+
+    const project = await Project.findOne({ _id: item.project, user: job.user });
+    if (!project) {
+      throw new Error('Project no longer exists');
+    }
+
+    const rendered = await renderProject(project, job.settings);
+
+    // A cancelled job discards renders that were already in flight
+    if (state.cancelled) return;
+
+    await fs.promises.writeFile(path.join(stagingDir(job._id), item.filename), rendered.buffer);
+    await setItemState(job._id, item._id, { status: 'done', size: rendered.size });
+  } catch (error) {
+    // Cancelling already marked the item; a late failure shouldn't undo that
+    if (state.cancelled) return;
+
+    console.error(`Export job ${job._id} item ${item._id} error:`, error);
+    await setItemState(job._id, item._id, { status: 'failed', error: error.message });
+  } finally {
+    releaseSlot();
+  }
+};
+
+// Stream every rendered file of a job into a ZIP archive on disk
+const writeArchive = (job) => new Promise((resolve, reject) => {
+  const target = archiveFile(job._id);
+  const output = fs.createWriteStream(target);
+  const archive = archiver('zip', { zlib: { level: 6 } });
+
+  output.on('close', () => resolve({ path: target, size: archive.pointer() }));
+  archive.on('error', reject);
+  archive.on('warning', (warning) => console.warn(`Export job ${job._id} archive warning:`, warning));
+
+  archive.pipe(output);
+  for (const item of job.items) {
+    if (item.status === 'done') {
+      archive.file(path.join(stagingDir(job._id), item.filename), { name: item.filename });
+    }
+  }
+  archive.finalize();
+});
+
+const runJob = async (jobId) => {
+  const key = jobId.toString();
+  if (activeJobs.has(key)) return;
+
+  const state = { cancelled: false };
+  activeJobs.set(key, state);
+
+  try {
+    const job = await ExportJob.findById(jobId);
+    if (!job || job.status === 'cancelled') return;
+
+    await fs.promises.mkdir(stagingDir(job._id), { recursive: true });
+
+    // Only start if a cancel hasn't landed since the job was loaded
+    const started = await ExportJob.updateOne(
+      { _id: job._id, status: { $ne: 'cancelled' } },
+      { $set: { status: 'running' } }
+    );
+    if (started.matchedCount === 0) return;
+
+    job.status = 'running';
+    emit(job._id, 'status', { status: job.status });
+
+    const pending = job.items.filter(item => item.status === 'pending');
+    await Promise.all(pending.map(item => renderItem(job, item, state)));
+
+    // Cancelling already recorded the job's final state
+    if (state.cancelled) return;
+
+    const finished = await ExportJob.findById(jobId);
+    if (!finished) return;
+
+    const result = { status: 'failed', completedAt: new Date() };
+    if (finished.items.some(item => item.status === 'done')) {
+      const archive = await writeArchive(finished);
+      result.archivePath = path.relative(path.join(__dirname, '../uploads'), archive.path);
+      result.archiveSize = archive.size;
+      result.status = 'completed';
+
+      // Retries rebuild the archive from the staged renders, so they're only
+      // dropped once nothing is left to retry
+      if (finished.items.every(item => item.status === 'done')) {
+        await fs.promises.rm(stagingDir(job._id), { recursive: true, force: true });
+      }
+    }
+
+    // A cancel can still land while the archive is written; it wins
+    const updated = await ExportJob.updateOne(
+      { _id: job._id, status: { $ne: 'cancelled' } },
+      { $set: result }
+    );
+    if (updated.matchedCount === 0) return;
+
+    emit(job._id, 'status', {
+      status: result.status,
+      archiveSize: result.archiveSize
+    });
+  } catch (error) {
+    console.error(`Export job ${jobId} error:`, error);
+    await ExportJob.updateOne({ _id: jobId }, { status: 'failed', completedAt: new Date() });
+    emit(jobId, 'status', { status: 'failed', error: error.message });
+  } finally {
+    activeJobs.delete(key);
+  }
+};
+
+// Queue a job for processing without blocking the caller
+const enqueue = (jobId) => {
+  setImmediate(() => runJob(jobId));
+};
+
+// Stop a job; renders already in flight finish but are thrown away
+const cancel = async (job) => {
+  const state = activeJobs.get(job._id.toString());
+  if (state) {
+    state.cancelled = true;
+  }
+
+  // One atomic update, so it can't race the per-item updates of renders in flight
+  const completedAt = new Date();
+  await ExportJob.updateOne(
+    { _id: job._id },
+    { $set: { status: 'cancelled', completedAt, 'items.$[open].status': 'cancelled' } },
+    { arrayFilters: [{ 'open.status': { $in: ['pending', 'rendering'] } }] }
+  );
+
+  for (const item of job.items) {
+    if (item.status === 'pending' || item.status === 'rendering') {
+      item.status = 'cancelled';
+    }
+  }
+  job.status = 'cancelled';
+  job.completedAt = completedAt;
+  emit(job._id, 'status', { status: job.status });
+};
+
+// Re-run every failed or cancelled item and rebuild the archive
+const retry = async (job) => {
+  if (activeJobs.has(job._id.toString())) {
+    throw new Error('Job is still running');
+  }
+
+  let retried = 0;
+  for (const item of job.items) {
+    if (item.status === 'failed' || item.status === 'cancelled') {
+      item.status = 'pending';
+      item.error = undefined;
+      retried++;
+    }
+  }
+
+  if (retried === 0) return 0;
+
+  job.status = 'queued';
+  job.completedAt = undefined;
+  await job.save();
+  emit(job._id, 'status', { status: job.status });
+
+  enqueue(job._id);
+  return retried;
+};
+
+// Remove a job's staged renders and archive from disk
+const removeFiles = async (jobId) => {
+  await fs.promises.rm(stagingDir(jobId), { recursive: true, force: true });
+  await fs.promises.rm(archiveFile(jobId), { force: true });
+};
+
+// Pick up jobs that were interrupted by a server restart
+const resumeInterruptedJobs = async () => {
+  const interrupted = await ExportJob.find({ status: { $in: ['queued', 'running'] } });
+  for (const job of interrupted) {
+    for (const item of job.items) {
+      if (item.status === 'rendering') {
+        item.status = 'pending';
+      }
+    }
+    await job.save();
+    enqueue(job._id);
+  }
+  return interrupted.length;
+};
+
+module.exports = {
+  enqueue,
+  cancel,
+  retry,
+  subscribe,
+  removeFiles,
+  resumeInterruptedJobs,
+  isActive: (jobId) => activeJobs.has(jobId.toString())
+};
@@ -0,0 +1,168 @@
+const Project = require('../models/Project');
+const HistoryEntry = require('../models/HistoryEntry');
+
+// History entries only store what each edit changed, so the state after any
+// entry is rebuilt by starting from the project's current state and undoing
+// every newer entry. Nothing depends on the oldest entries, which lets
+// retention drop them freely.
+
+const plain = (value) => (value && typeof value.toObject === 'function' ? value.toObject() : value);
+
+const currentState = (project) => ({
+  adjustments: plain(project.adjustments) || {},
+  crop: plain(project.crop) || null,
+  masks: plain(project.masks) || [],
+  spots: plain(project.spots) || []
+});
+
+const undoAll = (state, entries) =>
+  entries.reduce((result, entry) => HistoryEntry.undoChanges(result, entry.changes), state);
+
+/**
+ * Return one page of a project's history, newest first, each entry with the
+ * state the project had right after it was applied.
+ */
+const getHistoryPage = async (project, { page = 1, limit = 20 } = {}) => {
+  const skip = (page - 1) * limit;
+
+  const [newer, entries, total] = await Promise.all([
+    skip > 0
+      ? HistoryEntry.find({ project: project._id }).sort({ version: -1 }).limit(skip).select('changes').lean()
+      : [],
+    HistoryEntry.find({ project: project._id }).sort({ version: -1 }).skip(skip).limit(limit).lean(),
+    HistoryEntry.countDocuments({ project: project._id })
+  ]);
+
+  let state = undoAll(currentState(project), newer);
+  const history = entries.map(entry => {
+    const withState = { ...entry, state };
+    state = HistoryEntry.undoChanges(state, entry.changes);
+    return withState;
+  });
+
+  return { history, total };
+};
+
+/**
+ * Return a single entry with the state after it, or null if it does not
+ * belong to the project.
+ */
+const getEntryState = async (project, entryId) => {
+  const entry = await HistoryEntry.findOne({ _id: entryId, project: project._id }).lean();
+  if (!entry) return null;
+
+  const newer = await HistoryEntry.find({ project: project._id, version: { $gt: entry.version } })
+    .sort({ version: -1 })
+    .select('changes')
+    .lean();
+
+  return { ...entry, state: undoAll(currentState(project), newer) };
+};
+
+// Projects saved before history had its own collection kept it inline, with
+// adjust entries holding the full adjustments before and the partial values
+// applied, crop entries the old and new crop, and reset/revert entries the
+// full state before them. Replaying them gives the state after each entry.
+
+const ADJUSTMENT_ACTIONS = ['adjust', 'reset', 'revert'];
+const CROP_ACTIONS = ['crop', 'reset', 'revert'];
+
+const legacyStateBefore = (entry, key) => {
+  const old = entry.changes && entry.changes.old;
+  if (!old) return undefined;
+  if (entry.action === 'adjust') return key === 'adjustments' ? old : undefined;
+  if (entry.action === 'crop') return key === 'crop' ? old : undefined;
+  return old[key];
+};
+
+const legacyInitialState = (entries, current) => {
+  const firstAdjust = entries.find(entry => ADJUSTMENT_ACTIONS.includes(entry.action));
+  const firstCrop = entries.find(entry => CROP_ACTIONS.includes(entry.action));
+
+  return {
+    adjustments: firstAdjust ? legacyStateBefore(firstAdjust, 'adjustments') || {} : current.adjustments,
+    crop: firstCrop ? legacyStateBefore(firstCrop, 'crop') || null : current.crop
+  };
+};
+
+const applyLegacyEntry = (state, entry) => {
+  const changes = entry.changes || {};
+
+  switch (entry.action) {
+    case 'adjust':
+      return { ...state, adjustments: { ...state.adjustments, ...changes.new } };
+    case 'crop':
+      return { ...state, crop: changes.new || null };
+    case 'reset':
+      return { adjustments: {}, crop: null };
+    case 'revert':
+      return {
+        adjustments: (changes.new && changes.new.adjustments) || {},
+        crop: (changes.new && changes.new.crop) || null
+      };
+    default:
+      return state;
+  }
+};
+
+// Convert a legacy inline history into diff entries, numbering versions back
+// from the project's current one
+const convertLegacyHistory = (project) => {
+  const ordered = [...project.history].sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+  const current = currentState(project);
+  const firstVersion = (project.version || ordered.length) - ordered.length + 1;
+
+  let state = legacyInitialState(ordered, current);
+  return ordered.map((entry, index) => {
+    const next = applyLegacyEntry(state, entry);
+    const isStateChange = ['adjust', 'crop', 'reset', 'revert'].includes(entry.action);
+    const converted = {
+      _id: entry._id,
+      project: project._id,
+      action: entry.action,
+      version: Math.max(firstVersion + index, 1),
+      changes: isStateChange ? HistoryEntry.diffState(state, next) : {},
+      details: isStateChange
+        ? (entry.changes && entry.changes.entry ? { entry: entry.changes.entry } : undefined)
+        : entry.changes,
+      timestamp: entry.timestamp
+    };
+    state = next;
+    return converted;
+  });
+};
+
+/**
+ * Move history still stored inside project documents into the history
+ * collection. Safe to run repeatedly; returns the number of projects migrated.
+ */
+const migrateInlineHistory = async () => {
+  const legacy = await Project.collection
+    .find({ history: { $exists: true } })
+    .project({ history: 1, adjustments: 1, crop: 1, version: 1 })
+    .toArray();
+
+  for (const project of legacy) {
+    const entries = convertLegacyHistory({ ...project, history: project.history || [] });
+
+    if (entries.length > 0) {
+      try {
+        await HistoryEntry.insertMany(entries, { ordered: false });
+      } catch (error) {
+        // Entries left by an interrupted earlier run already exist
+        if (error.code !== 11000) throw error;
+      }
+      await HistoryEntry.prune(project._id);
+    }
+
+    await Project.collection.updateOne({ _id: project._id }, { $unset: { history: '' } });
+  }
+
+  return legacy.length;
+};
+
+module.exports = {
+  getHistoryPage,
+  getEntryState,
+  migrateInlineHistory
+};
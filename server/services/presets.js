@@ -0,0 +1,104 @@
+// Adjustment settings grouped the way the editor panels show them. Presets
+// store only the groups the user picked when saving them.
+const PRESET_GROUPS = {
+  light: ['exposure', 'contrast', 'highlights', 'shadows', 'whites', 'blacks', 'curves', 'toneCurve'],
+  color: ['temperature', 'tint', 'vibrance', 'saturation', 'hslAdjustments', 'colorGrading'],
+  effects: ['texture', 'clarity', 'dehaze', 'vignette', 'grain'],
+  crop: []
+};
+
+const plain = (value) => (value && typeof value.toObject === 'function' ? value.toObject() : value);
+
+/**
+ * Copy the settings belonging to the given groups out of a full set of adjustments.
+ */
+const pickGroups = (adjustments, groups) => {
+  const source = plain(adjustments) || {};
+  const picked = {};
+
+  groups.forEach(group => {
+    (PRESET_GROUPS[group] || []).forEach(key => {
+      if (source[key] !== undefined) {
+        picked[key] = source[key];
+      }
+    });
+  });
+
+  return picked;
+};
+
+// Presets are applied to images of any size, so crops are stored as
+// fractions of the image rather than pixels
+const toRelativeCrop = (crop, dimensions) => {
+  const source = plain(crop);
+  if (!source) return null;
+
+  return {
+    x: source.x / dimensions.width,
+    y: source.y / dimensions.height,
+    width: source.width / dimensions.width,
+    height: source.height / dimensions.height,
+    rotation: source.rotation || 0,
+    flipHorizontal: !!source.flipHorizontal,
+    flipVertical: !!source.flipVertical
+  };
+};
+
+// Scale a fractional crop back to an image's pixels, keeping it inside the frame
+const toPixelCrop = (crop, dimensions) => {
+  const x = Math.min(Math.max(Math.round(crop.x * dimensions.width), 0), dimensions.width - 1);
+  const y = Math.min(Math.max(Math.round(crop.y * dimensions.height), 0), dimensions.height - 1);
+
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width * dimensions.width), dimensions.width - x)),
+    height: Math.max(1, Math.min(Math.round(crop.height * dimensions.height), dimensions.height - y)),
+    rotation: crop.rotation || 0,
+    flipHorizontal: !!crop.flipHorizontal,
+    flipVertical: !!crop.flipVertical
+  };
+};
+
+const GRAIN_DEFAULTS = { amount: 0, size: 50, roughness: 50 };
+
+/**
+ * Turn parsed XMP settings into preset fields. Groups are chosen from the
+ * settings the file actually contains; anything no group stores is reported
+ * alongside the settings the parser couldn't map.
+ */
+const fromXmp = (parsed) => {
+  const groups = Object.keys(PRESET_GROUPS).filter(group =>
+    group === 'crop'
+      ? !!parsed.crop
+      : PRESET_GROUPS[group].some(key => parsed.settings[key] !== undefined)
+  );
+
+  const settings = { ...parsed.settings };
+  // Presets replace whole settings, so fill in the grain values the file left out
+  if (settings.grain) {
+    settings.grain = { ...GRAIN_DEFAULTS, ...settings.grain };
+  }
+
+  const stored = Object.values(PRESET_GROUPS).reduce((keys, group) => keys.concat(group), []);
+  const dropped = Object.keys(settings).filter(key => !stored.includes(key));
+
+  return {
+    groups,
+    adjustments: pickGroups(settings, groups),
+    crop: parsed.crop ? { ...parsed.crop, flipHorizontal: false, flipVertical: false } : null,
+    unsupported: [...parsed.unsupported, ...dropped]
+  };
+};
+
+// Download name for an XMP file, keeping it safe for a Content-Disposition header
+const xmpFilename = (name) => `${String(name).replace(/["\\/\r\n]/g, '').trim() || 'settings'}.xmp`;
+
+module.exports = {
+  PRESET_GROUPS,
+  pickGroups,
+  toRelativeCrop,
+  toPixelCrop,
+  fromXmp,
+  xmpFilename
+};
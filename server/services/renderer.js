@@ -0,0 +1,83 @@
+const sharp = require('sharp');
+const { processImage } = require('lightroom-clone-shared');
+
+// Output encoders supported by the export endpoint
+const EXPORT_FORMATS = {
+  jpeg: { extension: '.jpg', mimeType: 'image/jpeg' },
+  png: { extension: '.png', mimeType: 'image/png' },
+  tiff: { extension: '.tiff', mimeType: 'image/tiff' },
+  webp: { extension: '.webp', mimeType: 'image/webp' }
+};
+
+const toPlain = (value) => (value && typeof value.toObject === 'function' ? value.toObject() : value);
+
+// Decode the original at full resolution and run it through the shared pipeline,
+// the same code the editor preview uses, then resize the result for output.
+// Greyscale and CMYK originals are converted so the pipeline always gets RGBA.
+const renderPixels = async (project, settings) => {
+  const { data, info } = await sharp(project.image.path)
+    .toColourspace('srgb')
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const rendered = processImage(
+    { data, width: info.width, height: info.height },
+    toPlain(project.adjustments) || {},
+    toPlain(project.crop),
+    { masks: toPlain(project.masks), spots: toPlain(project.spots) }
+  );
+
+  let pipeline = sharp(Buffer.from(rendered.data.buffer, rendered.data.byteOffset, rendered.data.byteLength), {
+    raw: { width: rendered.width, height: rendered.height, channels: 4 }
+  });
+
+  if (settings.width || settings.height) {
+    pipeline = pipeline.resize(settings.width || null, settings.height || null, {
+      fit: settings.maintainAspectRatio === false ? 'fill' : 'inside',
+      withoutEnlargement: true
+    });
+  }
+
+  return pipeline.raw().toBuffer({ resolveWithObject: true });
+};
+
+const encode = (data, info, settings) => {
+  const image = sharp(data, {
+    raw: { width: info.width, height: info.height, channels: info.channels }
+  });
+  const quality = settings.quality || 90;
+
+  switch (settings.format) {
+    case 'png':
+      return image.png().toBuffer({ resolveWithObject: true });
+    case 'tiff':
+      return image.tiff({ quality }).toBuffer({ resolveWithObject: true });
+    case 'webp':
+      return image.webp({ quality }).toBuffer({ resolveWithObject: true });
+    case 'jpeg':
+    default:
+      return image.jpeg({ quality }).toBuffer({ resolveWithObject: true });
+  }
+};
+
+/**
+ * Render a project's original with its spots, crop, adjustments and masks and encode it.
+ * Returns the encoded buffer along with its final width and height.
+ */
+const renderProject = async (project, settings) => {
+  const { data, info } = await renderPixels(project, settings);
+  const encoded = await encode(data, info, settings);
+
+  return {
+    buffer: encoded.data,
+    width: encoded.info.width,
+    height: encoded.info.height,
+    size: encoded.info.size
+  };
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  renderProject
+};
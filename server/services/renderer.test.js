@@ -0,0 +1,45 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const sharp = require('sharp');
+const { renderProject } = require('./renderer');
+
+const WIDTH = 8;
+const HEIGHT = 4;
+
+// A one-channel greyscale ramp, the way scanners and monochrome cameras save photos
+const greyLevels = Buffer.from(Array.from({ length: WIDTH * HEIGHT }, (_, i) => i * 8));
+
+let directory;
+let greyscalePath;
+
+beforeAll(async () => {
+  directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'renderer-'));
+  greyscalePath = path.join(directory, 'greyscale.png');
+  await sharp(greyLevels, { raw: { width: WIDTH, height: HEIGHT, channels: 1 } })
+    .toColourspace('b-w')
+    .png()
+    .toFile(greyscalePath);
+});
+
+afterAll(async () => {
+  await fs.promises.rm(directory, { recursive: true, force: true });
+});
+
+describe('renderProject', () => {
+  it('exports greyscale originals as the same grey levels', async () => {
+    expect((await sharp(greyscalePath).metadata()).channels).toBe(1);
+
+    const project = { image: { path: greyscalePath }, adjustments: {}, crop: null, masks: [], spots: [] };
+
+    const rendered = await renderProject(project, { format: 'png' });
+    const { data, info } = await sharp(rendered.buffer).raw().toBuffer({ resolveWithObject: true });
+
+    expect(rendered.width).toBe(WIDTH);
+    expect(rendered.height).toBe(HEIGHT);
+    for (let i = 0; i < WIDTH * HEIGHT; i++) {
+      const pixel = Array.from(data.subarray(i * info.channels, i * info.channels + 3));
+      expect(pixel).toEqual([greyLevels[i], greyLevels[i], greyLevels[i]]);
+    }
+  });
+});
@@ -0,0 +1,86 @@
+const path = require('path');
+const fs = require('fs').promises;
+const { parseXmp, buildXmp } = require('lightroom-clone-shared');
+const { fromXmp, toRelativeCrop, toPixelCrop } = require('./presets');
+
+// Lightroom names a sidecar after the image (IMG_0001.xmp), darktable after
+// the whole filename (IMG_0001.jpg.xmp); accept either
+const findSidecar = (imageName, sidecars) => {
+  const base = path.parse(imageName).name.toLowerCase();
+  const full = imageName.toLowerCase();
+
+  return sidecars.find(sidecar => {
+    const name = path.parse(sidecar.originalname).name.toLowerCase();
+    return name === base || name === full;
+  }) || null;
+};
+
+/**
+ * Project fields from an XMP packet. Develop settings are skipped when
+ * Lightroom marked them as already rendered into the image, as it does for
+ * the XMP embedded in exported JPEGs.
+ */
+const projectFieldsFromXmp = (xml, dimensions) => {
+  const parsed = parseXmp(xml);
+  const { title, description, rating, keywords } = parsed.metadata;
+  const fields = {
+    title,
+    description,
+    rating,
+    tags: (keywords || []).map(keyword => keyword.toLowerCase().slice(0, 30))
+  };
+
+  if (!parsed.alreadyApplied) {
+    const { adjustments, crop, unsupported } = fromXmp(parsed);
+    fields.adjustments = adjustments;
+    fields.crop = crop ? toPixelCrop(crop, dimensions) : null;
+    fields.unsupported = unsupported;
+  }
+
+  return fields;
+};
+
+/**
+ * Fields for a new upload from its XMP: a sidecar file wins over the packet
+ * embedded in the image. Returns null when there is neither.
+ */
+const importUploadXmp = async (sidecarFile, embeddedXmp, dimensions) => {
+  let source = null;
+  let xmp = null;
+
+  if (sidecarFile) {
+    try {
+      xmp = await fs.readFile(sidecarFile.path, 'utf8');
+      source = 'sidecar';
+    } catch (error) {
+      console.error('Error reading XMP sidecar:', error);
+    }
+  }
+  if (!xmp && embeddedXmp) {
+    xmp = embeddedXmp;
+    source = 'embedded';
+  }
+
+  return xmp ? { source, ...projectFieldsFromXmp(xmp, dimensions) } : null;
+};
+
+// XMP sidecar carrying a project's edits and catalogue fields to other tools
+const buildSidecar = (project) => buildXmp({
+  settings: project.adjustments.toObject(),
+  crop: toRelativeCrop(project.crop, project.image.dimensions),
+  metadata: {
+    title: project.title,
+    description: project.description || undefined,
+    rating: project.rating,
+    keywords: project.tags
+  }
+});
+
+const sidecarFilename = (project) => `${path.parse(project.image.originalFilename).name}.xmp`;
+
+module.exports = {
+  findSidecar,
+  importUploadXmp,
+  buildSidecar,
+  sidecarFilename
+};
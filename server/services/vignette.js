@@ -0,0 +1,57 @@
+const Project = require('../models/Project');
+const Preset = require('../models/Preset');
+
+// Vignettes were a single amount before midpoint, roundness and feather
+const LEGACY_VIGNETTE = { $type: 'number' };
+
+const isLegacy = (adjustments) => !!adjustments && typeof adjustments.vignette === 'number';
+
+/**
+ * Turn vignette amounts stored on projects, their snapshots and presets
+ * into vignette settings. History entries keep their old values; the
+ * project schema converts them if one is reverted to. Safe to run
+ * repeatedly; returns the number of documents migrated.
+ */
+const migrateLegacyVignette = async () => {
+  const projects = await Project.collection
+    .find({
+      $or: [
+        { 'adjustments.vignette': LEGACY_VIGNETTE },
+        { 'snapshots.adjustments.vignette': LEGACY_VIGNETTE }
+      ]
+    })
+    .project({ 'adjustments.vignette': 1, 'snapshots.adjustments.vignette': 1 })
+    .toArray();
+
+  for (const project of projects) {
+    const update = {};
+    if (isLegacy(project.adjustments)) {
+      update['adjustments.vignette'] = { amount: project.adjustments.vignette };
+    }
+    (project.snapshots || []).forEach((snapshot, index) => {
+      if (isLegacy(snapshot.adjustments)) {
+        update[`snapshots.${index}.adjustments.vignette`] = { amount: snapshot.adjustments.vignette };
+      }
+    });
+
+    await Project.collection.updateOne({ _id: project._id }, { $set: update });
+  }
+
+  const presets = await Preset.collection
+    .find({ 'adjustments.vignette': LEGACY_VIGNETTE })
+    .project({ 'adjustments.vignette': 1 })
+    .toArray();
+
+  for (const preset of presets) {
+    await Preset.collection.updateOne(
+      { _id: preset._id },
+      { $set: { 'adjustments.vignette': { amount: preset.adjustments.vignette } } }
+    );
+  }
+
+  return projects.length + presets.length;
+};
+
+module.exports = {
+  migrateLegacyVignette
+};
@@ -0,0 +1,59 @@
+const Project = require('../models/Project');
+const Preset = require('../models/Preset');
+const { toKelvin } = require('lightroom-clone-shared');
+
+// Temperatures were relative (-100..100) before white balance moved to Kelvin
+const LEGACY_TEMPERATURE = { $gte: -100, $lte: 100 };
+
+const isLegacy = (adjustments) =>
+  !!adjustments && typeof adjustments.temperature === 'number' && Math.abs(adjustments.temperature) <= 100;
+
+/**
+ * Convert relative temperatures stored on projects, their snapshots and
+ * presets to Kelvin. History entries keep their old values; the project
+ * schema converts them if one is reverted to. Safe to run repeatedly;
+ * returns the number of documents migrated.
+ */
+const migrateLegacyTemperature = async () => {
+  const projects = await Project.collection
+    .find({
+      $or: [
+        { 'adjustments.temperature': LEGACY_TEMPERATURE },
+        { 'snapshots.adjustments.temperature': LEGACY_TEMPERATURE }
+      ]
+    })
+    .project({ 'adjustments.temperature': 1, 'snapshots.adjustments.temperature': 1 })
+    .toArray();
+
+  for (const project of projects) {
+    const update = {};
+    if (isLegacy(project.adjustments)) {
+      update['adjustments.temperature'] = toKelvin(project.adjustments.temperature);
+    }
+    (project.snapshots || []).forEach((snapshot, index) => {
+      if (isLegacy(snapshot.adjustments)) {
+        update[`snapshots.${index}.adjustments.temperature`] = toKelvin(snapshot.adjustments.temperature);
+      }
+    });
+
+    await Project.collection.updateOne({ _id: project._id }, { $set: update });
+  }
+
+  const presets = await Preset.collection
+    .find({ 'adjustments.temperature': LEGACY_TEMPERATURE })
+    .project({ 'adjustments.temperature': 1 })
+    .toArray();
+
+  for (const preset of presets) {
+    await Preset.collection.updateOne(
+      { _id: preset._id },
+      { $set: { 'adjustments.temperature': toKelvin(preset.adjustments.temperature) } }
+    );
+  }
+
+  return projects.length + presets.length;
+};
+
+module.exports = {
+  migrateLegacyTemperature
+};
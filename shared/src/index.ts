@@ -0,0 +1,30 @@
+export * from './pipeline/types';
+export { processImage } from './pipeline/process';
+export { applyAdjustments } from './pipeline/adjustments';
+export { applyGeometry, croppedSize, normalizeCrop, sourceMapping } from './pipeline/geometry';
+export { MASK_ADJUSTMENTS, applyMasks, maskWeights } from './pipeline/masks';
+export { MAX_BRUSH_POINTS } from './pipeline/brush';
+export { MAX_RANGE_COLORS } from './pipeline/range';
+export { MAX_SPOTS, MAX_SPOT_POINTS, applySpots, findSpotSource } from './pipeline/spots';
+export {
+  PARAMETRIC_SPLITS,
+  buildCurveLUT,
+  buildParametricLUT,
+  buildToneCurveLUTs,
+  normalizeCurvePoints
+} from './pipeline/curves';
+export { computeHistogram } from './pipeline/histogram';
+export { SKIN_TONE_ANGLE, computeScopes, vectorscopePoint } from './pipeline/scopes';
+export { HSL_BANDS, hueWeights, hslBandWeights } from './pipeline/hsl';
+export {
+  NEUTRAL_KELVIN,
+  MIN_KELVIN,
+  MAX_KELVIN,
+  incrementalToKelvin,
+  kelvinToIncremental,
+  toKelvin,
+  solveWhiteBalance
+} from './pipeline/whiteBalance';
+export * from './xmp/types';
+export { parseXmp } from './xmp/parse';
+export { buildXmp } from './xmp/build';
@@ -0,0 +1,197 @@
+import { SRGB_TO_LINEAR, clamp, encodeSrgb, luminance, toByte } from './color';
+import { buildToneCurveLUTs, sampleLUT } from './curves';
+import { applyDetail } from './detail';
+import { applyGrading, buildGradingTable } from './grading';
+import { buildHslTable, mixHsl } from './hsl';
+import { hashNoise, smoothNoise } from './noise';
+import { PipelineAdjustments, PixelBuffer, VignetteSettings } from './types';
+import { whiteBalanceMatrix } from './whiteBalance';
+
+type Vignette = Required<Omit<VignetteSettings, 'enabled'>>;
+
+// A legacy number is just the amount, with the other settings at their defaults
+const vignetteSettings = (vignette: PipelineAdjustments['vignette']): Vignette => {
+  const settings: VignetteSettings = typeof vignette === 'number' ? { amount: vignette } : vignette || {};
+  return {
+    amount: settings.enabled === false ? 0 : settings.amount || 0,
+    midpoint: typeof settings.midpoint === 'number' ? settings.midpoint : 50,
+    roundness: typeof settings.roundness === 'number' ? settings.roundness : 0,
+    feather: typeof settings.feather === 'number' ? settings.feather : 50
+  };
+};
+
+/**
+ * Vignette weight (0-1) for a pixel offset from the centre. The shape
+ * follows the frame at roundness 0, turns into a circle towards 100 and
+ * squarer towards -100, scaled so the corners sit at about distance 1.
+ * The falloff is centred on the midpoint and as wide as the feather.
+ */
+const vignetteFalloff = (settings: Vignette, width: number, height: number) => {
+  const roundness = clamp(settings.roundness / 100, -1, 1);
+  const power = 2 + Math.max(-roundness, 0) * 6;
+  const reach = Math.pow(2, 1 / power);
+  const diagonal = Math.sqrt(width * width + height * height) / 2;
+  const circle = Math.max(roundness, 0);
+  const axisX = Math.max((width / 2) * reach * (1 - circle) + diagonal * circle, 1e-6);
+  const axisY = Math.max((height / 2) * reach * (1 - circle) + diagonal * circle, 1e-6);
+
+  const halfWidth = 0.3 * clamp(settings.feather / 50, 0, 2);
+  const start = 0.2 + clamp(settings.midpoint, 0, 100) / 100 - halfWidth;
+  const span = Math.max(halfWidth * 2, 1e-3);
+
+  return (dx: number, dy: number): number => {
+    const u = Math.abs(dx) / axisX;
+    const v = Math.abs(dy) / axisY;
+    const distance = power === 2
+      ? Math.sqrt(u * u + v * v)
+      : Math.pow(Math.pow(u, power) + Math.pow(v, power), 1 / power);
+    const weight = clamp((distance - start) / span);
+    return weight * weight;
+  };
+};
+
+/**
+ * Apply global adjustments to RGBA pixels in place, in this fixed order:
+ * texture, clarity and dehaze, white balance and exposure (linear light),
+ * contrast, highlights/shadows, whites/blacks, tone curve, color mixer,
+ * vibrance/saturation, color grading, vignette and grain.
+ * Alpha is left untouched.
+ */
+export const applyAdjustments = (
+  image: PixelBuffer,
+  adjustments: PipelineAdjustments = {},
+  scale = 1
+): PixelBuffer => {
+  applyDetail(image, adjustments);
+  const { data, width, height } = image;
+
+  const exposure = adjustments.exposure || 0;
+  const contrast = (adjustments.contrast || 0) / 100;
+  const highlights = (adjustments.highlights || 0) / 100;
+  const shadows = (adjustments.shadows || 0) / 100;
+  const whites = (adjustments.whites || 0) / 100;
+  const blacks = (adjustments.blacks || 0) / 100;
+  const vibrance = (adjustments.vibrance || 0) / 100;
+  const saturation = (adjustments.saturation || 0) / 100;
+  const vignetteOptions = vignetteSettings(adjustments.vignette);
+  const vignette = vignetteOptions.amount / 100;
+  const vignetteWeight = vignetteFalloff(vignetteOptions, width, height);
+
+  const grain = adjustments.grain || {};
+  const grainAmount = grain.enabled === false ? 0 : (grain.amount || 0) / 100;
+  const grainSize = typeof grain.size === 'number' ? grain.size : 50;
+  const grainRoughness = (typeof grain.roughness === 'number' ? grain.roughness : 50) / 100;
+  const grainCell = 1 + (grainSize / 100) * 3;
+
+  // White balance adaptation and exposure as one linear-light matrix
+  const exposureGain = Math.pow(2, exposure);
+  const balance = (whiteBalanceMatrix(adjustments.temperature, adjustments.tint) || [1, 0, 0, 0, 1, 0, 0, 0, 1])
+    .map(value => value * exposureGain);
+
+  // Black and white points
+  const blackPoint = -blacks * 0.1;
+  const whitePoint = 1 - whites * 0.1;
+  const pointRange = whitePoint - blackPoint;
+
+  const contrastFactor = 1 + contrast;
+  const toneCurve = buildToneCurveLUTs(adjustments.curves, adjustments.toneCurve);
+  const hslTable = buildHslTable(adjustments.hslAdjustments);
+  const gradingTable = buildGradingTable(adjustments.colorGrading);
+  const mixed = [0, 0, 0];
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+
+      const lr = SRGB_TO_LINEAR[data[i]];
+      const lg = SRGB_TO_LINEAR[data[i + 1]];
+      const lb = SRGB_TO_LINEAR[data[i + 2]];
+      let r = encodeSrgb(balance[0] * lr + balance[1] * lg + balance[2] * lb);
+      let g = encodeSrgb(balance[3] * lr + balance[4] * lg + balance[5] * lb);
+      let b = encodeSrgb(balance[6] * lr + balance[7] * lg + balance[8] * lb);
+
+      // Contrast around mid grey
+      if (contrast !== 0) {
+        r = (r - 0.5) * contrastFactor + 0.5;
+        g = (g - 0.5) * contrastFactor + 0.5;
+        b = (b - 0.5) * contrastFactor + 0.5;
+      }
+
+      // Highlights and shadows weighted by luminance
+      if (highlights !== 0 || shadows !== 0) {
+        const lum = clamp(luminance(r, g, b));
+        const shadowWeight = (1 - lum) * (1 - lum);
+        const highlightWeight = lum * lum;
+        const offset = shadows * 0.25 * shadowWeight + highlights * 0.25 * highlightWeight;
+        r += offset;
+        g += offset;
+        b += offset;
+      }
+
+      // Whites and blacks move the end points of the tonal range
+      if (whites !== 0 || blacks !== 0) {
+        r = (r - blackPoint) / pointRange;
+        g = (g - blackPoint) / pointRange;
+        b = (b - blackPoint) / pointRange;
+      }
+
+      if (toneCurve) {
+        r = sampleLUT(toneCurve[0], r);
+        g = sampleLUT(toneCurve[1], g);
+        b = sampleLUT(toneCurve[2], b);
+      }
+
+      if (hslTable) {
+        mixHsl(hslTable, r, g, b, mixed);
+        r = mixed[0];
+        g = mixed[1];
+        b = mixed[2];
+      }
+
+      // Vibrance boosts muted colours more than saturated ones
+      if (vibrance !== 0 || saturation !== 0) {
+        const lum = luminance(r, g, b);
+        const currentSaturation = Math.max(r, g, b) - Math.min(r, g, b);
+        const factor = (1 + saturation) * (1 + vibrance * (1 - clamp(currentSaturation)));
+        r = lum + (r - lum) * factor;
+        g = lum + (g - lum) * factor;
+        b = lum + (b - lum) * factor;
+      }
+
+      if (gradingTable) {
+        applyGrading(gradingTable, r, g, b, mixed);
+        r = mixed[0];
+        g = mixed[1];
+        b = mixed[2];
+      }
+
+      if (vignette !== 0) {
+        const factor = 1 + vignette * vignetteWeight(x + 0.5 - centerX, y + 0.5 - centerY);
+        r *= factor;
+        g *= factor;
+        b *= factor;
+      }
+
+      // Grain is laid out in original image pixels so previews match exports
+      if (grainAmount > 0) {
+        const gx = Math.floor(x / scale);
+        const gy = Math.floor(y / scale);
+        const fine = hashNoise(gx, gy);
+        const coarse = smoothNoise(gx, gy, grainCell);
+        const noise = (coarse + (fine - coarse) * grainRoughness - 0.5) * grainAmount * 0.3;
+        r += noise;
+        g += noise;
+        b += noise;
+      }
+
+      data[i] = toByte(r);
+      data[i + 1] = toByte(g);
+      data[i + 2] = toByte(b);
+    }
+  }
+
+  return image;
+};
@@ -0,0 +1,199 @@
+import { clamp, smoothstep } from './color';
+import { BrushStroke, MaskWeights, PixelBuffer } from './types';
+
+// Brush masks are painted on a grid this many cells along the original's
+// longest edge, whatever the size of the render, so a preview and an
+// export paint the same mask
+export const BRUSH_GRID_SIZE = 1024;
+
+// Brush points a project can hold across all its masks. Every edit stores
+// them in the project and its history, so they're kept well within a
+// database document.
+export const MAX_BRUSH_POINTS = 20000;
+
+// Dabs are laid down this share of the brush radius apart along a stroke
+const DAB_SPACING = 0.25;
+
+// Auto mask paints colors up to this far (RGB distance, 0-255 channels)
+// from the one under the brush centre fully, fading out by the cutoff
+const AUTO_MASK_TOLERANCE = 16;
+const AUTO_MASK_CUTOFF = 48;
+
+const percent = (value: number | undefined, fallback: number): number =>
+  clamp((typeof value === 'number' ? value : fallback) / 100);
+
+// Grid cells across and down for an image of this shape
+const gridSize = (width: number, height: number) => {
+  const factor = BRUSH_GRID_SIZE / Math.max(width, height, 1);
+  return {
+    width: Math.max(1, Math.round(width * factor)),
+    height: Math.max(1, Math.round(height * factor))
+  };
+};
+
+// Average source color under each grid cell, three floats per cell
+const cellColors = (pixels: PixelBuffer, width: number, height: number): Float32Array => {
+  // Source pixels each cell covers along one axis, at least one
+  const spans = (cells: number, size: number) => Array.from({ length: cells }, (_, cell) => {
+    const start = Math.min(Math.floor((cell * size) / cells), size - 1);
+    return [start, Math.max(start + 1, Math.min(Math.ceil(((cell + 1) * size) / cells), size))];
+  });
+  const columns = spans(width, pixels.width);
+  const rows = spans(height, pixels.height);
+  const colors = new Float32Array(width * height * 3);
+
+  for (let cy = 0; cy < height; cy++) {
+    const [top, bottom] = rows[cy];
+    for (let cx = 0; cx < width; cx++) {
+      const [left, right] = columns[cx];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          const i = (y * pixels.width + x) * 4;
+          r += pixels.data[i];
+          g += pixels.data[i + 1];
+          b += pixels.data[i + 2];
+        }
+      }
+      const count = (bottom - top) * (right - left);
+      const cell = (cy * width + cx) * 3;
+      colors[cell] = r / count;
+      colors[cell + 1] = g / count;
+      colors[cell + 2] = b / count;
+    }
+  }
+
+  return colors;
+};
+
+/**
+ * Paint brush strokes onto a grid the shape of the original image. Within
+ * a stroke each dab adds `flow` of what's left, so slow strokes build up;
+ * the stroke then raises the mask towards its density, or erases it by
+ * that much. `pixels` is the source image at any size; without it, auto
+ * mask strokes paint as plain ones.
+ */
+export const paintBrush = (
+  strokes: BrushStroke[],
+  sourceWidth: number,
+  sourceHeight: number,
+  pixels?: PixelBuffer | null
+): MaskWeights => {
+  const { width, height } = gridSize(sourceWidth, sourceHeight);
+  const data = new Float32Array(width * height);
+  const coverage = new Float32Array(width * height);
+  const colors = pixels && strokes.some(stroke => stroke.autoMask) ? cellColors(pixels, width, height) : null;
+
+  strokes.forEach(stroke => {
+    const { points } = stroke;
+    if (!points || points.length < 2) return;
+
+    const radius = Math.max(stroke.size * BRUSH_GRID_SIZE, 0.5);
+    const feather = percent(stroke.feather, 50);
+    const inner = 1 - feather;
+    const flow = percent(stroke.flow, 100);
+    const density = percent(stroke.density, 100);
+    const edges = stroke.autoMask ? colors : null;
+    // Cells the stroke touched, so only those are merged and cleared
+    let minX = width;
+    let minY = height;
+    let maxX = -1;
+    let maxY = -1;
+
+    const dab = (centerX: number, centerY: number) => {
+      const left = Math.max(0, Math.floor(centerX - radius));
+      const right = Math.min(width - 1, Math.ceil(centerX + radius));
+      const top = Math.max(0, Math.floor(centerY - radius));
+      const bottom = Math.min(height - 1, Math.ceil(centerY + radius));
+      if (left > right || top > bottom) return;
+
+      minX = Math.min(minX, left);
+      maxX = Math.max(maxX, right);
+      minY = Math.min(minY, top);
+      maxY = Math.max(maxY, bottom);
+
+      let reference = -1;
+      if (edges) {
+        const cx = Math.min(Math.max(Math.floor(centerX), 0), width - 1);
+        const cy = Math.min(Math.max(Math.floor(centerY), 0), height - 1);
+        reference = (cy * width + cx) * 3;
+      }
+
+      for (let y = top; y <= bottom; y++) {
+        for (let x = left; x <= right; x++) {
+          const dx = x + 0.5 - centerX;
+          const dy = y + 0.5 - centerY;
+          const distance = Math.sqrt(dx * dx + dy * dy) / radius;
+          if (distance >= 1) continue;
+
+          let strength = distance <= inner ? flow : flow * (1 - smoothstep((distance - inner) / feather));
+          const index = y * width + x;
+          if (edges) {
+            const cell = index * 3;
+            const dr = edges[cell] - edges[reference];
+            const dg = edges[cell + 1] - edges[reference + 1];
+            const db = edges[cell + 2] - edges[reference + 2];
+            const difference = Math.sqrt(dr * dr + dg * dg + db * db);
+            if (difference >= AUTO_MASK_CUTOFF) continue;
+            if (difference > AUTO_MASK_TOLERANCE) {
+              strength *= 1 - smoothstep((difference - AUTO_MASK_TOLERANCE) / (AUTO_MASK_CUTOFF - AUTO_MASK_TOLERANCE));
+            }
+          }
+          coverage[index] += (1 - coverage[index]) * strength;
+        }
+      }
+    };
+
+    // Dabs at even spacing along the path, carrying over between segments
+    const spacing = Math.max(radius * DAB_SPACING, 0.5);
+    let x = points[0] * width;
+    let y = points[1] * height;
+    let carried = 0;
+    dab(x, y);
+    for (let i = 2; i + 1 < points.length; i += 2) {
+      const nextX = points[i] * width;
+      const nextY = points[i + 1] * height;
+      const length = Math.sqrt((nextX - x) * (nextX - x) + (nextY - y) * (nextY - y));
+      let along = spacing - carried;
+      for (; along <= length; along += spacing) {
+        dab(x + ((nextX - x) * along) / length, y + ((nextY - y) * along) / length);
+      }
+      carried = length - (along - spacing);
+      x = nextX;
+      y = nextY;
+    }
+
+    for (let cy = minY; cy <= maxY; cy++) {
+      for (let cx = minX; cx <= maxX; cx++) {
+        const index = cy * width + cx;
+        const amount = coverage[index];
+        if (amount === 0) continue;
+        if (stroke.erase) {
+          data[index] *= 1 - amount * density;
+        } else if (data[index] < density) {
+          data[index] += (density - data[index]) * amount;
+        }
+        coverage[index] = 0;
+      }
+    }
+  });
+
+  return { width, height, data };
+};
+
+// Bilinear lookup at a point in grid cells, with cell centres at x + 0.5
+export const sampleBrush = ({ width, height, data }: MaskWeights, x: number, y: number): number => {
+  const fx = Math.min(Math.max(x - 0.5, 0), width - 1);
+  const fy = Math.min(Math.max(y - 0.5, 0), height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const top = data[y0 * width + x0] + (data[y0 * width + x1] - data[y0 * width + x0]) * tx;
+  const bottom = data[y1 * width + x0] + (data[y1 * width + x1] - data[y1 * width + x0]) * tx;
+  return top + (bottom - top) * ty;
+};
@@ -0,0 +1,44 @@
+export const clamp = (value: number, min = 0, max = 1): number =>
+  value < min ? min : value > max ? max : value;
+
+// Eases 0-1 in and out, for soft mask and brush edges
+export const smoothstep = (t: number): number => t * t * (3 - 2 * t);
+
+export const srgbToLinear = (v: number): number =>
+  v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+
+export const linearToSrgb = (v: number): number =>
+  v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+// Rec. 709 luma weights
+export const luminance = (r: number, g: number, b: number): number =>
+  0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+// Decoding table for 8-bit sRGB values
+export const SRGB_TO_LINEAR = (() => {
+  const table = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    table[i] = srgbToLinear(i / 255);
+  }
+  return table;
+})();
+
+// Encoding table sampled finely enough that rounding to 8 bits is exact
+const ENCODE_STEPS = 4096;
+const LINEAR_TO_SRGB = (() => {
+  const table = new Float32Array(ENCODE_STEPS + 1);
+  for (let i = 0; i <= ENCODE_STEPS; i++) {
+    table[i] = linearToSrgb(i / ENCODE_STEPS);
+  }
+  return table;
+})();
+
+export const encodeSrgb = (v: number): number => {
+  const position = clamp(v) * ENCODE_STEPS;
+  const index = Math.floor(position);
+  if (index >= ENCODE_STEPS) return LINEAR_TO_SRGB[ENCODE_STEPS];
+  const t = position - index;
+  return LINEAR_TO_SRGB[index] + (LINEAR_TO_SRGB[index + 1] - LINEAR_TO_SRGB[index]) * t;
+};
+
+export const toByte = (v: number): number => Math.round(clamp(v) * 255);
@@ -0,0 +1,197 @@
+import { clamp } from './color';
+import { CurvePoint, LegacyCurvePoint, ParametricCurveSettings, ToneCurveSettings } from './types';
+
+export type CurveLUT = Float32Array;
+
+// Accept both {x, y} and {input, output} points, dropping anything malformed
+export const normalizeCurvePoints = (points?: Array<CurvePoint | LegacyCurvePoint>): CurvePoint[] => {
+  if (!Array.isArray(points)) return [];
+
+  return points
+    .map(point => {
+      if (!point) return null;
+      if ('x' in point && typeof point.x === 'number' && typeof point.y === 'number') {
+        return { x: point.x, y: point.y };
+      }
+      if ('input' in point && typeof point.input === 'number' && typeof point.output === 'number') {
+        return { x: point.input, y: point.output };
+      }
+      return null;
+    })
+    .filter((point): point is CurvePoint => point !== null)
+    .sort((a, b) => a.x - b.x);
+};
+
+export const isIdentityCurve = (points: CurvePoint[]): boolean =>
+  points.length < 2 || points.every(point => point.x === point.y);
+
+// Tangent at an interior point, limited so the curve never overshoots its
+// neighbours (Steffen's method, which d3.curveMonotoneX also uses)
+const interiorSlope = (h0: number, h1: number, s0: number, s1: number): number => {
+  const p = (s0 * h1 + s1 * h0) / (h0 + h1);
+  const sign = (v: number) => (v < 0 ? -1 : 1);
+  return (sign(s0) + sign(s1)) * Math.min(Math.abs(s0), Math.abs(s1), 0.5 * Math.abs(p)) || 0;
+};
+
+// Tangent at an end point, from the segment and the tangent at its other end
+const endSlope = (slope: number, inner: number): number => (3 * slope - inner) / 2;
+
+/**
+ * Build a 256 entry lookup table (values 0-1) from curve points with a
+ * monotone cubic spline, matching the curve the editor draws.
+ */
+export const buildCurveLUT = (input: CurvePoint[]): CurveLUT => {
+  const lut = new Float32Array(256);
+
+  // Points sharing an input can't both be on the curve; keep the last one
+  const points = input.filter((point, index) => index === input.length - 1 || input[index + 1].x !== point.x);
+
+  if (points.length < 2) {
+    for (let i = 0; i < 256; i++) lut[i] = i / 255;
+    return lut;
+  }
+
+  const n = points.length;
+  const widths: number[] = [];
+  const slopes: number[] = [];
+  for (let k = 0; k < n - 1; k++) {
+    widths.push(points[k + 1].x - points[k].x);
+    slopes.push((points[k + 1].y - points[k].y) / widths[k]);
+  }
+
+  const tangents = new Array<number>(n);
+  if (n === 2) {
+    tangents[0] = slopes[0];
+    tangents[1] = slopes[0];
+  } else {
+    for (let k = 1; k < n - 1; k++) {
+      tangents[k] = interiorSlope(widths[k - 1], widths[k], slopes[k - 1], slopes[k]);
+    }
+    tangents[0] = endSlope(slopes[0], tangents[1]);
+    tangents[n - 1] = endSlope(slopes[n - 2], tangents[n - 2]);
+  }
+
+  let segment = 0;
+  for (let i = 0; i < 256; i++) {
+    while (segment < n - 2 && i > points[segment + 1].x) {
+      segment++;
+    }
+    const p0 = points[segment];
+    const p1 = points[segment + 1];
+
+    let y: number;
+    if (i <= p0.x) {
+      y = p0.y;
+    } else if (i >= p1.x) {
+      y = p1.y;
+    } else {
+      // Cubic Hermite between the two points
+      const h = widths[segment];
+      const t = (i - p0.x) / h;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      y = (2 * t3 - 3 * t2 + 1) * p0.y +
+        (t3 - 2 * t2 + t) * h * tangents[segment] +
+        (-2 * t3 + 3 * t2) * p1.y +
+        (t3 - t2) * h * tangents[segment + 1];
+    }
+    lut[i] = clamp(y / 255);
+  }
+
+  return lut;
+};
+
+export const sampleLUT = (lut: CurveLUT, v: number): number => {
+  const position = clamp(v) * 255;
+  const index = Math.floor(position);
+  if (index >= 255) return lut[255];
+  const t = position - index;
+  return lut[index] + (lut[index + 1] - lut[index]) * t;
+};
+
+export const PARAMETRIC_SPLITS = { shadowSplit: 25, midtoneSplit: 50, highlightSplit: 75 };
+
+// Shift at a region's peak for +/-100, as a share of the distance to the
+// neighbouring peak, so a single region can't fold the curve over
+const PARAMETRIC_STRENGTH = 0.6;
+
+const split = (value: number | undefined, fallback: number, min: number, max: number): number =>
+  clamp((typeof value === 'number' ? value : fallback) / 100, min, max);
+
+const smooth = (w: number): number => w * w * (3 - 2 * w);
+
+/**
+ * Lookup table for the parametric curve, or null when every region slider is
+ * at zero. Each region bends the curve most at the middle of its range and
+ * fades out by the middle of its neighbours, so black and white stay put.
+ */
+export const buildParametricLUT = (parametric?: ParametricCurveSettings): CurveLUT | null => {
+  if (!parametric) return null;
+
+  const amounts = [parametric.shadows, parametric.darks, parametric.lights, parametric.highlights]
+    .map(amount => clamp(amount || 0, -100, 100) / 100);
+  if (amounts.every(amount => amount === 0)) return null;
+
+  const midtone = split(parametric.midtoneSplit, PARAMETRIC_SPLITS.midtoneSplit, 0.2, 0.8);
+  const shadow = split(parametric.shadowSplit, PARAMETRIC_SPLITS.shadowSplit, 0.1, midtone - 0.1);
+  const highlight = split(parametric.highlightSplit, PARAMETRIC_SPLITS.highlightSplit, midtone + 0.1, 0.9);
+
+  // Peaks of the shadows, darks, lights and highlights regions, between the ends
+  const anchors = [0, shadow / 2, (shadow + midtone) / 2, (midtone + highlight) / 2, (highlight + 1) / 2, 1];
+
+  const lut = new Float32Array(256);
+  let previous = 0;
+  for (let i = 0; i < 256; i++) {
+    const x = i / 255;
+    let y = x;
+    amounts.forEach((amount, region) => {
+      if (amount === 0) return;
+      const low = anchors[region];
+      const peak = anchors[region + 1];
+      const high = anchors[region + 2];
+      if (x <= low || x >= high) return;
+
+      const weight = x < peak ? smooth((x - low) / (peak - low)) : smooth((high - x) / (high - peak));
+      y += amount * weight * PARAMETRIC_STRENGTH * Math.min(peak - low, high - peak);
+    });
+    // Opposing neighbours can still cross; keep tones in order
+    previous = Math.max(previous, clamp(y));
+    lut[i] = previous;
+  }
+
+  return lut;
+};
+
+const channelLUT = (points?: Array<CurvePoint | LegacyCurvePoint>): CurveLUT | null => {
+  const normalized = normalizeCurvePoints(points);
+  return isIdentityCurve(normalized) ? null : buildCurveLUT(normalized);
+};
+
+/**
+ * Red, green and blue lookup tables combining the parametric curve, the RGB
+ * master curve and each channel's own curve, in that order. Returns null when
+ * none of them changes anything so the pipeline can skip the step.
+ */
+export const buildToneCurveLUTs = (
+  master?: Array<CurvePoint | LegacyCurvePoint>,
+  toneCurve: ToneCurveSettings = {}
+): [CurveLUT, CurveLUT, CurveLUT] | null => {
+  const parametric = buildParametricLUT(toneCurve.parametric);
+  const rgb = channelLUT(master);
+  const channels = [channelLUT(toneCurve.red), channelLUT(toneCurve.green), channelLUT(toneCurve.blue)];
+  if (!parametric && !rgb && channels.every(channel => !channel)) return null;
+
+  const shared = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    const base = parametric ? parametric[i] : i / 255;
+    shared[i] = rgb ? sampleLUT(rgb, base) : base;
+  }
+
+  const [red, green, blue] = channels.map(channel => {
+    if (!channel) return shared;
+    const lut = new Float32Array(256);
+    for (let i = 0; i < 256; i++) lut[i] = sampleLUT(channel, shared[i]);
+    return lut;
+  });
+  return [red, green, blue];
+};
@@ -0,0 +1,127 @@
+import { clamp, luminance, toByte } from './color';
+import { PipelineAdjustments, PixelBuffer } from './types';
+
+// Radii are shares of the image's longest edge, so previews and exports
+// pick out the same detail. Texture works on fine detail, clarity on
+// larger structures and dehaze on broad areas of haze.
+const TEXTURE_RADIUS = 0.003;
+export const CLARITY_RADIUS = 0.01;
+const DEHAZE_RADIUS = 0.03;
+
+// Dehaze never assumes less than this much light gets through the haze
+const MIN_TRANSMISSION = 0.1;
+
+const radiusFor = (image: PixelBuffer, share: number) =>
+  Math.max(1, Math.round(Math.max(image.width, image.height) * share));
+
+// Values averaged over a square around each pixel, as two box blur passes
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const blurLine = (input: Float32Array, output: Float32Array, start: number, step: number, length: number) => {
+    const at = (index: number) => input[start + Math.min(Math.max(index, 0), length - 1) * step];
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+      output[start + i * step] = sum / (radius * 2 + 1);
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  };
+
+  const horizontal = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) blurLine(values, horizontal, y * width, 1, width);
+  const blurred = new Float32Array(values.length);
+  for (let x = 0; x < width; x++) blurLine(horizontal, blurred, x, width, height);
+  return blurred;
+};
+
+// Luminance (0-1) averaged over a square around each pixel
+export const blurredLuminance = (image: PixelBuffer, radius: number): Float32Array => {
+  const { data, width, height } = image;
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) / 255;
+  }
+  return boxBlur(lum, width, height, radius);
+};
+
+/**
+ * Apply texture, clarity and dehaze to RGBA pixels in place. Each compares
+ * pixels with their surroundings, so they run on the whole image before
+ * the per-pixel adjustments.
+ */
+export const applyDetail = (image: PixelBuffer, adjustments: PipelineAdjustments = {}): PixelBuffer => {
+  const texture = (adjustments.texture || 0) / 100;
+  const clarity = (adjustments.clarity || 0) / 100;
+  const dehaze = (adjustments.dehaze || 0) / 100;
+  if (texture === 0 && clarity === 0 && dehaze === 0) return image;
+
+  const { data, width, height } = image;
+  const fine = texture !== 0 ? blurredLuminance(image, radiusFor(image, TEXTURE_RADIUS)) : null;
+  const coarse = clarity !== 0 ? blurredLuminance(image, radiusFor(image, CLARITY_RADIUS)) : null;
+
+  // Haze lifts the darkest channel everywhere it lies, so its local average
+  // says how much haze covers each area; the haze itself takes the colour
+  // of the brightest such area
+  let haze: Float32Array | null = null;
+  const airlight = [1, 1, 1];
+  if (dehaze !== 0) {
+    const dark = new Float32Array(width * height);
+    for (let p = 0; p < dark.length; p++) {
+      dark[p] = Math.min(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]) / 255;
+    }
+    haze = boxBlur(dark, width, height, radiusFor(image, DEHAZE_RADIUS));
+
+    let brightest = 0;
+    for (let p = 1; p < haze.length; p++) {
+      if (haze[p] > haze[brightest]) brightest = p;
+    }
+    for (let c = 0; c < 3; c++) {
+      airlight[c] = Math.max(data[brightest * 4 + c] / 255, haze[brightest], 1e-3);
+    }
+  }
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * 4;
+    let r = data[i] / 255;
+    let g = data[i + 1] / 255;
+    let b = data[i + 2] / 255;
+
+    // Texture brings out fine detail evenly across the tonal range
+    if (fine) {
+      const offset = (clamp(luminance(r, g, b)) - fine[p]) * texture * 2;
+      r += offset;
+      g += offset;
+      b += offset;
+    }
+
+    // Clarity pushes pixels away from their surroundings, mostly in the midtones
+    if (coarse) {
+      const lum = clamp(luminance(r, g, b));
+      const offset = (lum - coarse[p]) * clarity * 4 * lum * (1 - lum);
+      r += offset;
+      g += offset;
+      b += offset;
+    }
+
+    // Positive dehaze removes the estimated haze; negative adds more of it
+    if (haze) {
+      const cover = haze[p] / Math.max(airlight[0], airlight[1], airlight[2]);
+      if (dehaze > 0) {
+        const transmission = Math.max(1 - dehaze * 0.95 * cover, MIN_TRANSMISSION);
+        r = (r - airlight[0]) / transmission + airlight[0];
+        g = (g - airlight[1]) / transmission + airlight[1];
+        b = (b - airlight[2]) / transmission + airlight[2];
+      } else {
+        const amount = -dehaze * 0.6;
+        r += (airlight[0] - r) * amount;
+        g += (airlight[1] - g) * amount;
+        b += (airlight[2] - b) * amount;
+      }
+    }
+
+    data[i] = toByte(r);
+    data[i + 1] = toByte(g);
+    data[i + 2] = toByte(b);
+  }
+
+  return image;
+};
@@ -0,0 +1,157 @@
+import { PipelineCrop, PixelBuffer } from './types';
+
+export interface NormalizedCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+// Scale a crop into source pixels, clamp it to the image and unify flip names
+export const normalizeCrop = (
+  crop: PipelineCrop | null | undefined,
+  sourceWidth: number,
+  sourceHeight: number,
+  scale = 1
+): NormalizedCrop | null => {
+  if (!crop) return null;
+
+  const x = Math.max(0, Math.round((crop.x || 0) * scale));
+  const y = Math.max(0, Math.round((crop.y || 0) * scale));
+  const width = Math.min(Math.round(crop.width * scale), sourceWidth - x);
+  const height = Math.min(Math.round(crop.height * scale), sourceHeight - y);
+
+  if (!(width > 0 && height > 0)) return null;
+
+  return {
+    x,
+    y,
+    width,
+    height,
+    rotation: crop.rotation || 0,
+    flipHorizontal: !!(crop.flipHorizontal || crop.flipX),
+    flipVertical: !!(crop.flipVertical || crop.flipY)
+  };
+};
+
+const bilinear = (source: PixelBuffer, sx: number, sy: number, out: Uint8ClampedArray, offset: number) => {
+  const { data, width, height } = source;
+
+  if (sx < -0.5 || sy < -0.5 || sx > width - 0.5 || sy > height - 0.5) {
+    out[offset] = 0;
+    out[offset + 1] = 0;
+    out[offset + 2] = 0;
+    out[offset + 3] = 255;
+    return;
+  }
+
+  const fx = Math.min(Math.max(sx, 0), width - 1);
+  const fy = Math.min(Math.max(sy, 0), height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const i00 = (y0 * width + x0) * 4;
+  const i10 = (y0 * width + x1) * 4;
+  const i01 = (y1 * width + x0) * 4;
+  const i11 = (y1 * width + x1) * 4;
+
+  for (let c = 0; c < 4; c++) {
+    const top = data[i00 + c] + (data[i10 + c] - data[i00 + c]) * tx;
+    const bottom = data[i01 + c] + (data[i11 + c] - data[i01 + c]) * tx;
+    out[offset + c] = Math.round(top + (bottom - top) * ty);
+  }
+};
+
+const normalizeRotation = (rotation: number) => ((rotation % 360) + 360) % 360;
+
+// Output size of a crop; quarter turns swap its dimensions so nothing is lost
+export const croppedSize = (crop: NormalizedCrop) => {
+  const rotation = normalizeRotation(crop.rotation);
+  const quarterTurn = rotation === 90 || rotation === 270;
+  return {
+    width: quarterTurn ? crop.height : crop.width,
+    height: quarterTurn ? crop.width : crop.height
+  };
+};
+
+/**
+ * Map output pixels back into the source, in source pixel coordinates with
+ * pixel centres at whole numbers. Writes [x, y] into `out` to avoid
+ * allocating per pixel.
+ */
+export const sourceMapping = (
+  crop: NormalizedCrop | null
+): ((x: number, y: number, out: number[]) => void) => {
+  if (!crop) {
+    return (x, y, out) => {
+      out[0] = x;
+      out[1] = y;
+    };
+  }
+
+  const { width, height } = croppedSize(crop);
+  const radians = (normalizeRotation(crop.rotation) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const centerX = crop.x + crop.width / 2;
+  const centerY = crop.y + crop.height / 2;
+
+  return (x, y, out) => {
+    const ox = crop.flipHorizontal ? width - 1 - x : x;
+    const oy = crop.flipVertical ? height - 1 - y : y;
+
+    // Output pixel centre relative to the output centre, rotated back into the source
+    const dx = ox + 0.5 - width / 2;
+    const dy = oy + 0.5 - height / 2;
+    out[0] = centerX + dx * cos + dy * sin - 0.5;
+    out[1] = centerY - dx * sin + dy * cos - 0.5;
+  };
+};
+
+/**
+ * Crop, rotate and flip the source. The crop rectangle stays axis aligned and
+ * the image turns beneath it around the crop centre; quarter turns swap the
+ * output dimensions so nothing is lost. Flips are applied last.
+ */
+export const applyGeometry = (source: PixelBuffer, crop: NormalizedCrop | null): PixelBuffer => {
+  if (!crop) {
+    return { data: new Uint8ClampedArray(source.data), width: source.width, height: source.height };
+  }
+
+  const rotation = normalizeRotation(crop.rotation);
+  const { width, height } = croppedSize(crop);
+  const out = new Uint8ClampedArray(width * height * 4);
+  const toSource = sourceMapping(crop);
+  const point = [0, 0];
+  const axisAligned = rotation === 0 || rotation === 90 || rotation === 180 || rotation === 270;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      toSource(x, y, point);
+      const sx = point[0];
+      const sy = point[1];
+      const offset = (y * width + x) * 4;
+
+      if (axisAligned) {
+        const ix = Math.round(sx);
+        const iy = Math.round(sy);
+        const index = (iy * source.width + ix) * 4;
+        out[offset] = source.data[index];
+        out[offset + 1] = source.data[index + 1];
+        out[offset + 2] = source.data[index + 2];
+        out[offset + 3] = source.data[index + 3];
+      } else {
+        bilinear(source, sx, sy, out, offset);
+      }
+    }
+  }
+
+  return { data: out, width, height };
+};
@@ -0,0 +1,93 @@
+import { clamp, luminance } from './color';
+import { hslToRgb } from './hsl';
+import { ColorGradingSettings, ColorGradingWheel } from './types';
+
+// Channel offset of a fully saturated wheel
+const MAX_TINT = 0.3;
+// Brightness change at +/-100
+const MAX_LUMINANCE_SHIFT = 0.25;
+// How far balance moves the split between shadows and highlights
+const MAX_BALANCE_SHIFT = 0.3;
+
+type WheelOffset = [number, number, number];
+
+// Per-wheel RGB offsets and the tonal split they are weighted by
+export interface GradingTable {
+  shadows: WheelOffset | null;
+  midtones: WheelOffset | null;
+  highlights: WheelOffset | null;
+  global: WheelOffset | null;
+  // Luminance treated as the middle of the range
+  pivot: number;
+  // Width of each range's falloff; wider ranges overlap more
+  spread: number;
+}
+
+// A wheel's tint keeps luminance unchanged, so brightness only moves with
+// its luminance slider. Returns null for a neutral wheel.
+const wheelOffset = (wheel: ColorGradingWheel = {}): WheelOffset | null => {
+  const amount = clamp((wheel.saturation || 0) / 100) * MAX_TINT;
+  const shift = (clamp(wheel.luminance || 0, -100, 100) / 100) * MAX_LUMINANCE_SHIFT;
+  if (amount === 0 && shift === 0) return null;
+
+  const [r, g, b] = hslToRgb(wheel.hue || 0, 1, 0.5, [0, 0, 0]);
+  const lum = luminance(r, g, b);
+  return [(r - lum) * amount + shift, (g - lum) * amount + shift, (b - lum) * amount + shift];
+};
+
+/**
+ * Precompute the color grading wheels. Returns null when every wheel is
+ * neutral so the pipeline can skip the step.
+ */
+export const buildGradingTable = (grading?: ColorGradingSettings): GradingTable | null => {
+  if (!grading) return null;
+
+  const shadows = wheelOffset(grading.shadows);
+  const midtones = wheelOffset(grading.midtones);
+  const highlights = wheelOffset(grading.highlights);
+  const global = wheelOffset(grading.global);
+  if (!shadows && !midtones && !highlights && !global) return null;
+
+  const blending = clamp((typeof grading.blending === 'number' ? grading.blending : 50) / 100);
+  const balance = clamp((grading.balance || 0) / 100, -1, 1);
+
+  return {
+    shadows,
+    midtones,
+    highlights,
+    global,
+    // Positive balance gives more of the range to the highlights
+    pivot: 0.5 - balance * MAX_BALANCE_SHIFT,
+    spread: 0.25 + blending * 0.5
+  };
+};
+
+const smooth = (w: number): number => w * w * (3 - 2 * w);
+
+const addOffset = (out: number[], offset: WheelOffset | null, weight: number) => {
+  if (!offset || weight <= 0) return;
+  out[0] += offset[0] * weight;
+  out[1] += offset[1] * weight;
+  out[2] += offset[2] * weight;
+};
+
+/**
+ * Tint one pixel (0-1 channels) by the wheels for its tonal range, writing
+ * the result to out. The global wheel applies at full strength everywhere.
+ */
+export const applyGrading = (table: GradingTable, r: number, g: number, b: number, out: number[]): number[] => {
+  const lum = clamp(luminance(r, g, b));
+  // Remap luminance so the balance point sits at 0.5
+  const t = lum < table.pivot
+    ? (0.5 * lum) / table.pivot
+    : 0.5 + (0.5 * (lum - table.pivot)) / (1 - table.pivot);
+
+  out[0] = r;
+  out[1] = g;
+  out[2] = b;
+  addOffset(out, table.shadows, smooth(clamp(1 - t / table.spread)));
+  addOffset(out, table.midtones, smooth(clamp(1 - Math.abs(t - 0.5) / table.spread)));
+  addOffset(out, table.highlights, smooth(clamp(1 - (1 - t) / table.spread)));
+  addOffset(out, table.global, 1);
+  return out;
+};
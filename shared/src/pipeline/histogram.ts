@@ -0,0 +1,30 @@
+import { Histogram, PixelBuffer } from './types';
+
+/**
+ * Count a rendered image's pixels per channel value, along with Rec. 709
+ * luminance and how many pixels have a channel clipped at either end.
+ */
+export const computeHistogram = (image: PixelBuffer): Histogram => {
+  const red = new Uint32Array(256);
+  const green = new Uint32Array(256);
+  const blue = new Uint32Array(256);
+  const luminance = new Uint32Array(256);
+  const clipped = { shadows: 0, highlights: 0 };
+  const { data } = image;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    red[r]++;
+    green[g]++;
+    blue[b]++;
+    luminance[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+
+    if (r === 0 || g === 0 || b === 0) clipped.shadows++;
+    if (r === 255 || g === 255 || b === 255) clipped.highlights++;
+  }
+
+  return { red, green, blue, luminance, clipped, total: data.length / 4 };
+};
@@ -0,0 +1,174 @@
+import { clamp } from './color';
+import { HslAdjustments, HslColor } from './types';
+
+// Centre hue of each color mixer band in degrees. A hue between two centres
+// belongs to both, weighted by how close it is to each.
+export const HSL_BANDS: Array<{ color: HslColor; hue: number }> = [
+  { color: 'red', hue: 0 },
+  { color: 'orange', hue: 30 },
+  { color: 'yellow', hue: 60 },
+  { color: 'green', hue: 120 },
+  { color: 'aqua', hue: 180 },
+  { color: 'blue', hue: 240 },
+  { color: 'purple', hue: 270 },
+  { color: 'magenta', hue: 300 }
+];
+
+// Hue shift at +/-100, in degrees
+const MAX_HUE_SHIFT = 30;
+// Lightness change at +/-100 for a fully saturated colour
+const MAX_LIGHTNESS_SHIFT = 0.3;
+// Pixels less saturated than this are treated as grey by the sampler
+const NEUTRAL_SATURATION = 0.05;
+
+// Per-degree hue shift, saturation factor and lightness shift
+export interface HslTable {
+  hue: Float32Array;
+  saturation: Float32Array;
+  lightness: Float32Array;
+}
+
+// Convert 0-1 RGB to [hue 0-360, saturation 0-1, lightness 0-1], written to out
+export const rgbToHsl = (r: number, g: number, b: number, out: number[]): number[] => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  const lightness = (max + min) / 2;
+
+  let hue = 0;
+  let saturation = 0;
+  if (delta > 0) {
+    saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+    if (max === r) {
+      hue = (g - b) / delta + (g < b ? 6 : 0);
+    } else if (max === g) {
+      hue = (b - r) / delta + 2;
+    } else {
+      hue = (r - g) / delta + 4;
+    }
+    hue *= 60;
+  }
+
+  out[0] = hue;
+  out[1] = saturation;
+  out[2] = lightness;
+  return out;
+};
+
+const hueToChannel = (p: number, q: number, t: number): number => {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+};
+
+// Convert hue (degrees), saturation and lightness back to 0-1 RGB, written to out
+export const hslToRgb = (hue: number, saturation: number, lightness: number, out: number[]): number[] => {
+  if (saturation === 0) {
+    out[0] = out[1] = out[2] = lightness;
+    return out;
+  }
+
+  const h = (((hue % 360) + 360) % 360) / 360;
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+
+  out[0] = hueToChannel(p, q, h + 1 / 3);
+  out[1] = hueToChannel(p, q, h);
+  out[2] = hueToChannel(p, q, h - 1 / 3);
+  return out;
+};
+
+/**
+ * How strongly each band applies to a hue in degrees. Only the two bands
+ * either side of it are present and their weights add up to 1.
+ */
+export const hueWeights = (hue: number): Partial<Record<HslColor, number>> => {
+  const h = ((hue % 360) + 360) % 360;
+  const weights: Partial<Record<HslColor, number>> = {};
+
+  for (let i = 0; i < HSL_BANDS.length; i++) {
+    const from = HSL_BANDS[i];
+    const to = HSL_BANDS[(i + 1) % HSL_BANDS.length];
+    // Magenta blends back into red across 360 degrees
+    const end = to.hue > from.hue ? to.hue : to.hue + 360;
+
+    if (h >= from.hue && h < end) {
+      const t = (h - from.hue) / (end - from.hue);
+      if (t < 1) weights[from.color] = 1 - t;
+      if (t > 0) weights[to.color] = t;
+      break;
+    }
+  }
+
+  return weights;
+};
+
+/**
+ * The bands a targeted adjustment on an 8-bit pixel should change, with
+ * their weights. Near-grey pixels have no reliable hue and return none.
+ */
+export const hslBandWeights = (r: number, g: number, b: number): Partial<Record<HslColor, number>> => {
+  const [hue, saturation] = rgbToHsl(r / 255, g / 255, b / 255, [0, 0, 0]);
+  return saturation < NEUTRAL_SATURATION ? {} : hueWeights(hue);
+};
+
+const isNeutral = (adjustments: HslAdjustments): boolean =>
+  HSL_BANDS.every(({ color }) => {
+    const band = adjustments[color];
+    return !band || (!band.hue && !band.saturation && !band.lightness);
+  });
+
+/**
+ * Blend the band settings into a table indexed by whole degrees of hue.
+ * Returns null when every band is neutral so the pipeline can skip the step.
+ */
+export const buildHslTable = (adjustments: HslAdjustments = {}): HslTable | null => {
+  if (isNeutral(adjustments)) return null;
+
+  const table: HslTable = {
+    hue: new Float32Array(360),
+    saturation: new Float32Array(360).fill(1),
+    lightness: new Float32Array(360)
+  };
+
+  for (let degree = 0; degree < 360; degree++) {
+    const weights = hueWeights(degree);
+
+    HSL_BANDS.forEach(({ color }) => {
+      const weight = weights[color];
+      const band = adjustments[color];
+      if (!weight || !band) return;
+
+      table.hue[degree] += weight * ((band.hue || 0) / 100) * MAX_HUE_SHIFT;
+      table.saturation[degree] += weight * ((band.saturation || 0) / 100);
+      table.lightness[degree] += weight * ((band.lightness || 0) / 100) * MAX_LIGHTNESS_SHIFT;
+    });
+  }
+
+  return table;
+};
+
+/**
+ * Run one pixel (0-1 channels) through the color mixer, writing the result
+ * to out. Hue and lightness shifts fade out towards grey, where the hue
+ * means little, so neutral tones are left alone.
+ */
+export const mixHsl = (table: HslTable, r: number, g: number, b: number, out: number[]): number[] => {
+  out[0] = r;
+  out[1] = g;
+  out[2] = b;
+  if (Math.max(r, g, b) - Math.min(r, g, b) < 1e-6) return out;
+
+  const [hue, saturation, lightness] = rgbToHsl(clamp(r), clamp(g), clamp(b), out);
+  const index = Math.floor(hue) % 360;
+
+  return hslToRgb(
+    hue + table.hue[index] * saturation,
+    clamp(saturation * table.saturation[index]),
+    clamp(lightness + table.lightness[index] * saturation),
+    out
+  );
+};
@@ -0,0 +1,269 @@
+import { clamp, encodeSrgb, luminance, smoothstep, srgbToLinear, toByte } from './color';
+import { paintBrush, sampleBrush } from './brush';
+import { CLARITY_RADIUS, blurredLuminance } from './detail';
+import { NormalizedCrop, croppedSize, sourceMapping } from './geometry';
+import { rangeWeight } from './range';
+import {
+  BrushMask,
+  LinearGradientMask,
+  MaskAdjustmentKey,
+  MaskWeights,
+  PipelineMask,
+  PixelBuffer,
+  RadialGradientMask
+} from './types';
+import { whiteBalanceMatrix } from './whiteBalance';
+
+export const MASK_ADJUSTMENTS: MaskAdjustmentKey[] = [
+  'exposure',
+  'contrast',
+  'highlights',
+  'shadows',
+  'temperature',
+  'tint',
+  'saturation',
+  'clarity'
+];
+
+// Weight at a point given in source pixels
+type WeightAt = (x: number, y: number) => number;
+
+const linearWeight = (mask: LinearGradientMask, width: number, height: number): WeightAt => {
+  const startX = mask.startX * width;
+  const startY = mask.startY * height;
+  const dx = mask.endX * width - startX;
+  const dy = mask.endY * height - startY;
+  const lengthSquared = dx * dx + dy * dy;
+
+  // Without a direction there is nothing to fade along
+  if (lengthSquared === 0) return () => 0;
+
+  return (x, y) => 1 - smoothstep(clamp(((x - startX) * dx + (y - startY) * dy) / lengthSquared));
+};
+
+const radialWeight = (mask: RadialGradientMask, width: number, height: number): WeightAt => {
+  const centerX = mask.centerX * width;
+  const centerY = mask.centerY * height;
+  const radiusX = Math.max(mask.radiusX * width, 1e-6);
+  const radiusY = Math.max(mask.radiusY * height, 1e-6);
+  const radians = ((mask.angle || 0) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const feather = clamp((typeof mask.feather === 'number' ? mask.feather : 50) / 100);
+  const inner = 1 - feather;
+
+  return (x, y) => {
+    const dx = x - centerX;
+    const dy = y - centerY;
+    // Into the ellipse's own axes, turned clockwise on screen by `angle`
+    const along = (dx * cos + dy * sin) / radiusX;
+    const across = (dy * cos - dx * sin) / radiusY;
+    const distance = Math.sqrt(along * along + across * across);
+
+    if (distance <= inner) return 1;
+    if (distance >= 1) return 0;
+    return 1 - smoothstep((distance - inner) / feather);
+  };
+};
+
+// Strokes are painted once onto the brush grid, then looked up from it
+const brushWeight = (mask: BrushMask, width: number, height: number, pixels?: PixelBuffer | null): WeightAt => {
+  const grid = paintBrush(mask.strokes || [], width, height, pixels);
+  const scaleX = grid.width / width;
+  const scaleY = grid.height / height;
+  return (x, y) => sampleBrush(grid, x * scaleX, y * scaleY);
+};
+
+const weightFunction = (
+  mask: PipelineMask,
+  width: number,
+  height: number,
+  pixels?: PixelBuffer | null
+): WeightAt => {
+  switch (mask.type) {
+    case 'linear':
+      return linearWeight(mask, width, height);
+    case 'radial':
+      return radialWeight(mask, width, height);
+    case 'brush':
+      return brushWeight(mask, width, height, pixels);
+    default:
+      // A range mask covers everything its range selects
+      return () => 1;
+  }
+};
+
+/**
+ * How strongly a mask applies across a render. Masks are placed on the
+ * original image, so each output pixel is traced back through the crop into
+ * the source (sourceWidth x sourceHeight pixels) first. Brush auto masks
+ * and ranges read colors from `pixels`, the source image at any size;
+ * without it ranges are left out.
+ */
+export const maskWeights = (
+  mask: PipelineMask,
+  crop: NormalizedCrop | null,
+  sourceWidth: number,
+  sourceHeight: number,
+  pixels?: PixelBuffer | null
+): MaskWeights => {
+  const { width, height } = crop ? croppedSize(crop) : { width: sourceWidth, height: sourceHeight };
+  const data = new Float32Array(width * height);
+
+  const weightAt = weightFunction(mask, sourceWidth, sourceHeight, pixels);
+  const inRange = mask.range && pixels ? rangeWeight(mask.range) : null;
+  const invertShape = mask.invert && mask.type !== 'range';
+  const toSource = sourceMapping(crop);
+  const point = [0, 0];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      toSource(x, y, point);
+      let weight = weightAt(point[0] + 0.5, point[1] + 0.5);
+      // A range refining a shape narrows the inverted shape; a range mask
+      // on its own inverts the range
+      if (invertShape) weight = 1 - weight;
+
+      // The range is matched against the source pixel under this point
+      if (inRange && pixels && weight > 0) {
+        const px = Math.min(Math.max(Math.floor(((point[0] + 0.5) * pixels.width) / sourceWidth), 0), pixels.width - 1);
+        const py = Math.min(Math.max(Math.floor(((point[1] + 0.5) * pixels.height) / sourceHeight), 0), pixels.height - 1);
+        const i = (py * pixels.width + px) * 4;
+        weight *= inRange(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]);
+      }
+      data[y * width + x] = invertShape || !mask.invert ? weight : 1 - weight;
+    }
+  }
+
+  return { width, height, data };
+};
+
+// A mask ready to composite: its weights and settings scaled to fractions
+interface MaskLayer {
+  weights: Float32Array;
+  // White balance shift and exposure as one linear-light matrix
+  balance: number[] | null;
+  contrast: number;
+  highlights: number;
+  shadows: number;
+  saturation: number;
+  clarity: number;
+}
+
+const compileLayer = (mask: PipelineMask, crop: NormalizedCrop | null, source: PixelBuffer): MaskLayer | null => {
+  const settings = mask.adjustments || {};
+  const active = MASK_ADJUSTMENTS.some(key => settings[key]);
+  if (mask.visible === false || !active) return null;
+
+  const exposureGain = Math.pow(2, settings.exposure || 0);
+  const matrix = whiteBalanceMatrix(settings.temperature || 0, settings.tint || 0);
+  const balance = matrix
+    ? matrix.map(value => value * exposureGain)
+    : exposureGain !== 1 ? [exposureGain, 0, 0, 0, exposureGain, 0, 0, 0, exposureGain] : null;
+
+  return {
+    weights: maskWeights(mask, crop, source.width, source.height, source).data,
+    balance,
+    contrast: (settings.contrast || 0) / 100,
+    highlights: (settings.highlights || 0) / 100,
+    shadows: (settings.shadows || 0) / 100,
+    saturation: (settings.saturation || 0) / 100,
+    clarity: (settings.clarity || 0) / 100
+  };
+};
+
+/**
+ * Composite masks over an adjusted render in place. Each mask's adjustments
+ * are applied at full strength and blended in by its weight, so a mask
+ * fades smoothly into the rest of the image. Masks apply in order, each on
+ * top of the ones before it. `source` is the unadjusted image the render
+ * was made from.
+ */
+export const applyMasks = (
+  image: PixelBuffer,
+  masks: PipelineMask[] | null | undefined,
+  crop: NormalizedCrop | null,
+  source: PixelBuffer
+): PixelBuffer => {
+  const layers = (masks || [])
+    .map(mask => compileLayer(mask, crop, source))
+    .filter((layer): layer is MaskLayer => !!layer);
+  if (layers.length === 0) return image;
+
+  const { data, width, height } = image;
+  const blurred = layers.some(layer => layer.clarity !== 0)
+    ? blurredLuminance(image, Math.max(1, Math.round(Math.max(width, height) * CLARITY_RADIUS)))
+    : null;
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * 4;
+    let r = data[i] / 255;
+    let g = data[i + 1] / 255;
+    let b = data[i + 2] / 255;
+    let touched = false;
+
+    for (const layer of layers) {
+      const weight = layer.weights[p];
+      if (weight <= 0) continue;
+      touched = true;
+
+      let ar = r;
+      let ag = g;
+      let ab = b;
+
+      if (layer.balance) {
+        const { balance } = layer;
+        const lr = srgbToLinear(clamp(ar));
+        const lg = srgbToLinear(clamp(ag));
+        const lb = srgbToLinear(clamp(ab));
+        ar = encodeSrgb(balance[0] * lr + balance[1] * lg + balance[2] * lb);
+        ag = encodeSrgb(balance[3] * lr + balance[4] * lg + balance[5] * lb);
+        ab = encodeSrgb(balance[6] * lr + balance[7] * lg + balance[8] * lb);
+      }
+
+      if (layer.contrast !== 0) {
+        const factor = 1 + layer.contrast;
+        ar = (ar - 0.5) * factor + 0.5;
+        ag = (ag - 0.5) * factor + 0.5;
+        ab = (ab - 0.5) * factor + 0.5;
+      }
+
+      if (layer.highlights !== 0 || layer.shadows !== 0) {
+        const lum = clamp(luminance(ar, ag, ab));
+        const offset = layer.shadows * 0.25 * (1 - lum) * (1 - lum) + layer.highlights * 0.25 * lum * lum;
+        ar += offset;
+        ag += offset;
+        ab += offset;
+      }
+
+      // Clarity pushes pixels away from their surroundings, mostly in the midtones
+      if (blurred && layer.clarity !== 0) {
+        const lum = clamp(luminance(ar, ag, ab));
+        const offset = (lum - blurred[p]) * layer.clarity * 4 * lum * (1 - lum);
+        ar += offset;
+        ag += offset;
+        ab += offset;
+      }
+
+      if (layer.saturation !== 0) {
+        const lum = luminance(ar, ag, ab);
+        const factor = 1 + layer.saturation;
+        ar = lum + (ar - lum) * factor;
+        ag = lum + (ag - lum) * factor;
+        ab = lum + (ab - lum) * factor;
+      }
+
+      r += (ar - r) * weight;
+      g += (ag - g) * weight;
+      b += (ab - b) * weight;
+    }
+
+    if (touched) {
+      data[i] = toByte(r);
+      data[i + 1] = toByte(g);
+      data[i + 2] = toByte(b);
+    }
+  }
+
+  return image;
+};
@@ -0,0 +1,29 @@
+// Integer hash noise in [0, 1). Pure integer maths keeps the result identical
+// in every JavaScript engine, so grain is the same in preview and export.
+export const hashNoise = (x: number, y: number): number => {
+  let h = (Math.imul(x, 374761393) + Math.imul(y, 668265263)) | 0;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+// Value noise smoothed between lattice points spaced cellSize pixels apart
+export const smoothNoise = (x: number, y: number, cellSize: number): number => {
+  const gx = x / cellSize;
+  const gy = y / cellSize;
+  const x0 = Math.floor(gx);
+  const y0 = Math.floor(gy);
+  const tx = gx - x0;
+  const ty = gy - y0;
+  const sx = tx * tx * (3 - 2 * tx);
+  const sy = ty * ty * (3 - 2 * ty);
+
+  const n00 = hashNoise(x0, y0);
+  const n10 = hashNoise(x0 + 1, y0);
+  const n01 = hashNoise(x0, y0 + 1);
+  const n11 = hashNoise(x0 + 1, y0 + 1);
+
+  const top = n00 + (n10 - n00) * sx;
+  const bottom = n01 + (n11 - n01) * sx;
+  return top + (bottom - top) * sy;
+};
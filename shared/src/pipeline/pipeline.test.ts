@@ -0,0 +1,549 @@
+import { createHash } from 'crypto';
+import { buildCurveLUT, buildParametricLUT } from './curves';
+import { computeHistogram } from './histogram';
+import { normalizeCrop } from './geometry';
+import { hslBandWeights } from './hsl';
+import { maskWeights } from './masks';
+import { computeScopes, vectorscopePoint } from './scopes';
+import { processImage } from './process';
+import { applySpots, findSpotSource } from './spots';
+import { incrementalToKelvin, solveWhiteBalance } from './whiteBalance';
+import { BrushStroke, PipelineAdjustments, PipelineCrop, PipelineMask, PixelBuffer, Spot } from './types';
+
+// Deterministic test card: horizontal hue ramp, vertical brightness ramp and
+// a grey patch so every operation has something to change.
+const createSource = (width = 48, height = 32): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const grey = x > width * 0.6 && y > height * 0.6;
+      data[i] = grey ? 128 : Math.round((x / (width - 1)) * 255);
+      data[i + 1] = grey ? 128 : Math.round((y / (height - 1)) * 255);
+      data[i + 2] = grey ? 128 : Math.round(((x + y) / (width + height - 2)) * 255);
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+};
+
+const hash = (image: PixelBuffer) =>
+  `${image.width}x${image.height}:${createHash('sha256').update(image.data).digest('hex').slice(0, 16)}`;
+
+const meanBrightness = (image: PixelBuffer) => {
+  let total = 0;
+  for (let i = 0; i < image.data.length; i += 4) {
+    total += image.data[i] + image.data[i + 1] + image.data[i + 2];
+  }
+  return total / ((image.data.length / 4) * 3);
+};
+
+const operations: Array<[string, PipelineAdjustments]> = [
+  ['exposure', { exposure: 1 }],
+  ['contrast', { contrast: 50 }],
+  ['highlights', { highlights: -60 }],
+  ['shadows', { shadows: 60 }],
+  ['whites', { whites: 40 }],
+  ['blacks', { blacks: -40 }],
+  ['temperature', { temperature: 8500 }],
+  ['tint', { tint: -30 }],
+  ['vibrance', { vibrance: 50 }],
+  ['saturation', { saturation: -100 }],
+  ['texture', { texture: 60 }],
+  ['clarity', { clarity: 60 }],
+  ['dehaze', { dehaze: 60 }],
+  ['vignette', { vignette: -60 }],
+  ['vignette settings', { vignette: { enabled: true, amount: -60 } }],
+  ['vignette midpoint', { vignette: { amount: -60, midpoint: 20 } }],
+  ['vignette round', { vignette: { amount: -60, roundness: 100 } }],
+  ['vignette square', { vignette: { amount: -60, roundness: -100 } }],
+  ['vignette feather', { vignette: { amount: -60, feather: 0 } }],
+  ['grain', { grain: { amount: 50, size: 25, roughness: 50 } }],
+  ['curves', { curves: [{ x: 0, y: 0 }, { x: 64, y: 40 }, { x: 192, y: 215 }, { x: 255, y: 255 }] }],
+  ['channel curves', {
+    toneCurve: {
+      red: [{ x: 0, y: 20 }, { x: 128, y: 150 }, { x: 255, y: 255 }],
+      blue: [{ x: 0, y: 0 }, { x: 255, y: 220 }]
+    }
+  }],
+  ['parametric curve', {
+    toneCurve: { parametric: { shadows: 40, darks: -20, lights: 30, highlights: -50, shadowSplit: 30 } }
+  }],
+  ['color mixer', {
+    hslAdjustments: {
+      red: { hue: 40, saturation: -50 },
+      aqua: { lightness: 60 },
+      purple: { hue: -30, saturation: 80, lightness: -20 }
+    }
+  }],
+  ['color grading', {
+    colorGrading: {
+      shadows: { hue: 220, saturation: 40 },
+      midtones: { hue: 30, saturation: 10, luminance: -10 },
+      highlights: { hue: 45, saturation: 30, luminance: 15 },
+      global: { hue: 180, saturation: 5 },
+      blending: 70,
+      balance: -20
+    }
+  }]
+];
+
+const crops: Array<[string, PipelineCrop]> = [
+  ['crop', { x: 4, y: 2, width: 30, height: 20 }],
+  ['rotate 90', { x: 4, y: 2, width: 30, height: 20, rotation: 90 }],
+  ['rotate 15', { x: 4, y: 2, width: 30, height: 20, rotation: 15 }],
+  ['flip', { x: 0, y: 0, width: 48, height: 32, flipHorizontal: true, flipVertical: true }]
+];
+
+describe('processImage', () => {
+  it('returns an unchanged copy with no adjustments', () => {
+    const source = createSource();
+    const result = processImage(source, {});
+    expect(result.data).not.toBe(source.data);
+    expect(Array.from(result.data)).toEqual(Array.from(source.data));
+  });
+
+  it('does not modify the source', () => {
+    const source = createSource();
+    const before = hash(source);
+    processImage(source, { exposure: 2, contrast: 40 }, { x: 2, y: 2, width: 20, height: 20, rotation: 30 });
+    expect(hash(source)).toBe(before);
+  });
+
+  it('brightens with positive exposure', () => {
+    const source = createSource();
+    expect(meanBrightness(processImage(source, { exposure: 1 }))).toBeGreaterThan(meanBrightness(source));
+  });
+
+  it('swaps dimensions for quarter turns', () => {
+    const result = processImage(createSource(), {}, { x: 0, y: 0, width: 30, height: 20, rotation: 270 });
+    expect(result.width).toBe(20);
+    expect(result.height).toBe(30);
+  });
+
+  it('treats flipX/flipY the same as flipHorizontal/flipVertical', () => {
+    const source = createSource();
+    const editor = processImage(source, {}, { x: 0, y: 0, width: 48, height: 32, flipX: true });
+    const server = processImage(source, {}, { x: 0, y: 0, width: 48, height: 32, flipHorizontal: true });
+    expect(hash(editor)).toBe(hash(server));
+  });
+
+  it('scales crop coordinates from original pixels to source pixels', () => {
+    const result = processImage(createSource(), {}, { x: 8, y: 4, width: 60, height: 40 }, { scale: 0.5 });
+    expect(result.width).toBe(30);
+    expect(result.height).toBe(20);
+  });
+
+  it('renders every operation deterministically', () => {
+    const goldens: Record<string, string> = {};
+    operations.forEach(([name, adjustments]) => {
+      goldens[name] = hash(processImage(createSource(), adjustments));
+    });
+    crops.forEach(([name, crop]) => {
+      goldens[name] = hash(processImage(createSource(), {}, crop));
+    });
+    expect(goldens).toMatchSnapshot();
+  });
+});
+
+describe('tone curve', () => {
+  it('passes through every control point without overshooting', () => {
+    const lut = buildCurveLUT([{ x: 0, y: 0 }, { x: 64, y: 40 }, { x: 128, y: 200 }, { x: 255, y: 210 }]);
+
+    expect(lut[64] * 255).toBeCloseTo(40, 3);
+    expect(lut[128] * 255).toBeCloseTo(200, 3);
+    for (let i = 129; i < 256; i++) {
+      expect(lut[i] * 255).toBeLessThanOrEqual(210 + 1e-3);
+    }
+  });
+
+  it('only changes the channel a curve belongs to', () => {
+    const source = createSource();
+    const result = processImage(source, { toneCurve: { green: [{ x: 0, y: 40 }, { x: 255, y: 255 }] } });
+
+    for (let i = 0; i < source.data.length; i += 4) {
+      expect(result.data[i]).toBe(source.data[i]);
+      expect(result.data[i + 2]).toBe(source.data[i + 2]);
+    }
+    expect(meanBrightness(result)).toBeGreaterThan(meanBrightness(source));
+  });
+
+  it('bends its regions while keeping black, white and tonal order', () => {
+    const lut = buildParametricLUT({ shadows: 100, darks: -100, lights: 100, highlights: -100 });
+
+    expect(lut).not.toBeNull();
+    expect(lut?.[0]).toBe(0);
+    expect(lut?.[255]).toBe(1);
+    expect((lut?.[32] || 0) * 255).toBeGreaterThan(32);
+    expect((lut?.[224] || 0) * 255).toBeLessThan(224);
+    for (let i = 1; i < 256; i++) {
+      expect(lut?.[i]).toBeGreaterThanOrEqual(lut?.[i - 1] || 0);
+    }
+    expect(buildParametricLUT({ shadowSplit: 40 })).toBeNull();
+  });
+});
+
+describe('histogram', () => {
+  it('counts every pixel once per channel and flags clipped ones', () => {
+    const histogram = computeHistogram({
+      data: new Uint8ClampedArray([0, 0, 0, 255, 255, 128, 10, 255, 128, 128, 128, 255]),
+      width: 3,
+      height: 1
+    });
+
+    expect(histogram.total).toBe(3);
+    expect(histogram.red[0] + histogram.red[128] + histogram.red[255]).toBe(3);
+    expect(histogram.luminance[0]).toBe(1);
+    expect(histogram.luminance[128]).toBe(1);
+    expect(histogram.clipped).toEqual({ shadows: 1, highlights: 1 });
+  });
+});
+
+describe('scopes', () => {
+  it('plots each column by level and neutral colours in the vectorscope centre', () => {
+    // White over black in the first column, pure red over grey in the second
+    const scopes = computeScopes({
+      data: new Uint8ClampedArray([
+        255, 255, 255, 255, 255, 0, 0, 255,
+        0, 0, 0, 255, 128, 128, 128, 255
+      ]),
+      width: 2,
+      height: 2
+    });
+    const { waveform, parade, vectorscope } = scopes;
+    const top = waveform.height - 1;
+
+    expect(waveform.width).toBe(2);
+    expect(waveform.data[0]).toBe(1);
+    expect(waveform.data[top * waveform.width]).toBe(1);
+    // Red sits at the top of the red parade and the bottom of the green one
+    expect(parade[0].data[1]).toBe(1);
+    expect(parade[1].data[top * waveform.width + 1]).toBe(1);
+
+    const [cx, cy] = vectorscopePoint(128, 128, 128, vectorscope.width);
+    expect(vectorscope.data.reduce((sum, count) => sum + count, 0)).toBe(4);
+    expect(vectorscope.data[Math.round(cy) * vectorscope.width + Math.round(cx)]).toBe(3);
+  });
+});
+
+describe('color mixer', () => {
+  // Red, blue and grey pixels side by side
+  const swatches = (): PixelBuffer => ({
+    data: new Uint8ClampedArray([220, 30, 30, 255, 30, 30, 220, 255, 128, 128, 128, 255]),
+    width: 3,
+    height: 1
+  });
+
+  it('only changes pixels in the adjusted band', () => {
+    const result = processImage(swatches(), { hslAdjustments: { red: { saturation: -100 } } });
+    const [r, g, b] = Array.from(result.data.slice(0, 3));
+
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+    expect(Array.from(result.data.slice(4))).toEqual(Array.from(swatches().data.slice(4)));
+  });
+
+  it('finds the bands under a pixel for the targeted adjustment tool', () => {
+    const weights = hslBandWeights(255, 128, 0);
+    expect(weights.orange).toBeGreaterThan(0.9);
+    expect(weights.yellow).toBeLessThan(0.1);
+    expect(hslBandWeights(128, 128, 130)).toEqual({});
+  });
+});
+
+describe('color grading', () => {
+  // A dark and a bright grey pixel
+  const greys = (): PixelBuffer => ({
+    data: new Uint8ClampedArray([30, 30, 30, 255, 225, 225, 225, 255]),
+    width: 2,
+    height: 1
+  });
+
+  it('tints shadows and highlights separately', () => {
+    const result = processImage(greys(), {
+      colorGrading: { shadows: { hue: 240, saturation: 100 }, highlights: { hue: 0, saturation: 100 } }
+    });
+    const [darkR, , darkB, , lightR, , lightB] = Array.from(result.data);
+
+    expect(darkB).toBeGreaterThan(darkR);
+    expect(lightR).toBeGreaterThan(lightB);
+  });
+
+  it('leaves the image alone when every wheel is neutral', () => {
+    const result = processImage(greys(), { colorGrading: { shadows: { hue: 120 }, blending: 20, balance: 50 } });
+    expect(Array.from(result.data)).toEqual(Array.from(greys().data));
+  });
+});
+
+describe('white balance', () => {
+  const grey = (): PixelBuffer => ({ data: new Uint8ClampedArray([128, 128, 128, 255]), width: 1, height: 1 });
+
+  it('warms the image above neutral and adds magenta with positive tint', () => {
+    const [warmR, warmG, warmB] = Array.from(processImage(grey(), { temperature: 9000 }).data);
+    const [, tintedG] = Array.from(processImage(grey(), { temperature: 9000, tint: 30 }).data);
+    expect(warmR).toBeGreaterThan(warmB);
+    expect(tintedG).toBeLessThan(warmG);
+  });
+
+  it('treats legacy relative temperatures as offsets from neutral', () => {
+    const legacy = processImage(createSource(), { temperature: 40, tint: -10 });
+    const kelvin = processImage(createSource(), { temperature: incrementalToKelvin(40), tint: -10 });
+    expect(hash(legacy)).toBe(hash(kelvin));
+  });
+
+  it('solves for the white balance that neutralises a sample', () => {
+    // A grey card under warm light, as rendered with the current settings
+    const current = { temperature: 6500, tint: 0 };
+    const [r, g, b] = Array.from(processImage(grey(), { temperature: 9000, tint: 20 }).data);
+    const solved = solveWhiteBalance(r, g, b, current);
+
+    expect(solved).not.toBeNull();
+    const [nr, ng, nb] = Array.from(processImage({
+      data: new Uint8ClampedArray([r, g, b, 255]),
+      width: 1,
+      height: 1
+    }, { ...solved }).data);
+    expect(Math.abs(nr - nb)).toBeLessThanOrEqual(1);
+    expect(Math.abs(nr - ng)).toBeLessThanOrEqual(1);
+  });
+
+  it('solves relative to the white balance already applied', () => {
+    const applied = { temperature: 5000, tint: 10 };
+    const [r, g, b] = Array.from(processImage(grey(), applied).data);
+    const solved = solveWhiteBalance(r, g, b, applied);
+
+    // Within what rounding the sample to 8 bits allows
+    expect(Math.abs((solved?.temperature || 0) - 6500)).toBeLessThan(100);
+    expect(Math.abs(solved?.tint || 0)).toBeLessThanOrEqual(3);
+  });
+});
+
+describe('masks', () => {
+  const linear: PipelineMask = {
+    type: 'linear',
+    startX: 0.25,
+    startY: 0.5,
+    endX: 0.75,
+    endY: 0.5,
+    adjustments: { exposure: 1 }
+  };
+  const radial: PipelineMask = {
+    type: 'radial',
+    centerX: 0.5,
+    centerY: 0.5,
+    radiusX: 0.25,
+    radiusY: 0.25,
+    feather: 0,
+    adjustments: { exposure: -1 }
+  };
+
+  it('fades a linear gradient from its start line to its end line', () => {
+    const { data, width } = maskWeights(linear, null, 48, 32);
+    const row = 16 * width;
+
+    expect(data[row]).toBe(1);
+    expect(data[row + 47]).toBe(0);
+    expect(data[row + 24]).toBeGreaterThan(0.4);
+    expect(data[row + 24]).toBeLessThan(0.6);
+  });
+
+  it('applies a radial gradient inside its ellipse, or outside when inverted', () => {
+    const inside = maskWeights(radial, null, 48, 32);
+    const outside = maskWeights({ ...radial, invert: true }, null, 48, 32);
+
+    expect(inside.data[16 * 48 + 24]).toBe(1);
+    expect(inside.data[0]).toBe(0);
+    expect(outside.data[0]).toBe(1);
+  });
+
+  it('keeps masks on the original image when it is cropped', () => {
+    const crop = normalizeCrop({ x: 24, y: 0, width: 24, height: 32 }, 48, 32);
+    const { data, width } = maskWeights(linear, crop, 48, 32);
+
+    expect(width).toBe(24);
+    // The crop starts half way along the gradient
+    expect(data[16 * width]).toBeGreaterThan(0.4);
+    expect(data[16 * width]).toBeLessThan(0.6);
+  });
+
+  it('only changes pixels under a visible mask', () => {
+    const source = createSource();
+    const result = processImage(source, {}, null, { masks: [linear] });
+    const row = 16 * 48 * 4;
+
+    expect(result.data[row + 4]).toBeGreaterThan(source.data[row + 4]);
+    expect(result.data[row + 47 * 4]).toBe(source.data[row + 47 * 4]);
+    expect(hash(processImage(source, {}, null, { masks: [{ ...linear, visible: false }] }))).toBe(hash(source));
+  });
+
+  describe('ranges', () => {
+    const source = createSource();
+    // Inside the grey patch, and the dark top left corner
+    const grey = 28 * 48 + 40;
+    const corner = 0;
+    const luminanceRange: PipelineMask = {
+      type: 'range',
+      range: { type: 'luminance', min: 40, max: 60, smoothness: 0 },
+      adjustments: { exposure: 1 }
+    };
+    const colorRange: PipelineMask = {
+      type: 'range',
+      range: { type: 'color', colors: [{ r: 128, g: 128, b: 128 }], amount: 10 },
+      adjustments: { exposure: 1 }
+    };
+
+    it('selects tones between the luminance bounds, fading out with smoothness', () => {
+      const hard = maskWeights(luminanceRange, null, 48, 32, source);
+      expect(hard.data[grey]).toBe(1);
+      expect(hard.data[corner]).toBe(0);
+
+      // Mid grey sits just above a range ending at 45
+      const below = { ...luminanceRange, range: { type: 'luminance' as const, min: 0, max: 45 } };
+      expect(maskWeights({ ...below, range: { ...below.range, smoothness: 0 } }, null, 48, 32, source).data[grey]).toBe(0);
+      const smooth = maskWeights({ ...below, range: { ...below.range, smoothness: 100 } }, null, 48, 32, source).data[grey];
+      expect(smooth).toBeGreaterThan(0);
+      expect(smooth).toBeLessThan(1);
+    });
+
+    it('selects colors close to the sampled ones', () => {
+      const { data } = maskWeights(colorRange, null, 48, 32, source);
+      expect(data[grey]).toBe(1);
+      expect(data[corner]).toBe(0);
+      expect(data[47]).toBe(0);
+
+      // Inverting a range mask selects everything else
+      const inverted = maskWeights({ ...colorRange, invert: true }, null, 48, 32, source).data;
+      expect(inverted[grey]).toBe(0);
+      expect(inverted[corner]).toBe(1);
+    });
+
+    it('narrows other masks and leaves pixels out of range alone', () => {
+      const refined = maskWeights({ ...linear, range: colorRange.range }, null, 48, 32, source);
+      // Grey, but past the end of the gradient
+      expect(refined.data[grey]).toBe(0);
+      expect(refined.data[16 * 48]).toBe(0);
+
+      const result = processImage(source, {}, null, { masks: [colorRange] });
+      expect(result.data[grey * 4]).toBeGreaterThan(source.data[grey * 4]);
+      expect(result.data[corner * 4 + 4]).toBe(source.data[corner * 4 + 4]);
+    });
+  });
+
+  describe('brush', () => {
+    // A horizontal stroke along the middle of the left half
+    const stroke = { points: [0.1, 0.5, 0.4, 0.5], size: 0.05, feather: 0 };
+    const brush = (strokes: BrushStroke[]): PipelineMask => ({ type: 'brush', strokes });
+
+    it('paints along a stroke and erases with later ones', () => {
+      const painted = maskWeights(brush([stroke]), null, 48, 32);
+      expect(painted.data[16 * 48 + 12]).toBeCloseTo(1);
+      expect(painted.data[16 * 48 + 40]).toBe(0);
+      expect(painted.data[2 * 48 + 12]).toBe(0);
+
+      const erased = maskWeights(brush([stroke, { ...stroke, points: [0.25, 0.5], erase: true }]), null, 48, 32);
+      expect(erased.data[16 * 48 + 12]).toBeCloseTo(0);
+      expect(erased.data[16 * 48 + 6]).toBeCloseTo(1);
+    });
+
+    it('builds up with flow but never past density', () => {
+      const light = maskWeights(brush([{ ...stroke, flow: 10 }]), null, 48, 32).data[16 * 48 + 12];
+      const capped = maskWeights(brush([{ ...stroke, density: 40 }, { ...stroke, density: 40 }]), null, 48, 32);
+
+      expect(light).toBeGreaterThan(0.1);
+      expect(light).toBeLessThan(1);
+      expect(capped.data[16 * 48 + 12]).toBeCloseTo(0.4);
+    });
+
+    it('lands in the same place at any size and through rotation and flips', () => {
+      const small = maskWeights(brush([stroke]), null, 48, 32);
+      const large = maskWeights(brush([stroke]), null, 192, 128);
+      expect(large.data[64 * 192 + 48]).toBeCloseTo(small.data[16 * 48 + 12], 1);
+
+      // A quarter turn takes the left of the original to the top, and a vertical flip to the bottom
+      const turned = normalizeCrop({ x: 0, y: 0, width: 48, height: 32, rotation: 90, flipY: true }, 48, 32);
+      const { data, width, height } = maskWeights(brush([stroke]), turned, 48, 32);
+      expect(width).toBe(32);
+      expect(data[(height - 13) * width + 16]).toBeCloseTo(1);
+      expect(data[12 * width + 16]).toBe(0);
+    });
+
+    it('stops auto masked strokes at strong edges', () => {
+      // Black on the left, white on the right
+      const source = createSource();
+      for (let i = 0; i < source.data.length; i += 4) {
+        const value = (i / 4) % 48 < 24 ? 0 : 255;
+        source.data[i] = value;
+        source.data[i + 1] = value;
+        source.data[i + 2] = value;
+      }
+      const wide = { points: [0.4, 0.5], size: 0.3, feather: 0 };
+
+      const plain = maskWeights(brush([wide]), null, 48, 32, source);
+      const masked = maskWeights(brush([{ ...wide, autoMask: true }]), null, 48, 32, source);
+      expect(plain.data[16 * 48 + 28]).toBeCloseTo(1);
+      expect(masked.data[16 * 48 + 28]).toBe(0);
+      expect(masked.data[16 * 48 + 16]).toBeCloseTo(1);
+    });
+  });
+});
+
+describe('spots', () => {
+  // A left to right ramp with a dark speck of dust, and a dark block on the right
+  const createDusty = (width = 96, height = 64): PixelBuffer => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const dust = Math.hypot(x + 0.5 - width * 0.3, y + 0.5 - height * 0.5) < width * 0.03;
+        const block = x > width * 0.75;
+        const value = dust || block ? 20 : 100 + Math.round((x / width) * 60);
+        data[i] = value;
+        data[i + 1] = value;
+        data[i + 2] = value;
+        data[i + 3] = 255;
+      }
+    }
+    return { data, width, height };
+  };
+  const spot: Spot = { mode: 'clone', points: [0.3, 0.5], sourceX: 0.3, sourceY: 0.2, size: 0.05, feather: 0 };
+  const dust = (image: PixelBuffer) => (Math.floor(image.height * 0.5) * image.width + Math.floor(image.width * 0.3)) * 4;
+
+  it('clones the source over the spot and leaves everything else alone', () => {
+    const source = createDusty();
+    const cloned = applySpots(source, [spot]);
+
+    expect(source.data[dust(source)]).toBe(20);
+    expect(cloned.data[dust(cloned)]).toBe(source.data[dust(source) - 19 * 96 * 4]);
+    expect(cloned.data[4]).toBe(source.data[4]);
+    expect(applySpots(source, [])).toBe(source);
+
+    // The same spot lands in the same place at any size
+    const large = applySpots(createDusty(384, 256), [spot]);
+    expect(large.data[dust(large)]).toBeCloseTo(cloned.data[dust(cloned)], -1);
+  });
+
+  it('heals by matching the copy to the tone around the spot', () => {
+    const source = createDusty();
+    // Straight down the ramp from further right, which is brighter
+    const moved = { ...spot, sourceX: 0.45, sourceY: 0.5 };
+    const expected = 100 + Math.round((Math.floor(96 * 0.3) / 96) * 60);
+
+    const cloned = applySpots(source, [moved]).data[dust(source)];
+    const healed = applySpots(source, [{ ...moved, mode: 'heal' }]).data[dust(source)];
+    expect(Math.abs(healed - expected)).toBeLessThan(3);
+    expect(Math.abs(cloned - expected)).toBeGreaterThan(5);
+
+    const result = processImage(source, {}, null, { spots: [{ ...moved, mode: 'heal' }] });
+    expect(result.data[dust(source)]).toBe(healed);
+  });
+
+  it('finds a source clear of the spot and of darker areas', () => {
+    const source = createDusty();
+    const { sourceX, sourceY } = findSpotSource(source, { ...spot, mode: 'heal' });
+    const healed = applySpots(source, [{ ...spot, mode: 'heal', sourceX, sourceY }]);
+
+    expect(Math.hypot((sourceX - 0.3) * 96, (sourceY - 0.5) * 64)).toBeGreaterThan(96 * 0.1);
+    expect(sourceX * 96 + 96 * 0.05).toBeLessThan(96 * 0.75);
+    expect(healed.data[dust(source)]).toBeGreaterThan(90);
+  });
+});
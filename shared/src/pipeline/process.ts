@@ -0,0 +1,23 @@
+import { applyAdjustments } from './adjustments';
+import { applyGeometry, normalizeCrop } from './geometry';
+import { applyMasks } from './masks';
+import { applySpots } from './spots';
+import { PipelineAdjustments, PipelineCrop, PixelBuffer, ProcessOptions } from './types';
+
+/**
+ * Render source pixels with a project's spots, crop, adjustments and masks.
+ * The source is never modified; a new RGBA buffer is returned. Masks read
+ * the retouched source, so a healed blemish doesn't show up in a range.
+ */
+export const processImage = (
+  source: PixelBuffer,
+  adjustments: PipelineAdjustments = {},
+  crop?: PipelineCrop | null,
+  options: ProcessOptions = {}
+): PixelBuffer => {
+  const scale = options.scale || 1;
+  const normalized = normalizeCrop(crop, source.width, source.height, scale);
+  const retouched = applySpots(source, options.spots);
+  const adjusted = applyAdjustments(applyGeometry(retouched, normalized), adjustments, scale);
+  return applyMasks(adjusted, options.masks, normalized, retouched);
+};
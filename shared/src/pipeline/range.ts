@@ -0,0 +1,81 @@
+import { SRGB_TO_LINEAR, clamp, luminance, smoothstep } from './color';
+import { MaskRange, RangeColor } from './types';
+
+// Colors a color range can be sampled from at once
+export const MAX_RANGE_COLORS = 5;
+
+// Smoothness 100 fades a luminance range out over this share of the tonal
+// range on either side
+const MAX_LUMINANCE_FADE = 0.3;
+
+// Color difference (CIE76) a color range reaches at amount 0 and 100. Colors
+// within half of it are fully selected.
+const MIN_COLOR_DISTANCE = 6;
+const MAX_COLOR_DISTANCE = 50;
+
+// How strongly a range selects a color given as 0-255 channels
+export type RangeWeight = (r: number, g: number, b: number) => number;
+
+// D65 white in XYZ
+const WHITE = [0.95047, 1, 1.08883];
+
+const labF = (t: number): number => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+// CIE L*a*b* for a color given as 0-255 sRGB channels
+const toLab = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = SRGB_TO_LINEAR[Math.round(r)];
+  const lg = SRGB_TO_LINEAR[Math.round(g)];
+  const lb = SRGB_TO_LINEAR[Math.round(b)];
+  const x = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / WHITE[0]);
+  const y = labF((0.2126 * lr + 0.7152 * lg + 0.0722 * lb) / WHITE[1]);
+  const z = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / WHITE[2]);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+};
+
+const luminanceWeight = (min: number, max: number, smoothness: number): RangeWeight => {
+  const low = Math.min(min, max);
+  const high = Math.max(min, max);
+  const fade = smoothness * MAX_LUMINANCE_FADE;
+
+  return (r, g, b) => {
+    const lum = luminance(r, g, b) / 255;
+    if (lum >= low && lum <= high) return 1;
+    if (fade === 0) return 0;
+    const distance = lum < low ? low - lum : lum - high;
+    return distance >= fade ? 0 : 1 - smoothstep(distance / fade);
+  };
+};
+
+const colorWeight = (colors: RangeColor[], amount: number): RangeWeight => {
+  const samples = colors.slice(0, MAX_RANGE_COLORS).map(({ r, g, b }) => toLab(r, g, b));
+  if (samples.length === 0) return () => 0;
+
+  const reach = MIN_COLOR_DISTANCE + (MAX_COLOR_DISTANCE - MIN_COLOR_DISTANCE) * amount;
+  const inner = reach / 2;
+
+  return (r, g, b) => {
+    const [l, a, bb] = toLab(r, g, b);
+    let closest = Infinity;
+    samples.forEach(([sl, sa, sb]) => {
+      closest = Math.min(closest, Math.sqrt((l - sl) * (l - sl) + (a - sa) * (a - sa) + (bb - sb) * (bb - sb)));
+    });
+    if (closest <= inner) return 1;
+    if (closest >= reach) return 0;
+    return 1 - smoothstep((closest - inner) / (reach - inner));
+  };
+};
+
+/**
+ * How strongly a range selects each color. Ranges are matched against the
+ * unadjusted source, so a selection doesn't shift while the photo is being
+ * edited.
+ */
+export const rangeWeight = (range: MaskRange): RangeWeight => {
+  const percent = (value: number | undefined, fallback: number) =>
+    clamp((typeof value === 'number' ? value : fallback) / 100);
+
+  if (range.type === 'luminance') {
+    return luminanceWeight(percent(range.min, 0), percent(range.max, 100), percent(range.smoothness, 50));
+  }
+  return colorWeight(range.colors || [], percent(range.amount, 50));
+};
@@ -0,0 +1,67 @@
+import { PixelBuffer, ScopeGrid, Scopes } from './types';
+
+// Most columns and levels a waveform keeps; wider images share columns
+const WAVEFORM_COLUMNS = 256;
+const WAVEFORM_LEVELS = 128;
+// Odd, so neutral colours fall in a single centre cell
+const VECTORSCOPE_SIZE = 129;
+
+// Angle of the skin tone (I) line on a vectorscope, anticlockwise from +Cb.
+// Skin of any complexion falls close to it once white balance is right.
+export const SKIN_TONE_ANGLE = 123;
+
+// Rec. 709 colour difference scaling, so Cb and Cr both span -0.5..0.5
+const CB_SCALE = 1.8556;
+const CR_SCALE = 1.5748;
+
+const grid = (width: number, height: number): ScopeGrid => ({ width, height, data: new Uint32Array(width * height) });
+
+/**
+ * Where an 8-bit colour lands on a vectorscope of the given size, as [x, y]
+ * with y growing downwards. Neutral colours land in the centre.
+ */
+export const vectorscopePoint = (r: number, g: number, b: number, size = VECTORSCOPE_SIZE): [number, number] => {
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const cb = (b - y) / 255 / CB_SCALE;
+  const cr = (r - y) / 255 / CR_SCALE;
+  return [(cb + 0.5) * (size - 1), (0.5 - cr) * (size - 1)];
+};
+
+/**
+ * Luma waveform, RGB parade and vectorscope for a rendered image, for
+ * colorists who read exposure and balance off scopes rather than a histogram.
+ */
+export const computeScopes = (image: PixelBuffer): Scopes => {
+  const { data, width, height } = image;
+  const columns = Math.max(1, Math.min(width, WAVEFORM_COLUMNS));
+  const top = WAVEFORM_LEVELS - 1;
+
+  const waveform = grid(columns, WAVEFORM_LEVELS);
+  const parade: [ScopeGrid, ScopeGrid, ScopeGrid] = [
+    grid(columns, WAVEFORM_LEVELS),
+    grid(columns, WAVEFORM_LEVELS),
+    grid(columns, WAVEFORM_LEVELS)
+  ];
+  const vectorscope = grid(VECTORSCOPE_SIZE, VECTORSCOPE_SIZE);
+  const level = (value: number) => top - Math.round((value / 255) * top);
+
+  for (let x = 0; x < width; x++) {
+    const column = Math.floor((x * columns) / width);
+    for (let y = 0; y < height; y++) {
+      const i = (y * width + x) * 4;
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+
+      waveform.data[level(0.2126 * r + 0.7152 * g + 0.0722 * b) * columns + column]++;
+      parade[0].data[level(r) * columns + column]++;
+      parade[1].data[level(g) * columns + column]++;
+      parade[2].data[level(b) * columns + column]++;
+
+      const [vx, vy] = vectorscopePoint(r, g, b);
+      vectorscope.data[Math.round(vy) * VECTORSCOPE_SIZE + Math.round(vx)]++;
+    }
+  }
+
+  return { waveform, parade, vectorscope };
+};
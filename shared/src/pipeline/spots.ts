@@ -0,0 +1,312 @@
+import { clamp, smoothstep } from './color';
+import { PixelBuffer, Spot } from './types';
+
+// Spots a project can hold, and points in one painted spot
+export const MAX_SPOTS = 100;
+export const MAX_SPOT_POINTS = 200;
+
+// Healing matches the copy's tone to the surroundings at up to this many
+// points around the spot, sampled at this many angles around each dab
+const MAX_BOUNDARY_SAMPLES = 128;
+const BOUNDARY_ANGLES = 24;
+// Dabs along a painted spot's path are this share of its radius apart
+const DAB_SPACING = 0.5;
+
+// The automatic source is searched for at this many angles around the
+// spot, this many spot widths away, preferring nearer ones
+const SEARCH_ANGLES = 16;
+const SEARCH_DISTANCES = [1.2, 1.6, 2.2];
+const SEARCH_DISTANCE_PENALTY = 0.25;
+
+// A spot in the pixels of one image
+interface SpotShape {
+  // x, y pairs
+  path: number[];
+  radius: number;
+  // From the spot to its source
+  offsetX: number;
+  offsetY: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const percent = (value: number | undefined, fallback: number): number =>
+  clamp((typeof value === 'number' ? value : fallback) / 100);
+
+const shapeOf = (spot: Spot, width: number, height: number): SpotShape | null => {
+  const { points } = spot;
+  if (!points || points.length < 2) return null;
+
+  const path = points
+    .slice(0, Math.min(MAX_SPOT_POINTS, Math.floor(points.length / 2)) * 2)
+    .map((value, index) => value * (index % 2 === 0 ? width : height));
+  const xs = path.filter((_, index) => index % 2 === 0);
+  const ys = path.filter((_, index) => index % 2 === 1);
+
+  return {
+    path,
+    radius: Math.max(spot.size * Math.max(width, height), 0.5),
+    offsetX: (spot.sourceX - points[0]) * width,
+    offsetY: (spot.sourceY - points[1]) * height,
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys)
+  };
+};
+
+// Distance from a point to the nearest part of a path
+const pathDistance = (path: number[], x: number, y: number): number => {
+  if (path.length < 4) return Math.hypot(x - path[0], y - path[1]);
+
+  let closest = Infinity;
+  for (let i = 0; i + 3 < path.length; i += 2) {
+    const vx = path[i + 2] - path[i];
+    const vy = path[i + 3] - path[i + 1];
+    const lengthSq = vx * vx + vy * vy;
+    const t = lengthSq === 0 ? 0 : clamp(((x - path[i]) * vx + (y - path[i + 1]) * vy) / lengthSq);
+    closest = Math.min(closest, Math.hypot(x - path[i] - vx * t, y - path[i + 1] - vy * t));
+  }
+  return closest;
+};
+
+// Points at even spacing along a path, starting with its first
+const alongPath = (path: number[], spacing: number, visit: (x: number, y: number) => void) => {
+  let x = path[0];
+  let y = path[1];
+  let carried = 0;
+  visit(x, y);
+  for (let i = 2; i + 1 < path.length; i += 2) {
+    const length = Math.hypot(path[i] - x, path[i + 1] - y);
+    let along = spacing - carried;
+    for (; along <= length; along += spacing) {
+      visit(x + ((path[i] - x) * along) / length, y + ((path[i + 1] - y) * along) / length);
+    }
+    carried = length - (along - spacing);
+    x = path[i];
+    y = path[i + 1];
+  }
+};
+
+// Points just outside the spot and inside the image, x, y pairs
+const boundaryOf = ({ path, radius }: SpotShape, width: number, height: number, limit: number): number[] => {
+  const reach = radius * 1.1 + 0.5;
+  const points: number[] = [];
+  alongPath(path, radius * DAB_SPACING, (cx, cy) => {
+    for (let i = 0; i < BOUNDARY_ANGLES; i++) {
+      const angle = (i / BOUNDARY_ANGLES) * Math.PI * 2;
+      const x = cx + Math.cos(angle) * reach;
+      const y = cy + Math.sin(angle) * reach;
+      if (x >= 0 && y >= 0 && x <= width && y <= height && pathDistance(path, x, y) >= radius) {
+        points.push(x, y);
+      }
+    }
+  });
+
+  const stride = Math.ceil(points.length / 2 / limit);
+  return stride <= 1 ? points : points.filter((_, index) => Math.floor(index / 2) % stride === 0);
+};
+
+// Bilinear RGB at a point, with pixel centres at x + 0.5
+const sample = ({ data, width, height }: PixelBuffer, x: number, y: number, out: number[]) => {
+  const fx = Math.min(Math.max(x - 0.5, 0), width - 1);
+  const fy = Math.min(Math.max(y - 0.5, 0), height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  for (let c = 0; c < 3; c++) {
+    const top = data[(y0 * width + x0) * 4 + c] + (data[(y0 * width + x1) * 4 + c] - data[(y0 * width + x0) * 4 + c]) * tx;
+    const bottom = data[(y1 * width + x0) * 4 + c] + (data[(y1 * width + x1) * 4 + c] - data[(y1 * width + x0) * 4 + c]) * tx;
+    out[c] = top + (bottom - top) * ty;
+  }
+};
+
+/**
+ * Cover one spot in place. The copy is worked out in full before anything
+ * is written, so a source overlapping the spot still reads the original.
+ * Healing adds the difference between the surroundings and the source's
+ * surroundings, spread over the spot by inverse distance, so the copy
+ * keeps its texture but takes on the tone around the spot.
+ */
+const retouch = (image: PixelBuffer, spot: Spot) => {
+  const { width, height, data } = image;
+  const shape = shapeOf(spot, width, height);
+  const opacity = percent(spot.opacity, 100);
+  if (!shape || opacity === 0) return;
+
+  const { path, radius, offsetX, offsetY } = shape;
+  const left = Math.max(0, Math.floor(shape.minX - radius));
+  const top = Math.max(0, Math.floor(shape.minY - radius));
+  const right = Math.min(width - 1, Math.ceil(shape.maxX + radius));
+  const bottom = Math.min(height - 1, Math.ceil(shape.maxY + radius));
+  if (left > right || top > bottom) return;
+
+  const columns = right - left + 1;
+  const rows = bottom - top + 1;
+  const feather = percent(spot.feather, 50);
+  const inner = 1 - feather;
+  const color = [0, 0, 0];
+
+  // Distance to the path for every pixel near it, found segment by segment
+  // so long diagonal strokes don't measure their whole bounding box
+  const distances = new Float32Array(columns * rows).fill(Infinity);
+  const segments = path.length < 4 ? [path[0], path[1], path[0], path[1]] : path;
+  for (let i = 0; i + 3 < segments.length; i += 2) {
+    const segment = segments.slice(i, i + 4);
+    const x0 = Math.max(left, Math.floor(Math.min(segment[0], segment[2]) - radius));
+    const x1 = Math.min(right, Math.ceil(Math.max(segment[0], segment[2]) + radius));
+    const y0 = Math.max(top, Math.floor(Math.min(segment[1], segment[3]) - radius));
+    const y1 = Math.min(bottom, Math.ceil(Math.max(segment[1], segment[3]) + radius));
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const index = (y - top) * columns + (x - left);
+        distances[index] = Math.min(distances[index], pathDistance(segment, x + 0.5, y + 0.5));
+      }
+    }
+  }
+
+  // Surroundings minus the source's surroundings, per channel
+  const boundary = spot.mode === 'heal' ? boundaryOf(shape, width, height, MAX_BOUNDARY_SAMPLES) : [];
+  const differences = new Float32Array((boundary.length / 2) * 3);
+  for (let i = 0; i < boundary.length; i += 2) {
+    const target = [0, 0, 0];
+    sample(image, boundary[i], boundary[i + 1], target);
+    sample(image, boundary[i] + offsetX, boundary[i + 1] + offsetY, color);
+    for (let c = 0; c < 3; c++) differences[(i / 2) * 3 + c] = target[c] - color[c];
+  }
+
+  // RGB and how much of it to use, for every pixel of the spot
+  const copy = new Float32Array(columns * rows * 4);
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      const index = (y - top) * columns + (x - left);
+      const distance = distances[index] / radius;
+      if (distance >= 1) continue;
+
+      sample(image, x + 0.5 + offsetX, y + 0.5 + offsetY, color);
+      if (boundary.length > 0) {
+        const correction = [0, 0, 0];
+        let total = 0;
+        for (let i = 0; i < boundary.length; i += 2) {
+          const dx = boundary[i] - (x + 0.5);
+          const dy = boundary[i + 1] - (y + 0.5);
+          const weight = 1 / (dx * dx + dy * dy);
+          total += weight;
+          for (let c = 0; c < 3; c++) correction[c] += differences[(i / 2) * 3 + c] * weight;
+        }
+        for (let c = 0; c < 3; c++) color[c] += correction[c] / total;
+      }
+
+      copy[index * 4] = color[0];
+      copy[index * 4 + 1] = color[1];
+      copy[index * 4 + 2] = color[2];
+      copy[index * 4 + 3] = opacity * (distance <= inner ? 1 : 1 - smoothstep((distance - inner) / feather));
+    }
+  }
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      const index = (y - top) * columns + (x - left);
+      const alpha = copy[index * 4 + 3];
+      if (alpha === 0) continue;
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        data[i + c] = Math.round(data[i + c] + (copy[index * 4 + c] - data[i + c]) * alpha);
+      }
+    }
+  }
+};
+
+/**
+ * Retouch spots in order, each seeing the ones before it. The source is
+ * never modified; without spots it is returned as is.
+ */
+export const applySpots = (source: PixelBuffer, spots?: Spot[] | null): PixelBuffer => {
+  if (!spots || spots.length === 0) return source;
+
+  const image = { data: new Uint8ClampedArray(source.data), width: source.width, height: source.height };
+  spots.slice(0, MAX_SPOTS).forEach(spot => retouch(image, spot));
+  return image;
+};
+
+/**
+ * Pick where a spot is copied from: the nearby place, clear of the spot and
+ * inside the image, whose surroundings best match the spot's and whose
+ * inside is as even as them. Healing corrects tone, so for it only the
+ * texture has to match. Returns the new source position.
+ */
+export const findSpotSource = (pixels: PixelBuffer, spot: Spot): { sourceX: number; sourceY: number } => {
+  const { width, height } = pixels;
+  const shape = shapeOf(spot, width, height);
+  if (!shape) return { sourceX: spot.sourceX, sourceY: spot.sourceY };
+
+  const { path, radius, minX, minY, maxX, maxY } = shape;
+  const ring = boundaryOf(shape, width, height, MAX_BOUNDARY_SAMPLES / 2);
+  const inside: number[] = [];
+  alongPath(path, radius * DAB_SPACING, (x, y) => inside.push(x, y));
+
+  const color = [0, 0, 0];
+  const around = ring.length / 2;
+  const target = new Float32Array(around * 3);
+  const mean = [0, 0, 0];
+  for (let i = 0; i < ring.length; i += 2) {
+    sample(pixels, ring[i], ring[i + 1], color);
+    for (let c = 0; c < 3; c++) {
+      target[(i / 2) * 3 + c] = color[c];
+      mean[c] += color[c] / around;
+    }
+  }
+
+  const extent = Math.max(maxX - minX, maxY - minY) + radius * 2;
+  let best: { x: number; y: number } | null = null;
+  let bestScore = Infinity;
+
+  SEARCH_DISTANCES.forEach((factor, tier) => {
+    for (let step = 0; step < SEARCH_ANGLES; step++) {
+      const angle = (step / SEARCH_ANGLES) * Math.PI * 2;
+      const x = Math.cos(angle) * extent * factor;
+      const y = Math.sin(angle) * extent * factor;
+      if (minX - radius + x < 0 || minY - radius + y < 0 || maxX + radius + x > width || maxY + radius + y > height) {
+        continue;
+      }
+
+      // How far the source's surroundings are from the spot's, after
+      // healing has evened out their tone
+      const candidate = new Float32Array(around * 3);
+      const shift = [0, 0, 0];
+      for (let i = 0; i < ring.length; i += 2) {
+        sample(pixels, ring[i] + x, ring[i + 1] + y, color);
+        for (let c = 0; c < 3; c++) {
+          candidate[(i / 2) * 3 + c] = color[c];
+          if (spot.mode === 'heal') shift[c] += (target[(i / 2) * 3 + c] - color[c]) / around;
+        }
+      }
+      let score = 0;
+      for (let i = 0; i < candidate.length; i++) {
+        score += (target[i] - candidate[i] - shift[i % 3]) ** 2;
+      }
+      for (let i = 0; i < inside.length; i += 2) {
+        sample(pixels, inside[i] + x, inside[i + 1] + y, color);
+        for (let c = 0; c < 3; c++) score += (mean[c] - color[c] - shift[c]) ** 2;
+      }
+      score = (score / Math.max(candidate.length + (inside.length / 2) * 3, 1)) * (1 + tier * SEARCH_DISTANCE_PENALTY);
+
+      if (score < bestScore) {
+        bestScore = score;
+        best = { x, y };
+      }
+    }
+  });
+
+  // Too big to fit anywhere else: take whichever side has the most room
+  const offset = best || {
+    x: (minX + maxX) / 2 < width / 2 ? Math.min(extent, width - maxX - radius) : -Math.min(extent, minX - radius),
+    y: 0
+  };
+  return { sourceX: spot.points[0] + offset.x / width, sourceY: spot.points[1] + offset.y / height };
+};
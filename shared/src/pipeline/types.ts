@@ -0,0 +1,293 @@
+// RGBA pixels, four bytes per pixel, row-major with no padding
+export interface PixelBuffer {
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+// The client historically described curve points as input/output pairs
+export interface LegacyCurvePoint {
+  input: number;
+  output: number;
+}
+
+// Region sliders (-100..100) and the splits between them (0-100 along the
+// tonal range, defaulting to 25, 50 and 75)
+export interface ParametricCurveSettings {
+  highlights?: number;
+  lights?: number;
+  darks?: number;
+  shadows?: number;
+  shadowSplit?: number;
+  midtoneSplit?: number;
+  highlightSplit?: number;
+}
+
+// Everything besides the RGB master curve, which predates it as `curves`.
+// The parametric curve applies first, then the master, then each channel.
+export interface ToneCurveSettings {
+  red?: Array<CurvePoint | LegacyCurvePoint>;
+  green?: Array<CurvePoint | LegacyCurvePoint>;
+  blue?: Array<CurvePoint | LegacyCurvePoint>;
+  parametric?: ParametricCurveSettings;
+}
+
+// Amount and roundness are -100..100, midpoint and feather 0-100 (default 50)
+export interface VignetteSettings {
+  enabled?: boolean;
+  amount?: number;
+  midpoint?: number;
+  roundness?: number;
+  feather?: number;
+}
+
+export interface GrainSettings {
+  enabled?: boolean;
+  amount?: number;
+  size?: number;
+  roughness?: number;
+}
+
+export type HslColor = 'red' | 'orange' | 'yellow' | 'green' | 'aqua' | 'blue' | 'purple' | 'magenta';
+
+// Color mixer settings for one band, each -100..100
+export interface HslBand {
+  hue?: number;
+  saturation?: number;
+  lightness?: number;
+}
+
+export type HslAdjustments = Partial<Record<HslColor, HslBand>>;
+
+// One color grading wheel: the tint's hue (0-360) and strength (0-100),
+// and a brightness shift (-100..100)
+export interface ColorGradingWheel {
+  hue?: number;
+  saturation?: number;
+  luminance?: number;
+}
+
+export interface ColorGradingSettings {
+  shadows?: ColorGradingWheel;
+  midtones?: ColorGradingWheel;
+  highlights?: ColorGradingWheel;
+  global?: ColorGradingWheel;
+  // How far the tonal ranges overlap, 0-100 (default 50)
+  blending?: number;
+  // Moves the split between shadows and highlights, -100..100
+  balance?: number;
+}
+
+// Every field is optional; missing values are treated as "no change"
+export interface PipelineAdjustments {
+  exposure?: number;
+  contrast?: number;
+  highlights?: number;
+  shadows?: number;
+  whites?: number;
+  blacks?: number;
+  temperature?: number;
+  tint?: number;
+  vibrance?: number;
+  saturation?: number;
+  texture?: number;
+  clarity?: number;
+  dehaze?: number;
+  vignette?: number | VignetteSettings;
+  grain?: GrainSettings;
+  curves?: Array<CurvePoint | LegacyCurvePoint>;
+  toneCurve?: ToneCurveSettings;
+  hslAdjustments?: HslAdjustments;
+  colorGrading?: ColorGradingSettings;
+}
+
+// Crop rectangle in original image pixels. The server stores flips as
+// flipHorizontal/flipVertical while the editor uses flipX/flipY.
+export interface PipelineCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number;
+  flipX?: boolean;
+  flipY?: boolean;
+  flipHorizontal?: boolean;
+  flipVertical?: boolean;
+}
+
+export type MaskAdjustmentKey =
+  | 'exposure'
+  | 'contrast'
+  | 'highlights'
+  | 'shadows'
+  | 'temperature'
+  | 'tint'
+  | 'saturation'
+  | 'clarity';
+
+// What a mask changes where it applies. Exposure is in stops (-5..5), the
+// rest -100..100; temperature and tint shift the global white balance.
+export type MaskAdjustments = Partial<Record<MaskAdjustmentKey, number>>;
+
+// Narrows a mask to tones between min and max luminance (0-100), fading
+// out beyond them over `smoothness` (0-100, default 50)
+export interface LuminanceRange {
+  type: 'luminance';
+  min: number;
+  max: number;
+  smoothness?: number;
+}
+
+// A color sampled from the photo, 0-255 per channel
+export interface RangeColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Narrows a mask to colors close to any of the sampled ones. A higher
+// amount (0-100, default 50) takes in less similar colors.
+export interface ColorRange {
+  type: 'color';
+  colors: RangeColor[];
+  amount?: number;
+}
+
+export type MaskRange = LuminanceRange | ColorRange;
+
+interface MaskBase {
+  id?: string;
+  name?: string;
+  // Hidden masks are kept but not rendered
+  visible?: boolean;
+  // Apply everywhere the shape doesn't
+  invert?: boolean;
+  // Only keep the parts of the mask whose source pixels are in range
+  range?: MaskRange | null;
+  adjustments?: MaskAdjustments;
+}
+
+// Full effect up to the start line, fading out to none at the end line.
+// Positions are fractions (0-1) of the original image's width and height,
+// so masks stay put when the image is cropped or rotated.
+export interface LinearGradientMask extends MaskBase {
+  type: 'linear';
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+// Full effect inside an ellipse, fading out towards its edge. The radii are
+// fractions of the original width and height, turned by `angle` degrees.
+export interface RadialGradientMask extends MaskBase {
+  type: 'radial';
+  centerX: number;
+  centerY: number;
+  radiusX: number;
+  radiusY: number;
+  angle?: number;
+  // Share of the radius the effect fades over, 0-100 (default 50)
+  feather?: number;
+}
+
+// One brush stroke. Points and sizes are relative to the original image,
+// so a stroke lands in the same place on the preview, the full-size
+// original and any crop.
+export interface BrushStroke {
+  // x, y pairs as fractions of the original's width and height
+  points: number[];
+  // Brush radius as a share of the original's longest edge
+  size: number;
+  // Share of the radius the brush fades out over, 0-100 (default 50)
+  feather?: number;
+  // How much each dab adds, 0-100; dabs build up while the stroke overlaps
+  // itself (default 100)
+  flow?: number;
+  // Most the stroke builds up to, 0-100 (default 100)
+  density?: number;
+  // Take the mask away instead of adding to it
+  erase?: boolean;
+  // Only paint pixels whose color is close to the one under the brush
+  // centre, so strokes stop at strong edges
+  autoMask?: boolean;
+}
+
+// Painted by hand: strokes apply in order, painting or erasing
+export interface BrushMask extends MaskBase {
+  type: 'brush';
+  strokes: BrushStroke[];
+}
+
+// The whole image, narrowed down by its range alone
+export interface RangeMask extends MaskBase {
+  type: 'range';
+  range: MaskRange;
+}
+
+export type PipelineMask = LinearGradientMask | RadialGradientMask | BrushMask | RangeMask;
+
+// A retouched spot: a circle at one point, or a path of x, y pairs painted
+// over a blemish, covered by the same shape copied from elsewhere. Heal
+// blends the copy into its surroundings; clone copies it as is. Positions
+// are fractions of the original image, the source being where the first
+// point is copied from, and size a radius as a share of the longest edge.
+export interface Spot {
+  mode: 'heal' | 'clone';
+  points: number[];
+  sourceX: number;
+  sourceY: number;
+  size: number;
+  // 0-100, defaulting to 50 and 100
+  feather?: number;
+  opacity?: number;
+}
+
+// How strongly a mask applies at each output pixel, 0-1, row-major
+export interface MaskWeights {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+// 256 bins per channel for a rendered image
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luminance: Uint32Array;
+  // Pixels with at least one channel at 0 (shadows) or 255 (highlights)
+  clipped: { shadows: number; highlights: number };
+  total: number;
+}
+
+// Pixel counts on a grid, row-major with row 0 at the top
+export interface ScopeGrid {
+  width: number;
+  height: number;
+  data: Uint32Array;
+}
+
+export interface Scopes {
+  // Columns of the image against luma, brightest at the top
+  waveform: ScopeGrid;
+  // The same per red, green and blue channel
+  parade: [ScopeGrid, ScopeGrid, ScopeGrid];
+  // Chroma plane: Cb across, Cr up, neutral in the centre
+  vectorscope: ScopeGrid;
+}
+
+export interface ProcessOptions {
+  // Source pixels per original image pixel, e.g. 0.25 for a 1200px preview
+  // of a 4800px original. Crop coordinates and grain size are scaled by it.
+  scale?: number;
+  // Local adjustments composited over the global ones, in order
+  masks?: PipelineMask[] | null;
+  // Retouched in order on the source, before anything else
+  spots?: Spot[] | null;
+}
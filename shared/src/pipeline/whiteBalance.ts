@@ -0,0 +1,194 @@
+import { clamp, srgbToLinear } from './color';
+
+// Images are assumed to be balanced for D65, the sRGB white point, so this
+// temperature with zero tint leaves pixels unchanged
+export const NEUTRAL_KELVIN = 6500;
+export const MIN_KELVIN = 2000;
+export const MAX_KELVIN = 50000;
+
+// Distance from the Planckian locus (in CIE 1960 uv) at tint +/-100
+const MAX_DUV = 0.03;
+
+type Matrix = number[];
+
+const SRGB_TO_XYZ: Matrix = [
+  0.4124564, 0.3575761, 0.1804375,
+  0.2126729, 0.7151522, 0.072175,
+  0.0193339, 0.119192, 0.9503041
+];
+
+const XYZ_TO_SRGB: Matrix = [
+  3.2404542, -1.5371385, -0.4985314,
+  -0.969266, 1.8760108, 0.041556,
+  0.0556434, -0.2040259, 1.0572252
+];
+
+// Bradford cone response, the adaptation Lightroom and ICC profiles use
+const BRADFORD: Matrix = [
+  0.8951, 0.2664, -0.1614,
+  -0.7502, 1.7135, 0.0367,
+  0.0389, -0.0685, 1.0296
+];
+
+const multiply = (a: Matrix, b: Matrix): Matrix => {
+  const result: Matrix = [];
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      result.push(a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col]);
+    }
+  }
+  return result;
+};
+
+const apply = (m: Matrix, [x, y, z]: number[]): number[] => [
+  m[0] * x + m[1] * y + m[2] * z,
+  m[3] * x + m[4] * y + m[5] * z,
+  m[6] * x + m[7] * y + m[8] * z
+];
+
+const invert = (m: Matrix): Matrix => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det
+  ];
+};
+
+const BRADFORD_INVERSE = invert(BRADFORD);
+
+// Planckian locus in CIE 1960 uv (Krystek's approximation)
+const planckian = (kelvin: number): [number, number] => {
+  const t = kelvin;
+  const u = (0.860117757 + 1.54118254e-4 * t + 1.28641212e-7 * t * t) /
+    (1 + 8.42420235e-4 * t + 7.08145163e-7 * t * t);
+  const v = (0.317398726 + 4.22806245e-5 * t + 4.20481691e-8 * t * t) /
+    (1 - 2.89741816e-5 * t + 1.61456053e-7 * t * t);
+  return [u, v];
+};
+
+// Unit normal to the locus, pointing towards green (positive tint)
+const locusNormal = (kelvin: number): [number, number] => {
+  const [u1, v1] = planckian(kelvin - 1);
+  const [u2, v2] = planckian(kelvin + 1);
+  const length = Math.hypot(u2 - u1, v2 - v1);
+  let nu = -(v2 - v1) / length;
+  let nv = (u2 - u1) / length;
+  if (nv < 0) {
+    nu = -nu;
+    nv = -nv;
+  }
+  return [nu, nv];
+};
+
+const xyzToUv = ([x, y, z]: number[]): [number, number] => {
+  const denominator = x + 15 * y + 3 * z;
+  return [(4 * x) / denominator, (6 * y) / denominator];
+};
+
+const uvToXyz = ([u, v]: [number, number]): number[] => {
+  const denominator = 2 * u - 8 * v + 4;
+  const x = (3 * u) / denominator;
+  const y = (2 * v) / denominator;
+  return [x / y, 1, (1 - x - y) / y];
+};
+
+const D65 = apply(SRGB_TO_XYZ, [1, 1, 1]);
+const D65_UV = xyzToUv(D65);
+
+// The locus at 6500K sits slightly off D65; shift it so neutral really is neutral
+const NEUTRAL_UV = planckian(NEUTRAL_KELVIN);
+const LOCUS_OFFSET: [number, number] = [D65_UV[0] - NEUTRAL_UV[0], D65_UV[1] - NEUTRAL_UV[1]];
+
+const whitePointUv = (kelvin: number, tint: number): [number, number] => {
+  const [u, v] = planckian(kelvin);
+  const [nu, nv] = locusNormal(kelvin);
+  const duv = (tint / 100) * MAX_DUV;
+  return [u + nu * duv + LOCUS_OFFSET[0], v + nv * duv + LOCUS_OFFSET[1]];
+};
+
+// Relative Lightroom-style temperature (-100..100) as Kelvin: each step of
+// 100 halves or doubles the temperature
+export const incrementalToKelvin = (temperature: number): number =>
+  Math.round(NEUTRAL_KELVIN * Math.pow(2, temperature / 100));
+
+export const kelvinToIncremental = (kelvin: number): number =>
+  clamp(Math.round(100 * Math.log2(kelvin / NEUTRAL_KELVIN)), -100, 100);
+
+/**
+ * Read a stored temperature as Kelvin. Edits made before white balance moved
+ * to Kelvin hold relative values of -100..100, which no real colour
+ * temperature can be, so those are converted.
+ */
+export const toKelvin = (temperature?: number): number => {
+  if (typeof temperature !== 'number' || !Number.isFinite(temperature)) return NEUTRAL_KELVIN;
+  if (Math.abs(temperature) <= 100) return incrementalToKelvin(temperature);
+  return clamp(temperature, MIN_KELVIN, MAX_KELVIN);
+};
+
+/**
+ * Linear sRGB matrix adapting from a light of the given temperature and tint
+ * to D65 with the Bradford transform. Returns null for neutral settings.
+ */
+export const whiteBalanceMatrix = (temperature?: number, tint = 0): Matrix | null => {
+  const kelvin = toKelvin(temperature);
+  const shift = clamp(tint || 0, -100, 100);
+  if (kelvin === NEUTRAL_KELVIN && shift === 0) return null;
+
+  const source = apply(BRADFORD, uvToXyz(whitePointUv(kelvin, shift)));
+  const target = apply(BRADFORD, D65);
+  const scale = [
+    target[0] / source[0], 0, 0,
+    0, target[1] / source[1], 0,
+    0, 0, target[2] / source[2]
+  ];
+
+  const adaptation = multiply(BRADFORD_INVERSE, multiply(scale, BRADFORD));
+  return multiply(XYZ_TO_SRGB, multiply(adaptation, SRGB_TO_XYZ));
+};
+
+/**
+ * White balance that turns a sampled colour neutral, for the eyedropper.
+ * The sample is read from the rendered image, so the current white balance
+ * is undone first. Returns null for samples with no usable colour, such as
+ * pure black.
+ */
+export const solveWhiteBalance = (
+  r: number,
+  g: number,
+  b: number,
+  current: { temperature?: number; tint?: number } = {}
+): { temperature: number; tint: number } | null => {
+  const linear = [srgbToLinear(r / 255), srgbToLinear(g / 255), srgbToLinear(b / 255)];
+  const matrix = whiteBalanceMatrix(current.temperature, current.tint);
+  const source = matrix ? apply(invert(matrix), linear) : linear;
+  const xyz = apply(SRGB_TO_XYZ, source);
+  if (xyz[1] <= 0 || xyz[0] + 15 * xyz[1] + 3 * xyz[2] <= 0) return null;
+
+  const [u, v] = xyzToUv(xyz);
+  const target: [number, number] = [u - LOCUS_OFFSET[0], v - LOCUS_OFFSET[1]];
+  const distance = (kelvin: number) => {
+    const [lu, lv] = planckian(kelvin);
+    return Math.hypot(target[0] - lu, target[1] - lv);
+  };
+
+  // Search in mireds, which spread perceptual steps evenly, then refine
+  let best = 1e6 / NEUTRAL_KELVIN;
+  for (let mired = 1e6 / MAX_KELVIN; mired <= 1e6 / MIN_KELVIN; mired += 1) {
+    if (distance(1e6 / mired) < distance(1e6 / best)) best = mired;
+  }
+  for (let mired = best - 1; mired <= best + 1; mired += 0.02) {
+    if (distance(1e6 / mired) < distance(1e6 / best)) best = mired;
+  }
+
+  const kelvin = clamp(Math.round(1e6 / best), MIN_KELVIN, MAX_KELVIN);
+  const [lu, lv] = planckian(kelvin);
+  const [nu, nv] = locusNormal(kelvin);
+  const duv = (target[0] - lu) * nu + (target[1] - lv) * nv;
+
+  return {
+    temperature: kelvin,
+    tint: clamp(Math.round((duv / MAX_DUV) * 100), -100, 100)
+  };
+};
@@ -0,0 +1,163 @@
+import { kelvinToIncremental, toKelvin } from '../pipeline/whiteBalance';
+import {
+  SCALAR_FIELDS,
+  VIGNETTE_FIELDS,
+  GRAIN_FIELDS,
+  HSL_COLORS,
+  HSL_PROPERTIES,
+  TONE_CURVE_TAG,
+  CHANNEL_CURVE_TAGS,
+  PARAMETRIC_FIELDS,
+  INCREMENTAL_TEMPERATURE_TAG,
+} from './fields';
+import { CurvePoint } from '../pipeline/types';
+import { XmpDocument } from './types';
+
+// Process version of the 2012 tone controls, which all current Lightroom versions read
+const PROCESS_VERSION = '11.0';
+
+const escape = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Lightroom writes signed settings with an explicit "+" on positive values
+const signed = (value: number, decimals = 0) => {
+  const formatted = value.toFixed(decimals);
+  return value > 0 ? `+${formatted}` : formatted;
+};
+
+const altElement = (qualifiedName: string, value: string) =>
+  `   <${qualifiedName}>\n    <rdf:Alt>\n     <rdf:li xml:lang="x-default">${escape(value)}</rdf:li>\n    </rdf:Alt>\n   </${qualifiedName}>`;
+
+const curveElement = (tag: string, curve: CurvePoint[]) => {
+  const points = curve
+    .map(point => `     <rdf:li>${Math.round(point.x)}, ${Math.round(point.y)}</rdf:li>`)
+    .join('\n');
+  return `   <crs:${tag}>\n    <rdf:Seq>\n${points}\n    </rdf:Seq>\n   </crs:${tag}>`;
+};
+
+const bagElement = (qualifiedName: string, values: string[]) => {
+  const items = values.map(value => `     <rdf:li>${escape(value)}</rdf:li>`).join('\n');
+  return `   <${qualifiedName}>\n    <rdf:Bag>\n${items}\n    </rdf:Bag>\n   </${qualifiedName}>`;
+};
+
+/**
+ * Write develop settings out as Camera Raw XMP. With a name the result is a
+ * develop preset Lightroom can import; without one it's a plain settings
+ * file suitable for a sidecar, optionally carrying title, rating and keywords.
+ */
+export const buildXmp = ({ name, group, settings, crop, metadata = {} }: XmpDocument): string => {
+  const attributes: Array<[string, string]> = [['ProcessVersion', PROCESS_VERSION]];
+
+  if (name) {
+    attributes.push(['PresetType', 'Normal'], ['Cluster', ''], ['SupportsAmount', 'False']);
+  }
+
+  SCALAR_FIELDS.forEach(({ tag, key, decimals }) => {
+    const value = settings[key];
+    if (typeof value === 'number') {
+      attributes.push([tag, signed(value, decimals)]);
+    }
+  });
+
+  // Lightroom only reads Kelvin for raw files, so write it as relative
+  if (typeof settings.temperature === 'number') {
+    attributes.push([INCREMENTAL_TEMPERATURE_TAG, signed(kelvinToIncremental(toKelvin(settings.temperature)))]);
+  }
+
+  VIGNETTE_FIELDS.forEach(({ tag, key, min }) => {
+    const value = settings.vignette?.[key];
+    if (typeof value === 'number') {
+      // Midpoint and feather are unsigned
+      attributes.push([tag, min < 0 ? signed(Math.round(value)) : String(Math.round(value))]);
+    }
+  });
+
+  GRAIN_FIELDS.forEach(({ tag, key }) => {
+    const value = settings.grain?.[key];
+    if (typeof value === 'number') {
+      attributes.push([tag, String(Math.round(value))]);
+    }
+  });
+
+  HSL_COLORS.forEach(({ name: colorName, color }) => {
+    HSL_PROPERTIES.forEach(({ prefix, key }) => {
+      const value = settings.hslAdjustments?.[color]?.[key];
+      if (typeof value === 'number') {
+        attributes.push([`${prefix}${colorName}`, signed(Math.round(value))]);
+      }
+    });
+  });
+
+  PARAMETRIC_FIELDS.forEach(({ tag, key }) => {
+    const value = settings.toneCurve?.parametric?.[key];
+    if (typeof value === 'number') {
+      // Splits are positions rather than adjustments, so they're unsigned
+      attributes.push([tag, key.endsWith('Split') ? String(Math.round(value)) : signed(Math.round(value))]);
+    }
+  });
+
+  if (crop) {
+    attributes.push(
+      ['HasCrop', 'True'],
+      ['CropTop', crop.y.toFixed(6)],
+      ['CropLeft', crop.x.toFixed(6)],
+      ['CropBottom', (crop.y + crop.height).toFixed(6)],
+      ['CropRight', (crop.x + crop.width).toFixed(6)],
+      ['CropAngle', signed(crop.rotation, 2)]
+    );
+  }
+
+  if (name) {
+    attributes.push(['HasSettings', 'True']);
+  }
+
+  const elements: string[] = [];
+  if (metadata.title) {
+    elements.push(altElement('dc:title', metadata.title));
+  }
+  if (metadata.description) {
+    elements.push(altElement('dc:description', metadata.description));
+  }
+  if (metadata.keywords && metadata.keywords.length > 0) {
+    elements.push(bagElement('dc:subject', metadata.keywords));
+  }
+  if (name) {
+    elements.push(altElement('crs:Name', name));
+  }
+  if (group) {
+    elements.push(altElement('crs:Group', group));
+  }
+  if (settings.curves && settings.curves.length >= 2) {
+    elements.push(curveElement(TONE_CURVE_TAG, settings.curves));
+  }
+  CHANNEL_CURVE_TAGS.forEach(({ tag, channel }) => {
+    const curve = settings.toneCurve?.[channel];
+    if (curve && curve.length >= 2) {
+      elements.push(curveElement(tag, curve));
+    }
+  });
+
+  const attributeLines = attributes.map(([tag, value]) => `    crs:${tag}="${escape(value)}"`);
+  if (metadata.rating !== undefined) {
+    attributeLines.unshift(`    xmp:Rating="${Math.round(metadata.rating)}"`);
+  }
+
+  return [
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/" x:xmptk="Lightroom Clone">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:crs="http://ns.adobe.com/camera-raw-settings/1.0/"',
+    `${attributeLines.join('\n')}>`,
+    ...elements,
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '',
+  ].join('\n');
+};
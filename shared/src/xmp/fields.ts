@@ -0,0 +1,119 @@
+import { HslBand, HslColor, ParametricCurveSettings } from '../pipeline/types';
+import { DevelopSettings } from './types';
+
+type ScalarKey = Exclude<
+  keyof DevelopSettings,
+  'temperature' | 'vignette' | 'grain' | 'curves' | 'toneCurve' | 'hslAdjustments'
+>;
+
+interface ScalarField {
+  tag: string;
+  key: ScalarKey;
+  min: number;
+  max: number;
+  decimals?: number;
+}
+
+// Camera Raw (process version 2012 and later) settings with a direct equivalent.
+// Tint uses the incremental tag, which is relative like ours; temperature is
+// converted separately because ours is in Kelvin.
+export const SCALAR_FIELDS: ScalarField[] = [
+  { tag: 'Exposure2012', key: 'exposure', min: -5, max: 5, decimals: 2 },
+  { tag: 'Contrast2012', key: 'contrast', min: -100, max: 100 },
+  { tag: 'Highlights2012', key: 'highlights', min: -100, max: 100 },
+  { tag: 'Shadows2012', key: 'shadows', min: -100, max: 100 },
+  { tag: 'Whites2012', key: 'whites', min: -100, max: 100 },
+  { tag: 'Blacks2012', key: 'blacks', min: -100, max: 100 },
+  { tag: 'IncrementalTint', key: 'tint', min: -100, max: 100 },
+  { tag: 'Vibrance', key: 'vibrance', min: -100, max: 100 },
+  { tag: 'Saturation', key: 'saturation', min: -100, max: 100 },
+  { tag: 'Texture', key: 'texture', min: -100, max: 100 },
+  { tag: 'Clarity2012', key: 'clarity', min: -100, max: 100 },
+  { tag: 'Dehaze', key: 'dehaze', min: -100, max: 100 },
+];
+
+export const VIGNETTE_FIELDS: Array<{ tag: string; key: 'amount' | 'midpoint' | 'roundness' | 'feather'; min: number; max: number }> = [
+  { tag: 'PostCropVignetteAmount', key: 'amount', min: -100, max: 100 },
+  { tag: 'PostCropVignetteMidpoint', key: 'midpoint', min: 0, max: 100 },
+  { tag: 'PostCropVignetteRoundness', key: 'roundness', min: -100, max: 100 },
+  { tag: 'PostCropVignetteFeather', key: 'feather', min: 0, max: 100 },
+];
+
+export const GRAIN_FIELDS: Array<{ tag: string; key: 'amount' | 'size' | 'roughness' }> = [
+  { tag: 'GrainAmount', key: 'amount' },
+  { tag: 'GrainSize', key: 'size' },
+  { tag: 'GrainFrequency', key: 'roughness' },
+];
+
+export const HSL_COLORS: Array<{ name: string; color: HslColor }> = [
+  { name: 'Red', color: 'red' },
+  { name: 'Orange', color: 'orange' },
+  { name: 'Yellow', color: 'yellow' },
+  { name: 'Green', color: 'green' },
+  { name: 'Aqua', color: 'aqua' },
+  { name: 'Blue', color: 'blue' },
+  { name: 'Purple', color: 'purple' },
+  { name: 'Magenta', color: 'magenta' },
+];
+
+export const HSL_PROPERTIES: Array<{ prefix: string; key: keyof HslBand }> = [
+  { prefix: 'HueAdjustment', key: 'hue' },
+  { prefix: 'SaturationAdjustment', key: 'saturation' },
+  { prefix: 'LuminanceAdjustment', key: 'lightness' },
+];
+
+export const TONE_CURVE_TAG = 'ToneCurvePV2012';
+
+export const CHANNEL_CURVE_TAGS: Array<{ tag: string; channel: 'red' | 'green' | 'blue' }> = [
+  { tag: 'ToneCurvePV2012Red', channel: 'red' },
+  { tag: 'ToneCurvePV2012Green', channel: 'green' },
+  { tag: 'ToneCurvePV2012Blue', channel: 'blue' },
+];
+
+export const PARAMETRIC_FIELDS: Array<{ tag: string; key: keyof ParametricCurveSettings; min: number; max: number }> = [
+  { tag: 'ParametricShadows', key: 'shadows', min: -100, max: 100 },
+  { tag: 'ParametricDarks', key: 'darks', min: -100, max: 100 },
+  { tag: 'ParametricLights', key: 'lights', min: -100, max: 100 },
+  { tag: 'ParametricHighlights', key: 'highlights', min: -100, max: 100 },
+  { tag: 'ParametricShadowSplit', key: 'shadowSplit', min: 10, max: 70 },
+  { tag: 'ParametricMidtoneSplit', key: 'midtoneSplit', min: 20, max: 80 },
+  { tag: 'ParametricHighlightSplit', key: 'highlightSplit', min: 30, max: 90 },
+];
+export const CROP_TAGS = ['HasCrop', 'CropTop', 'CropLeft', 'CropBottom', 'CropRight', 'CropAngle'];
+
+// Relative white balance, which Lightroom uses for JPEG and TIFF edits
+export const INCREMENTAL_TEMPERATURE_TAG = 'IncrementalTemperature';
+
+// Absolute white balance, used by raw presets instead of the incremental tags
+export const KELVIN_TAGS = ['Temperature', 'Tint'];
+
+// Describe the file rather than change the image
+export const METADATA_TAGS = [
+  'Version', 'ProcessVersion', 'PresetType', 'Cluster', 'UUID', 'Name', 'ShortName', 'SortName',
+  'Group', 'Description', 'Copyright', 'ContactInfo', 'HasSettings', 'AlreadyApplied',
+  'CameraModelRestriction', 'CameraProfile', 'CameraProfileDigest', 'WhiteBalance', 'RawFileName',
+  'SupportsAmount', 'SupportsAmount2', 'SupportsColor', 'SupportsMonochrome', 'SupportsHighDynamicRange',
+  'SupportsNormalDynamicRange', 'SupportsSceneReferred', 'SupportsOutputReferred', 'ToneCurveName2012',
+  'ToneCurveName', 'LookName', 'OverrideLookVignette',
+];
+
+export const SUPPORTED_TAGS = new Set<string>([
+  ...SCALAR_FIELDS.map(field => field.tag),
+  ...VIGNETTE_FIELDS.map(field => field.tag),
+  ...GRAIN_FIELDS.map(field => field.tag),
+  ...HSL_COLORS.reduce<string[]>(
+    (tags, { name }) => tags.concat(HSL_PROPERTIES.map(({ prefix }) => `${prefix}${name}`)),
+    []
+  ),
+  TONE_CURVE_TAG,
+  ...CHANNEL_CURVE_TAGS.map(({ tag }) => tag),
+  ...PARAMETRIC_FIELDS.map(({ tag }) => tag),
+  INCREMENTAL_TEMPERATURE_TAG,
+  ...CROP_TAGS,
+  ...KELVIN_TAGS,
+]);
+
+export const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Raw tint runs -150..150 where ours runs -100..100
+export const rawTintToTint = (tint: number) => clamp(Math.round(tint / 1.5), -100, 100);
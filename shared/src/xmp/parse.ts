@@ -0,0 +1,247 @@
+import { CurvePoint, HslBand } from '../pipeline/types';
+import { MAX_KELVIN, MIN_KELVIN, incrementalToKelvin } from '../pipeline/whiteBalance';
+import {
+  SCALAR_FIELDS,
+  VIGNETTE_FIELDS,
+  GRAIN_FIELDS,
+  HSL_COLORS,
+  HSL_PROPERTIES,
+  TONE_CURVE_TAG,
+  CHANNEL_CURVE_TAGS,
+  PARAMETRIC_FIELDS,
+  INCREMENTAL_TEMPERATURE_TAG,
+  METADATA_TAGS,
+  SUPPORTED_TAGS,
+  clamp,
+  rawTintToTint,
+} from './fields';
+import { DevelopSettings, ParsedXmp, XmpCrop, XmpMetadata } from './types';
+
+// Camera Raw values are either plain text or an rdf:Seq/rdf:Alt list
+type XmpValue = string | string[];
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decode = (text: string) =>
+  text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (match, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity];
+    const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCharCode(code);
+  });
+
+const ELEMENT_PATTERN = /<crs:([A-Za-z0-9]+)(?:\s[^>]*)?>([\s\S]*?)<\/crs:\1>/g;
+const ATTRIBUTE_PATTERN = /\bcrs:([A-Za-z0-9]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const LIST_ITEM_PATTERN = /<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g;
+
+// Element content is either text or an rdf:Seq/Alt/Bag of items
+const readContent = (content: string): XmpValue => {
+  const items: string[] = [];
+  content.replace(LIST_ITEM_PATTERN, (item, text: string) => {
+    items.push(decode(text.trim()));
+    return item;
+  });
+  return items.length > 0 ? items : decode(content.trim());
+};
+
+/**
+ * Collect every crs: setting in the file, whether written as an attribute of
+ * rdf:Description or as a child element. Elements are read first and cut out,
+ * so attributes of nested structures (e.g. a Look's own crs:Name) don't leak
+ * into the top level.
+ */
+const collectValues = (xml: string): Map<string, XmpValue> => {
+  const values = new Map<string, XmpValue>();
+
+  const remaining = xml.replace(ELEMENT_PATTERN, (match, tag: string, content: string) => {
+    values.set(tag, readContent(content));
+    return '';
+  });
+
+  remaining.replace(ATTRIBUTE_PATTERN, (match, tag: string, doubleQuoted?: string, singleQuoted?: string) => {
+    if (!values.has(tag)) {
+      values.set(tag, decode(doubleQuoted ?? singleQuoted ?? ''));
+    }
+    return match;
+  });
+
+  return values;
+};
+
+const text = (value: XmpValue | undefined) => (Array.isArray(value) ? value[0] : value);
+
+const number = (value: XmpValue | undefined): number | undefined => {
+  const raw = text(value);
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const parsed = parseFloat(raw);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const round = (value: number, decimals = 0) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// A setting left at its neutral value doesn't change the image, so dropping it loses nothing
+const isNeutral = (value: XmpValue) => {
+  if (Array.isArray(value)) return value.length === 0;
+  const trimmed = value.trim();
+  return trimmed === '' || trimmed === 'False' || (Number.isFinite(Number(trimmed)) && Number(trimmed) === 0);
+};
+
+// A property outside the crs namespace, e.g. xmp:Rating or dc:subject
+const readProperty = (xml: string, qualifiedName: string): XmpValue | undefined => {
+  const element = new RegExp(`<${qualifiedName}(?:\\s[^>]*)?>([\\s\\S]*?)</${qualifiedName}>`).exec(xml);
+  if (element) return readContent(element[1]);
+
+  const attribute = new RegExp(`\\b${qualifiedName}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(xml);
+  return attribute ? decode(attribute[1] ?? attribute[2]) : undefined;
+};
+
+const parseMetadata = (xml: string): XmpMetadata => {
+  const metadata: XmpMetadata = {};
+
+  const title = text(readProperty(xml, 'dc:title'));
+  if (title) metadata.title = title;
+
+  const description = text(readProperty(xml, 'dc:description'));
+  if (description) metadata.description = description;
+
+  const rating = number(readProperty(xml, 'xmp:Rating'));
+  if (rating !== undefined) metadata.rating = clamp(Math.round(rating), 0, 5);
+
+  const subject = readProperty(xml, 'dc:subject');
+  const keywords = (Array.isArray(subject) ? subject : subject ? subject.split(',') : [])
+    .map(keyword => keyword.trim())
+    .filter(keyword => keyword);
+  if (keywords.length > 0) metadata.keywords = keywords;
+
+  return metadata;
+};
+
+const parseCurve = (value: XmpValue | undefined): CurvePoint[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  const points = value
+    .map(item => item.split(',').map(part => parseFloat(part)))
+    .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y))
+    .map(([x, y]) => ({ x: clamp(Math.round(x), 0, 255), y: clamp(Math.round(y), 0, 255) }));
+
+  return points.length >= 2 ? points : undefined;
+};
+
+const parseCrop = (values: Map<string, XmpValue>): XmpCrop | null => {
+  if (text(values.get('HasCrop')) !== 'True') return null;
+
+  const top = clamp(number(values.get('CropTop')) ?? 0, 0, 1);
+  const left = clamp(number(values.get('CropLeft')) ?? 0, 0, 1);
+  const bottom = clamp(number(values.get('CropBottom')) ?? 1, 0, 1);
+  const right = clamp(number(values.get('CropRight')) ?? 1, 0, 1);
+  if (bottom <= top || right <= left) return null;
+
+  return {
+    x: left,
+    y: top,
+    width: right - left,
+    height: bottom - top,
+    rotation: clamp(number(values.get('CropAngle')) ?? 0, -180, 180),
+  };
+};
+
+/**
+ * Read the develop settings from a Lightroom/Camera Raw XMP preset or
+ * sidecar. Values are mapped onto the editor's settings and clamped to its
+ * ranges; settings with no equivalent are listed in `unsupported`. Title,
+ * rating and keywords are read into `metadata`.
+ */
+export const parseXmp = (xml: string): ParsedXmp => {
+  const values = collectValues(xml);
+  const settings: DevelopSettings = {};
+
+  SCALAR_FIELDS.forEach(({ tag, key, min, max, decimals }) => {
+    const value = number(values.get(tag));
+    if (value !== undefined) {
+      settings[key] = round(clamp(value, min, max), decimals);
+    }
+  });
+
+  const incremental = number(values.get(INCREMENTAL_TEMPERATURE_TAG));
+  if (incremental !== undefined) {
+    settings.temperature = incrementalToKelvin(clamp(incremental, -100, 100));
+  }
+
+  // Raw presets carry absolute white balance instead of the incremental tags
+  const whiteBalance = text(values.get('WhiteBalance'));
+  const customWhiteBalance = whiteBalance === undefined || whiteBalance === 'Custom';
+  const kelvin = number(values.get('Temperature'));
+  const rawTint = number(values.get('Tint'));
+  if (settings.temperature === undefined && kelvin !== undefined && kelvin > 0 && customWhiteBalance) {
+    settings.temperature = Math.round(clamp(kelvin, MIN_KELVIN, MAX_KELVIN));
+  }
+  if (settings.tint === undefined && rawTint !== undefined && customWhiteBalance) {
+    settings.tint = rawTintToTint(rawTint);
+  }
+
+  VIGNETTE_FIELDS.forEach(({ tag, key, min, max }) => {
+    const value = number(values.get(tag));
+    if (value !== undefined) {
+      settings.vignette = { ...settings.vignette, [key]: round(clamp(value, min, max)) };
+    }
+  });
+
+  GRAIN_FIELDS.forEach(({ tag, key }) => {
+    const value = number(values.get(tag));
+    if (value !== undefined) {
+      settings.grain = { ...settings.grain, [key]: round(clamp(value, 0, 100)) };
+    }
+  });
+
+  HSL_COLORS.forEach(({ name, color }) => {
+    HSL_PROPERTIES.forEach(({ prefix, key }) => {
+      const value = number(values.get(`${prefix}${name}`));
+      if (value === undefined) return;
+
+      const bands = settings.hslAdjustments || {};
+      const band: HslBand = { ...bands[color], [key]: round(clamp(value, -100, 100)) };
+      settings.hslAdjustments = { ...bands, [color]: band };
+    });
+  });
+
+  const curve = parseCurve(values.get(TONE_CURVE_TAG));
+  if (curve) {
+    settings.curves = curve;
+  }
+
+  CHANNEL_CURVE_TAGS.forEach(({ tag, channel }) => {
+    const points = parseCurve(values.get(tag));
+    if (points) {
+      settings.toneCurve = { ...settings.toneCurve, [channel]: points };
+    }
+  });
+
+  PARAMETRIC_FIELDS.forEach(({ tag, key, min, max }) => {
+    const value = number(values.get(tag));
+    if (value === undefined) return;
+
+    const toneCurve = settings.toneCurve || {};
+    toneCurve.parametric = { ...toneCurve.parametric, [key]: round(clamp(value, min, max)) };
+    settings.toneCurve = toneCurve;
+  });
+
+  const unsupported = Array.from(values.entries())
+    .filter(([tag, value]) => !SUPPORTED_TAGS.has(tag) && !METADATA_TAGS.includes(tag) && !isNeutral(value))
+    .map(([tag]) => tag)
+    .sort();
+
+  const name = text(values.get('Name'));
+  const group = text(values.get('Group'));
+
+  return {
+    ...(name ? { name } : {}),
+    ...(group ? { group } : {}),
+    settings,
+    crop: parseCrop(values),
+    metadata: parseMetadata(xml),
+    alreadyApplied: text(values.get('AlreadyApplied')) === 'True',
+    unsupported,
+  };
+};
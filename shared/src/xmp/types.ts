@@ -0,0 +1,75 @@
+import { CurvePoint, HslAdjustments, ParametricCurveSettings } from '../pipeline/types';
+
+// Develop settings as the editor names them. Only fields an XMP file set are
+// present after parsing.
+export interface DevelopSettings {
+  exposure?: number;
+  contrast?: number;
+  highlights?: number;
+  shadows?: number;
+  whites?: number;
+  blacks?: number;
+  // Kelvin
+  temperature?: number;
+  tint?: number;
+  vibrance?: number;
+  saturation?: number;
+  texture?: number;
+  clarity?: number;
+  dehaze?: number;
+  vignette?: {
+    amount?: number;
+    midpoint?: number;
+    roundness?: number;
+    feather?: number;
+  };
+  grain?: {
+    amount?: number;
+    size?: number;
+    roughness?: number;
+  };
+  curves?: CurvePoint[];
+  toneCurve?: {
+    red?: CurvePoint[];
+    green?: CurvePoint[];
+    blue?: CurvePoint[];
+    parametric?: ParametricCurveSettings;
+  };
+  hslAdjustments?: HslAdjustments;
+}
+
+// Crop as fractions of the image, the way XMP stores it
+export interface XmpCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+// Catalogue fields a sidecar carries alongside the develop settings
+export interface XmpMetadata {
+  title?: string;
+  description?: string;
+  // 0-5 stars; Lightroom's rejected flag (-1) reads as 0
+  rating?: number;
+  keywords?: string[];
+}
+
+export interface XmpDocument {
+  // Preset name and group, when the file is a preset rather than a sidecar
+  name?: string;
+  group?: string;
+  settings: DevelopSettings;
+  crop: XmpCrop | null;
+  metadata?: XmpMetadata;
+}
+
+export interface ParsedXmp extends XmpDocument {
+  metadata: XmpMetadata;
+  // Set by Lightroom when the settings are already baked into the pixels,
+  // as in exported JPEGs; applying them again would double them
+  alreadyApplied: boolean;
+  // Camera Raw settings the file changed that have no equivalent here
+  unsupported: string[];
+}
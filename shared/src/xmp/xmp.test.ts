@@ -0,0 +1,273 @@
+import { buildXmp } from './build';
+import { parseXmp } from './parse';
+import { XmpDocument } from './types';
+
+// Every setting the importer understands, at non-default values
+const fullDocument: XmpDocument = {
+  name: 'Warm Film',
+  group: 'Film & Grain',
+  settings: {
+    exposure: 0.35,
+    contrast: 20,
+    highlights: -45,
+    shadows: 30,
+    whites: 10,
+    blacks: -15,
+    // +12 on Lightroom's relative scale, which is what gets written
+    temperature: 7064,
+    tint: -4,
+    vibrance: 18,
+    saturation: -6,
+    texture: 8,
+    clarity: 14,
+    dehaze: 5,
+    vignette: { amount: -22, midpoint: 35, roundness: 20, feather: 70 },
+    grain: { amount: 25, size: 30, roughness: 60 },
+    curves: [{ x: 0, y: 12 }, { x: 64, y: 58 }, { x: 192, y: 200 }, { x: 255, y: 245 }],
+    toneCurve: {
+      red: [{ x: 0, y: 0 }, { x: 128, y: 150 }, { x: 255, y: 255 }],
+      blue: [{ x: 0, y: 20 }, { x: 255, y: 235 }],
+      parametric: { shadows: 15, darks: -5, lights: 10, highlights: -20, shadowSplit: 30, midtoneSplit: 50, highlightSplit: 70 },
+    },
+    hslAdjustments: {
+      red: { hue: 5, saturation: -10, lightness: 3 },
+      aqua: { hue: -8 },
+      magenta: { lightness: 12 },
+    },
+  },
+  crop: { x: 0.1, y: 0.05, width: 0.8, height: 0.75, rotation: -2.5 },
+  metadata: {
+    title: 'Harbour at <dusk>',
+    description: 'Shot from the pier',
+    rating: 4,
+    keywords: ['harbour', 'boats & ships', 'evening'],
+  },
+};
+
+// Trimmed from a preset exported by Lightroom Classic: settings as attributes,
+// curves and names as elements, plus a few things we can't reproduce
+const lightroomPreset = `<x:xmpmeta xmlns:x="adobe:ns:meta/" x:xmptk="Adobe XMP Core 7.0-c000">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:crs="http://ns.adobe.com/camera-raw-settings/1.0/"
+    crs:PresetType="Normal"
+    crs:UUID="6A2C0C2E6F1B4A3C9E0D4F7B8A1C2D3E"
+    crs:SupportsAmount2="True"
+    crs:Version="15.0"
+    crs:ProcessVersion="11.0"
+    crs:WhiteBalance="Custom"
+    crs:Temperature="11000"
+    crs:Tint="+15"
+    crs:Exposure2012="+0.70"
+    crs:Contrast2012="-12"
+    crs:Highlights2012="-100"
+    crs:Shadows2012="+40"
+    crs:Clarity2012="+10"
+    crs:ParametricShadows="+25"
+    crs:Dehaze="0"
+    crs:Sharpness="40"
+    crs:LuminanceSmoothing="0"
+    crs:SplitToningShadowHue="220"
+    crs:SplitToningShadowSaturation="15"
+    crs:HueAdjustmentOrange="-6"
+    crs:SaturationAdjustmentBlue="-25"
+    crs:PostCropVignetteAmount="-18"
+    crs:PostCropVignetteMidpoint="50"
+    crs:GrainAmount="20"
+    crs:HasSettings="True">
+   <crs:Name>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">Cool &amp; Crisp</rdf:li>
+    </rdf:Alt>
+   </crs:Name>
+   <crs:Group>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">Landscapes</rdf:li>
+    </rdf:Alt>
+   </crs:Group>
+   <crs:ToneCurvePV2012>
+    <rdf:Seq>
+     <rdf:li>0, 0</rdf:li>
+     <rdf:li>128, 140</rdf:li>
+     <rdf:li>255, 255</rdf:li>
+    </rdf:Seq>
+   </crs:ToneCurvePV2012>
+   <crs:ToneCurvePV2012Red>
+    <rdf:Seq>
+     <rdf:li>0, 10</rdf:li>
+     <rdf:li>255, 255</rdf:li>
+    </rdf:Seq>
+   </crs:ToneCurvePV2012Red>
+   <crs:Look>
+    <rdf:Description crs:Name="Adobe Landscape" crs:Amount="1"/>
+   </crs:Look>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>`;
+
+describe('parseXmp', () => {
+  it('maps the supported Lightroom settings and reports the rest', () => {
+    const parsed = parseXmp(lightroomPreset);
+
+    expect(parsed.name).toBe('Cool & Crisp');
+    expect(parsed.group).toBe('Landscapes');
+    expect(parsed.settings).toEqual({
+      exposure: 0.7,
+      contrast: -12,
+      highlights: -100,
+      shadows: 40,
+      clarity: 10,
+      dehaze: 0,
+      vignette: { amount: -18, midpoint: 50 },
+      // Raw tint +15 is +10 on our scale
+      temperature: 11000,
+      tint: 10,
+      grain: { amount: 20 },
+      curves: [{ x: 0, y: 0 }, { x: 128, y: 140 }, { x: 255, y: 255 }],
+      toneCurve: {
+        red: [{ x: 0, y: 10 }, { x: 255, y: 255 }],
+        parametric: { shadows: 25 },
+      },
+      hslAdjustments: {
+        orange: { hue: -6 },
+        blue: { saturation: -25 },
+      },
+    });
+    expect(parsed.crop).toBeNull();
+
+    // Dropped on import. Neutral values (LuminanceSmoothing="0") aren't listed
+    // because ignoring them doesn't change the result.
+    expect(parsed.unsupported).toEqual([
+      'Look',
+      'Sharpness',
+      'SplitToningShadowHue',
+      'SplitToningShadowSaturation',
+    ]);
+  });
+
+  it('prefers the incremental white balance tags over Kelvin values', () => {
+    const parsed = parseXmp(
+      '<rdf:Description crs:Temperature="2750" crs:IncrementalTemperature="+8" crs:Tint="-30"/>'
+    );
+    // +8 relative to 6500K
+    expect(parsed.settings.temperature).toBe(6871);
+    expect(parsed.settings.tint).toBe(-20);
+  });
+
+  it('ignores Kelvin values for as-shot white balance', () => {
+    const parsed = parseXmp('<rdf:Description crs:WhiteBalance="As Shot" crs:Temperature="3200" crs:Tint="+4"/>');
+    expect(parsed.settings.temperature).toBeUndefined();
+    expect(parsed.settings.tint).toBeUndefined();
+  });
+
+  it('clamps values to the editor ranges', () => {
+    const parsed = parseXmp(
+      "<rdf:Description crs:Exposure2012='+7.25' crs:Contrast2012='-140' crs:GrainSize='180'/>"
+    );
+    expect(parsed.settings).toEqual({ exposure: 5, contrast: -100, grain: { size: 100 } });
+  });
+
+  it('reads a crop from the crop rectangle', () => {
+    const parsed = parseXmp(
+      '<rdf:Description crs:HasCrop="True" crs:CropTop="0.1" crs:CropLeft="0.2" crs:CropBottom="0.9" crs:CropRight="0.6" crs:CropAngle="3.5"/>'
+    );
+    expect(parsed.crop?.x).toBeCloseTo(0.2);
+    expect(parsed.crop?.y).toBeCloseTo(0.1);
+    expect(parsed.crop?.width).toBeCloseTo(0.4);
+    expect(parsed.crop?.height).toBeCloseTo(0.8);
+    expect(parsed.crop?.rotation).toBe(3.5);
+  });
+
+  it('ignores the crop rectangle when HasCrop is off', () => {
+    const parsed = parseXmp('<rdf:Description crs:HasCrop="False" crs:CropTop="0.1" crs:CropBottom="0.9"/>');
+    expect(parsed.crop).toBeNull();
+    expect(parsed.unsupported).toEqual([]);
+  });
+});
+
+// Embedded XMP from a JPEG exported by Lightroom, edits already rendered in
+const exportedJpegXmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:crs="http://ns.adobe.com/camera-raw-settings/1.0/"
+    xmp:Rating="-1"
+    crs:AlreadyApplied="True"
+    crs:Exposure2012="+0.40">
+   <dc:title>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">Old Town</rdf:li>
+    </rdf:Alt>
+   </dc:title>
+   <dc:subject>
+    <rdf:Bag>
+     <rdf:li>street</rdf:li>
+     <rdf:li> night </rdf:li>
+    </rdf:Bag>
+   </dc:subject>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>`;
+
+describe('parseXmp metadata', () => {
+  it('reads title, rating and keywords', () => {
+    const parsed = parseXmp(exportedJpegXmp);
+
+    // Rejected photos have no star rating here
+    expect(parsed.metadata).toEqual({ title: 'Old Town', rating: 0, keywords: ['street', 'night'] });
+    expect(parsed.alreadyApplied).toBe(true);
+  });
+
+  it('reads a rating written as an element', () => {
+    expect(parseXmp('<xmp:Rating>3</xmp:Rating>').metadata).toEqual({ rating: 3 });
+  });
+
+  it('returns empty metadata for presets', () => {
+    expect(parseXmp(lightroomPreset).metadata).toEqual({});
+  });
+});
+
+describe('buildXmp', () => {
+  it('round-trips every supported setting', () => {
+    const parsed = parseXmp(buildXmp(fullDocument));
+
+    expect(parsed.name).toBe(fullDocument.name);
+    expect(parsed.group).toBe(fullDocument.group);
+    expect(parsed.settings).toEqual(fullDocument.settings);
+    expect(parsed.crop?.x).toBeCloseTo(0.1);
+    expect(parsed.crop?.y).toBeCloseTo(0.05);
+    expect(parsed.crop?.width).toBeCloseTo(0.8);
+    expect(parsed.crop?.height).toBeCloseTo(0.75);
+    expect(parsed.crop?.rotation).toBe(-2.5);
+    expect(parsed.metadata).toEqual(fullDocument.metadata);
+    expect(parsed.alreadyApplied).toBe(false);
+    expect(parsed.unsupported).toEqual([]);
+  });
+
+  it('writes white balance as incremental tags, so Kelvin imports are lossy', () => {
+    const imported = parseXmp('<rdf:Description crs:Temperature="5000" crs:Tint="+10"/>');
+    const exported = buildXmp({ settings: imported.settings, crop: null });
+
+    expect(exported).toContain('crs:IncrementalTemperature="-38"');
+    expect(exported).toContain('crs:IncrementalTint="+7"');
+    expect(exported).not.toContain('crs:Temperature=');
+  });
+
+  it('writes Lightroom-style signed values', () => {
+    const xmp = buildXmp({ settings: { exposure: 1, contrast: -20, shadows: 0 }, crop: null });
+
+    expect(xmp).toContain('crs:ProcessVersion="11.0"');
+    expect(xmp).toContain('crs:Exposure2012="+1.00"');
+    expect(xmp).toContain('crs:Contrast2012="-20"');
+    expect(xmp).toContain('crs:Shadows2012="0"');
+  });
+
+  it('writes a sidecar without preset metadata when unnamed', () => {
+    const xmp = buildXmp({ settings: { exposure: 0.5 }, crop: null });
+
+    expect(xmp).not.toContain('crs:PresetType');
+    expect(xmp).not.toContain('<crs:Name>');
+    expect(parseXmp(xmp).name).toBeUndefined();
+  });
+});